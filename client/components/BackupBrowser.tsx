@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { BackupComparison, BackupCounts } from "@/lib/backup";
+import type { BackupFile } from "@/lib/backupRotation";
+import { readBackupSummary, type BackupSummary } from "@/lib/backupFiles";
+
+export interface BackupFileComparison {
+  uri: string;
+  counts: BackupCounts;
+  comparison: BackupComparison;
+}
+
+interface BackupBrowserProps {
+  files: BackupFile[];
+  /** Uris of files that failed their checksum. */
+  corrupt: Set<string>;
+  /** Whether delete and restore are offered. */
+  canManage: boolean;
+  /** The comparison to show under its file, if any. */
+  comparison: BackupFileComparison | null;
+  onCompare: (file: BackupFile) => void;
+  onShare: (file: BackupFile) => void;
+  onRestore: (file: BackupFile) => void;
+  onDelete: (file: BackupFile) => void;
+}
+
+// Enough to find last week's backups without a very long screen
+const INITIAL_VISIBLE = 5;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatCounts(counts: BackupCounts): string {
+  return [
+    `${counts.members} members`,
+    `${counts.sales} sales`,
+    `${counts.attendance} visits`,
+    `${counts.subscriptions} subscriptions`,
+    `${counts.shifts} shifts`,
+  ].join(" · ");
+}
+
+function formatChange(backup: number, live: number): string {
+  const change = live - backup;
+  return change === 0 ? "no change" : `${change > 0 ? "+" : ""}${change}`;
+}
+
+function formatNames(names: string[]): string {
+  const shown = names.slice(0, 5).join(", ");
+  return names.length > 5 ? `${shown} and ${names.length - 5} more` : shown;
+}
+
+export const BackupBrowser = ({
+  files,
+  corrupt,
+  canManage,
+  comparison,
+  onCompare,
+  onShare,
+  onRestore,
+  onDelete,
+}: BackupBrowserProps) => {
+  const { theme } = useTheme();
+  const [summaries, setSummaries] = useState<Record<string, BackupSummary>>({});
+  const [showAll, setShowAll] = useState(false);
+
+  const visible = useMemo(
+    () => (showAll ? files : files.slice(0, INITIAL_VISIBLE)),
+    [files, showAll],
+  );
+
+  // Files are read one at a time so a long list does not hold up the screen
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const file of visible) {
+        const summary = await readBackupSummary(file);
+        if (cancelled) return;
+        setSummaries((prev) => ({ ...prev, [file.uri]: summary }));
+      }
+    })().catch((error) =>
+      console.error("[Backup] Failed to read backup summaries:", error),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  if (files.length === 0) {
+    return (
+      <ThemedText style={[styles.empty, { color: theme.textSecondary }]}>
+        No backups on this device yet.
+      </ThemedText>
+    );
+  }
+
+  const renderSummary = (file: BackupFile) => {
+    if (corrupt.has(file.uri)) {
+      return (
+        <ThemedText style={[styles.detail, { color: theme.error }]}>
+          Damaged: does not match its checksum
+        </ThemedText>
+      );
+    }
+    const summary = summaries[file.uri];
+    if (!summary) {
+      return (
+        <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+          Reading...
+        </ThemedText>
+      );
+    }
+    if (summary.status === "encrypted") {
+      return (
+        <View style={styles.encrypted}>
+          <Feather name="lock" size={12} color={theme.textSecondary} />
+          <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+            Encrypted; compare to see its contents
+          </ThemedText>
+        </View>
+      );
+    }
+    if (summary.status === "unreadable") {
+      return (
+        <ThemedText style={[styles.detail, { color: theme.error }]}>
+          {summary.message}
+        </ThemedText>
+      );
+    }
+    return (
+      <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+        {formatCounts(summary.counts)}
+      </ThemedText>
+    );
+  };
+
+  const renderComparison = ({
+    counts,
+    comparison: diff,
+  }: BackupFileComparison) => (
+    <View
+      style={[styles.comparison, { backgroundColor: theme.backgroundTertiary }]}
+    >
+      <ThemedText style={styles.comparisonTitle}>
+        This device compared with the backup
+      </ThemedText>
+      <ThemedText style={styles.comparisonLine}>
+        {`Members: ${counts.members} in backup, ${diff.membersAdded.length} added and ${diff.membersRemoved.length} removed since`}
+      </ThemedText>
+      {diff.membersAdded.length > 0 ? (
+        <ThemedText
+          style={[styles.comparisonNames, { color: theme.textSecondary }]}
+        >
+          {`Added: ${formatNames(diff.membersAdded)}`}
+        </ThemedText>
+      ) : null}
+      {diff.membersRemoved.length > 0 ? (
+        <ThemedText
+          style={[styles.comparisonNames, { color: theme.textSecondary }]}
+        >
+          {`Removed: ${formatNames(diff.membersRemoved)}`}
+        </ThemedText>
+      ) : null}
+      <ThemedText style={styles.comparisonLine}>
+        {`Sales: ${diff.sales.backupCount} totaling ₱${diff.sales.backupTotal.toLocaleString()} in backup, ${diff.sales.liveCount} totaling ₱${diff.sales.liveTotal.toLocaleString()} now (${formatChange(diff.sales.backupCount, diff.sales.liveCount)})`}
+      </ThemedText>
+      <ThemedText style={styles.comparisonLine}>
+        {`Attendance: ${diff.attendance.backup} visits in backup, ${diff.attendance.live} now (${formatChange(diff.attendance.backup, diff.attendance.live)})`}
+      </ThemedText>
+    </View>
+  );
+
+  const actions: {
+    icon: keyof typeof Feather.glyphMap;
+    label: string;
+    onPress: (file: BackupFile) => void;
+  }[] = [
+    { icon: "git-pull-request", label: "Compare", onPress: onCompare },
+    { icon: "share", label: "Share", onPress: onShare },
+    ...(canManage
+      ? [
+          { icon: "upload" as const, label: "Restore", onPress: onRestore },
+          { icon: "trash-2" as const, label: "Delete", onPress: onDelete },
+        ]
+      : []),
+  ];
+
+  return (
+    <View>
+      {visible.map((file) => (
+        <View
+          key={file.uri}
+          style={[styles.item, { borderBottomColor: theme.border }]}
+        >
+          <View style={styles.itemHeader}>
+            <Feather
+              name={file.kind === "auto" ? "clock" : "save"}
+              size={16}
+              color={theme.textSecondary}
+            />
+            <ThemedText style={styles.itemTitle}>
+              {file.createdAt.toLocaleString()}
+            </ThemedText>
+            <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+              {`${file.kind === "auto" ? "Automatic" : "Manual"} · ${formatSize(file.size)}`}
+            </ThemedText>
+          </View>
+          {renderSummary(file)}
+          <View style={styles.actions}>
+            {actions.map((action) => (
+              <Pressable
+                key={action.label}
+                onPress={() => action.onPress(file)}
+                disabled={action.label !== "Delete" && corrupt.has(file.uri)}
+                style={({ pressed }) => [
+                  styles.action,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    opacity:
+                      action.label !== "Delete" && corrupt.has(file.uri)
+                        ? 0.4
+                        : pressed
+                          ? 0.6
+                          : 1,
+                  },
+                ]}
+              >
+                <Feather
+                  name={action.icon}
+                  size={14}
+                  color={action.label === "Delete" ? theme.error : theme.text}
+                />
+                <ThemedText
+                  style={[
+                    styles.actionText,
+                    action.label === "Delete"
+                      ? { color: theme.error }
+                      : undefined,
+                  ]}
+                >
+                  {action.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          {comparison?.uri === file.uri ? renderComparison(comparison) : null}
+        </View>
+      ))}
+      {files.length > INITIAL_VISIBLE ? (
+        <Pressable onPress={() => setShowAll((prev) => !prev)}>
+          <ThemedText style={[styles.showAll, { color: theme.primary }]}>
+            {showAll ? "Show fewer" : `Show all ${files.length} backups`}
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    fontSize: 13,
+  },
+  item: {
+    paddingVertical: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: Spacing.xs,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  itemTitle: {
+    flex: 1,
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  detail: {
+    fontSize: 12,
+  },
+  encrypted: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  actionText: {
+    fontSize: 12,
+  },
+  comparison: {
+    marginTop: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    gap: Spacing.xs,
+  },
+  comparisonTitle: {
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  comparisonLine: {
+    fontSize: 13,
+  },
+  comparisonNames: {
+    fontSize: 12,
+    marginLeft: Spacing.md,
+  },
+  showAll: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { CardReissue } from "@/context/AppContext";
+import {
+  CARD_REISSUE_REASONS,
+  CARD_REISSUE_REASON_LABELS,
+  CardReissueReason,
+} from "@/lib/memberCards";
+
+type ReissueDetails = Pick<CardReissue, "reason" | "fee">;
+
+interface CardReissueModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (reissue: ReissueDetails) => void;
+  memberName?: string;
+}
+
+export const CardReissueModal = ({
+  visible,
+  onClose,
+  onConfirm,
+  memberName,
+}: CardReissueModalProps) => {
+  const { theme } = useTheme();
+
+  const [reason, setReason] = useState<CardReissueReason>("lost");
+  const [fee, setFee] = useState("");
+
+  // Start from a clean form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setReason("lost");
+      setFee("");
+    }
+  }, [visible]);
+
+  const handleConfirm = () => {
+    onConfirm({ reason, fee: parseFloat(fee) || 0 });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <ThemedText type="h4" style={styles.title}>
+                Reissue Card
+              </ThemedText>
+              {memberName ? (
+                <ThemedText
+                  style={[styles.subtitle, { color: theme.textSecondary }]}
+                >
+                  {memberName}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ThemedText style={styles.label}>Reason</ThemedText>
+          <View style={styles.chips}>
+            {CARD_REISSUE_REASONS.map((r) => (
+              <Pressable
+                key={r}
+                onPress={() => setReason(r)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor:
+                      reason === r ? theme.primary : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={reason === r ? { color: "#FFFFFF" } : undefined}
+                >
+                  {CARD_REISSUE_REASON_LABELS[r]}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          <ThemedText style={styles.label}>
+            Replacement Fee (optional)
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+                borderColor: theme.border,
+              },
+            ]}
+            value={fee}
+            onChangeText={(text) => setFee(text.replace(/[^0-9.]/g, ""))}
+            keyboardType="decimal-pad"
+            placeholder="0.00"
+            placeholderTextColor={theme.textSecondary}
+          />
+
+          <ThemedText style={[styles.hint, { color: theme.textSecondary }]}>
+            The member gets a new QR code. Every card printed before stops
+            scanning straight away.
+          </ThemedText>
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={onClose}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleConfirm}
+              style={[styles.button, { backgroundColor: theme.primary }]}
+            >
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                Reissue
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "500",
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  chip: {
+    height: Spacing.inputHeight,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: Spacing.lg,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
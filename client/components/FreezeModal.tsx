@@ -0,0 +1,350 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  Switch,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Calendar } from "react-native-calendars";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { Freeze } from "@/context/AppContext";
+import { getLocalDate } from "@/lib/occupancy";
+
+type FreezeDetails = Pick<Freeze, "start_date" | "end_date" | "reason" | "fee">;
+
+interface FreezeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (freeze: FreezeDetails) => void;
+  memberName?: string;
+}
+
+export const FreezeModal = ({
+  visible,
+  onClose,
+  onConfirm,
+  memberName,
+}: FreezeModalProps) => {
+  const { theme } = useTheme();
+  const today = getLocalDate();
+
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState<string | null>(null);
+  const [openEnded, setOpenEnded] = useState(true);
+  const [reason, setReason] = useState("");
+  const [fee, setFee] = useState("");
+  const [pickingDate, setPickingDate] = useState<"start" | "end" | null>(null);
+
+  // Start from a clean form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setStartDate(today);
+      setEndDate(null);
+      setOpenEnded(true);
+      setReason("");
+      setFee("");
+      setPickingDate(null);
+    }
+  }, [visible, today]);
+
+  const handleConfirm = () => {
+    if (!reason.trim()) {
+      Alert.alert(
+        "Missing Information",
+        "Please enter a reason for the freeze.",
+      );
+      return;
+    }
+    if (!openEnded && !endDate) {
+      Alert.alert("Missing Information", "Please pick an end date.");
+      return;
+    }
+    if (!openEnded && endDate && endDate < startDate) {
+      Alert.alert(
+        "Invalid Dates",
+        "The end date must be after the start date.",
+      );
+      return;
+    }
+
+    onConfirm({
+      start_date: startDate,
+      end_date: openEnded ? null : endDate,
+      reason: reason.trim(),
+      fee: parseFloat(fee) || 0,
+    });
+  };
+
+  const renderDateRow = (
+    label: string,
+    value: string | null,
+    field: "start" | "end",
+  ) => (
+    <Pressable
+      onPress={() => setPickingDate(field)}
+      style={[
+        styles.dateRow,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          borderColor: theme.border,
+        },
+      ]}
+    >
+      <ThemedText style={{ color: theme.textSecondary }}>{label}</ThemedText>
+      <View style={styles.dateValue}>
+        <ThemedText style={styles.dateText}>
+          {value ?? "Pick a date"}
+        </ThemedText>
+        <Feather name="calendar" size={16} color={theme.primary} />
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <ThemedText type="h4" style={styles.title}>
+                {pickingDate === "start"
+                  ? "Freeze Starts"
+                  : pickingDate === "end"
+                    ? "Freeze Ends"
+                    : "Freeze Membership"}
+              </ThemedText>
+              {memberName ? (
+                <ThemedText
+                  style={[styles.subtitle, { color: theme.textSecondary }]}
+                >
+                  {memberName}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {pickingDate ? (
+            <Calendar
+              minDate={pickingDate === "end" ? startDate : undefined}
+              onDayPress={(day) => {
+                if (pickingDate === "start") {
+                  setStartDate(day.dateString);
+                  if (endDate && endDate < day.dateString) setEndDate(null);
+                } else {
+                  setEndDate(day.dateString);
+                }
+                setPickingDate(null);
+              }}
+              markedDates={{
+                [(pickingDate === "start" ? startDate : endDate) ?? today]: {
+                  selected: true,
+                  selectedColor: theme.primary,
+                },
+              }}
+              theme={{
+                backgroundColor: theme.backgroundDefault,
+                calendarBackground: theme.backgroundDefault,
+                textSectionTitleColor: theme.text,
+                selectedDayBackgroundColor: theme.primary,
+                selectedDayTextColor: "#FFFFFF",
+                todayTextColor: theme.primary,
+                dayTextColor: theme.text,
+                textDisabledColor: theme.textSecondary,
+                monthTextColor: theme.text,
+                arrowColor: theme.primary,
+              }}
+            />
+          ) : (
+            <>
+              {renderDateRow("Start Date", startDate, "start")}
+
+              <View style={styles.toggleRow}>
+                <ThemedText>Open-ended</ThemedText>
+                <Switch
+                  value={openEnded}
+                  onValueChange={setOpenEnded}
+                  trackColor={{
+                    false: theme.backgroundTertiary,
+                    true: theme.primary + "80",
+                  }}
+                  thumbColor={
+                    openEnded ? theme.primary : theme.backgroundSecondary
+                  }
+                />
+              </View>
+              {!openEnded ? renderDateRow("End Date", endDate, "end") : null}
+
+              <ThemedText style={styles.label}>Reason</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={reason}
+                onChangeText={setReason}
+                placeholder="e.g. Injury, travelling"
+                placeholderTextColor={theme.textSecondary}
+              />
+
+              <ThemedText style={styles.label}>
+                Freeze Fee (optional)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={fee}
+                onChangeText={(text) => setFee(text.replace(/[^0-9.]/g, ""))}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor={theme.textSecondary}
+              />
+
+              <ThemedText style={[styles.hint, { color: theme.textSecondary }]}>
+                The subscription end date is pushed forward by the number of
+                days frozen when the freeze is lifted.
+              </ThemedText>
+
+              <View style={styles.buttons}>
+                <Pressable
+                  onPress={onClose}
+                  style={[
+                    styles.button,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <ThemedText>Cancel</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={handleConfirm}
+                  style={[styles.button, { backgroundColor: theme.frozen }]}
+                >
+                  <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                    Freeze
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  dateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  dateValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  dateText: {
+    fontWeight: "500",
+  },
+  toggleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "500",
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: Spacing.lg,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
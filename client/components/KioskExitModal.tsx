@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import * as Haptics from "expo-haptics";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { getActiveStaff } from "@/lib/staff";
+import { formatLockoutRemaining, getLockoutRemaining } from "@/lib/auth";
+
+interface KioskExitModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const KioskExitModal = ({ visible, onClose }: KioskExitModalProps) => {
+  const { theme } = useTheme();
+  const { staff, pinLockout, exitKioskMode } = useApp();
+
+  const [staffId, setStaffId] = useState<number | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+
+  const activeStaff = getActiveStaff(staff);
+  const selectedId = activeStaff.length === 1 ? activeStaff[0].id : staffId;
+  const lockoutRemaining = getLockoutRemaining(pinLockout.lockedUntil);
+  const isLockedOut = lockoutRemaining > 0;
+
+  // Start from a clean form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setStaffId(null);
+      setPin("");
+      setError("");
+    }
+  }, [visible]);
+
+  const handleUnlock = async () => {
+    if (selectedId === null) {
+      setError("Select your name first");
+      return;
+    }
+    const result = await exitKioskMode(selectedId, pin);
+    if (result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      return;
+    }
+    setPin("");
+    setError(
+      result.lockedUntil
+        ? ""
+        : result.attemptsLeft === 1
+          ? "Incorrect PIN. 1 attempt left"
+          : `Incorrect PIN. ${result.attemptsLeft} attempts left`,
+    );
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <ThemedText type="h4" style={styles.title}>
+                Exit Kiosk
+              </ThemedText>
+              <ThemedText
+                style={[styles.subtitle, { color: theme.textSecondary }]}
+              >
+                Staff only
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {activeStaff.length > 1 ? (
+            <View style={styles.chips}>
+              {activeStaff.map((s) => (
+                <Pressable
+                  key={s.id}
+                  onPress={() => {
+                    setStaffId(s.id);
+                    setError("");
+                  }}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor:
+                        selectedId === s.id
+                          ? theme.primary
+                          : theme.backgroundSecondary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={
+                      selectedId === s.id ? { color: "#FFFFFF" } : undefined
+                    }
+                  >
+                    {s.name}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+                borderColor: theme.border,
+              },
+            ]}
+            value={pin}
+            onChangeText={(text) => {
+              setPin(text.replace(/[^0-9]/g, ""));
+              setError("");
+            }}
+            placeholder="4-digit PIN"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="number-pad"
+            maxLength={4}
+            editable={!isLockedOut}
+            secureTextEntry
+          />
+
+          {isLockedOut ? (
+            <ThemedText style={[styles.error, { color: theme.error }]}>
+              Too many attempts. Try again in{" "}
+              {formatLockoutRemaining(lockoutRemaining)}
+            </ThemedText>
+          ) : error ? (
+            <ThemedText style={[styles.error, { color: theme.error }]}>
+              {error}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={onClose}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleUnlock}
+              disabled={pin.length !== 4 || isLockedOut}
+              style={[
+                styles.button,
+                {
+                  backgroundColor: theme.primary,
+                  opacity: pin.length !== 4 || isLockedOut ? 0.5 : 1,
+                },
+              ]}
+            >
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                Unlock
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  chip: {
+    height: Spacing.inputHeight,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 13,
+    marginBottom: Spacing.lg,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
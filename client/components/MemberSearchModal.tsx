@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+  Image,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { Member } from "@/context/AppContext";
+import { formatCardNumber, searchMembers } from "@/lib/memberCards";
+
+// Enough to pick from without rendering the whole member list
+const MAX_RESULTS = 20;
+
+interface MemberSearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (member: Member) => void;
+  members: Member[];
+}
+
+export const MemberSearchModal = ({
+  visible,
+  onClose,
+  onSelect,
+  members,
+}: MemberSearchModalProps) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState("");
+
+  // Start from a clean search each time the modal opens
+  useEffect(() => {
+    if (visible) setQuery("");
+  }, [visible]);
+
+  const results = useMemo(
+    () => searchMembers(members, query).slice(0, MAX_RESULTS),
+    [members, query],
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <ThemedText type="h4" style={styles.title}>
+                Manual Check-in
+              </ThemedText>
+              <ThemedText
+                style={[styles.subtitle, { color: theme.textSecondary }]}
+              >
+                For members without their card
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View
+            style={[
+              styles.searchContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <Feather name="search" size={20} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.searchInput, { color: theme.text }]}
+              placeholder="Name, phone or member number"
+              placeholderTextColor={theme.textSecondary}
+              value={query}
+              onChangeText={setQuery}
+              autoFocus
+              autoCorrect={false}
+            />
+            {query ? (
+              <Pressable onPress={() => setQuery("")}>
+                <Feather name="x" size={20} color={theme.textSecondary} />
+              </Pressable>
+            ) : null}
+          </View>
+
+          <ScrollView
+            style={styles.results}
+            keyboardShouldPersistTaps="handled"
+          >
+            {results.map((member) => (
+              <Pressable
+                key={member.id}
+                onPress={() => onSelect(member)}
+                style={[styles.resultRow, { borderColor: theme.border }]}
+              >
+                {member.photo ? (
+                  <Image source={{ uri: member.photo }} style={styles.photo} />
+                ) : (
+                  <View
+                    style={[
+                      styles.photo,
+                      styles.photoPlaceholder,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                  >
+                    <Feather
+                      name="user"
+                      size={24}
+                      color={theme.textSecondary}
+                    />
+                  </View>
+                )}
+                <View style={styles.resultInfo}>
+                  <ThemedText style={styles.resultName}>
+                    {member.firstname} {member.lastname}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.resultMeta, { color: theme.textSecondary }]}
+                  >
+                    {formatCardNumber(member)}
+                    {member.phone ? ` · ${member.phone}` : ""}
+                  </ThemedText>
+                </View>
+                <Feather
+                  name="chevron-right"
+                  size={20}
+                  color={theme.textSecondary}
+                />
+              </Pressable>
+            ))}
+            {query.trim() && results.length === 0 ? (
+              <ThemedText
+                style={[styles.empty, { color: theme.textSecondary }]}
+              >
+                No members found
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <ThemedText style={[styles.hint, { color: theme.textSecondary }]}>
+            Compare the photo with the person at the desk before continuing. The
+            visit is recorded as a manual entry.
+          </ThemedText>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "85%",
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: 1,
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  results: {
+    flexGrow: 0,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  photo: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+  },
+  photoPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontWeight: "600",
+  },
+  resultMeta: {
+    fontSize: 13,
+  },
+  empty: {
+    textAlign: "center",
+    paddingVertical: Spacing.lg,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: Spacing.lg,
+  },
+});
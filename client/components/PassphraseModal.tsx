@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { validatePassphrase } from "@/lib/backupEncryption";
+
+interface PassphraseModalProps {
+  visible: boolean;
+  /** "create" asks for a new passphrase twice; "restore" asks once. */
+  mode: "create" | "restore";
+  onClose: () => void;
+  /**
+   * Called with the passphrase, or null to back up without one. Returns a
+   * message to show in the modal when the passphrase is not accepted.
+   */
+  onSubmit: (passphrase: string | null) => Promise<string | null>;
+}
+
+export const PassphraseModal = ({
+  visible,
+  mode,
+  onClose,
+  onSubmit,
+}: PassphraseModalProps) => {
+  const { theme } = useTheme();
+
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Start from a clean form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setPassphrase("");
+      setConfirm("");
+      setError("");
+      setIsBusy(false);
+    }
+  }, [visible]);
+
+  const submit = async (value: string | null) => {
+    setIsBusy(true);
+    const message = await onSubmit(value);
+    setIsBusy(false);
+    if (message) {
+      setPassphrase("");
+      setConfirm("");
+      setError(message);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (mode === "create") {
+      const problem = validatePassphrase(passphrase);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      if (passphrase !== confirm) {
+        setError("Passphrases do not match");
+        return;
+      }
+    }
+    submit(passphrase);
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.backgroundSecondary,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+  ];
+  const canConfirm = passphrase.length > 0 && !isBusy;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={isBusy ? undefined : onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <ThemedText type="h4" style={styles.title}>
+                {mode === "create" ? "Encrypt Backup" : "Encrypted Backup"}
+              </ThemedText>
+              <ThemedText
+                style={[styles.subtitle, { color: theme.textSecondary }]}
+              >
+                {mode === "create"
+                  ? "Protect the file with a passphrase before it leaves this device. Without the passphrase it cannot be restored."
+                  : "Enter the passphrase this backup was made with."}
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={onClose}
+              disabled={isBusy}
+              style={styles.closeButton}
+            >
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <TextInput
+            style={inputStyle}
+            value={passphrase}
+            onChangeText={(text) => {
+              setPassphrase(text);
+              setError("");
+            }}
+            placeholder="Passphrase"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isBusy}
+            secureTextEntry
+          />
+          {mode === "create" ? (
+            <TextInput
+              style={inputStyle}
+              value={confirm}
+              onChangeText={(text) => {
+                setConfirm(text);
+                setError("");
+              }}
+              placeholder="Confirm passphrase"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isBusy}
+              secureTextEntry
+            />
+          ) : null}
+
+          {error ? (
+            <ThemedText style={[styles.error, { color: theme.error }]}>
+              {error}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={mode === "create" ? () => submit(null) : onClose}
+              disabled={isBusy}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>
+                {mode === "create" ? "No Passphrase" : "Cancel"}
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleConfirm}
+              disabled={!canConfirm}
+              style={[
+                styles.button,
+                {
+                  backgroundColor: theme.primary,
+                  opacity: canConfirm ? 1 : 0.5,
+                },
+              ]}
+            >
+              {isBusy ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                  {mode === "create" ? "Encrypt" : "Unlock"}
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 13,
+    marginBottom: Spacing.lg,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
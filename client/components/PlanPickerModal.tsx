@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { Plan } from "@/context/AppContext";
+import { formatPlanDuration, PLAN_CATEGORY_LABELS } from "@/lib/plans";
+import { getLocalDate } from "@/lib/occupancy";
+import {
+  formatRenewalStatus,
+  getRenewalContext,
+  quoteRenewal,
+  RenewalStart,
+} from "@/lib/renewal";
+
+interface PlanPickerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (plan: Plan, start: RenewalStart) => void;
+  plans: Plan[];
+  title: string;
+  memberName?: string;
+  defaultPlanId?: number;
+  /** The member's current end date; enables the start-date choice. */
+  currentEnd?: string | null;
+  graceDays?: number;
+}
+
+export const PlanPickerModal = ({
+  visible,
+  onClose,
+  onSelect,
+  plans,
+  title,
+  memberName,
+  defaultPlanId,
+  currentEnd = null,
+  graceDays = 0,
+}: PlanPickerModalProps) => {
+  const { theme } = useTheme();
+  const today = getLocalDate();
+  const renewal = useMemo(
+    () => getRenewalContext(currentEnd, today, graceDays),
+    [currentEnd, today, graceDays],
+  );
+  const [start, setStart] = useState<RenewalStart>(renewal.defaultStart);
+
+  // Re-apply the suggested start each time the picker opens
+  useEffect(() => {
+    if (visible) setStart(renewal.defaultStart);
+  }, [visible, renewal.defaultStart]);
+
+  const renderStartOption = (value: RenewalStart, label: string) => (
+    <Pressable
+      key={value}
+      onPress={() => setStart(value)}
+      style={[
+        styles.startOption,
+        {
+          backgroundColor:
+            start === value ? theme.primary : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[
+          styles.startOptionText,
+          start === value ? { color: "#FFFFFF" } : undefined,
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <ThemedText type="h4" style={styles.title}>
+                {title}
+              </ThemedText>
+              {memberName ? (
+                <ThemedText
+                  style={[styles.subtitle, { color: theme.textSecondary }]}
+                >
+                  {memberName}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {/* Start Date */}
+          {renewal.status !== "none" ? (
+            <View style={styles.startSection}>
+              <ThemedText
+                style={[
+                  styles.statusText,
+                  {
+                    color:
+                      renewal.status === "lapsed"
+                        ? theme.warning
+                        : theme.textSecondary,
+                  },
+                ]}
+              >
+                {formatRenewalStatus(renewal)}
+              </ThemedText>
+              <View style={styles.startOptions}>
+                {renderStartOption("today", "Start Today")}
+                {renderStartOption("expiry", `Continue from ${currentEnd}`)}
+              </View>
+            </View>
+          ) : null}
+
+          {/* Plan List */}
+          <ScrollView
+            style={styles.optionsScroll}
+            contentContainerStyle={styles.optionsContainer}
+          >
+            {plans.length === 0 ? (
+              <ThemedText
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                No active plans for this member. Add one in Settings.
+              </ThemedText>
+            ) : null}
+            {plans.map((plan) => {
+              const isDefault = plan.id === defaultPlanId;
+              return (
+                <Pressable
+                  key={plan.id}
+                  onPress={() => {
+                    onSelect(plan, start);
+                    onClose();
+                  }}
+                  style={({ pressed }) => [
+                    styles.optionButton,
+                    {
+                      backgroundColor: isDefault
+                        ? theme.primary + "20"
+                        : theme.backgroundSecondary,
+                      borderWidth: isDefault ? 2 : 0,
+                      borderColor: isDefault ? theme.primary : "transparent",
+                      opacity: pressed ? 0.7 : 1,
+                    },
+                  ]}
+                >
+                  <View style={styles.optionContent}>
+                    <View style={styles.optionIcon}>
+                      <Feather
+                        name="calendar"
+                        size={24}
+                        color={theme.primary}
+                      />
+                    </View>
+                    <View style={styles.optionText}>
+                      <ThemedText style={styles.optionLabel}>
+                        {plan.name}
+                      </ThemedText>
+                      <ThemedText
+                        style={[
+                          styles.optionSubtitle,
+                          { color: theme.textSecondary },
+                        ]}
+                      >
+                        {formatPlanDuration(plan)} ·{" "}
+                        {PLAN_CATEGORY_LABELS[plan.category]}
+                      </ThemedText>
+                      <ThemedText
+                        style={[
+                          styles.optionSubtitle,
+                          { color: theme.textSecondary },
+                        ]}
+                      >
+                        Until{" "}
+                        {quoteRenewal(currentEnd, plan, start, today).end_date}
+                      </ThemedText>
+                    </View>
+                    <View style={styles.priceContainer}>
+                      <ThemedText style={styles.priceLabel}>₱</ThemedText>
+                      <ThemedText style={styles.price}>{plan.price}</ThemedText>
+                    </View>
+                  </View>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          {/* Cancel Button */}
+          <Pressable
+            onPress={onClose}
+            style={[styles.cancelButton, { borderColor: theme.textSecondary }]}
+          >
+            <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "85%",
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  startSection: {
+    marginBottom: Spacing.lg,
+  },
+  statusText: {
+    fontSize: 13,
+    marginBottom: Spacing.sm,
+  },
+  startOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  startOption: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  startOptionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  optionsScroll: {
+    flexGrow: 0,
+    marginBottom: Spacing.xl,
+  },
+  optionsContainer: {
+    gap: Spacing.md,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.xl,
+  },
+  optionButton: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+  },
+  optionContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  optionIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(220, 38, 38, 0.1)",
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    fontWeight: "400",
+  },
+  priceContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: Spacing.sm,
+  },
+  priceLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  price: {
+    fontSize: 18,
+    fontWeight: "700",
+    marginTop: 2,
+  },
+  cancelButton: {
+    paddingVertical: Spacing.md,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { DatePickerModal } from "@/components/DatePickerModal";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { BACKUP_TABLE_LABELS } from "@/lib/backup";
+import type { LoadedBackup } from "@/lib/backupFiles";
+import {
+  RESTORE_TABLES,
+  type RestoreMode,
+  type RestoreOptions,
+  type RestorePreview,
+  type RestoreTable,
+} from "@/lib/database";
+
+interface RestorePreviewModalProps {
+  /** The opened backup; the modal shows while there is one. */
+  backup: LoadedBackup | null;
+  onCancel: () => void;
+  onRestore: (options: RestoreOptions) => void;
+}
+
+const MODES: { mode: RestoreMode; title: string; description: string }[] = [
+  {
+    mode: "replace",
+    title: "Replace everything",
+    description:
+      "All current data is removed and replaced with the backup, including prices.",
+  },
+  {
+    mode: "merge",
+    title: "Merge",
+    description:
+      "Adds records this device does not have. Where both have a record, the one changed last is kept.",
+  },
+  {
+    mode: "selected",
+    title: "Selected records",
+    description:
+      "Puts back the backup copy of the chosen tables and dates. Everything else is left as it is.",
+  },
+];
+
+const COLUMNS = ["added", "updated", "skipped", "removed"] as const;
+
+export const RestorePreviewModal = ({
+  backup,
+  onCancel,
+  onRestore,
+}: RestorePreviewModalProps) => {
+  const { theme } = useTheme();
+  const { previewRestore } = useApp();
+
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [tables, setTables] = useState<RestoreTable[]>(["sales"]);
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+  const [picking, setPicking] = useState<"from" | "to" | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [error, setError] = useState("");
+
+  // Start from a clean form for each backup
+  useEffect(() => {
+    if (backup) {
+      setMode("merge");
+      setTables(["sales"]);
+      setFrom(null);
+      setTo(null);
+    }
+  }, [backup]);
+
+  // Nothing is written until Restore is tapped; the counts are worked out
+  // again whenever the options change
+  useEffect(() => {
+    if (!backup) return;
+    let cancelled = false;
+    setPreview(null);
+    setError("");
+    previewRestore(backup, { mode, tables, from, to })
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((e) => {
+        console.error("[Backup] Failed to preview restore:", e);
+        if (!cancelled)
+          setError("Could not compare the backup with this device");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, mode, tables, from, to, previewRestore]);
+
+  const toggleTable = (table: RestoreTable) => {
+    setTables((prev) =>
+      prev.includes(table) ? prev.filter((t) => t !== table) : [...prev, table],
+    );
+  };
+
+  const rows = preview
+    ? RESTORE_TABLES.filter((t) => COLUMNS.some((c) => preview[t][c] > 0))
+    : [];
+  const columns = COLUMNS.filter((c) => c !== "removed" || mode === "replace");
+  const changes = preview
+    ? RESTORE_TABLES.reduce(
+        (sum, t) => sum + preview[t].added + preview[t].updated,
+        0,
+      )
+    : 0;
+  const canRestore = preview !== null && (mode === "replace" || changes > 0);
+
+  return (
+    <Modal
+      visible={backup !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <ThemedText type="h4" style={styles.title}>
+                Restore Backup
+              </ThemedText>
+              <ThemedText
+                style={[styles.subtitle, { color: theme.textSecondary }]}
+              >
+                {backup?.timestamp
+                  ? `Made ${new Date(backup.timestamp).toLocaleString()}`
+                  : "Date unknown"}
+              </ThemedText>
+            </View>
+            <Pressable onPress={onCancel} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.scroll}>
+            {MODES.map((option) => {
+              const isSelected = option.mode === mode;
+              return (
+                <Pressable
+                  key={option.mode}
+                  onPress={() => setMode(option.mode)}
+                  style={[
+                    styles.modeOption,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      borderColor: isSelected ? theme.primary : "transparent",
+                    },
+                  ]}
+                >
+                  <Feather
+                    name={isSelected ? "check-circle" : "circle"}
+                    size={20}
+                    color={isSelected ? theme.primary : theme.textSecondary}
+                  />
+                  <View style={styles.modeText}>
+                    <ThemedText style={styles.modeTitle}>
+                      {option.title}
+                    </ThemedText>
+                    <ThemedText
+                      style={[
+                        styles.modeDescription,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      {option.description}
+                    </ThemedText>
+                  </View>
+                </Pressable>
+              );
+            })}
+
+            {mode === "selected" ? (
+              <>
+                <ThemedText style={styles.label}>Tables</ThemedText>
+                <View style={styles.chips}>
+                  {RESTORE_TABLES.map((table) => {
+                    const isSelected = tables.includes(table);
+                    return (
+                      <Pressable
+                        key={table}
+                        onPress={() => toggleTable(table)}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor: isSelected
+                              ? theme.primary
+                              : theme.backgroundSecondary,
+                          },
+                        ]}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.chipText,
+                            isSelected ? { color: "#FFFFFF" } : undefined,
+                          ]}
+                        >
+                          {BACKUP_TABLE_LABELS[table]}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <ThemedText style={styles.label}>Dates</ThemedText>
+                <View style={styles.dateRow}>
+                  {(["from", "to"] as const).map((end) => {
+                    const value = end === "from" ? from : to;
+                    return (
+                      <Pressable
+                        key={end}
+                        onPress={() => setPicking(end)}
+                        onLongPress={() =>
+                          end === "from" ? setFrom(null) : setTo(null)
+                        }
+                        style={[
+                          styles.dateButton,
+                          { backgroundColor: theme.backgroundSecondary },
+                        ]}
+                      >
+                        <Feather
+                          name="calendar"
+                          size={16}
+                          color={theme.textSecondary}
+                        />
+                        <ThemedText style={styles.chipText}>
+                          {value ?? (end === "from" ? "Earliest" : "Latest")}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <ThemedText
+                  style={[styles.hint, { color: theme.textSecondary }]}
+                >
+                  Hold a date to clear it
+                </ThemedText>
+              </>
+            ) : null}
+
+            <ThemedText style={styles.label}>Preview</ThemedText>
+            {error ? (
+              <ThemedText style={[styles.hint, { color: theme.error }]}>
+                {error}
+              </ThemedText>
+            ) : !preview ? (
+              <ActivityIndicator color={theme.primary} />
+            ) : rows.length === 0 ? (
+              <ThemedText style={[styles.hint, { color: theme.textSecondary }]}>
+                Nothing in the backup matches these options.
+              </ThemedText>
+            ) : (
+              <View
+                style={[
+                  styles.table,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <View style={styles.tableRow}>
+                  <View style={styles.tableName} />
+                  {columns.map((column) => (
+                    <ThemedText
+                      key={column}
+                      style={[
+                        styles.tableCell,
+                        styles.tableHeading,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      {column}
+                    </ThemedText>
+                  ))}
+                </View>
+                {rows.map((table) => (
+                  <View key={table} style={styles.tableRow}>
+                    <ThemedText style={styles.tableName}>
+                      {BACKUP_TABLE_LABELS[table]}
+                    </ThemedText>
+                    {columns.map((column) => (
+                      <ThemedText key={column} style={styles.tableCell}>
+                        {preview[table][column]}
+                      </ThemedText>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={onCancel}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={() => onRestore({ mode, tables, from, to })}
+              disabled={!canRestore}
+              style={[
+                styles.button,
+                {
+                  backgroundColor:
+                    mode === "replace" ? theme.error : theme.primary,
+                  opacity: canRestore ? 1 : 0.5,
+                },
+              ]}
+            >
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                {mode === "replace" ? "Replace" : "Restore"}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+
+      <DatePickerModal
+        visible={picking !== null}
+        selectedDate={(picking === "from" ? from : to) ?? ""}
+        onDateSelect={(date) => {
+          if (picking === "from") setFrom(date);
+          else setTo(date);
+          setPicking(null);
+        }}
+        onClose={() => setPicking(null)}
+        theme={theme}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 480,
+    maxHeight: "90%",
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.lg,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  scroll: {
+    flexGrow: 0,
+    marginBottom: Spacing.lg,
+  },
+  modeOption: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    marginBottom: Spacing.sm,
+  },
+  modeText: {
+    flex: 1,
+  },
+  modeTitle: {
+    fontWeight: "600",
+  },
+  modeDescription: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
+  label: {
+    fontWeight: "600",
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    height: Spacing.inputHeight,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: Spacing.xs,
+  },
+  table: {
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  tableName: {
+    flex: 2,
+    fontSize: 13,
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 13,
+    textAlign: "right",
+  },
+  tableHeading: {
+    fontSize: 11,
+    textTransform: "uppercase",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import type { Sale } from "@/context/AppContext";
+import { CORRECTION_LABELS, CorrectionType } from "@/lib/corrections";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { SALE_TYPE_LABELS } from "@/lib/reports";
+
+interface SaleCorrectionModalProps {
+  sale: Sale | null;
+  /** What is left of the sale after earlier refunds. */
+  refundable: number;
+  onClose: () => void;
+  onConfirm: (type: CorrectionType, reason: string, amount: number) => void;
+}
+
+export const SaleCorrectionModal = ({
+  sale,
+  refundable,
+  onClose,
+  onConfirm,
+}: SaleCorrectionModalProps) => {
+  const { theme } = useTheme();
+  const visible = sale !== null;
+
+  const [type, setType] = useState<CorrectionType>("void");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Start from a clean form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setType("void");
+      setAmount(refundable.toString());
+      setReason("");
+    }
+  }, [visible, refundable]);
+
+  const handleConfirm = () => {
+    if (!reason.trim()) {
+      Alert.alert(
+        "Missing Information",
+        `Please enter a reason for the ${type}.`,
+      );
+      return;
+    }
+    onConfirm(type, reason.trim(), parseFloat(amount) || 0);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <ThemedText type="h4" style={styles.title}>
+                Correct Sale #{sale?.id}
+              </ThemedText>
+              {sale ? (
+                <ThemedText
+                  style={[styles.subtitle, { color: theme.textSecondary }]}
+                >
+                  {SALE_TYPE_LABELS[sale.type] || sale.type} · ₱
+                  {sale.amount.toLocaleString()} ·{" "}
+                  {PAYMENT_METHOD_LABELS[sale.payment_method] ||
+                    sale.payment_method}{" "}
+                  · {sale.date}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.typeRow}>
+            {(["void", "refund"] as CorrectionType[]).map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setType(option)}
+                style={[
+                  styles.typeChip,
+                  {
+                    backgroundColor:
+                      type === option
+                        ? theme.primary
+                        : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.typeChipText,
+                    type === option ? { color: "#FFFFFF" } : undefined,
+                  ]}
+                >
+                  {CORRECTION_LABELS[option]}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          <ThemedText style={[styles.hint, { color: theme.textSecondary }]}>
+            {type === "void"
+              ? "Cancels the whole payment, including any split tenders. Use for sales rung up by mistake."
+              : `Gives back part or all of this payment. Up to ₱${refundable.toLocaleString()} can be refunded.`}
+          </ThemedText>
+
+          {type === "refund" ? (
+            <>
+              <ThemedText style={styles.label}>Refund Amount</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={amount}
+                onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ""))}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor={theme.textSecondary}
+              />
+            </>
+          ) : null}
+
+          <ThemedText style={styles.label}>Reason</ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+                borderColor: theme.border,
+              },
+            ]}
+            value={reason}
+            onChangeText={setReason}
+            placeholder={
+              type === "void"
+                ? "e.g. Pay Session tapped twice"
+                : "e.g. Charged senior rate to regular member"
+            }
+            placeholderTextColor={theme.textSecondary}
+          />
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={onClose}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleConfirm}
+              style={[styles.button, { backgroundColor: theme.error }]}
+            >
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                {CORRECTION_LABELS[type]}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  typeRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  typeChip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  typeChipText: {
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "500",
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from "react";
+import { Platform, StyleSheet, TextInput } from "react-native";
+import { createScanBuffer } from "@/lib/scannerInput";
+
+// How often focus is taken back once no other field is being edited
+const REFOCUS_INTERVAL_MS = 1000;
+
+interface ScannerInputProps {
+  onScan: (data: string) => void;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
+/**
+ * Listens for a keyboard-wedge barcode scanner on whatever screen is
+ * showing. On the web it watches key presses on the page; on a device it
+ * keeps a hidden field focused, without the on-screen keyboard, whenever
+ * staff are not typing somewhere else.
+ */
+export function ScannerInput({ onScan }: ScannerInputProps) {
+  const bufferRef = useRef(createScanBuffer());
+  const inputRef = useRef<TextInput>(null);
+  const textRef = useRef("");
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (Platform.OS !== "web") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target)) return;
+      const code = bufferRef.current.push(event.key, Date.now());
+      if (code) {
+        event.preventDefault();
+        onScanRef.current(code);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (Platform.OS === "web") return;
+
+    const interval = setInterval(() => {
+      if (!TextInput.State.currentlyFocusedInput()) {
+        inputRef.current?.focus();
+      }
+    }, REFOCUS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (Platform.OS === "web") return null;
+
+  const handleChangeText = (text: string) => {
+    const now = Date.now();
+    const added = text.startsWith(textRef.current)
+      ? text.slice(textRef.current.length)
+      : text;
+    textRef.current = text;
+    for (const char of added) {
+      bufferRef.current.push(char, now);
+    }
+  };
+
+  const handleSubmit = () => {
+    const code = bufferRef.current.push("Enter", Date.now());
+    textRef.current = "";
+    inputRef.current?.clear();
+    if (code) onScanRef.current(code);
+  };
+
+  return (
+    <TextInput
+      ref={inputRef}
+      style={styles.hidden}
+      onChangeText={handleChangeText}
+      onSubmitEditing={handleSubmit}
+      submitBehavior="submit"
+      showSoftInputOnFocus={false}
+      autoCorrect={false}
+      autoCapitalize="none"
+      caretHidden
+      autoFocus
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  hidden: {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+});
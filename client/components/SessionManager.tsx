@@ -27,7 +27,8 @@ export function setIsInPhotoPicker(value: boolean) {
 }
 
 export default function SessionManager({ children }: { children: ReactNode }) {
-  const { isAuthenticated, setAuthenticated, timeoutDisabled } = useApp();
+  const { isAuthenticated, setAuthenticated, timeoutDisabled, kioskMode } =
+    useApp();
   const navigation = useNavigation();
 
   const idleTimer = useRef<NodeJS.Timeout | null>(null);
@@ -73,7 +74,8 @@ export default function SessionManager({ children }: { children: ReactNode }) {
 
   /** Idle timer reset */
   const resetIdleTimer = useCallback(() => {
-    if (!isAuthenticated || timeoutDisabled) return;
+    // The kiosk has nobody signed in and only a staff PIN may leave it
+    if (!isAuthenticated || timeoutDisabled || kioskMode) return;
 
     if (idleTimer.current) clearTimeout(idleTimer.current);
 
@@ -81,21 +83,21 @@ export default function SessionManager({ children }: { children: ReactNode }) {
       setShowModal(true);
       startCountdown();
     }, IDLE_TIME);
-  }, [isAuthenticated, timeoutDisabled, startCountdown]);
+  }, [isAuthenticated, timeoutDisabled, kioskMode, startCountdown]);
 
   /** Handle user interaction - reset idle timer */
   const handleUserInteraction = useCallback(() => {
-    if (!isAuthenticated || timeoutDisabled) return;
+    if (!isAuthenticated || timeoutDisabled || kioskMode) return;
     
     // Only reset if modal is not showing (user is actively using app)
     if (!showModal) {
       resetIdleTimer();
     }
-  }, [isAuthenticated, timeoutDisabled, showModal, resetIdleTimer]);
+  }, [isAuthenticated, timeoutDisabled, kioskMode, showModal, resetIdleTimer]);
 
   /** App state listener - handle background/foreground transitions */
   useEffect(() => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated || kioskMode) return;
 
     const subscription = AppState.addEventListener("change", async (state) => {
       console.log('[SessionManager] AppState changed:', state);
@@ -151,11 +153,11 @@ export default function SessionManager({ children }: { children: ReactNode }) {
     return () => {
       subscription.remove();
     };
-  }, [isAuthenticated, safeLogout, navigation]);
+  }, [isAuthenticated, kioskMode, safeLogout, navigation]);
 
   /** Start timer when logged in */
   useEffect(() => {
-    if (!isAuthenticated) {
+    if (!isAuthenticated || kioskMode) {
       if (idleTimer.current) clearTimeout(idleTimer.current);
       if (countdownTimer.current) clearInterval(countdownTimer.current);
       return;
@@ -166,7 +168,7 @@ export default function SessionManager({ children }: { children: ReactNode }) {
       if (idleTimer.current) clearTimeout(idleTimer.current);
       if (countdownTimer.current) clearInterval(countdownTimer.current);
     };
-  }, [isAuthenticated, timeoutDisabled, resetIdleTimer]);
+  }, [isAuthenticated, timeoutDisabled, kioskMode, resetIdleTimer]);
 
   /** "I'm Still Here" — safely close modal + reset timer */
   const handleStay = () => {
@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  cashTender,
+  getTenderTotal,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  requiresReference,
+  Tender,
+  validateTenders,
+} from "@/lib/payments";
+
+/** A charge waiting for staff to say how it was paid. */
+export interface PendingPayment {
+  total: number;
+  title: string;
+  /** What is being paid for, shown under the title. */
+  description?: string;
+  onConfirm: (tenders: Tender[]) => void;
+}
+
+interface TenderModalProps {
+  payment: PendingPayment | null;
+  onClose: () => void;
+}
+
+interface TenderRow {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+function toRows(tenders: Tender[]): TenderRow[] {
+  return tenders.map((t) => ({
+    method: t.method,
+    amount: t.amount.toString(),
+    reference: t.reference,
+  }));
+}
+
+export const TenderModal = ({ payment, onClose }: TenderModalProps) => {
+  const { theme } = useTheme();
+  const visible = payment !== null;
+  const total = payment?.total ?? 0;
+  const [rows, setRows] = useState<TenderRow[]>(toRows(cashTender(total)));
+
+  // Each payment starts as a single cash tender for the full amount
+  useEffect(() => {
+    if (visible) setRows(toRows(cashTender(total)));
+  }, [visible, total]);
+
+  const tenders: Tender[] = rows.map((r) => ({
+    method: r.method,
+    amount: parseFloat(r.amount) || 0,
+    reference: r.reference,
+  }));
+  const remaining = Math.round((total - getTenderTotal(tenders)) * 100) / 100;
+
+  const updateRow = (index: number, updates: Partial<TenderRow>) => {
+    setRows((prev) =>
+      prev.map((r, i) => (i === index ? { ...r, ...updates } : r)),
+    );
+  };
+
+  const handleAddSplit = () => {
+    const used = new Set(rows.map((r) => r.method));
+    const method = PAYMENT_METHODS.find((m) => !used.has(m)) ?? "cash";
+    setRows((prev) => [
+      ...prev,
+      {
+        method,
+        amount: remaining > 0 ? remaining.toString() : "",
+        reference: "",
+      },
+    ]);
+  };
+
+  const handleConfirm = () => {
+    const error = validateTenders(tenders, total);
+    if (error) {
+      Alert.alert("Check Payment", error);
+      return;
+    }
+    payment?.onConfirm(tenders);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.overlay, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <ThemedText type="h4" style={styles.title}>
+                {payment?.title}
+              </ThemedText>
+              {payment?.description ? (
+                <ThemedText
+                  style={[styles.subtitle, { color: theme.textSecondary }]}
+                >
+                  {payment.description}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View
+            style={[
+              styles.totalRow,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText style={{ color: theme.textSecondary }}>
+              Amount Due
+            </ThemedText>
+            <ThemedText type="h3">₱{total.toLocaleString()}</ThemedText>
+          </View>
+
+          <ScrollView
+            style={styles.rowsScroll}
+            contentContainerStyle={styles.rowsContainer}
+          >
+            {rows.map((row, index) => (
+              <View
+                key={index}
+                style={[styles.tenderCard, { borderColor: theme.border }]}
+              >
+                <View style={styles.methodRow}>
+                  {PAYMENT_METHODS.map((method) => (
+                    <Pressable
+                      key={method}
+                      onPress={() => updateRow(index, { method })}
+                      style={[
+                        styles.methodChip,
+                        {
+                          backgroundColor:
+                            row.method === method
+                              ? theme.primary
+                              : theme.backgroundSecondary,
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.methodChipText,
+                          row.method === method
+                            ? { color: "#FFFFFF" }
+                            : undefined,
+                        ]}
+                      >
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                  {rows.length > 1 ? (
+                    <Pressable
+                      onPress={() =>
+                        setRows((prev) => prev.filter((_, i) => i !== index))
+                      }
+                      style={styles.removeButton}
+                    >
+                      <Feather name="trash-2" size={16} color={theme.error} />
+                    </Pressable>
+                  ) : null}
+                </View>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      styles.amountInput,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        color: theme.text,
+                        borderColor: theme.border,
+                      },
+                    ]}
+                    value={row.amount}
+                    onChangeText={(text) =>
+                      updateRow(index, {
+                        amount: text.replace(/[^0-9.]/g, ""),
+                      })
+                    }
+                    keyboardType="decimal-pad"
+                    placeholder="0.00"
+                    placeholderTextColor={theme.textSecondary}
+                  />
+                  {requiresReference(row.method) ? (
+                    <TextInput
+                      style={[
+                        styles.input,
+                        styles.referenceInput,
+                        {
+                          backgroundColor: theme.backgroundSecondary,
+                          color: theme.text,
+                          borderColor: theme.border,
+                        },
+                      ]}
+                      value={row.reference}
+                      onChangeText={(text) =>
+                        updateRow(index, { reference: text })
+                      }
+                      placeholder="Reference no."
+                      placeholderTextColor={theme.textSecondary}
+                      autoCapitalize="characters"
+                    />
+                  ) : null}
+                </View>
+              </View>
+            ))}
+
+            <Pressable onPress={handleAddSplit} style={styles.splitButton}>
+              <Feather name="plus" size={16} color={theme.primary} />
+              <ThemedText style={{ color: theme.primary }}>
+                Split Payment
+              </ThemedText>
+            </Pressable>
+          </ScrollView>
+
+          {remaining !== 0 ? (
+            <ThemedText style={[styles.remaining, { color: theme.warning }]}>
+              {remaining > 0
+                ? `₱${remaining.toLocaleString()} still to allocate`
+                : `₱${(-remaining).toLocaleString()} more than the amount due`}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={onClose}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleConfirm}
+              style={[styles.button, { backgroundColor: theme.success }]}
+            >
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                Confirm Payment
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 420,
+    maxHeight: "90%",
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    marginRight: -Spacing.sm,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  rowsScroll: {
+    flexGrow: 0,
+    marginBottom: Spacing.md,
+  },
+  rowsContainer: {
+    gap: Spacing.md,
+  },
+  tenderCard: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  methodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  methodChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  methodChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  removeButton: {
+    marginLeft: "auto",
+    padding: Spacing.xs,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  amountInput: {
+    width: 110,
+  },
+  referenceInput: {
+    flex: 1,
+  },
+  splitButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+  },
+  remaining: {
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
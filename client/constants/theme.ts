@@ -15,6 +15,7 @@ export const Colors = {
     success: "#22C55E",
     warning: "#F59E0B",
     error: "#DC2626",
+    frozen: "#0EA5E9",
     backgroundRoot: "#FFFFFF",
     backgroundDefault: "#F3F4F6",
     backgroundSecondary: "#E5E7EB",
@@ -33,6 +34,7 @@ export const Colors = {
     success: "#22C55E",
     warning: "#F59E0B",
     error: "#EF4444",
+    frozen: "#38BDF8",
     backgroundRoot: "#0F0F0F",
     backgroundDefault: "#1A1A1A",
     backgroundSecondary: "#262626",
@@ -4,11 +4,91 @@ import React, {
   useState,
   useCallback,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
 import { Appearance, Platform, AppState as RNAppState } from "react-native";
 import * as SecureStore from "expo-secure-store";
 import * as database from "@/lib/database";
+import {
+  DEFAULT_RENEWAL_GRACE_DAYS,
+  getRenewalContext,
+  quoteRenewal,
+  RenewalDuration,
+  RenewalStart,
+} from "@/lib/renewal";
+import {
+  deriveSubscriptionDates,
+  getMemberSubscriptions,
+  getLatestSubscription,
+} from "@/lib/subscriptions";
+import { cashTender, PaymentMethod, Tender } from "@/lib/payments";
+import {
+  countFrozenDays,
+  getCurrentFreeze as findCurrentFreeze,
+  getFreezeExtension,
+  getOpenFreeze,
+  getScheduledResumeDate,
+  isFreezeDue,
+} from "@/lib/freezes";
+import { getOpenShift, summarizeShift } from "@/lib/shifts";
+import {
+  CORRECTION_LABELS,
+  CorrectionType,
+  getRefundableAmount,
+  getReversibleRows,
+  validateCorrection,
+} from "@/lib/corrections";
+import {
+  getActiveStaff,
+  hasPermission as roleHasPermission,
+  Permission,
+  PERMISSION_DENIED_MESSAGES,
+  StaffRole,
+  validateStaffPin,
+} from "@/lib/staff";
+import {
+  generateRecoveryCode,
+  getAttemptsLeft,
+  getLockoutRemaining,
+  hashPin,
+  hashSecret,
+  normalizeRecoveryCode,
+  PinLockout,
+  recordFailedAttempt,
+  SignInResult,
+  verifyPin,
+  verifySecret,
+} from "@/lib/auth";
+import {
+  DEFAULT_OCCUPANCY_SETTINGS,
+  getLocalDate,
+  getLocalTime,
+  getVisitsInside as findVisitsInside,
+  getVisitsToAutoClose,
+  OccupancySettings,
+} from "@/lib/occupancy";
+import { AccessRules, DEFAULT_ACCESS_RULES } from "@/lib/access";
+import {
+  checkMemberQR,
+  createMemberQR,
+  CARD_SECRET_BYTES,
+  CardReissueReason,
+  FIRST_CARD_VERSION,
+  MemberQRCheck,
+} from "@/lib/memberCards";
+import { toHex } from "@/lib/crypto";
+import { randomBytes, randomUUID } from "@/lib/random";
+import { setApiHub } from "@/lib/query-client";
+import { AUTO_SYNC_INTERVAL_MS, SyncSummary, syncWithHub } from "@/lib/sync";
+import { BackupFile, isAutoBackupDue } from "@/lib/backupRotation";
+import {
+  LoadedBackup,
+  deleteBackupFile,
+  loadBackupFile,
+  releaseBackup,
+  saveBackup,
+} from "@/lib/backupFiles";
 
 export interface Member {
   id: number;
@@ -25,13 +105,34 @@ export interface Member {
   is_member: number;
   subscription_start: string | null;
   subscription_end: string | null;
+  /** 1 when the member is refused entry at the scanner. */
+  is_banned: number;
+  ban_reason: string | null;
+  /** Bumped on every card reissue; older cards stop scanning. */
+  card_version: number;
+  /** Device that signed the current card; see lib/memberCards. */
+  card_issuer: string | null;
+  /** Device the member was added on; null for members from before sync. */
+  origin_device_id: string | null;
 }
 
+/**
+ * How a visit was recorded: a card at the scanner, looked up by staff, or
+ * a member scanning themselves in at the kiosk.
+ */
+export type EntryMethod = "scan" | "manual" | "kiosk";
+
 export interface Attendance {
   id: number;
   member_id: number;
   date: string;
   time: string;
+  staff_id: number | null;
+  /** Local time the member left; null while they are inside. */
+  check_out_time: string | null;
+  /** 1 when closed at closing time rather than by a scan. */
+  auto_checked_out: number;
+  entry_method: EntryMethod;
 }
 
 export interface Sale {
@@ -40,67 +141,338 @@ export interface Sale {
   amount: number;
   date: string;
   note: string;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  payment_group: number | null;
+  shift_id: number | null;
+  /** Set on voids and refunds: the sale this entry offsets. */
+  reverses_sale_id: number | null;
+  correction_type: CorrectionType | null;
+  correction_reason: string | null;
+  staff_id: number | null;
+}
+
+export interface Plan {
+  id: number;
+  name: string;
+  duration_value: number;
+  duration_unit: "days" | "months";
+  price: number;
+  category: "any" | "student" | "regular" | "senior";
+  is_active: number;
+  /** "HH:MM" window members on this plan may check in; null for any time. */
+  allowed_from: string | null;
+  allowed_until: string | null;
+}
+
+export interface Subscription {
+  id: number;
+  member_id: number;
+  plan_id: number | null;
+  start_date: string;
+  end_date: string;
+  amount_paid: number;
+  sale_id: number | null;
+  created_at: string;
+}
+
+export interface Freeze {
+  id: number;
+  member_id: number;
+  start_date: string;
+  end_date: string | null;
+  reason: string;
+  fee: number;
+  sale_id: number | null;
+  unfrozen_at: string | null;
+  frozen_days: number;
+  created_at: string;
+}
+
+export interface Shift {
+  id: number;
+  staff_name: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  /** Set when the shift is closed; null while it is open. */
+  expected_cash: number | null;
+  counted_cash: number | null;
+  closing_note: string | null;
+}
+
+export interface Staff {
+  id: number;
+  name: string;
+  role: StaffRole;
+  /** Salted PBKDF2 hash; see lib/auth. */
+  pin_hash: string;
+  is_active: number;
+  created_at: string;
+}
+
+export interface MemberEdit {
+  id: number;
+  member_id: number;
+  staff_id: number | null;
+  action: "create" | "update" | "delete";
+  /** Comma-separated names of the fields changed by an update. */
+  fields: string | null;
+  created_at: string;
+}
+
+export interface CardReissue {
+  id: number;
+  member_id: number;
+  /** The version of the card issued; earlier versions are revoked. */
+  card_version: number;
+  reason: CardReissueReason;
+  fee: number;
+  sale_id: number | null;
+  staff_id: number | null;
+  /** The code of the card this one replaced; null for reissues from before sync. */
+  replaced_qr_code: string | null;
+  created_at: string;
 }
 
 export interface PriceSettings {
   id: number;
   membership: number;
-  student_monthly: number;
-  regular_monthly: number;
-  senior_monthly: number;
   session_member: number;
   session_nonmember: number;
   session_member_senior: number;
   session_nonmember_senior: number;
 }
 
+export interface SyncStatus {
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  /** Why the last sync failed; cleared by the next one that works. */
+  error: string | null;
+}
+
 interface AppState {
   isAuthenticated: boolean;
+  /** True once at least one staff account exists. */
   hasPin: boolean;
+  staff: Staff[];
+  currentStaff: Staff | null;
+  memberEdits: MemberEdit[];
+  cardReissues: CardReissue[];
+  /** Failed PIN attempts since the last sign-in, shared by every account. */
+  pinLockout: PinLockout;
+  /** Recovery code for the owner account an upgrade made from the old PIN; shown once. */
+  migratedRecoveryCode: string | null;
   isDarkMode: boolean;
   members: Member[];
   attendance: Attendance[];
   sales: Sale[];
+  plans: Plan[];
+  subscriptions: Subscription[];
+  freezes: Freeze[];
+  shifts: Shift[];
   priceSettings: PriceSettings;
+  renewalGraceDays: number;
+  occupancySettings: OccupancySettings;
+  accessRules: AccessRules;
+  /** Whether unsigned `GYM-` cards printed before signing still scan. */
+  acceptLegacyCards: boolean;
+  /** Whether a USB or Bluetooth barcode scanner can check members in from any screen. */
+  scannerInputEnabled: boolean;
+  /** The self check-in kiosk is showing; no staff member is signed in. */
+  kioskMode: boolean;
+  /** Address of the LAN sync hub, or null when this desk works alone. */
+  syncHubUrl: string | null;
+  syncStatus: SyncStatus;
+  /** Hours between automatic backups; 0 when they are off. */
+  autoBackupHours: number;
+  lastBackupAt: string | null;
   isLoading: boolean;
   timeoutDisabled: boolean; // NEW
   appWentToBackground: boolean;
+  databaseError: string | null;
 }
 
 interface AppContextType extends AppState {
   setAuthenticated: (value: boolean) => void;
   setHasPin: (value: boolean) => void;
+  signIn: (staffId: number, pin: string) => Promise<SignInResult>;
+  hasPermission: (permission: Permission) => boolean;
+  /**
+   * First-run setup: creates the owner account along with its recovery
+   * code, which is shown once. Sign in with the new PIN afterwards.
+   */
+  createOwnerAccount: (
+    name: string,
+    pin: string,
+  ) => Promise<{ owner: Staff; recoveryCode: string }>;
+  /** Replaces the owner recovery code; the old one stops working. */
+  regenerateRecoveryCode: () => Promise<string>;
+  /** Called once the recovery code from an upgraded PIN has been written down. */
+  dismissMigratedRecoveryCode: () => void;
+  /**
+   * Sets a new owner PIN using the recovery code. The code is single-use;
+   * a replacement is returned alongside the owner account.
+   */
+  recoverOwnerAccess: (
+    code: string,
+    newPin: string,
+  ) => Promise<{ owner: Staff; recoveryCode: string }>;
+  addStaff: (
+    staff: Pick<Staff, "name" | "role"> & { pin: string },
+  ) => Promise<Staff>;
+  updateStaff: (
+    id: number,
+    updates: Partial<
+      Pick<Staff, "name" | "role" | "is_active"> & { pin: string }
+    >,
+  ) => Promise<void>;
   toggleTheme: () => void;
   setDarkMode: (value: boolean) => void;
   setTimeoutDisabled: (value: boolean) => void; // NEW
   setAppWentToBackground: (value: boolean) => void;
   addMember: (
-    member: Omit<Member, "id" | "qr_code" | "qr_image_path">
+    member: Omit<
+      Member,
+      | "id"
+      | "qr_code"
+      | "qr_image_path"
+      | "is_banned"
+      | "ban_reason"
+      | "card_version"
+      | "card_issuer"
+      | "origin_device_id"
+    >,
   ) => Promise<Member>;
   updateMember: (id: number, updates: Partial<Member>) => Promise<void>;
   deleteMember: (id: number) => Promise<void>;
   getMember: (id: number) => Member | undefined;
-  getMemberByQR: (qrCode: string) => Member | undefined;
-  addAttendance: (memberId: number) => Promise<void>;
-  addSale: (type: string, amount: number, note: string) => Promise<void>;
+  /** Checks a scanned card's signature and version against the members. */
+  verifyMemberQR: (data: string) => MemberQRCheck;
+  /**
+   * Issues a new card for the member, charging the fee if there is one.
+   * Every earlier card stops working and scans say when it was revoked.
+   */
+  reissueMemberCard: (
+    memberId: number,
+    reissue: Pick<CardReissue, "reason" | "fee">,
+    tenders?: Tender[],
+  ) => Promise<Member>;
+  setAcceptLegacyCards: (value: boolean) => Promise<void>;
+  setScannerInputEnabled: (value: boolean) => Promise<void>;
+  /** Signs the current staff member out and hands the device to members. */
+  startKioskMode: () => Promise<void>;
+  /** Leaves the kiosk by signing a staff member in with their PIN. */
+  exitKioskMode: (staffId: number, pin: string) => Promise<SignInResult>;
+  /**
+   * Points this desk at a LAN sync hub, or disconnects it when the address
+   * is blank. The key is kept when left blank.
+   */
+  updateSyncSettings: (hubUrl: string, key?: string) => Promise<void>;
+  /** Pushes local changes to the hub and pulls everyone else's. */
+  syncNow: () => Promise<SyncSummary>;
+  addAttendance: (memberId: number, entryMethod?: EntryMethod) => Promise<void>;
+  checkOutAttendance: (attendanceId: number) => Promise<void>;
+  /** Open visits: everyone currently in the gym. */
+  getVisitsInside: () => Attendance[];
+  updateOccupancySettings: (
+    settings: Partial<OccupancySettings>,
+  ) => Promise<void>;
+  updateAccessRules: (rules: Partial<AccessRules>) => Promise<void>;
+  addSale: (
+    type: string,
+    amount: number,
+    note: string,
+    tenders?: Tender[],
+  ) => Promise<number>;
+  correctSale: (
+    saleId: number,
+    type: CorrectionType,
+    reason: string,
+    amount?: number,
+  ) => Promise<void>;
   updatePriceSettings: (settings: Partial<PriceSettings>) => Promise<void>;
+  addPlan: (plan: Omit<Plan, "id">) => Promise<Plan>;
+  updatePlan: (id: number, updates: Partial<Plan>) => Promise<void>;
+  getPlan: (id: number) => Plan | undefined;
   getTodayAttendance: () => Attendance[];
   getTodaySales: () => number;
   getActiveMembers: () => Member[];
   getExpiredMembers: () => Member[];
-  renewSubscription: (memberId: number) => Promise<void>;
-  paySession: (memberId: number, isMember: boolean, isSenior?: boolean) => Promise<void>;
+  subscribeMember: (
+    member: Member,
+    plan: Plan,
+    start?: RenewalStart,
+    tenders?: Tender[],
+  ) => Promise<Subscription>;
+  renewSubscription: (
+    memberId: number,
+    planId: number,
+    start?: RenewalStart,
+    tenders?: Tender[],
+  ) => Promise<void>;
+  extendSubscription: (
+    memberId: number,
+    days: number,
+    start?: RenewalStart,
+  ) => Promise<void>;
+  setRenewalGraceDays: (days: number) => Promise<void>;
+  setSubscriptionDates: (
+    memberId: number,
+    dates: { start_date?: string; end_date?: string },
+  ) => Promise<void>;
+  getSubscriptionsForMember: (memberId: number) => Subscription[];
+  freezeMember: (
+    memberId: number,
+    freeze: Pick<Freeze, "start_date" | "end_date" | "reason" | "fee">,
+    tenders?: Tender[],
+  ) => Promise<void>;
+  unfreezeMember: (memberId: number) => Promise<void>;
+  getCurrentFreeze: (memberId: number) => Freeze | undefined;
+  getFrozenMembers: () => Member[];
+  paySession: (
+    memberId: number,
+    isMember: boolean,
+    isSenior?: boolean,
+    tenders?: Tender[],
+    entryMethod?: EntryMethod,
+  ) => Promise<void>;
+  getCurrentShift: () => Shift | undefined;
+  openShift: (staffName: string, openingFloat: number) => Promise<Shift>;
+  closeShift: (countedCash: number, note?: string) => Promise<Shift>;
   refreshData: () => Promise<void>;
-  backupAllData: () => Promise<string>;
-  restoreFromBackup: (backupData: string) => Promise<void>;
+  /**
+   * Saves a backup of all data to the backup folder on this device,
+   * encrypted when a passphrase is given.
+   */
+  createBackup: (passphrase?: string) => Promise<BackupFile>;
+  setAutoBackupHours: (hours: number) => Promise<void>;
+  /** Removes a backup file from this device. */
+  deleteBackup: (file: BackupFile) => Promise<void>;
+  /**
+   * Reads and checks the backup file at `uri` without changing any data.
+   * Throws if the file is invalid or the passphrase is wrong.
+   */
+  openBackup: (uri: string, passphrase?: string) => Promise<LoadedBackup>;
+  /** Counts what restoring an opened backup with these options would do. */
+  previewRestore: (
+    backup: LoadedBackup,
+    options: database.RestoreOptions,
+  ) => Promise<database.RestorePreview>;
+  /**
+   * Restores an opened backup in the chosen mode, or changes nothing if the
+   * restore fails part way. The backup is released either way.
+   */
+  restoreFromBackup: (
+    backup: LoadedBackup,
+    options: database.RestoreOptions,
+    onProgress?: (progress: database.RestoreProgress) => void,
+  ) => Promise<void>;
 }
 
 const defaultPriceSettings: PriceSettings = {
   id: 1,
   membership: 1500,
-  student_monthly: 500,
-  regular_monthly: 700,
-  senior_monthly: 400,
   session_member: 50,
   session_nonmember: 80,
   session_member_senior: 40,
@@ -122,65 +494,448 @@ async function getStoredPin(): Promise<string | null> {
   }
 }
 
-async function checkHasPin(): Promise<boolean> {
+/**
+ * Lift a freeze as of `resumeDate`: record the frozen days and push the
+ * member's latest period out by that many days. Returns the updated rows
+ * so callers can merge them into state.
+ */
+async function liftFreeze(
+  freeze: Freeze,
+  resumeDate: string,
+  subscriptions: Subscription[],
+): Promise<{ freeze: Freeze; subscriptions: Subscription[] }> {
+  const history = getMemberSubscriptions(subscriptions, freeze.member_id);
+  const extension = getFreezeExtension(history, freeze, resumeDate);
+  const lifted: Freeze = {
+    ...freeze,
+    unfrozen_at: resumeDate,
+    frozen_days: countFrozenDays(freeze, resumeDate),
+  };
+
+  await database.updateFreezeById(freeze.id, {
+    unfrozen_at: lifted.unfrozen_at,
+    frozen_days: lifted.frozen_days,
+  });
+
+  if (!extension) {
+    return { freeze: lifted, subscriptions };
+  }
+
+  await database.updateSubscriptionById(extension.subscriptionId, {
+    end_date: extension.end_date,
+  });
+  const updated = subscriptions.map((s) =>
+    s.id === extension.subscriptionId
+      ? { ...s, end_date: extension.end_date }
+      : s,
+  );
+  await database.updateMemberById(
+    freeze.member_id,
+    deriveSubscriptionDates(getMemberSubscriptions(updated, freeze.member_id)),
+  );
+  return { freeze: lifted, subscriptions: updated };
+}
+
+async function insertSaleWithRetry(
+  saleData: Omit<Sale, "id">,
+): Promise<number> {
+  let retries = 0;
+  const maxRetries = 3;
+
+  while (true) {
+    try {
+      const id = await database.insertSale(saleData);
+      console.log("[AppContext] Sale inserted successfully:", {
+        id,
+        type: saleData.type,
+        amount: saleData.amount,
+      });
+      return id;
+    } catch (error) {
+      retries++;
+      console.warn(
+        `[AppContext] Failed to insert sale (attempt ${retries}/${maxRetries}):`,
+        error,
+      );
+
+      if (retries >= maxRetries) {
+        console.error(
+          "[AppContext] CRITICAL: Failed to insert sale after retries",
+          error,
+        );
+        throw error;
+      }
+
+      // Wait before retrying
+      await new Promise((resolve) => setTimeout(resolve, 500 * retries));
+    }
+  }
+}
+
+/**
+ * Turn the PIN from before staff accounts existed into an owner account,
+ * so the gym is not locked out after upgrading. Returns the staff list
+ * including the new account, and the account's recovery code to show
+ * once, as first-run setup does; null when there was nothing to migrate.
+ */
+async function migrateLegacyPin(
+  staff: database.DBStaff[],
+): Promise<{ staff: database.DBStaff[]; recoveryCode: string | null }> {
+  if (staff.length > 0) return { staff, recoveryCode: null };
   const pin = await getStoredPin();
-  return !!pin;
+  if (!pin) return { staff, recoveryCode: null };
+
+  const owner = {
+    name: "Owner",
+    role: "owner",
+    pin_hash: hashPin(pin),
+    is_active: 1,
+    created_at: new Date().toISOString(),
+  };
+  await database.insertStaff(owner);
+  const recoveryCode = await issueRecoveryCode();
+  try {
+    if (Platform.OS === "web") {
+      localStorage.removeItem(PIN_STORAGE_KEY);
+    } else {
+      await SecureStore.deleteItemAsync(PIN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("[AppContext] Failed to remove legacy PIN:", error);
+  }
+  return { staff: await database.getAllStaff(), recoveryCode };
+}
+
+const AUTO_CLOSE_CHECK_INTERVAL = 60 * 1000;
+
+const NO_LOCKOUT: PinLockout = { failedAttempts: 0, lockedUntil: null };
+
+async function saveLockout(lockout: PinLockout): Promise<void> {
+  await database.updateAppSettings({
+    failed_pin_attempts: lockout.failedAttempts,
+    pin_locked_until: lockout.lockedUntil,
+  });
+}
+
+/**
+ * Close visits still open at closing time. Returns the check-out time
+ * recorded for each closed visit, by attendance id.
+ */
+async function closeOverdueVisits(
+  attendance: Attendance[],
+  settings: OccupancySettings,
+): Promise<Map<number, string>> {
+  const closed = new Map<number, string>();
+  for (const { visit, checkOutTime } of getVisitsToAutoClose(
+    attendance,
+    settings,
+  )) {
+    await database.updateAttendanceById(visit.id, {
+      check_out_time: checkOutTime,
+      auto_checked_out: 1,
+    });
+    closed.set(visit.id, checkOutTime);
+  }
+  if (closed.size > 0) {
+    console.log(
+      `[AppContext] Closed ${closed.size} visits left open at closing time`,
+    );
+  }
+  return closed;
+}
+
+function applyAutoCheckOuts(
+  attendance: Attendance[],
+  closed: Map<number, string>,
+): Attendance[] {
+  if (closed.size === 0) return attendance;
+  return attendance.map((a) =>
+    closed.has(a.id)
+      ? { ...a, check_out_time: closed.get(a.id) ?? null, auto_checked_out: 1 }
+      : a,
+  );
+}
+
+/** The key that signs member cards, created the first time it is needed. */
+async function ensureCardSecret(
+  stored: string | null | undefined,
+): Promise<string> {
+  if (stored) return stored;
+  const secret = toHex(randomBytes(CARD_SECRET_BYTES));
+  await database.updateAppSettings({ card_secret: secret });
+  return secret;
+}
+
+/**
+ * Bring each member's stored QR payload in line with the signing key and
+ * card version, e.g. after upgrading from unsigned cards or restoring an
+ * older backup. Cards issued by another desk keep that desk's signature.
+ */
+async function signMemberCards(
+  members: database.DBMember[],
+  secret: string,
+  deviceId: string,
+): Promise<database.DBMember[]> {
+  let signed = 0;
+  const result: database.DBMember[] = [];
+  for (const member of members) {
+    if (member.card_issuer && member.card_issuer !== deviceId) {
+      result.push(member);
+      continue;
+    }
+    const version = member.card_version ?? FIRST_CARD_VERSION;
+    const qrCode = createMemberQR(member.id, version, secret);
+    if (member.qr_code !== qrCode || member.card_issuer !== deviceId) {
+      await database.updateMemberById(member.id, {
+        qr_code: qrCode,
+        card_issuer: deviceId,
+      });
+      signed++;
+    }
+    result.push({
+      ...member,
+      card_version: version,
+      qr_code: qrCode,
+      card_issuer: deviceId,
+    });
+  }
+  if (signed > 0) {
+    console.log(`[AppContext] Signed ${signed} member cards`);
+  }
+  return result;
+}
+
+/** This device's id for the sync hub, created the first time it is needed. */
+async function ensureDeviceId(
+  stored: string | null | undefined,
+): Promise<string> {
+  if (stored) return stored;
+  const deviceId = randomUUID();
+  await database.updateAppSettings({ device_id: deviceId });
+  return deviceId;
+}
+
+/** Stores the hash of a fresh recovery code and returns the code itself. */
+async function issueRecoveryCode(): Promise<string> {
+  const code = generateRecoveryCode();
+  await database.updateAppSettings({
+    recovery_code_hash: hashSecret(normalizeRecoveryCode(code)),
+  });
+  return code;
 }
 
 export function AppProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AppState>({
     isAuthenticated: false,
     hasPin: false,
+    staff: [],
+    currentStaff: null,
+    memberEdits: [],
+    cardReissues: [],
+    pinLockout: NO_LOCKOUT,
+    migratedRecoveryCode: null,
     isDarkMode: Appearance.getColorScheme() === "dark",
     members: [],
     attendance: [],
     sales: [],
+    plans: [],
+    subscriptions: [],
+    freezes: [],
+    shifts: [],
     priceSettings: defaultPriceSettings,
+    renewalGraceDays: DEFAULT_RENEWAL_GRACE_DAYS,
+    occupancySettings: DEFAULT_OCCUPANCY_SETTINGS,
+    accessRules: DEFAULT_ACCESS_RULES,
+    acceptLegacyCards: true,
+    scannerInputEnabled: false,
+    kioskMode: false,
+    syncHubUrl: null,
+    syncStatus: { isSyncing: false, lastSyncedAt: null, error: null },
+    autoBackupHours: 24,
+    lastBackupAt: null,
     isLoading: true,
     timeoutDisabled: false, // NEW DEFAULT
     appWentToBackground: false,
+    databaseError: null,
   });
+  // Kept out of state so it is never handed to screens
+  const cardSecretRef = useRef("");
+  const deviceIdRef = useRef("");
+  const isSyncingRef = useRef(false);
+  const isBackingUpRef = useRef(false);
 
   const loadDataFromDatabase = useCallback(async () => {
     try {
       const [
-        members,
-        attendance,
+        loadedMembers,
+        dbAttendance,
         sales,
+        plans,
+        loadedSubscriptions,
+        loadedFreezes,
+        shifts,
         priceSettings,
         appSettings,
-        hasPinStored,
+        loadedStaff,
+        memberEdits,
+        cardReissues,
       ] = await Promise.all([
         database.getAllMembers(),
         database.getAllAttendance(),
         database.getAllSales(),
+        database.getAllPlans(),
+        database.getAllSubscriptions(),
+        database.getAllFreezes(),
+        database.getAllShifts(),
         database.getPriceSettings(),
         database.getAppSettings(),
-        checkHasPin(),
+        database.getAllStaff(),
+        database.getAllMemberEdits(),
+        database.getAllCardReissues(),
       ]);
+      cardSecretRef.current = await ensureCardSecret(appSettings?.card_secret);
+      deviceIdRef.current = await ensureDeviceId(appSettings?.device_id);
+      setApiHub(appSettings?.sync_hub_url ?? "", appSettings?.sync_key ?? "");
+      const members = await signMemberCards(
+        loadedMembers,
+        cardSecretRef.current,
+        deviceIdRef.current,
+      );
+      const migrated = await migrateLegacyPin(loadedStaff);
+      const staff = migrated.staff.map((s) => ({
+        ...s,
+        role: s.role as StaffRole,
+      }));
 
       const dbDarkMode = appSettings?.is_dark_mode === 1;
+      const occupancySettings: OccupancySettings = appSettings
+        ? {
+            checkoutOnSecondScan:
+              (appSettings.checkout_on_second_scan ?? 1) === 1,
+            minVisitMinutes:
+              appSettings.min_visit_minutes ??
+              DEFAULT_OCCUPANCY_SETTINGS.minVisitMinutes,
+            closingTime:
+              appSettings.closing_time ??
+              DEFAULT_OCCUPANCY_SETTINGS.closingTime,
+            capacity:
+              appSettings.gym_capacity ?? DEFAULT_OCCUPANCY_SETTINGS.capacity,
+          }
+        : DEFAULT_OCCUPANCY_SETTINGS;
+      const accessRules: AccessRules = appSettings
+        ? {
+            onePerDay: (appSettings.access_one_per_day ?? 1) === 1,
+            minimumAge:
+              appSettings.access_min_age ?? DEFAULT_ACCESS_RULES.minimumAge,
+          }
+        : DEFAULT_ACCESS_RULES;
+      const loadedAttendance: Attendance[] = dbAttendance.map((a) => ({
+        ...a,
+        entry_method: (a.entry_method || "scan") as EntryMethod,
+      }));
+      // Nobody is still inside from a previous day
+      const attendance = applyAutoCheckOuts(
+        loadedAttendance,
+        await closeOverdueVisits(loadedAttendance, occupancySettings),
+      );
+
+      // Freezes whose end date has passed are lifted on load so the
+      // expiry extension is applied without staff having to do it
+      const today = getLocalDate();
+      let subscriptions: Subscription[] = loadedSubscriptions;
+      const freezes: Freeze[] = [...loadedFreezes];
+      for (let i = 0; i < freezes.length; i++) {
+        const resumeDate = getScheduledResumeDate(freezes[i]);
+        if (!resumeDate || !isFreezeDue(freezes[i], today)) continue;
+        const result = await liftFreeze(freezes[i], resumeDate, subscriptions);
+        freezes[i] = result.freeze;
+        subscriptions = result.subscriptions;
+      }
 
       setState((prev) => ({
         ...prev,
-        members: members.map((m) => ({
-          ...m,
-          email: m.email || "",
-          phone: m.phone || "",
-          photo: m.photo || "",
-          qr_image_path: m.qr_image_path || "",
-          membership_type: m.membership_type as "student" | "regular" | "senior",
-        })),
+        members: members.map((m) => {
+          // Current status comes from the subscription history; the
+          // member row's dates are only a fallback for members without one
+          const history = getMemberSubscriptions(subscriptions, m.id);
+          return {
+            ...m,
+            ...(history.length > 0 ? deriveSubscriptionDates(history) : {}),
+            email: m.email || "",
+            phone: m.phone || "",
+            photo: m.photo || "",
+            qr_image_path: m.qr_image_path || "",
+            is_banned: m.is_banned ?? 0,
+            ban_reason: m.ban_reason ?? null,
+            membership_type: m.membership_type as
+              | "student"
+              | "regular"
+              | "senior",
+          };
+        }),
         attendance,
-        sales: sales.map((s) => ({ ...s, note: s.note || "" })),
+        sales: sales.map((s) => ({
+          ...s,
+          note: s.note || "",
+          payment_method: (s.payment_method || "cash") as PaymentMethod,
+          reverses_sale_id: s.reverses_sale_id ?? null,
+          correction_type: (s.correction_type ?? null) as CorrectionType | null,
+          correction_reason: s.correction_reason ?? null,
+        })),
+        plans: plans.map((p) => ({
+          ...p,
+          duration_unit: p.duration_unit as Plan["duration_unit"],
+          category: p.category as Plan["category"],
+          allowed_from: p.allowed_from ?? null,
+          allowed_until: p.allowed_until ?? null,
+        })),
+        subscriptions,
+        freezes,
+        shifts,
         priceSettings,
+        renewalGraceDays:
+          appSettings?.renewal_grace_days ?? DEFAULT_RENEWAL_GRACE_DAYS,
+        occupancySettings,
+        accessRules,
+        acceptLegacyCards: (appSettings?.accept_legacy_cards ?? 1) === 1,
+        scannerInputEnabled: appSettings?.scanner_input === 1,
+        kioskMode: appSettings?.kiosk_mode === 1,
+        syncHubUrl: appSettings?.sync_hub_url ?? null,
+        syncStatus: {
+          ...prev.syncStatus,
+          lastSyncedAt: appSettings?.last_synced_at ?? null,
+        },
+        autoBackupHours: appSettings?.auto_backup_hours ?? 24,
+        lastBackupAt: appSettings?.last_backup_at ?? null,
         isDarkMode: dbDarkMode,
-        hasPin: hasPinStored,
+        staff,
+        memberEdits: memberEdits.map((e) => ({
+          ...e,
+          action: e.action as MemberEdit["action"],
+        })),
+        cardReissues: cardReissues.map((r) => ({
+          ...r,
+          reason: r.reason as CardReissueReason,
+        })),
+        hasPin: getActiveStaff(staff).length > 0,
+        // Kept until dismissed, so a reload before then does not lose it
+        ...(migrated.recoveryCode
+          ? { migratedRecoveryCode: migrated.recoveryCode }
+          : {}),
+        pinLockout: {
+          failedAttempts: appSettings?.failed_pin_attempts ?? 0,
+          lockedUntil: appSettings?.pin_locked_until ?? null,
+        },
+        databaseError: database.getDatabaseError(),
         isLoading: false,
       }));
     } catch (error) {
       console.error("Failed to load data from database:", error);
-      setState((prev) => ({ ...prev, isLoading: false }));
+      setState((prev) => ({
+        ...prev,
+        databaseError: database.getDatabaseError(),
+        isLoading: false,
+      }));
     }
   }, []);
 
@@ -206,10 +961,389 @@ export function AppProvider({ children }: { children: ReactNode }) {
     await loadDataFromDatabase();
   }, [loadDataFromDatabase]);
 
+  const syncNow = useCallback(async (): Promise<SyncSummary> => {
+    if (isSyncingRef.current) {
+      throw new Error("A sync is already running.");
+    }
+    isSyncingRef.current = true;
+    setState((prev) => ({
+      ...prev,
+      syncStatus: { ...prev.syncStatus, isSyncing: true },
+    }));
+    try {
+      const summary = await syncWithHub(deviceIdRef.current);
+      if (summary.pulled > 0) {
+        await loadDataFromDatabase();
+      }
+      setState((prev) => ({
+        ...prev,
+        syncStatus: {
+          isSyncing: false,
+          lastSyncedAt: new Date().toISOString(),
+          error: null,
+        },
+      }));
+      return summary;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setState((prev) => ({
+        ...prev,
+        syncStatus: { ...prev.syncStatus, isSyncing: false, error: message },
+      }));
+      throw error;
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [loadDataFromDatabase]);
+
+  const updateSyncSettings = useCallback(
+    async (hubUrl: string, key?: string) => {
+      if (!roleHasPermission(state.currentStaff, "restore_backups")) {
+        throw new Error("Only managers and owners can set up desk sync.");
+      }
+      const url = hubUrl.trim().replace(/\/+$/, "");
+      if (url && !/^https?:\/\/[^/]+/.test(url)) {
+        throw new Error("Enter the hub address, e.g. http://192.168.1.20:5000");
+      }
+      const current = await database.getAppSettings();
+      const syncKey = key?.trim() || current.sync_key || "";
+      if (url && !syncKey) {
+        throw new Error("Enter the sync key the hub was started with.");
+      }
+      // A different hub has its own revisions, so start pulling from zero
+      const hubChanged = url !== (current.sync_hub_url ?? "");
+      await database.updateAppSettings({
+        sync_hub_url: url || null,
+        sync_key: syncKey || null,
+        ...(hubChanged ? { sync_revision: 0, sync_pushed_at: null } : {}),
+      });
+      setApiHub(url, syncKey);
+      setState((prev) => ({
+        ...prev,
+        syncHubUrl: url || null,
+        syncStatus: hubChanged
+          ? {
+              isSyncing: prev.syncStatus.isSyncing,
+              lastSyncedAt: null,
+              error: null,
+            }
+          : prev.syncStatus,
+      }));
+    },
+    [state.currentStaff],
+  );
+
+  // Desks with a hub keep each other up to date while the app is open;
+  // failures only show in Settings so the front desk is not interrupted
+  useEffect(() => {
+    if (!state.syncHubUrl || state.isLoading || state.databaseError) return;
+    const run = () => {
+      if (isSyncingRef.current) return;
+      syncNow().catch((error) =>
+        console.warn("[AppContext] Auto sync failed:", error),
+      );
+    };
+    run();
+    const timer = setInterval(run, AUTO_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state.syncHubUrl, state.isLoading, state.databaseError, syncNow]);
+
+  // Backs up on start and whenever the app comes back to the foreground,
+  // once the last backup is older than the interval set on the backup screen
+  useEffect(() => {
+    // After a failed upgrade there is nothing saved to back up, and an
+    // empty backup would rotate out the real ones
+    if (state.isLoading || state.databaseError || Platform.OS === "web") {
+      return;
+    }
+    const run = async () => {
+      if (isBackingUpRef.current) return;
+      isBackingUpRef.current = true;
+      try {
+        const settings = await database.getAppSettings();
+        if (
+          !isAutoBackupDue(
+            settings.last_backup_at,
+            settings.auto_backup_hours,
+            new Date(),
+          )
+        ) {
+          return;
+        }
+        const file = await saveBackup("auto");
+        setState((prev) => ({
+          ...prev,
+          lastBackupAt: file.createdAt.toISOString(),
+        }));
+      } catch (error) {
+        console.warn("[AppContext] Automatic backup failed:", error);
+      } finally {
+        isBackingUpRef.current = false;
+      }
+    };
+    run();
+    const subscription = RNAppState.addEventListener("change", (next) => {
+      if (next === "active") run();
+    });
+    return () => subscription.remove();
+  }, [state.isLoading, state.databaseError]);
+
   const setAuthenticated = useCallback((value: boolean) => {
-    setState((prev) => ({ ...prev, isAuthenticated: value }));
+    setState((prev) => ({
+      ...prev,
+      isAuthenticated: value,
+      // Signing out forgets who was at the desk
+      currentStaff: value ? prev.currentStaff : null,
+    }));
+  }, []);
+
+  const signIn = useCallback(
+    async (staffId: number, pin: string): Promise<SignInResult> => {
+      const pinLockout = state.pinLockout;
+      if (getLockoutRemaining(pinLockout.lockedUntil) > 0) {
+        return {
+          success: false,
+          lockedUntil: pinLockout.lockedUntil,
+          attemptsLeft: 0,
+        };
+      }
+
+      const member = getActiveStaff(state.staff).find((s) => s.id === staffId);
+      if (!member || !verifyPin(pin, member.pin_hash)) {
+        const lockout = recordFailedAttempt(pinLockout);
+        await saveLockout(lockout);
+        setState((prev) => ({ ...prev, pinLockout: lockout }));
+        return {
+          success: false,
+          lockedUntil: lockout.lockedUntil,
+          attemptsLeft: getAttemptsLeft(lockout.failedAttempts),
+        };
+      }
+
+      if (pinLockout.failedAttempts > 0) {
+        await saveLockout(NO_LOCKOUT);
+      }
+      setState((prev) => ({
+        ...prev,
+        isAuthenticated: true,
+        currentStaff: member,
+        pinLockout: NO_LOCKOUT,
+      }));
+      return { success: true };
+    },
+    [state.staff, state.pinLockout],
+  );
+
+  const startKioskMode = useCallback(async () => {
+    await database.updateAppSettings({ kiosk_mode: 1 });
+    setState((prev) => ({
+      ...prev,
+      kioskMode: true,
+      isAuthenticated: false,
+      currentStaff: null,
+    }));
+  }, []);
+
+  const exitKioskMode = useCallback(
+    async (staffId: number, pin: string): Promise<SignInResult> => {
+      const result = await signIn(staffId, pin);
+      if (result.success) {
+        await database.updateAppSettings({ kiosk_mode: 0 });
+        setState((prev) => ({ ...prev, kioskMode: false }));
+      }
+      return result;
+    },
+    [signIn],
+  );
+
+  const hasPermission = useCallback(
+    (permission: Permission) =>
+      roleHasPermission(state.currentStaff, permission),
+    [state.currentStaff],
+  );
+
+  const addStaff = useCallback(
+    async ({
+      pin,
+      ...staffData
+    }: Pick<Staff, "name" | "role"> & { pin: string }) => {
+      if (!roleHasPermission(state.currentStaff, "manage_staff")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.manage_staff);
+      }
+      const pinError = validateStaffPin(pin);
+      if (pinError) {
+        throw new Error(pinError);
+      }
+
+      const newStaff: Omit<Staff, "id"> = {
+        ...staffData,
+        pin_hash: hashPin(pin),
+        is_active: 1,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertStaff(newStaff);
+      const created = { ...newStaff, id };
+      setState((prev) => ({ ...prev, staff: [...prev.staff, created] }));
+      return created;
+    },
+    [state.currentStaff],
+  );
+
+  const createOwnerAccount = useCallback(
+    async (name: string, pin: string) => {
+      if (getActiveStaff(state.staff).length > 0) {
+        throw new Error("An owner account has already been set up");
+      }
+      const pinError = validateStaffPin(pin);
+      if (pinError) {
+        throw new Error(pinError);
+      }
+
+      const newOwner: Omit<Staff, "id"> = {
+        name,
+        role: "owner",
+        pin_hash: hashPin(pin),
+        is_active: 1,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertStaff(newOwner);
+      const owner = { ...newOwner, id };
+      const recoveryCode = await issueRecoveryCode();
+      setState((prev) => ({
+        ...prev,
+        staff: [...prev.staff, owner],
+        hasPin: true,
+      }));
+      return { owner, recoveryCode };
+    },
+    [state.staff],
+  );
+
+  const regenerateRecoveryCode = useCallback(async () => {
+    if (!roleHasPermission(state.currentStaff, "manage_staff")) {
+      throw new Error(PERMISSION_DENIED_MESSAGES.manage_staff);
+    }
+    return issueRecoveryCode();
+  }, [state.currentStaff]);
+
+  const dismissMigratedRecoveryCode = useCallback(() => {
+    setState((prev) => ({ ...prev, migratedRecoveryCode: null }));
   }, []);
 
+  const recoverOwnerAccess = useCallback(
+    async (code: string, newPin: string) => {
+      // The recovery code is guessable too, so it shares the PIN lockout
+      if (getLockoutRemaining(state.pinLockout.lockedUntil) > 0) {
+        throw new Error("Too many failed attempts. Please wait and try again.");
+      }
+      const pinError = validateStaffPin(newPin);
+      if (pinError) {
+        throw new Error(pinError);
+      }
+
+      const settings = await database.getAppSettings();
+      if (!settings.recovery_code_hash) {
+        throw new Error("No recovery code has been set up on this device");
+      }
+      if (
+        !verifySecret(normalizeRecoveryCode(code), settings.recovery_code_hash)
+      ) {
+        const lockout = recordFailedAttempt(state.pinLockout);
+        await saveLockout(lockout);
+        setState((prev) => ({ ...prev, pinLockout: lockout }));
+        throw new Error("Incorrect recovery code");
+      }
+
+      const owner = getActiveStaff(state.staff).find((s) => s.role === "owner");
+      if (!owner) {
+        throw new Error("There is no active owner account to recover");
+      }
+      const pin_hash = hashPin(newPin);
+      await database.updateStaffById(owner.id, { pin_hash });
+      const recoveryCode = await issueRecoveryCode();
+      await saveLockout(NO_LOCKOUT);
+      setState((prev) => ({
+        ...prev,
+        staff: prev.staff.map((s) =>
+          s.id === owner.id ? { ...s, pin_hash } : s,
+        ),
+        pinLockout: NO_LOCKOUT,
+      }));
+      return { owner: { ...owner, pin_hash }, recoveryCode };
+    },
+    [state.staff, state.pinLockout],
+  );
+
+  const updateStaff = useCallback(
+    async (
+      id: number,
+      {
+        pin,
+        ...changes
+      }: Partial<Pick<Staff, "name" | "role" | "is_active"> & { pin: string }>,
+    ) => {
+      if (!roleHasPermission(state.currentStaff, "manage_staff")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.manage_staff);
+      }
+      const updates: Partial<Staff> = { ...changes };
+      if (pin !== undefined) {
+        const pinError = validateStaffPin(pin);
+        if (pinError) {
+          throw new Error(pinError);
+        }
+        updates.pin_hash = hashPin(pin);
+      }
+      // Someone must always be able to manage staff
+      const remainingOwners = getActiveStaff(state.staff).filter(
+        (s) => s.role === "owner" && s.id !== id,
+      );
+      const staysOwner =
+        (updates.role ?? state.staff.find((s) => s.id === id)?.role) ===
+          "owner" && updates.is_active !== 0;
+      if (remainingOwners.length === 0 && !staysOwner) {
+        throw new Error("There must be at least one active owner");
+      }
+
+      await database.updateStaffById(id, updates);
+      setState((prev) => ({
+        ...prev,
+        staff: prev.staff.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+        currentStaff:
+          prev.currentStaff?.id === id
+            ? { ...prev.currentStaff, ...updates }
+            : prev.currentStaff,
+      }));
+    },
+    [state.staff, state.currentStaff],
+  );
+
+  const recordMemberEdit = useCallback(
+    async (
+      memberId: number,
+      action: MemberEdit["action"],
+      fields: string[] = [],
+    ) => {
+      const edit: Omit<MemberEdit, "id"> = {
+        member_id: memberId,
+        staff_id: state.currentStaff?.id ?? null,
+        action,
+        fields: fields.length > 0 ? fields.join(",") : null,
+        created_at: new Date().toISOString(),
+      };
+      try {
+        const id = await database.insertMemberEdit(edit);
+        setState((prev) => ({
+          ...prev,
+          memberEdits: [{ ...edit, id }, ...prev.memberEdits],
+        }));
+      } catch (error) {
+        // The edit itself has been saved; a missing log entry should not undo it
+        console.warn("[AppContext] Failed to record member edit:", error);
+      }
+    },
+    [state.currentStaff],
+  );
+
   const setHasPin = useCallback((value: boolean) => {
     setState((prev) => ({ ...prev, hasPin: value }));
   }, []);
@@ -237,22 +1371,42 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const generateQRCode = (id: number): string => {
-    return `GYM-${id.toString().padStart(6, "0")}`;
-  };
-
   const addMember = useCallback(
     async (
-      memberData: Omit<Member, "id" | "qr_code" | "qr_image_path">
+      memberData: Omit<
+        Member,
+        | "id"
+        | "qr_code"
+        | "qr_image_path"
+        | "is_banned"
+        | "ban_reason"
+        | "card_version"
+        | "card_issuer"
+        | "origin_device_id"
+      >,
     ): Promise<Member> => {
       const tempId = Date.now();
       const id = await database.insertMember({
         ...memberData,
-        qr_code: generateQRCode(tempId),
+        qr_code: createMemberQR(
+          tempId,
+          FIRST_CARD_VERSION,
+          cardSecretRef.current,
+        ),
         qr_image_path: null,
+        is_banned: 0,
+        ban_reason: null,
+        card_version: FIRST_CARD_VERSION,
+        card_issuer: deviceIdRef.current,
+        origin_device_id: deviceIdRef.current,
       });
 
-      const finalQRCode = generateQRCode(id);
+      // The card is signed over the real id, known only after the insert
+      const finalQRCode = createMemberQR(
+        id,
+        FIRST_CARD_VERSION,
+        cardSecretRef.current,
+      );
       await database.updateMemberById(id, { qr_code: finalQRCode });
 
       const newMember: Member = {
@@ -260,127 +1414,354 @@ export function AppProvider({ children }: { children: ReactNode }) {
         id,
         qr_code: finalQRCode,
         qr_image_path: "",
+        is_banned: 0,
+        ban_reason: null,
+        card_version: FIRST_CARD_VERSION,
+        card_issuer: deviceIdRef.current,
+        origin_device_id: deviceIdRef.current,
       };
 
       setState((prev) => ({
         ...prev,
         members: [newMember, ...prev.members],
       }));
+      await recordMemberEdit(id, "create");
 
       return newMember;
     },
-    []
+    [recordMemberEdit],
   );
 
-  const updateMember = useCallback(async (id: number, updates: Partial<Member>) => {
-    await database.updateMemberById(id, updates);
-    setState((prev) => ({
-      ...prev,
-      members: prev.members.map((m) =>
-        m.id === id ? { ...m, ...updates } : m
-      ),
-    }));
-  }, []);
+  const updateMember = useCallback(
+    async (id: number, updates: Partial<Member>) => {
+      await database.updateMemberById(id, updates);
+      setState((prev) => ({
+        ...prev,
+        members: prev.members.map((m) =>
+          m.id === id ? { ...m, ...updates } : m,
+        ),
+      }));
+      await recordMemberEdit(
+        id,
+        "update",
+        Object.keys(updates).filter((k) => k !== "id"),
+      );
+    },
+    [recordMemberEdit],
+  );
 
-  const deleteMember = useCallback(async (id: number) => {
-    await database.deleteMemberById(id);
-    setState((prev) => ({
-      ...prev,
-      members: prev.members.filter((m) => m.id !== id),
-    }));
-  }, []);
+  const deleteMember = useCallback(
+    async (id: number) => {
+      if (!roleHasPermission(state.currentStaff, "delete_members")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.delete_members);
+      }
+      await database.deleteMemberById(id);
+      setState((prev) => ({
+        ...prev,
+        members: prev.members.filter((m) => m.id !== id),
+        subscriptions: prev.subscriptions.filter((s) => s.member_id !== id),
+        freezes: prev.freezes.filter((f) => f.member_id !== id),
+        cardReissues: prev.cardReissues.filter((r) => r.member_id !== id),
+      }));
+      await recordMemberEdit(id, "delete");
+    },
+    [state.currentStaff, recordMemberEdit],
+  );
 
   const getMember = useCallback(
     (id: number): Member | undefined => state.members.find((m) => m.id === id),
     [state.members]
   );
 
-  const getMemberByQR = useCallback(
-    (qrCode: string) => state.members.find((m) => m.qr_code === qrCode),
-    [state.members]
+  const verifyMemberQR = useCallback(
+    (data: string) =>
+      checkMemberQR(
+        data,
+        state.members,
+        state.cardReissues,
+        cardSecretRef.current,
+        state.acceptLegacyCards,
+        deviceIdRef.current,
+      ),
+    [state.members, state.cardReissues, state.acceptLegacyCards],
   );
 
-  const addAttendance = useCallback(async (memberId: number) => {
-    const now = new Date();
-    const attendanceData = {
-      member_id: memberId,
-      date: now.toISOString().split("T")[0],
-      time: now.toTimeString().split(" ")[0],
-    };
+  const setAcceptLegacyCards = useCallback(async (value: boolean) => {
+    await database.updateAppSettings({ accept_legacy_cards: value ? 1 : 0 });
+    setState((prev) => ({ ...prev, acceptLegacyCards: value }));
+  }, []);
+
+  const setScannerInputEnabled = useCallback(async (value: boolean) => {
+    await database.updateAppSettings({ scanner_input: value ? 1 : 0 });
+    setState((prev) => ({ ...prev, scannerInputEnabled: value }));
+  }, []);
 
-    let id: number;
-    let retries = 0;
-    const maxRetries = 3;
+  const addAttendance = useCallback(
+    async (memberId: number, entryMethod: EntryMethod = "scan") => {
+      const now = new Date();
+      const attendanceData = {
+        member_id: memberId,
+        date: now.toISOString().split("T")[0],
+        time: getLocalTime(now),
+        staff_id: state.currentStaff?.id ?? null,
+        check_out_time: null,
+        auto_checked_out: 0,
+        entry_method: entryMethod,
+      };
 
-    while (retries < maxRetries) {
-      try {
-        id = await database.insertAttendance(attendanceData);
-        console.log('[AppContext] Attendance recorded successfully:', { id, memberId, time: attendanceData.time });
-        break;
-      } catch (error) {
-        retries++;
-        console.warn(`[AppContext] Failed to record attendance (attempt ${retries}/${maxRetries}):`, error);
-        
-        if (retries >= maxRetries) {
-          console.error('[AppContext] CRITICAL: Failed to record attendance after retries', error);
-          throw error;
+      let id: number;
+      let retries = 0;
+      const maxRetries = 3;
+
+      while (retries < maxRetries) {
+        try {
+          id = await database.insertAttendance(attendanceData);
+          console.log("[AppContext] Attendance recorded successfully:", {
+            id,
+            memberId,
+            time: attendanceData.time,
+          });
+          break;
+        } catch (error) {
+          retries++;
+          console.warn(
+            `[AppContext] Failed to record attendance (attempt ${retries}/${maxRetries}):`,
+            error,
+          );
+
+          if (retries >= maxRetries) {
+            console.error(
+              "[AppContext] CRITICAL: Failed to record attendance after retries",
+              error,
+            );
+            throw error;
+          }
+
+          // Wait before retrying
+          await new Promise((resolve) => setTimeout(resolve, 500 * retries));
         }
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, 500 * retries));
       }
-    }
 
+      setState((prev) => ({
+        ...prev,
+        attendance: [{ id, ...attendanceData }, ...prev.attendance],
+      }));
+    },
+    [state.currentStaff],
+  );
+
+  const checkOutAttendance = useCallback(async (attendanceId: number) => {
+    const check_out_time = getLocalTime();
+    await database.updateAttendanceById(attendanceId, {
+      check_out_time,
+      auto_checked_out: 0,
+    });
     setState((prev) => ({
       ...prev,
-      attendance: [{ id, ...attendanceData }, ...prev.attendance],
+      attendance: prev.attendance.map((a) =>
+        a.id === attendanceId
+          ? { ...a, check_out_time, auto_checked_out: 0 }
+          : a,
+      ),
     }));
   }, []);
 
-  const addSale = useCallback(async (type: string, amount: number, note: string) => {
-    const saleData = {
-      type,
-      amount,
-      date: new Date().toISOString().split("T")[0],
-      note,
-    };
+  const getVisitsInside = useCallback(
+    () => findVisitsInside(state.attendance),
+    [state.attendance],
+  );
 
-    let id: number;
-    let retries = 0;
-    const maxRetries = 3;
+  const updateOccupancySettings = useCallback(
+    async (settings: Partial<OccupancySettings>) => {
+      const next = { ...state.occupancySettings, ...settings };
+      await database.updateAppSettings({
+        checkout_on_second_scan: next.checkoutOnSecondScan ? 1 : 0,
+        min_visit_minutes: next.minVisitMinutes,
+        closing_time: next.closingTime,
+        gym_capacity: next.capacity,
+      });
+      setState((prev) => ({ ...prev, occupancySettings: next }));
+    },
+    [state.occupancySettings],
+  );
 
-    while (retries < maxRetries) {
-      try {
-        id = await database.insertSale(saleData);
-        console.log('[AppContext] Sale inserted successfully:', { id, type, amount });
-        break;
-      } catch (error) {
-        retries++;
-        console.warn(`[AppContext] Failed to insert sale (attempt ${retries}/${maxRetries}):`, error);
-        
-        if (retries >= maxRetries) {
-          console.error('[AppContext] CRITICAL: Failed to insert sale after retries', error);
-          throw error;
-        }
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, 500 * retries));
+  const updateAccessRules = useCallback(
+    async (rules: Partial<AccessRules>) => {
+      const next = { ...state.accessRules, ...rules };
+      await database.updateAppSettings({
+        access_one_per_day: next.onePerDay ? 1 : 0,
+        access_min_age: next.minimumAge,
+      });
+      setState((prev) => ({ ...prev, accessRules: next }));
+    },
+    [state.accessRules],
+  );
+
+  // Visits left open when the gym closes are closed within a minute of
+  // closing time, not only the next time the app starts
+  useEffect(() => {
+    if (state.isLoading) return;
+    const interval = setInterval(async () => {
+      const closed = await closeOverdueVisits(
+        state.attendance,
+        state.occupancySettings,
+      );
+      if (closed.size > 0) {
+        setState((prev) => ({
+          ...prev,
+          attendance: applyAutoCheckOuts(prev.attendance, closed),
+        }));
       }
-    }
+    }, AUTO_CLOSE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [state.isLoading, state.attendance, state.occupancySettings]);
 
-    setState((prev) => ({
-      ...prev,
-      sales: [{ id, ...saleData }, ...prev.sales],
-    }));
-  }, []);
+  const addSale = useCallback(
+    async (
+      type: string,
+      amount: number,
+      note: string,
+      tenders: Tender[] = cashTender(amount),
+    ) => {
+      const date = new Date().toISOString().split("T")[0];
+      const shift = getOpenShift(state.shifts);
+      const inserted: Sale[] = [];
+
+      // One row per tender; the rest of a split point back at the first
+      for (const tender of tenders) {
+        const saleData = {
+          type,
+          amount: tender.amount,
+          date,
+          note,
+          payment_method: tender.method,
+          reference_number: tender.reference.trim() || null,
+          payment_group: inserted.length > 0 ? inserted[0].id : null,
+          shift_id: shift ? shift.id : null,
+          reverses_sale_id: null,
+          correction_type: null,
+          correction_reason: null,
+          staff_id: state.currentStaff?.id ?? null,
+        };
+        const id = await insertSaleWithRetry(saleData);
+        inserted.push({ id, ...saleData });
+      }
 
-  const updatePriceSettings = useCallback(async (settings: Partial<PriceSettings>) => {
-    await database.updatePriceSettingsDB(settings);
-    setState((prev) => ({
-      ...prev,
-      priceSettings: { ...prev.priceSettings, ...settings },
-    }));
-  }, []);
+      setState((prev) => ({
+        ...prev,
+        sales: [...[...inserted].reverse(), ...prev.sales],
+      }));
+
+      return inserted[0].id;
+    },
+    [state.shifts, state.currentStaff],
+  );
+
+  const correctSale = useCallback(
+    async (
+      saleId: number,
+      type: CorrectionType,
+      reason: string,
+      amount: number = 0,
+    ) => {
+      const sale = state.sales.find((s) => s.id === saleId);
+      if (!sale) {
+        throw new Error("Sale not found");
+      }
+      const error = validateCorrection(state.sales, sale, type, amount, reason);
+      if (error) {
+        throw new Error(error);
+      }
+
+      // A void reverses every tender of the payment in full; a refund is
+      // paid back through the tender it was taken on
+      const reversals =
+        type === "void"
+          ? getReversibleRows(state.sales, sale).map((row) => ({
+              row,
+              amount: getRefundableAmount(state.sales, row),
+            }))
+          : [{ row: sale, amount }];
+
+      const date = new Date().toISOString().split("T")[0];
+      const shift = getOpenShift(state.shifts);
+      const inserted: Sale[] = [];
+
+      for (const { row, amount: reversedAmount } of reversals) {
+        const saleData: Omit<Sale, "id"> = {
+          type: row.type,
+          amount: -reversedAmount,
+          date,
+          note: `${CORRECTION_LABELS[type]} of sale #${row.id}${row.note ? ` (${row.note})` : ""}`,
+          payment_method: row.payment_method,
+          reference_number: row.reference_number,
+          payment_group: inserted.length > 0 ? inserted[0].id : null,
+          shift_id: shift ? shift.id : null,
+          reverses_sale_id: row.id,
+          correction_type: type,
+          correction_reason: reason.trim(),
+          staff_id: state.currentStaff?.id ?? null,
+        };
+        const id = await insertSaleWithRetry(saleData);
+        inserted.push({ id, ...saleData });
+      }
+
+      setState((prev) => ({
+        ...prev,
+        sales: [...[...inserted].reverse(), ...prev.sales],
+      }));
+    },
+    [state.sales, state.shifts, state.currentStaff],
+  );
+
+  const updatePriceSettings = useCallback(
+    async (settings: Partial<PriceSettings>) => {
+      if (!roleHasPermission(state.currentStaff, "edit_prices")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.edit_prices);
+      }
+      await database.updatePriceSettingsDB(settings);
+      setState((prev) => ({
+        ...prev,
+        priceSettings: { ...prev.priceSettings, ...settings },
+      }));
+    },
+    [state.currentStaff],
+  );
+
+  const addPlan = useCallback(
+    async (planData: Omit<Plan, "id">): Promise<Plan> => {
+      if (!roleHasPermission(state.currentStaff, "edit_prices")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.edit_prices);
+      }
+      const id = await database.insertPlan(planData);
+      const newPlan: Plan = { ...planData, id };
+      setState((prev) => ({
+        ...prev,
+        plans: [...prev.plans, newPlan],
+      }));
+      return newPlan;
+    },
+    [state.currentStaff],
+  );
+
+  const updatePlan = useCallback(
+    async (id: number, updates: Partial<Plan>) => {
+      if (!roleHasPermission(state.currentStaff, "edit_prices")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.edit_prices);
+      }
+      await database.updatePlanById(id, updates);
+      setState((prev) => ({
+        ...prev,
+        plans: prev.plans.map((p) => (p.id === id ? { ...p, ...updates } : p)),
+      }));
+    },
+    [state.currentStaff],
+  );
+
+  const getPlan = useCallback(
+    (id: number): Plan | undefined => state.plans.find((p) => p.id === id),
+    [state.plans],
+  );
 
   const getTodayAttendance = useCallback(() => {
     const today = new Date().toISOString().split("T")[0];
@@ -395,48 +1776,323 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, [state.sales]);
 
   const getActiveMembers = useCallback(() => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     return state.members.filter(
       (m) => m.subscription_end && m.subscription_end >= today
     );
   }, [state.members]);
 
   const getExpiredMembers = useCallback(() => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     return state.members.filter(
       (m) => !m.subscription_end || m.subscription_end < today
     );
   }, [state.members]);
 
+  const getSubscriptionsForMember = useCallback(
+    (memberId: number) => getMemberSubscriptions(state.subscriptions, memberId),
+    [state.subscriptions],
+  );
+
+  /**
+   * Persist a member's new history and refresh the cached start/end dates
+   * on the member row from it.
+   */
+  const applySubscriptionChange = useCallback(
+    async (memberId: number, history: Subscription[]) => {
+      const dates = deriveSubscriptionDates(history);
+      await database.updateMemberById(memberId, dates);
+      setState((prev) => ({
+        ...prev,
+        subscriptions: [
+          ...prev.subscriptions.filter((s) => s.member_id !== memberId),
+          ...history,
+        ],
+        members: prev.members.map((m) =>
+          m.id === memberId ? { ...m, ...dates } : m,
+        ),
+      }));
+    },
+    [],
+  );
+
+  /**
+   * Append a period after the member's current one (or from today) using
+   * the shared renewal engine, so every renewal path stacks the same way.
+   */
+  const addSubscriptionPeriod = useCallback(
+    async (
+      member: Member,
+      duration: RenewalDuration,
+      start: RenewalStart | undefined,
+      payment: {
+        plan_id: number | null;
+        amount_paid: number;
+        sale_id: number | null;
+      },
+    ): Promise<Subscription> => {
+      const today = getLocalDate();
+      const history = getMemberSubscriptions(state.subscriptions, member.id);
+      const currentEnd =
+        deriveSubscriptionDates(history).subscription_end ??
+        member.subscription_end;
+      const startMode =
+        start ??
+        getRenewalContext(currentEnd, today, state.renewalGraceDays)
+          .defaultStart;
+
+      const subscriptionData: Omit<Subscription, "id"> = {
+        member_id: member.id,
+        ...quoteRenewal(currentEnd, duration, startMode, today),
+        ...payment,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertSubscription(subscriptionData);
+      const subscription: Subscription = { ...subscriptionData, id };
+
+      await applySubscriptionChange(member.id, [...history, subscription]);
+      return subscription;
+    },
+    [state.subscriptions, state.renewalGraceDays, applySubscriptionChange],
+  );
+
+  const subscribeMember = useCallback(
+    async (
+      member: Member,
+      plan: Plan,
+      start?: RenewalStart,
+      tenders?: Tender[],
+    ): Promise<Subscription> => {
+      const saleId = await addSale(
+        "subscription",
+        plan.price,
+        `${plan.name} subscription for ${member.firstname} ${member.lastname}`,
+        tenders,
+      );
+
+      return addSubscriptionPeriod(member, plan, start, {
+        plan_id: plan.id,
+        amount_paid: plan.price,
+        sale_id: saleId,
+      });
+    },
+    [addSale, addSubscriptionPeriod],
+  );
+
   const renewSubscription = useCallback(
-    async (memberId: number) => {
+    async (
+      memberId: number,
+      planId: number,
+      start?: RenewalStart,
+      tenders?: Tender[],
+    ) => {
+      const member = state.members.find((m) => m.id === memberId);
+      const plan = state.plans.find((p) => p.id === planId);
+      if (!member || !plan) return;
+
+      await subscribeMember(member, plan, start, tenders);
+    },
+    [state.members, state.plans, subscribeMember],
+  );
+
+  const extendSubscription = useCallback(
+    async (memberId: number, days: number, start?: RenewalStart) => {
       const member = state.members.find((m) => m.id === memberId);
       if (!member) return;
 
-      const today = new Date();
-      const endDate = new Date(today);
-      endDate.setMonth(endDate.getMonth() + 1);
+      await addSubscriptionPeriod(
+        member,
+        { duration_value: days, duration_unit: "days" },
+        start,
+        { plan_id: null, amount_paid: 0, sale_id: null },
+      );
+    },
+    [state.members, addSubscriptionPeriod],
+  );
+
+  const setRenewalGraceDays = useCallback(async (days: number) => {
+    await database.updateAppSettings({ renewal_grace_days: days });
+    setState((prev) => ({ ...prev, renewalGraceDays: days }));
+  }, []);
+
+  /**
+   * Manual correction of the member's current period. Edits the latest
+   * period in the history, or records an unpaid one if there is none.
+   */
+  const setSubscriptionDates = useCallback(
+    async (
+      memberId: number,
+      dates: { start_date?: string; end_date?: string },
+    ) => {
+      const history = getMemberSubscriptions(state.subscriptions, memberId);
+      const latest = getLatestSubscription(history);
+
+      if (latest) {
+        await database.updateSubscriptionById(latest.id, dates);
+        await applySubscriptionChange(
+          memberId,
+          history.map((s) => (s.id === latest.id ? { ...s, ...dates } : s)),
+        );
+        return;
+      }
 
-      const priceKey =
-        `${member.membership_type}_monthly` as keyof PriceSettings;
-      const amount = state.priceSettings[priceKey];
+      const today = getLocalDate();
+      const subscriptionData: Omit<Subscription, "id"> = {
+        member_id: memberId,
+        plan_id: null,
+        start_date: dates.start_date ?? today,
+        end_date: dates.end_date ?? dates.start_date ?? today,
+        amount_paid: 0,
+        sale_id: null,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertSubscription(subscriptionData);
+      await applySubscriptionChange(memberId, [{ ...subscriptionData, id }]);
+    },
+    [state.subscriptions, applySubscriptionChange],
+  );
 
-      await updateMember(memberId, {
-        subscription_start: today.toISOString().split("T")[0],
-        subscription_end: endDate.toISOString().split("T")[0],
+  const getCurrentFreeze = useCallback(
+    (memberId: number) =>
+      findCurrentFreeze(state.freezes, memberId, getLocalDate()),
+    [state.freezes],
+  );
+
+  const getFrozenMembers = useCallback(() => {
+    const today = getLocalDate();
+    return state.members.filter((m) =>
+      findCurrentFreeze(state.freezes, m.id, today),
+    );
+  }, [state.members, state.freezes]);
+
+  const freezeMember = useCallback(
+    async (
+      memberId: number,
+      freeze: Pick<Freeze, "start_date" | "end_date" | "reason" | "fee">,
+      tenders?: Tender[],
+    ) => {
+      const member = state.members.find((m) => m.id === memberId);
+      if (!member) return;
+      if (getOpenFreeze(state.freezes, memberId)) {
+        throw new Error("Member already has a freeze in place");
+      }
+
+      const saleId =
+        freeze.fee > 0
+          ? await addSale(
+              "freeze_fee",
+              freeze.fee,
+              `Freeze fee for ${member.firstname} ${member.lastname}`,
+              tenders,
+            )
+          : null;
+
+      const freezeData: Omit<Freeze, "id"> = {
+        member_id: memberId,
+        ...freeze,
+        sale_id: saleId,
+        unfrozen_at: null,
+        frozen_days: 0,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertFreeze(freezeData);
+      setState((prev) => ({
+        ...prev,
+        freezes: [...prev.freezes, { ...freezeData, id }],
+      }));
+    },
+    [state.members, state.freezes, addSale],
+  );
+
+  const reissueMemberCard = useCallback(
+    async (
+      memberId: number,
+      reissue: Pick<CardReissue, "reason" | "fee">,
+      tenders?: Tender[],
+    ): Promise<Member> => {
+      const member = state.members.find((m) => m.id === memberId);
+      if (!member) {
+        throw new Error("Member not found");
+      }
+
+      const saleId =
+        reissue.fee > 0
+          ? await addSale(
+              "card_replacement",
+              reissue.fee,
+              `Replacement card for ${member.firstname} ${member.lastname}`,
+              tenders,
+            )
+          : null;
+
+      const card_version = member.card_version + 1;
+      const qr_code = createMemberQR(
+        memberId,
+        card_version,
+        cardSecretRef.current,
+      );
+      const card_issuer = deviceIdRef.current;
+      await database.updateMemberById(memberId, {
+        card_version,
+        qr_code,
+        card_issuer,
       });
 
-      await addSale(
-        `monthly_${member.membership_type}`,
-        amount,
-        `Monthly subscription for ${member.firstname} ${member.lastname}`
+      const reissueData: Omit<CardReissue, "id"> = {
+        member_id: memberId,
+        card_version,
+        ...reissue,
+        sale_id: saleId,
+        staff_id: state.currentStaff?.id ?? null,
+        replaced_qr_code: member.qr_code,
+        created_at: new Date().toISOString(),
+      };
+      const id = await database.insertCardReissue(reissueData);
+
+      const updated = { ...member, card_version, qr_code, card_issuer };
+      setState((prev) => ({
+        ...prev,
+        members: prev.members.map((m) => (m.id === memberId ? updated : m)),
+        cardReissues: [{ ...reissueData, id }, ...prev.cardReissues],
+      }));
+      await recordMemberEdit(memberId, "update", ["card_version"]);
+      return updated;
+    },
+    [state.members, state.currentStaff, addSale, recordMemberEdit],
+  );
+
+  const unfreezeMember = useCallback(
+    async (memberId: number) => {
+      const freeze = getOpenFreeze(state.freezes, memberId);
+      if (!freeze) return;
+
+      const today = getLocalDate();
+      const result = await liftFreeze(freeze, today, state.subscriptions);
+      const dates = deriveSubscriptionDates(
+        getMemberSubscriptions(result.subscriptions, memberId),
       );
+      setState((prev) => ({
+        ...prev,
+        freezes: prev.freezes.map((f) =>
+          f.id === freeze.id ? result.freeze : f,
+        ),
+        subscriptions: result.subscriptions,
+        members: prev.members.map((m) =>
+          m.id === memberId && dates.subscription_end ? { ...m, ...dates } : m,
+        ),
+      }));
     },
-    [state.members, state.priceSettings, updateMember, addSale]
+    [state.freezes, state.subscriptions],
   );
 
   const paySession = useCallback(
-    async (memberId: number, isMember: boolean, isSenior: boolean = false) => {
+    async (
+      memberId: number,
+      isMember: boolean,
+      isSenior: boolean = false,
+      tenders?: Tender[],
+      entryMethod: EntryMethod = "scan",
+    ) => {
       const member = state.members.find((m) => m.id === memberId);
 
       let amount: number;
@@ -454,89 +2110,150 @@ export function AppProvider({ children }: { children: ReactNode }) {
         ? `Session for ${member.firstname} ${member.lastname}${isSenior ? " (Senior)" : ""}`
         : `Walk-in session${isSenior ? " (Senior)" : ""}`;
 
-      await addSale(type, amount, note);
+      await addSale(type, amount, note, tenders);
 
       if (memberId > 0) {
-        await addAttendance(memberId);
+        await addAttendance(memberId, entryMethod);
       }
     },
-    [state.members, state.priceSettings, addSale, addAttendance]
+    [state.members, state.priceSettings, addSale, addAttendance],
   );
 
-  const backupAllData = useCallback(async (): Promise<string> => {
-    const backupData = {
-      members: state.members,
-      attendance: state.attendance,
-      sales: state.sales,
-      priceSettings: state.priceSettings,
-      timestamp: new Date().toISOString(),
-      version: "1.0",
-    };
-    return JSON.stringify(backupData);
-  }, [state.members, state.attendance, state.sales, state.priceSettings]);
+  const getCurrentShift = useCallback(
+    () => getOpenShift(state.shifts),
+    [state.shifts],
+  );
 
-  const restoreFromBackup = useCallback(async (backupData: string): Promise<void> => {
-    try {
-      const parsed = JSON.parse(backupData);
-      
-      if (!parsed.members || !parsed.attendance || !parsed.sales || !parsed.priceSettings) {
-        throw new Error("Invalid backup file - missing required data");
+  const openShift = useCallback(
+    async (staffName: string, openingFloat: number) => {
+      if (getOpenShift(state.shifts)) {
+        throw new Error("Close the current shift before opening a new one");
       }
 
-      // FIRST: Clear all existing data
-      console.log('[AppContext] Clearing existing data before restore...');
-      try {
-        await database.clearAllData();
-      } catch (clearError) {
-        console.warn('[AppContext] Error clearing data:', clearError);
-        throw new Error('Failed to clear existing data');
-      }
+      const shiftData: Omit<Shift, "id"> = {
+        staff_name: staffName,
+        opening_float: openingFloat,
+        opened_at: new Date().toISOString(),
+        closed_at: null,
+        expected_cash: null,
+        counted_cash: null,
+        closing_note: null,
+      };
+      const id = await database.insertShift(shiftData);
+      const shift = { ...shiftData, id };
+      setState((prev) => ({ ...prev, shifts: [shift, ...prev.shifts] }));
+      return shift;
+    },
+    [state.shifts],
+  );
 
-      // SECOND: Restore members
-      console.log('[AppContext] Restoring members...');
-      for (const member of parsed.members) {
-        try {
-          await database.insertMember(member);
-        } catch (e) {
-          console.warn('[AppContext] Failed to restore member:', member.id, e);
-        }
+  const closeShift = useCallback(
+    async (countedCash: number, note?: string) => {
+      const shift = getOpenShift(state.shifts);
+      if (!shift) {
+        throw new Error("There is no open shift to close");
       }
 
-      // THIRD: Restore attendance
-      console.log('[AppContext] Restoring attendance records...');
-      for (const record of parsed.attendance) {
-        try {
-          await database.insertAttendance(record);
-        } catch (e) {
-          console.warn('[AppContext] Failed to restore attendance record:', record.id, e);
-        }
+      // Expected cash is fixed at close so the Z-report can be reprinted as-is
+      const updates = {
+        closed_at: new Date().toISOString(),
+        expected_cash: summarizeShift(shift, state.sales).expectedCash,
+        counted_cash: countedCash,
+        closing_note: note?.trim() || null,
+      };
+      await database.updateShiftById(shift.id, updates);
+      const closed = { ...shift, ...updates };
+      setState((prev) => ({
+        ...prev,
+        shifts: prev.shifts.map((s) => (s.id === shift.id ? closed : s)),
+      }));
+      return closed;
+    },
+    [state.shifts, state.sales],
+  );
+
+  const createBackup = useCallback(
+    async (passphrase?: string): Promise<BackupFile> => {
+      const file = await saveBackup("manual", passphrase);
+      setState((prev) => ({
+        ...prev,
+        lastBackupAt: file.createdAt.toISOString(),
+      }));
+      return file;
+    },
+    [],
+  );
+
+  const setAutoBackupHours = useCallback(
+    async (hours: number) => {
+      if (!roleHasPermission(state.currentStaff, "restore_backups")) {
+        throw new Error(
+          "Only managers and owners can change automatic backups.",
+        );
       }
+      await database.updateAppSettings({ auto_backup_hours: hours });
+      setState((prev) => ({ ...prev, autoBackupHours: hours }));
+    },
+    [state.currentStaff],
+  );
 
-      // FOURTH: Restore sales
-      console.log('[AppContext] Restoring sales records...');
-      for (const sale of parsed.sales) {
-        try {
-          await database.insertSale(sale);
-        } catch (e) {
-          console.warn('[AppContext] Failed to restore sale:', sale.id, e);
-        }
+  const deleteBackup = useCallback(
+    async (file: BackupFile) => {
+      if (!roleHasPermission(state.currentStaff, "restore_backups")) {
+        throw new Error("Only managers and owners can delete backups.");
       }
+      await deleteBackupFile(file);
+    },
+    [state.currentStaff],
+  );
 
-      // FIFTH: Restore price settings
-      console.log('[AppContext] Restoring price settings...');
-      if (parsed.priceSettings) {
-        await database.updatePriceSettingsDB(parsed.priceSettings);
+  const openBackup = useCallback(
+    async (uri: string, passphrase?: string): Promise<LoadedBackup> => {
+      if (!roleHasPermission(state.currentStaff, "restore_backups")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.restore_backups);
       }
+      // The whole file is checked before anything can be restored from it
+      return loadBackupFile(uri, passphrase);
+    },
+    [state.currentStaff],
+  );
 
-      console.log('[AppContext] Backup restored successfully');
-      // Reload data from database
-      await new Promise(resolve => setTimeout(resolve, 500)); // Wait a bit for DB operations
-      await loadDataFromDatabase();
-    } catch (error) {
-      console.error("Failed to restore from backup:", error);
-      throw error;
-    }
-  }, [loadDataFromDatabase]);
+  const previewRestore = useCallback(
+    async (
+      backup: LoadedBackup,
+      options: database.RestoreOptions,
+    ): Promise<database.RestorePreview> => {
+      return database.previewRestore(backup.data, options);
+    },
+    [],
+  );
+
+  const restoreFromBackup = useCallback(
+    async (
+      backup: LoadedBackup,
+      options: database.RestoreOptions,
+      onProgress?: (progress: database.RestoreProgress) => void,
+    ): Promise<void> => {
+      if (!roleHasPermission(state.currentStaff, "restore_backups")) {
+        throw new Error(PERMISSION_DENIED_MESSAGES.restore_backups);
+      }
+      try {
+        if (options.mode === "replace") {
+          await database.restoreAllData(backup.data, onProgress);
+        } else {
+          await database.mergeRestoreData(backup.data, options, onProgress);
+        }
+        console.log("[AppContext] Backup restored successfully");
+        await loadDataFromDatabase();
+      } catch (error) {
+        console.error("Failed to restore from backup:", error);
+        throw error;
+      } finally {
+        await releaseBackup(backup);
+      }
+    },
+    [state.currentStaff, loadDataFromDatabase],
+  );
 
   return (
     <AppContext.Provider
@@ -544,6 +2261,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
         ...state,
         setAuthenticated,
         setHasPin,
+        signIn,
+        hasPermission,
+        createOwnerAccount,
+        regenerateRecoveryCode,
+        dismissMigratedRecoveryCode,
+        recoverOwnerAccess,
+        addStaff,
+        updateStaff,
         toggleTheme,
         setDarkMode,
         timeoutDisabled: state.timeoutDisabled,
@@ -553,18 +2278,49 @@ export function AppProvider({ children }: { children: ReactNode }) {
         updateMember,
         deleteMember,
         getMember,
-        getMemberByQR,
+        verifyMemberQR,
+        reissueMemberCard,
+        setAcceptLegacyCards,
+        setScannerInputEnabled,
+        startKioskMode,
+        exitKioskMode,
+        updateSyncSettings,
+        syncNow,
         addAttendance,
+        checkOutAttendance,
+        getVisitsInside,
+        updateOccupancySettings,
+        updateAccessRules,
         addSale,
+        correctSale,
         updatePriceSettings,
+        addPlan,
+        updatePlan,
+        getPlan,
         getTodayAttendance,
         getTodaySales,
         getActiveMembers,
         getExpiredMembers,
+        subscribeMember,
         renewSubscription,
+        extendSubscription,
+        setRenewalGraceDays,
+        setSubscriptionDates,
+        getSubscriptionsForMember,
+        freezeMember,
+        unfreezeMember,
+        getCurrentFreeze,
+        getFrozenMembers,
         paySession,
+        getCurrentShift,
+        openShift,
+        closeShift,
         refreshData,
-        backupAllData,
+        createBackup,
+        setAutoBackupHours,
+        deleteBackup,
+        openBackup,
+        previewRestore,
         restoreFromBackup,
       }}
     >
@@ -0,0 +1,232 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  Attendance,
+  Member,
+  Plan,
+  Subscription,
+} from "@/context/AppContext";
+import {
+  DEFAULT_ACCESS_RULES,
+  evaluateAccess,
+  formatAllowedHours,
+  getCurrentSubscription,
+  isWithinAllowedHours,
+  type AccessCheck,
+} from "@/lib/access";
+import { getLocalTime } from "@/lib/occupancy";
+
+process.env.TZ = "Asia/Manila";
+
+function member(overrides: Partial<Member> = {}): Member {
+  return {
+    id: 1,
+    firstname: "Ana",
+    lastname: "Reyes",
+    age: 30,
+    gender: "female",
+    email: "",
+    phone: "",
+    photo: "file:///photo.jpg",
+    qr_code: "GYM-000001",
+    qr_image_path: "",
+    membership_type: "regular",
+    is_member: 1,
+    subscription_start: null,
+    subscription_end: null,
+    is_banned: 0,
+    ban_reason: null,
+    card_version: 1,
+    card_issuer: null,
+    origin_device_id: null,
+    ...overrides,
+  };
+}
+
+function plan(overrides: Partial<Plan> = {}): Plan {
+  return {
+    id: 1,
+    name: "Morning",
+    duration_value: 1,
+    duration_unit: "months",
+    price: 800,
+    category: "any",
+    is_active: 1,
+    allowed_from: "06:00",
+    allowed_until: "12:00",
+    ...overrides,
+  };
+}
+
+function subscription(overrides: Partial<Subscription> = {}): Subscription {
+  return {
+    id: 1,
+    member_id: 1,
+    plan_id: 1,
+    start_date: "2026-03-01",
+    end_date: "2026-03-31",
+    amount_paid: 800,
+    sale_id: null,
+    created_at: "2026-03-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function visit(at: Date): Attendance {
+  return {
+    id: 1,
+    member_id: 1,
+    date: at.toISOString().split("T")[0],
+    time: getLocalTime(at),
+    staff_id: null,
+    check_out_time: "10:00:00",
+    auto_checked_out: 0,
+    entry_method: "scan",
+  };
+}
+
+function check(overrides: Partial<AccessCheck> = {}): AccessCheck {
+  return {
+    member: member(),
+    attendance: [],
+    subscriptions: [],
+    plans: [],
+    rules: DEFAULT_ACCESS_RULES,
+    ...overrides,
+  };
+}
+
+const rules = (denials: { rule: string }[]) => denials.map((d) => d.rule);
+
+describe("plan hours", () => {
+  it("allows entry inside the window only", () => {
+    const morning = plan();
+    assert.equal(isWithinAllowedHours(morning, "06:00:00"), true);
+    assert.equal(isWithinAllowedHours(morning, "11:59:59"), true);
+    assert.equal(isWithinAllowedHours(morning, "12:00:00"), false);
+    assert.equal(isWithinAllowedHours(morning, "05:59:00"), false);
+  });
+
+  it("handles windows that run past midnight", () => {
+    const night = plan({ allowed_from: "22:00", allowed_until: "02:00" });
+    assert.equal(isWithinAllowedHours(night, "23:30:00"), true);
+    assert.equal(isWithinAllowedHours(night, "01:00:00"), true);
+    assert.equal(isWithinAllowedHours(night, "12:00:00"), false);
+  });
+
+  it("allows any time on plans without hours", () => {
+    const anyTime = plan({ allowed_from: null, allowed_until: null });
+    assert.equal(isWithinAllowedHours(anyTime, "03:00:00"), true);
+    assert.equal(formatAllowedHours(anyTime), null);
+    assert.equal(formatAllowedHours(plan()), "6:00 AM – 12:00 PM");
+  });
+});
+
+describe("getCurrentSubscription", () => {
+  it("finds the period covering the day", () => {
+    const march = subscription();
+    const april = subscription({
+      id: 2,
+      start_date: "2026-04-01",
+      end_date: "2026-04-30",
+    });
+    assert.equal(
+      getCurrentSubscription([march, april], 1, "2026-03-31"),
+      march,
+    );
+    assert.equal(
+      getCurrentSubscription([march, april], 1, "2026-04-01"),
+      april,
+    );
+    assert.equal(
+      getCurrentSubscription([march, april], 1, "2026-05-01"),
+      undefined,
+    );
+    assert.equal(getCurrentSubscription([march], 2, "2026-03-15"), undefined);
+  });
+});
+
+describe("evaluateAccess", () => {
+  const now = new Date(2026, 2, 10, 9, 0);
+
+  it("lets a member in when no rule applies", () => {
+    assert.deepEqual(evaluateAccess(check(), now), []);
+  });
+
+  it("refuses banned members and gives the reason", () => {
+    const denials = evaluateAccess(
+      check({ member: member({ is_banned: 1, ban_reason: "Unpaid fees" }) }),
+      now,
+    );
+    assert.deepEqual(denials, [
+      { rule: "banned", reason: "Banned: Unpaid fees" },
+    ]);
+  });
+
+  it("refuses members under the minimum age", () => {
+    const denials = evaluateAccess(
+      check({
+        member: member({ age: 15 }),
+        rules: { ...DEFAULT_ACCESS_RULES, minimumAge: 16 },
+      }),
+      now,
+    );
+    assert.deepEqual(rules(denials), ["minimum_age"]);
+  });
+
+  it("refuses a second visit on the same local day when asked to", () => {
+    const earlier = visit(new Date(2026, 2, 10, 7, 30));
+    const onePerDay = { ...DEFAULT_ACCESS_RULES, onePerDay: true };
+    assert.deepEqual(
+      rules(
+        evaluateAccess(check({ attendance: [earlier], rules: onePerDay }), now),
+      ),
+      ["one_per_day"],
+    );
+    const yesterday = visit(new Date(2026, 2, 9, 23, 30));
+    assert.deepEqual(
+      evaluateAccess(check({ attendance: [yesterday], rules: onePerDay }), now),
+      [],
+    );
+  });
+
+  it("refuses entry outside the current plan's hours", () => {
+    const evening = new Date(2026, 2, 10, 18, 0);
+    const denials = evaluateAccess(
+      check({ subscriptions: [subscription()], plans: [plan()] }),
+      evening,
+    );
+    assert.deepEqual(denials, [
+      {
+        rule: "plan_hours",
+        reason: "Morning allows entry 6:00 AM – 12:00 PM only",
+      },
+    ]);
+  });
+
+  it("decides the current plan by the local day", () => {
+    // 01:00 on April 1st is still March 31st in UTC, when the old plan ran
+    const nightOwl = plan({
+      id: 2,
+      name: "Night",
+      allowed_from: "22:00",
+      allowed_until: "02:00",
+    });
+    const subscriptions = [
+      subscription({ plan_id: 1 }),
+      subscription({
+        id: 2,
+        plan_id: 2,
+        start_date: "2026-04-01",
+        end_date: "2026-04-30",
+      }),
+    ];
+    assert.deepEqual(
+      evaluateAccess(
+        check({ subscriptions, plans: [plan(), nightOwl] }),
+        new Date(2026, 3, 1, 1, 0),
+      ),
+      [],
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import type {
+  Attendance,
+  Member,
+  Plan,
+  Subscription,
+} from "@/context/AppContext";
+import {
+  formatTime,
+  getCheckInInstant,
+  getLocalDate,
+  getLocalTime,
+  isValidClosingTime,
+  toMinutes,
+} from "@/lib/occupancy";
+import { getMemberSubscriptions } from "@/lib/subscriptions";
+
+/**
+ * Gym-wide entry rules checked at the scanner before a visit is recorded.
+ * Per-plan hours live on the plan and bans on the member.
+ */
+export interface AccessRules {
+  /** Refuse a second check-in on the same day. */
+  onePerDay: boolean;
+  /** Youngest age allowed in; 0 means no limit. */
+  minimumAge: number;
+}
+
+export const DEFAULT_ACCESS_RULES: AccessRules = {
+  onePerDay: true,
+  minimumAge: 0,
+};
+
+export type AccessRule =
+  | "banned"
+  | "minimum_age"
+  | "one_per_day"
+  | "plan_hours";
+
+export interface AccessDenial {
+  rule: AccessRule;
+  reason: string;
+}
+
+export interface AccessCheck {
+  member: Member;
+  attendance: Attendance[];
+  subscriptions: Subscription[];
+  plans: Plan[];
+  rules: AccessRules;
+}
+
+/** Plan hours use the same "HH:MM" form as closing time. */
+export const isValidAccessTime = isValidClosingTime;
+
+export function hasAllowedHours(plan: Plan): boolean {
+  return !!plan.allowed_from && !!plan.allowed_until;
+}
+
+/**
+ * Whether a local "HH:MM[:SS]" time falls inside a plan's hours. A window
+ * whose end is before its start runs past midnight.
+ */
+export function isWithinAllowedHours(plan: Plan, time: string): boolean {
+  if (!plan.allowed_from || !plan.allowed_until) return true;
+  const now = toMinutes(time);
+  const from = toMinutes(plan.allowed_from);
+  const until = toMinutes(plan.allowed_until);
+  return from <= until
+    ? now >= from && now < until
+    : now >= from || now < until;
+}
+
+export function formatAllowedHours(plan: Plan): string | null {
+  if (!plan.allowed_from || !plan.allowed_until) return null;
+  return `${formatTime(plan.allowed_from)} – ${formatTime(plan.allowed_until)}`;
+}
+
+/** The subscription period that covers the given day, if any. */
+export function getCurrentSubscription(
+  subscriptions: Subscription[],
+  memberId: number,
+  today: string,
+): Subscription | undefined {
+  return getMemberSubscriptions(subscriptions, memberId)
+    .filter((s) => s.start_date <= today && s.end_date >= today)
+    .pop();
+}
+
+/**
+ * Every rule that stops this member checking in right now, most serious
+ * first. An empty list means the visit may be recorded.
+ */
+export function evaluateAccess(
+  { member, attendance, subscriptions, plans, rules }: AccessCheck,
+  now = new Date(),
+): AccessDenial[] {
+  const denials: AccessDenial[] = [];
+  const today = getLocalDate(now);
+
+  if (member.is_banned) {
+    denials.push({
+      rule: "banned",
+      reason: member.ban_reason
+        ? `Banned: ${member.ban_reason}`
+        : "Banned from the gym",
+    });
+  }
+
+  if (rules.minimumAge > 0 && member.age < rules.minimumAge) {
+    denials.push({
+      rule: "minimum_age",
+      reason: `Under the minimum age of ${rules.minimumAge}`,
+    });
+  }
+
+  if (rules.onePerDay) {
+    const earlier = attendance
+      .filter((a) => a.member_id === member.id)
+      .find((a) => getCheckInInstant(a).toDateString() === now.toDateString());
+    if (earlier) {
+      denials.push({
+        rule: "one_per_day",
+        reason: `Already checked in today at ${formatTime(earlier.time)}`,
+      });
+    }
+  }
+
+  const current = getCurrentSubscription(subscriptions, member.id, today);
+  const plan = current?.plan_id
+    ? plans.find((p) => p.id === current.plan_id)
+    : undefined;
+  if (plan && !isWithinAllowedHours(plan, getLocalTime(now))) {
+    denials.push({
+      rule: "plan_hours",
+      reason: `${plan.name} allows entry ${formatAllowedHours(plan)} only`,
+    });
+  }
+
+  return denials;
+}
@@ -0,0 +1,132 @@
+import {
+  constantTimeEqual,
+  fromHex,
+  pbkdf2Sha256,
+  toHex,
+  utf8Encode,
+} from "@/lib/crypto";
+import { randomBytes } from "@/lib/random";
+
+/**
+ * PINs and the owner recovery code are never stored as entered. Each is
+ * run through PBKDF2 with its own random salt and kept as
+ * `pbkdf2-sha256$<iterations>$<salt>$<hash>`, so the iteration count can
+ * be raised later without invalidating existing hashes.
+ *
+ * A 4-digit PIN has only 10,000 values, so the hash mainly keeps it out of
+ * plain sight on a lost phone. Guessing at the keypad is stopped by the
+ * lockout below.
+ */
+const HASH_SCHEME = "pbkdf2-sha256";
+const HASH_ITERATIONS = 5000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+/** Wrong PINs allowed before the keypad locks. */
+export const FREE_PIN_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// No 0/O or 1/I so the code can be read back off paper without mistakes
+const RECOVERY_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECOVERY_CODE_LENGTH = 16;
+
+export type SignInResult =
+  | { success: true }
+  | { success: false; lockedUntil: string | null; attemptsLeft: number };
+
+export interface PinLockout {
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export function isPinHash(value: string): boolean {
+  return value.startsWith(`${HASH_SCHEME}$`);
+}
+
+export function hashSecret(secret: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = pbkdf2Sha256(
+    utf8Encode(secret),
+    salt,
+    HASH_ITERATIONS,
+    HASH_BYTES,
+  );
+  return `${HASH_SCHEME}$${HASH_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export function verifySecret(secret: string, stored: string | null): boolean {
+  if (!stored || !isPinHash(stored)) return false;
+  const [, iterations, salt, hash] = stored.split("$");
+  const expected = fromHex(hash);
+  const actual = pbkdf2Sha256(
+    utf8Encode(secret),
+    fromHex(salt),
+    parseInt(iterations, 10),
+    expected.length,
+  );
+  return constantTimeEqual(actual, expected);
+}
+
+export const hashPin = hashSecret;
+export const verifyPin = verifySecret;
+
+/**
+ * How long the keypad stays locked after the given number of consecutive
+ * failures: nothing for the first few, then 30 seconds doubling with each
+ * further miss, up to an hour.
+ */
+export function getLockoutDuration(failedAttempts: number): number {
+  if (failedAttempts < FREE_PIN_ATTEMPTS) return 0;
+  const doublings = failedAttempts - FREE_PIN_ATTEMPTS;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS);
+}
+
+export function recordFailedAttempt(
+  lockout: PinLockout,
+  now = Date.now(),
+): PinLockout {
+  const failedAttempts = lockout.failedAttempts + 1;
+  const duration = getLockoutDuration(failedAttempts);
+  return {
+    failedAttempts,
+    lockedUntil: duration > 0 ? new Date(now + duration).toISOString() : null,
+  };
+}
+
+/** Milliseconds until the keypad unlocks; 0 when it is not locked. */
+export function getLockoutRemaining(
+  lockedUntil: string | null,
+  now = Date.now(),
+): number {
+  if (!lockedUntil) return 0;
+  return Math.max(0, new Date(lockedUntil).getTime() - now);
+}
+
+export function getAttemptsLeft(failedAttempts: number): number {
+  return Math.max(0, FREE_PIN_ATTEMPTS - failedAttempts);
+}
+
+export function formatLockoutRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds}s`;
+  return seconds === 0 ? `${minutes}m` : `${minutes}m ${seconds}s`;
+}
+
+/** A new owner recovery code, formatted as four groups of four. */
+export function generateRecoveryCode(): string {
+  const bytes = randomBytes(RECOVERY_CODE_LENGTH);
+  let code = "";
+  bytes.forEach((byte, i) => {
+    if (i > 0 && i % 4 === 0) code += "-";
+    code += RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length];
+  });
+  return code;
+}
+
+/** Accepts the code however it was typed: any case, with or without dashes. */
+export function normalizeRecoveryCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
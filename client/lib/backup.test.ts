@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BackupError,
+  checkBackupIntegrity,
+  countBackupRecords,
+  parseBackup,
+  serializeBackup,
+  toRestoreData,
+} from "@/lib/backup";
+
+function backup(overrides: Record<string, unknown> = {}) {
+  return {
+    members: [
+      {
+        id: 1,
+        uuid: "0b7f8a52-3c1e-4d6a-9f21-5e8c7d4b2a10",
+        firstname: "Ana",
+        lastname: "Reyes",
+        age: 30,
+        gender: "female",
+        email: null,
+        phone: null,
+        photo: "file:///photo.jpg",
+        qr_code: "GYM-000001",
+        membership_type: "regular",
+        is_member: 1,
+      },
+    ],
+    attendance: [
+      { id: 1, member_id: 1, date: "2026-03-10", time: "09:00:00" },
+      {
+        id: 2,
+        member_id: 1,
+        date: "2026-03-11",
+        time: "09:00:00",
+        check_out_time: null,
+        deleted_at: "2026-03-11T02:00:00.000Z",
+      },
+    ],
+    sales: [{ id: 1, type: "membership", amount: 1000, date: "2026-03-10" }],
+    priceSettings: {
+      membership: 1000,
+      session_member: 80,
+      session_nonmember: 100,
+      session_member_senior: 60,
+      session_nonmember_senior: 80,
+    },
+    timestamp: "2026-03-11T10:00:00.000Z",
+    version: "1.0",
+    ...overrides,
+  };
+}
+
+describe("backup checksums", () => {
+  it("checks a file as it was written", () => {
+    const text = serializeBackup(backup());
+    assert.equal(checkBackupIntegrity(text), "ok");
+    assert.equal(parseBackup(text).members[0].firstname, "Ana");
+  });
+
+  it("still checks a file rewritten with its keys in another order", () => {
+    const json = JSON.parse(serializeBackup(backup()));
+    const reordered = Object.fromEntries(Object.entries(json).reverse());
+    reordered.members = json.members.map((member: object) =>
+      Object.fromEntries(Object.entries(member).reverse()),
+    );
+    assert.equal(checkBackupIntegrity(JSON.stringify(reordered)), "ok");
+  });
+
+  it("catches a file that was changed or cut short", () => {
+    const text = serializeBackup(backup());
+    const changed = text.replace('"amount":1000', '"amount":10');
+    assert.equal(checkBackupIntegrity(changed), "corrupt");
+    assert.throws(() => parseBackup(changed), BackupError);
+    assert.equal(checkBackupIntegrity(text.slice(0, -20)), "corrupt");
+  });
+
+  it("takes files from before checksums as they are", () => {
+    const text = JSON.stringify(backup());
+    assert.equal(checkBackupIntegrity(text), "unchecked");
+    assert.equal(parseBackup(text).sales.length, 1);
+  });
+});
+
+describe("parseBackup", () => {
+  it("fills fields added since the backup was made", () => {
+    const data = parseBackup(serializeBackup(backup()));
+    assert.equal(data.members[0].card_version, 1);
+    assert.equal(data.sales[0].payment_method, "cash");
+    assert.deepEqual(data.subscriptions, []);
+    assert.deepEqual(data.staff, []);
+    // Visits from before check-out tracking count as closed
+    assert.equal(data.attendance[0].check_out_time, "09:00:00");
+    assert.equal(data.attendance[0].auto_checked_out, 1);
+  });
+
+  it("refuses rows that belong to no member", () => {
+    const orphan = backup({
+      attendance: [{ id: 1, member_id: 2, date: "2026-03-10", time: "09:00" }],
+    });
+    assert.throws(
+      () => parseBackup(serializeBackup(orphan)),
+      /No member with id 2/,
+    );
+  });
+
+  it("counts records without the deleted ones", () => {
+    const counts = countBackupRecords(
+      toRestoreData(parseBackup(serializeBackup(backup()))),
+    );
+    assert.equal(counts.members, 1);
+    assert.equal(counts.attendance, 1);
+    assert.equal(counts.shifts, 0);
+  });
+});
@@ -0,0 +1,402 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { RecordTable, RestoreData, RestoreTable } from "@/lib/database";
+import { sha256, toHex, utf8Encode } from "@/lib/crypto";
+
+/**
+ * Backup files are JSON written by `serializeBackup`. A file is checked in
+ * full before a restore touches the database: every row must have the
+ * fields the tables need, ids must be unique, and visits, subscriptions,
+ * freezes and card reissues must belong to a member in the same file.
+ *
+ * Fields added after a backup was made are filled with the defaults the
+ * tables use, so older files still restore.
+ *
+ * Files carry a SHA-256 checksum of everything else in them, so a file
+ * that was cut short or changed on disk is caught before a restore. The
+ * checksum is taken over the contents with their keys sorted, so a file
+ * rewritten with its keys in another order still checks. Backups made
+ * before checksums have none and are taken as they are.
+ */
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+/** Names shown to staff for each table a backup holds. */
+export const BACKUP_TABLE_LABELS: Record<RecordTable, string> = {
+  members: "members",
+  attendance: "attendance records",
+  sales: "sales",
+  plans: "membership plans",
+  subscriptions: "subscriptions",
+  freezes: "freezes",
+  shifts: "shifts",
+  staff: "staff accounts",
+  member_edits: "member edit log",
+  card_reissues: "card reissues",
+};
+
+const id = z.number().int().positive();
+const optionalId = id.nullable().default(null);
+const optionalText = z.string().nullable().default(null);
+
+// Backups from before record UUIDs get new ones on restore
+const stamp = {
+  uuid: z.string().uuid().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+};
+
+const memberSchema = z.object({
+  ...stamp,
+  id,
+  firstname: z.string(),
+  lastname: z.string(),
+  age: z.number(),
+  gender: z.string(),
+  email: optionalText,
+  phone: optionalText,
+  photo: z.string().min(1, "Member photo is required"),
+  qr_code: z.string(),
+  qr_image_path: optionalText,
+  membership_type: z.string(),
+  is_member: z.number().int(),
+  subscription_start: optionalText,
+  subscription_end: optionalText,
+  is_banned: z.number().int().default(0),
+  ban_reason: optionalText,
+  card_version: z.number().int().default(1),
+  card_issuer: optionalText,
+  origin_device_id: optionalText,
+});
+
+const attendanceSchema = z
+  .object({
+    ...stamp,
+    id,
+    member_id: id,
+    date: z.string(),
+    time: z.string(),
+    staff_id: optionalId,
+    check_out_time: z.string().nullable().optional(),
+    auto_checked_out: z.number().int().optional(),
+    entry_method: z.string().default("scan"),
+  })
+  // Visits from before check-out tracking count as already closed
+  .transform((visit) =>
+    visit.check_out_time === undefined
+      ? { ...visit, check_out_time: visit.time, auto_checked_out: 1 }
+      : {
+          ...visit,
+          check_out_time: visit.check_out_time,
+          auto_checked_out: visit.auto_checked_out ?? 0,
+        },
+  );
+
+const saleSchema = z.object({
+  ...stamp,
+  id,
+  type: z.string(),
+  amount: z.number(),
+  date: z.string(),
+  note: optionalText,
+  payment_method: z.string().default("cash"),
+  reference_number: optionalText,
+  payment_group: z.number().int().nullable().default(null),
+  shift_id: optionalId,
+  reverses_sale_id: optionalId,
+  correction_type: optionalText,
+  correction_reason: optionalText,
+  staff_id: optionalId,
+});
+
+const planSchema = z.object({
+  ...stamp,
+  id,
+  name: z.string(),
+  duration_value: z.number().int(),
+  duration_unit: z.string(),
+  price: z.number(),
+  category: z.string(),
+  is_active: z.number().int(),
+  allowed_from: optionalText,
+  allowed_until: optionalText,
+});
+
+const subscriptionSchema = z.object({
+  ...stamp,
+  id,
+  member_id: id,
+  plan_id: optionalId,
+  start_date: z.string(),
+  end_date: z.string(),
+  amount_paid: z.number(),
+  sale_id: optionalId,
+});
+
+const freezeSchema = z.object({
+  ...stamp,
+  id,
+  member_id: id,
+  start_date: z.string(),
+  end_date: optionalText,
+  reason: z.string(),
+  fee: z.number(),
+  sale_id: optionalId,
+  unfrozen_at: optionalText,
+  frozen_days: z.number().int().default(0),
+});
+
+const shiftSchema = z.object({
+  ...stamp,
+  id,
+  staff_name: z.string(),
+  opening_float: z.number(),
+  opened_at: z.string(),
+  closed_at: optionalText,
+  expected_cash: z.number().nullable().default(null),
+  counted_cash: z.number().nullable().default(null),
+  closing_note: optionalText,
+});
+
+const memberEditSchema = z.object({
+  ...stamp,
+  id,
+  member_id: id,
+  staff_id: optionalId,
+  action: z.string(),
+  fields: optionalText,
+});
+
+const cardReissueSchema = z.object({
+  ...stamp,
+  id,
+  member_id: id,
+  card_version: z.number().int(),
+  reason: z.string(),
+  fee: z.number(),
+  sale_id: optionalId,
+  staff_id: optionalId,
+  replaced_qr_code: optionalText,
+});
+
+// Only who each staff id was; accounts and their PINs are never backed up
+const staffSchema = z.object({
+  id,
+  uuid: z.string().uuid().optional(),
+  name: z.string(),
+});
+
+const priceSettingsSchema = z.object({
+  membership: z.number(),
+  session_member: z.number(),
+  session_nonmember: z.number(),
+  session_member_senior: z.number(),
+  session_nonmember_senior: z.number(),
+});
+
+type Row = { id: number; uuid?: string };
+
+function checkUnique(rows: Row[], path: string, ctx: z.RefinementCtx): void {
+  const ids = new Set<number>();
+  const uuids = new Set<string>();
+  rows.forEach((row, index) => {
+    if (ids.has(row.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate id ${row.id}`,
+        path: [path, index, "id"],
+      });
+    }
+    if (row.uuid && uuids.has(row.uuid)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate uuid ${row.uuid}`,
+        path: [path, index, "uuid"],
+      });
+    }
+    ids.add(row.id);
+    if (row.uuid) uuids.add(row.uuid);
+  });
+}
+
+function checkMemberLinks(
+  rows: { member_id: number }[],
+  memberIds: Set<number>,
+  path: string,
+  ctx: z.RefinementCtx,
+): void {
+  rows.forEach((row, index) => {
+    if (!memberIds.has(row.member_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `No member with id ${row.member_id}`,
+        path: [path, index, "member_id"],
+      });
+    }
+  });
+}
+
+export const backupSchema = z
+  .object({
+    members: z.array(memberSchema),
+    attendance: z.array(attendanceSchema),
+    sales: z.array(saleSchema),
+    priceSettings: priceSettingsSchema,
+    // Optional in backups made before these tables existed
+    plans: z.array(planSchema).optional(),
+    subscriptions: z.array(subscriptionSchema).default([]),
+    freezes: z.array(freezeSchema).default([]),
+    shifts: z.array(shiftSchema).default([]),
+    memberEdits: z.array(memberEditSchema).default([]),
+    cardReissues: z.array(cardReissueSchema).default([]),
+    staff: z.array(staffSchema).default([]),
+    cardSecret: z.string().min(1).nullish(),
+    timestamp: z.string().optional(),
+    version: z.string().optional(),
+    checksum: z.string().optional(),
+  })
+  .superRefine((backup, ctx) => {
+    checkUnique(backup.members, "members", ctx);
+    checkUnique(backup.attendance, "attendance", ctx);
+    checkUnique(backup.sales, "sales", ctx);
+    checkUnique(backup.plans ?? [], "plans", ctx);
+    checkUnique(backup.subscriptions, "subscriptions", ctx);
+    checkUnique(backup.freezes, "freezes", ctx);
+    checkUnique(backup.shifts, "shifts", ctx);
+    checkUnique(backup.memberEdits, "memberEdits", ctx);
+    checkUnique(backup.cardReissues, "cardReissues", ctx);
+    checkUnique(backup.staff, "staff", ctx);
+
+    // Edits are kept for members that were deleted, so they are not checked
+    const memberIds = new Set(backup.members.map((m) => m.id));
+    checkMemberLinks(backup.attendance, memberIds, "attendance", ctx);
+    checkMemberLinks(backup.subscriptions, memberIds, "subscriptions", ctx);
+    checkMemberLinks(backup.freezes, memberIds, "freezes", ctx);
+    checkMemberLinks(backup.cardReissues, memberIds, "cardReissues", ctx);
+  });
+
+export type BackupData = z.infer<typeof backupSchema>;
+
+export type BackupIntegrity = "ok" | "corrupt" | "unchecked";
+
+// JSON with the keys of every object in sorted order, so the same contents
+// always serialize the same way
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, (item as Record<string, unknown>)[key]]),
+        )
+      : item,
+  );
+}
+
+function checksumOf(body: unknown): string {
+  return toHex(sha256(utf8Encode(canonicalJson(body))));
+}
+
+function checkIntegrity(json: unknown): BackupIntegrity {
+  if (!json || typeof json !== "object" || !("checksum" in json)) {
+    return "unchecked";
+  }
+  const { checksum, ...body } = json as Record<string, unknown>;
+  return checksum === checksumOf(body) ? "ok" : "corrupt";
+}
+
+/** Whether a backup file is intact, without checking its contents. */
+export function checkBackupIntegrity(text: string): BackupIntegrity {
+  try {
+    return checkIntegrity(JSON.parse(text));
+  } catch {
+    return "corrupt";
+  }
+}
+
+/** The backup as file contents, with its checksum added last. */
+export function serializeBackup(body: Record<string, unknown>): string {
+  return JSON.stringify({ ...body, checksum: checksumOf(body) });
+}
+
+/** Parses and checks a whole backup file; throws a BackupError saying what is wrong. */
+export function parseBackup(text: string): BackupData {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError("Invalid backup file: not valid JSON");
+  }
+  if (checkIntegrity(json) === "corrupt") {
+    throw new BackupError(
+      "Backup file is corrupt: its checksum does not match its contents",
+    );
+  }
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    throw new BackupError(
+      fromZodError(result.error, {
+        prefix: "Invalid backup file",
+        maxIssuesInMessage: 3,
+      }).message,
+    );
+  }
+  return result.data;
+}
+
+/** The backup in the shape `database.restoreAllData` writes. */
+export function toRestoreData(backup: BackupData): RestoreData {
+  return {
+    members: backup.members,
+    attendance: backup.attendance,
+    sales: backup.sales,
+    plans: backup.plans,
+    subscriptions: backup.subscriptions,
+    freezes: backup.freezes,
+    shifts: backup.shifts,
+    member_edits: backup.memberEdits,
+    card_reissues: backup.cardReissues,
+    staff: backup.staff,
+    priceSettings: backup.priceSettings,
+    cardSecret: backup.cardSecret ?? null,
+  };
+}
+
+/** Records of each kind a backup holds, leaving out deleted ones. */
+export type BackupCounts = Record<RestoreTable, number>;
+
+export function countBackupRecords(data: RestoreData): BackupCounts {
+  const live = (rows: { deleted_at?: string | null }[] | undefined) =>
+    (rows ?? []).filter((row) => !row.deleted_at).length;
+  return {
+    members: live(data.members),
+    plans: live(data.plans),
+    shifts: live(data.shifts),
+    sales: live(data.sales),
+    attendance: live(data.attendance),
+    subscriptions: live(data.subscriptions),
+    freezes: live(data.freezes),
+    member_edits: live(data.member_edits),
+    card_reissues: live(data.card_reissues),
+  };
+}
+
+export interface BackupComparison {
+  /** Members on this device now that the backup does not have. */
+  membersAdded: string[];
+  /** Members in the backup that are no longer on this device. */
+  membersRemoved: string[];
+  sales: {
+    backupCount: number;
+    backupTotal: number;
+    liveCount: number;
+    liveTotal: number;
+  };
+  attendance: { backup: number; live: number };
+}
@@ -0,0 +1,371 @@
+import { File } from "expo-file-system";
+import {
+  createSha256,
+  utf8Decode,
+  utf8Encode,
+  type Sha256Hasher,
+} from "@/lib/crypto";
+import { BackupError, serializeBackup, type BackupData } from "@/lib/backup";
+
+/**
+ * A backup archive is one file holding the backup data and every member
+ * photo and saved card image it refers to, so a restore on a new phone
+ * has nothing left pointing at the old one. Files are copied in and out
+ * in chunks rather than read whole, so a large gallery never has to fit
+ * in memory at once.
+ *
+ * Layout:
+ *
+ *   "PLBACKUP" 0x01                 magic and format version
+ *   entries, each:
+ *     u8  kind                      1 data, 2 file, 0 end
+ *     u16 name length, name         UTF-8, e.g. "photos/<member uuid>.jpg"
+ *     u32 data length, data
+ *   32 bytes                        SHA-256 of everything before it
+ *
+ * The data entry comes first and is the usual JSON backup, with each
+ * photo and card path replaced by the name of its entry.
+ */
+
+const MAGIC = utf8Encode("PLBACKUP");
+const FORMAT_VERSION = 1;
+const ENTRY_END = 0;
+const ENTRY_DATA = 1;
+const ENTRY_FILE = 2;
+const CHUNK_SIZE = 256 * 1024;
+
+export const ARCHIVE_EXTENSION = ".plbackup";
+
+type MemberFiles = { uuid?: string; photo?: unknown; qr_image_path?: unknown };
+
+function extensionOf(uri: string, fallback: string): string {
+  const match = /\.(\w{1,5})$/.exec(uri.split("?")[0]);
+  return match ? `.${match[1].toLowerCase()}` : fallback;
+}
+
+function existingFile(uri: unknown): File | null {
+  if (typeof uri !== "string" || !uri.startsWith("file://")) return null;
+  try {
+    const file = new File(uri);
+    return file.exists ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/** Lets the screen redraw between steps of a long file operation. */
+export const yieldToUI = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+class ArchiveWriter {
+  private hasher = createSha256();
+
+  constructor(private handle: ReturnType<File["open"]>) {}
+
+  write(bytes: Uint8Array) {
+    this.hasher.update(bytes);
+    this.handle.writeBytes(bytes);
+  }
+
+  writeHeader(kind: number, name: string, length: number) {
+    const nameBytes = utf8Encode(name);
+    const header = new Uint8Array(7 + nameBytes.length);
+    const view = viewOf(header);
+    view.setUint8(0, kind);
+    view.setUint16(1, nameBytes.length);
+    header.set(nameBytes, 3);
+    view.setUint32(3 + nameBytes.length, length);
+    this.write(header);
+  }
+
+  finish() {
+    this.write(new Uint8Array([ENTRY_END]));
+    this.handle.writeBytes(this.hasher.digest());
+  }
+}
+
+/**
+ * Writes a backup and the files its members point at to `uri`. Photos
+ * that are no longer on the device keep their old path and are reported
+ * in the log.
+ */
+export async function writeBackupArchive(
+  uri: string,
+  body: Record<string, unknown>,
+): Promise<void> {
+  const files: { name: string; file: File }[] = [];
+  const members = (body.members as MemberFiles[]).map((member) => {
+    const linked = { ...member };
+    const photo = existingFile(member.photo);
+    if (photo) {
+      const name = `photos/${member.uuid}${extensionOf(photo.uri, ".jpg")}`;
+      files.push({ name, file: photo });
+      linked.photo = name;
+    } else if (member.photo) {
+      console.warn("[Backup] Photo missing, not archived:", member.photo);
+    }
+    const card = existingFile(member.qr_image_path);
+    if (card) {
+      const name = `cards/${member.uuid}${extensionOf(card.uri, ".png")}`;
+      files.push({ name, file: card });
+      linked.qr_image_path = name;
+    }
+    return linked;
+  });
+
+  const out = new File(uri);
+  if (out.exists) out.delete();
+  out.create();
+  const handle = out.open();
+  try {
+    const writer = new ArchiveWriter(handle);
+    const header = new Uint8Array(MAGIC.length + 1);
+    header.set(MAGIC);
+    header[MAGIC.length] = FORMAT_VERSION;
+    writer.write(header);
+
+    const data = utf8Encode(serializeBackup({ ...body, members }));
+    writer.writeHeader(ENTRY_DATA, "backup.json", data.length);
+    writer.write(data);
+
+    for (const { name, file } of files) {
+      const source = file.open();
+      try {
+        const size = source.size ?? file.size;
+        writer.writeHeader(ENTRY_FILE, name, size);
+        for (let copied = 0; copied < size; ) {
+          const chunk = source.readBytes(Math.min(CHUNK_SIZE, size - copied));
+          if (chunk.length === 0) {
+            throw new Error(`Photo ${file.uri} shrank while being archived`);
+          }
+          writer.write(chunk);
+          copied += chunk.length;
+        }
+      } finally {
+        source.close();
+      }
+      await yieldToUI();
+    }
+    writer.finish();
+  } catch (error) {
+    handle.close();
+    out.delete();
+    throw error;
+  }
+  handle.close();
+}
+
+/** Whether the file at `uri` is an archive rather than a plain JSON backup. */
+export function isBackupArchive(uri: string): boolean {
+  const file = new File(uri);
+  if (!file.exists || file.size < MAGIC.length) return false;
+  const handle = file.open();
+  try {
+    const start = handle.readBytes(MAGIC.length);
+    return start.every((byte, i) => byte === MAGIC[i]);
+  } finally {
+    handle.close();
+  }
+}
+
+class ArchiveReader {
+  private remaining: number;
+
+  constructor(
+    private handle: ReturnType<File["open"]>,
+    size: number,
+    private hasher: Sha256Hasher | null,
+  ) {
+    // The checksum at the end is not part of any entry
+    this.remaining = size - 32;
+  }
+
+  read(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new BackupError("Backup archive is incomplete");
+    }
+    const bytes = this.handle.readBytes(length);
+    if (bytes.length !== length) {
+      throw new BackupError("Backup archive is incomplete");
+    }
+    this.remaining -= length;
+    this.hasher?.update(bytes);
+    return bytes;
+  }
+
+  readHeader(): { kind: number; name: string; length: number } {
+    const kind = this.read(1)[0];
+    if (kind === ENTRY_END) return { kind, name: "", length: 0 };
+    const nameLength = viewOf(this.read(2)).getUint16(0);
+    const name = utf8Decode(this.read(nameLength));
+    const length = viewOf(this.read(4)).getUint32(0);
+    return { kind, name, length };
+  }
+
+  /** Passes an entry's data on in chunks. */
+  pipe(length: number, onChunk: (chunk: Uint8Array) => void) {
+    for (let done = 0; done < length; ) {
+      const chunk = this.read(Math.min(CHUNK_SIZE, length - done));
+      onChunk(chunk);
+      done += chunk.length;
+    }
+  }
+
+  checksum(): Uint8Array {
+    return this.handle.readBytes(32);
+  }
+}
+
+function openArchive(
+  uri: string,
+  hasher: Sha256Hasher | null,
+): { reader: ArchiveReader; close: () => void } {
+  const file = new File(uri);
+  const handle = file.open();
+  const reader = new ArchiveReader(handle, file.size, hasher);
+  const header = reader.read(MAGIC.length + 1);
+  if (
+    !MAGIC.every((byte, i) => header[i] === byte) ||
+    header[MAGIC.length] !== FORMAT_VERSION
+  ) {
+    handle.close();
+    throw new BackupError("Not a backup archive, or from a newer app version");
+  }
+  return { reader, close: () => handle.close() };
+}
+
+/** Reads the archive through once and checks it against its checksum. */
+export async function verifyBackupArchive(uri: string): Promise<boolean> {
+  const hasher = createSha256();
+  let archive: ReturnType<typeof openArchive>;
+  try {
+    archive = openArchive(uri, hasher);
+  } catch {
+    return false;
+  }
+  try {
+    for (;;) {
+      const entry = archive.reader.readHeader();
+      if (entry.kind === ENTRY_END) break;
+      archive.reader.pipe(entry.length, () => {});
+      await yieldToUI();
+    }
+    const expected = hasher.digest();
+    const stored = archive.reader.checksum();
+    return (
+      stored.length === expected.length &&
+      stored.every((byte, i) => byte === expected[i])
+    );
+  } catch {
+    return false;
+  } finally {
+    archive.close();
+  }
+}
+
+/** Only the backup data, for showing what an archive holds. */
+export function readArchiveData(uri: string): string {
+  const archive = openArchive(uri, null);
+  try {
+    const entry = archive.reader.readHeader();
+    if (entry.kind !== ENTRY_DATA) {
+      throw new BackupError("Backup archive has no data");
+    }
+    return utf8Decode(archive.reader.read(entry.length));
+  } finally {
+    archive.close();
+  }
+}
+
+export interface ExtractedArchive {
+  /** The JSON backup, still pointing at entry names. */
+  text: string;
+  /** Where each file entry was written, by entry name. */
+  files: Map<string, string>;
+}
+
+/**
+ * Checks the archive, then writes its files into `folder` under fresh
+ * names and returns them with the backup data. Nothing is left behind if
+ * the archive turns out to be damaged.
+ */
+export async function extractBackupArchive(
+  uri: string,
+  folder: string,
+): Promise<ExtractedArchive> {
+  if (!(await verifyBackupArchive(uri))) {
+    throw new BackupError(
+      "Backup archive is corrupt: its checksum does not match its contents",
+    );
+  }
+  const archive = openArchive(uri, null);
+  const files = new Map<string, string>();
+  let text = "";
+  try {
+    for (;;) {
+      const entry = archive.reader.readHeader();
+      if (entry.kind === ENTRY_END) break;
+      if (entry.kind === ENTRY_DATA) {
+        text = utf8Decode(archive.reader.read(entry.length));
+        continue;
+      }
+      const base = entry.name.split("/").pop() ?? "file";
+      const ext = extensionOf(base, "");
+      // A fresh name each time, so the image cache never shows an old photo
+      const target = new File(
+        `${folder}${base.slice(0, base.length - ext.length)}-${Date.now()}${ext}`,
+      );
+      target.create();
+      files.set(entry.name, target.uri);
+      const handle = target.open();
+      try {
+        archive.reader.pipe(entry.length, (chunk) => handle.writeBytes(chunk));
+      } finally {
+        handle.close();
+      }
+      await yieldToUI();
+    }
+  } catch (error) {
+    archive.close();
+    discardExtractedFiles(files);
+    throw error;
+  }
+  archive.close();
+  if (!text) {
+    discardExtractedFiles(files);
+    throw new BackupError("Backup archive has no data");
+  }
+  return { text, files };
+}
+
+/** Points members back at their photos and cards once extracted. */
+export function relinkArchiveFiles(
+  backup: BackupData,
+  files: Map<string, string>,
+): BackupData {
+  if (files.size === 0) return backup;
+  return {
+    ...backup,
+    members: backup.members.map((m) => ({
+      ...m,
+      photo: files.get(m.photo) ?? m.photo,
+      qr_image_path: m.qr_image_path
+        ? (files.get(m.qr_image_path) ?? m.qr_image_path)
+        : m.qr_image_path,
+    })),
+  };
+}
+
+/** Removes files written by a restore that did not go through. */
+export function discardExtractedFiles(files: Map<string, string>): void {
+  for (const uri of files.values()) {
+    try {
+      new File(uri).delete();
+    } catch (error) {
+      console.warn("[Backup] Could not remove extracted file:", uri, error);
+    }
+  }
+}
@@ -0,0 +1,411 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as database from "@/lib/database";
+import {
+  BackupError,
+  checkBackupIntegrity,
+  countBackupRecords,
+  parseBackup,
+  toRestoreData,
+  type BackupComparison,
+  type BackupCounts,
+  type BackupIntegrity,
+} from "@/lib/backup";
+import {
+  backupFilename,
+  getExpiredBackups,
+  parseBackupFilename,
+  type BackupFile,
+  type BackupKind,
+} from "@/lib/backupRotation";
+import {
+  ARCHIVE_EXTENSION,
+  discardExtractedFiles,
+  extractBackupArchive,
+  readArchiveData,
+  relinkArchiveFiles,
+  writeBackupArchive,
+  isBackupArchive,
+  verifyBackupArchive,
+} from "@/lib/backupArchive";
+import {
+  decryptBackupFile,
+  encryptBackupFile,
+  isEncryptedBackup,
+} from "@/lib/backupEncryption";
+import { PHOTO_DIR } from "@/lib/sync";
+
+/**
+ * Backup files kept on the device in PowerliftBackups/. Automatic backups
+ * are made when the app starts or comes back to the foreground and the
+ * last backup is older than the interval set on the backup screen.
+ *
+ * Automatic backups rotate out on the schedule in backupRotation.
+ *
+ * New backups are archives that carry member photos (see backupArchive),
+ * optionally encrypted with a passphrase (see backupEncryption). Plain
+ * JSON backups from before archives can still be restored.
+ */
+
+export const BACKUP_FOLDER = `${FileSystem.documentDirectory}PowerliftBackups/`;
+
+export async function ensureBackupFolder(): Promise<void> {
+  const info = await FileSystem.getInfoAsync(BACKUP_FOLDER);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(BACKUP_FOLDER, {
+      intermediates: true,
+    });
+    console.log("[Backup] Created backup folder");
+  }
+}
+
+/** Backup files on the device, newest first. */
+export async function listBackupFiles(): Promise<BackupFile[]> {
+  await ensureBackupFolder();
+  const names = await FileSystem.readDirectoryAsync(BACKUP_FOLDER);
+  const files: BackupFile[] = [];
+  for (const filename of names) {
+    const parsed = parseBackupFilename(filename);
+    if (parsed) {
+      const uri = `${BACKUP_FOLDER}${filename}`;
+      files.push({ uri, filename, ...parsed, size: await fileSize(uri) });
+    }
+  }
+  return files.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+async function fileSize(uri: string): Promise<number> {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+}
+
+/** Removes a backup from the device. */
+export async function deleteBackupFile(file: BackupFile): Promise<void> {
+  await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  console.log("[Backup] Deleted:", file.filename);
+}
+
+function tempFileUri(): string {
+  return `${FileSystem.cacheDirectory}backup-${Date.now()}${ARCHIVE_EXTENSION}`;
+}
+
+/**
+ * Reads everything a backup holds from the database. Deleted records are
+ * kept too, so restoring the backup elsewhere carries the deletes over.
+ */
+async function buildBackup(): Promise<Record<string, unknown>> {
+  const [
+    members,
+    attendance,
+    sales,
+    plans,
+    subscriptions,
+    freezes,
+    shifts,
+    memberEdits,
+    cardReissues,
+    staff,
+    priceSettings,
+    appSettings,
+  ] = await Promise.all([
+    database.getAllMembers({ includeDeleted: true }),
+    database.getAllAttendance({ includeDeleted: true }),
+    database.getAllSales({ includeDeleted: true }),
+    database.getAllPlans({ includeDeleted: true }),
+    database.getAllSubscriptions({ includeDeleted: true }),
+    database.getAllFreezes({ includeDeleted: true }),
+    database.getAllShifts({ includeDeleted: true }),
+    database.getAllMemberEdits({ includeDeleted: true }),
+    database.getAllCardReissues({ includeDeleted: true }),
+    database.getAllStaff({ includeDeleted: true }),
+    database.getPriceSettings(),
+    database.getAppSettings(),
+  ]);
+  return {
+    members,
+    attendance,
+    sales,
+    plans,
+    subscriptions,
+    freezes,
+    shifts,
+    memberEdits,
+    cardReissues,
+    // So a restore can tell whose sales and visits these were; PINs stay out
+    staff: staff.map(({ id, uuid, name }) => ({ id, uuid, name })),
+    priceSettings,
+    // Without the signing key, cards printed before a restore onto a
+    // new device would no longer scan
+    cardSecret: appSettings.card_secret,
+    timestamp: new Date().toISOString(),
+    version: "1.0",
+  };
+}
+
+/**
+ * Writes a backup of the whole database to the backup folder and records
+ * when it was made, encrypted when a passphrase is given. Automatic
+ * backups rotate older ones out afterwards.
+ */
+export async function saveBackup(
+  kind: BackupKind,
+  passphrase?: string,
+): Promise<BackupFile> {
+  await ensureBackupFolder();
+  const createdAt = new Date();
+  const filename = backupFilename(kind, createdAt, ARCHIVE_EXTENSION);
+  const uri = `${BACKUP_FOLDER}${filename}`;
+  if (passphrase) {
+    const plainUri = tempFileUri();
+    try {
+      await writeBackupArchive(plainUri, await buildBackup());
+      await encryptBackupFile(plainUri, uri, passphrase);
+    } finally {
+      await FileSystem.deleteAsync(plainUri, { idempotent: true });
+    }
+  } else {
+    await writeBackupArchive(uri, await buildBackup());
+  }
+  await database.updateAppSettings({
+    last_backup_at: createdAt.toISOString(),
+  });
+  console.log("[Backup] File saved to:", uri);
+
+  if (kind === "auto") {
+    await rotateAutoBackups(createdAt);
+  }
+  return { uri, filename, kind, createdAt, size: await fileSize(uri) };
+}
+
+async function rotateAutoBackups(now: Date): Promise<void> {
+  const expired = getExpiredBackups(await listBackupFiles(), now);
+  for (const file of expired) {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  }
+  if (expired.length > 0) {
+    console.log(`[Backup] Rotated out ${expired.length} old backups`);
+  }
+}
+
+/**
+ * Whether a backup file, archive or plain JSON, matches its checksum.
+ * Encrypted files can only be checked once the passphrase is known.
+ */
+export async function checkBackupFile(uri: string): Promise<BackupIntegrity> {
+  try {
+    if (isEncryptedBackup(uri)) return "unchecked";
+    if (isBackupArchive(uri)) {
+      return (await verifyBackupArchive(uri)) ? "ok" : "corrupt";
+    }
+    return checkBackupIntegrity(
+      await FileSystem.readAsStringAsync(uri, { encoding: "utf8" }),
+    );
+  } catch {
+    return "corrupt";
+  }
+}
+
+/**
+ * Reads a backup file for restoring. An archive's photos are written to
+ * the member photo folder first; `files` maps each entry to its new path.
+ * Encrypted files are decrypted to a temporary file that is removed again.
+ */
+export async function readBackupFile(
+  uri: string,
+  passphrase?: string,
+): Promise<{ text: string; files: Map<string, string> }> {
+  if (isEncryptedBackup(uri)) {
+    if (!passphrase) {
+      throw new BackupError(
+        "This backup is encrypted. Enter its passphrase to restore it.",
+      );
+    }
+    const plainUri = tempFileUri();
+    try {
+      await decryptBackupFile(uri, plainUri, passphrase);
+      return await readBackupFile(plainUri);
+    } finally {
+      await FileSystem.deleteAsync(plainUri, { idempotent: true });
+    }
+  }
+  if (isBackupArchive(uri)) {
+    await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true });
+    return extractBackupArchive(uri, PHOTO_DIR);
+  }
+  return {
+    text: await FileSystem.readAsStringAsync(uri, { encoding: "utf8" }),
+    files: new Map(),
+  };
+}
+
+/**
+ * Only the data of a backup file, for showing what it holds; photos stay
+ * in the archive.
+ */
+export async function readBackupData(
+  uri: string,
+  passphrase?: string,
+): Promise<Omit<LoadedBackup, "files">> {
+  let text: string;
+  if (isEncryptedBackup(uri)) {
+    if (!passphrase) {
+      throw new BackupError(
+        "This backup is encrypted. Enter its passphrase to open it.",
+      );
+    }
+    const plainUri = tempFileUri();
+    try {
+      await decryptBackupFile(uri, plainUri, passphrase);
+      return await readBackupData(plainUri);
+    } finally {
+      await FileSystem.deleteAsync(plainUri, { idempotent: true });
+    }
+  } else if (isBackupArchive(uri)) {
+    text = readArchiveData(uri);
+  } else {
+    text = await FileSystem.readAsStringAsync(uri, { encoding: "utf8" });
+  }
+  const backup = parseBackup(text);
+  return { data: toRestoreData(backup), timestamp: backup.timestamp ?? null };
+}
+
+export type BackupSummary =
+  | { status: "ok"; counts: BackupCounts }
+  | { status: "encrypted" }
+  | { status: "unreadable"; message: string };
+
+// Like integrity checks, summaries are kept for the session
+const summaryCache = new Map<string, BackupSummary>();
+
+/** Record counts for the backup list; encrypted files are not opened. */
+export async function readBackupSummary(
+  file: BackupFile,
+): Promise<BackupSummary> {
+  const key = `${file.uri}:${file.size}`;
+  let summary = summaryCache.get(key);
+  if (!summary) {
+    try {
+      summary = isEncryptedBackup(file.uri)
+        ? { status: "encrypted" }
+        : {
+            status: "ok",
+            counts: countBackupRecords((await readBackupData(file.uri)).data),
+          };
+    } catch (error) {
+      summary = {
+        status: "unreadable",
+        message: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+    summaryCache.set(key, summary);
+  }
+  return summary;
+}
+
+/** A backup read and checked in full, ready to preview or restore. */
+export interface LoadedBackup {
+  data: database.RestoreData;
+  /** When the backup was made, if the file says. */
+  timestamp: string | null;
+  /** Photos written out of an archive, by entry name. */
+  files: Map<string, string>;
+}
+
+/**
+ * Reads and checks a backup file without changing any data. Pass the
+ * result to `releaseBackup` once it has been restored or set aside.
+ */
+export async function loadBackupFile(
+  uri: string,
+  passphrase?: string,
+): Promise<LoadedBackup> {
+  const { text, files } = await readBackupFile(uri, passphrase);
+  try {
+    const backup = relinkArchiveFiles(parseBackup(text), files);
+    return {
+      data: toRestoreData(backup),
+      timestamp: backup.timestamp ?? null,
+      files,
+    };
+  } catch (error) {
+    discardExtractedFiles(files);
+    throw error;
+  }
+}
+
+/** Removes the photos a loaded backup wrote that no member points at. */
+export async function releaseBackup(backup: LoadedBackup): Promise<void> {
+  const inUse = new Set<string | null>();
+  for (const member of await database.getAllMembers({ includeDeleted: true })) {
+    inUse.add(member.photo);
+    inUse.add(member.qr_image_path);
+  }
+  const unused = new Map(
+    [...backup.files].filter(([, uri]) => !inUse.has(uri)),
+  );
+  discardExtractedFiles(unused);
+  backup.files.clear();
+}
+
+// Backup files are never changed once written, so each one is read
+// through only once per session unless its size changes
+const integrityCache = new Map<string, BackupIntegrity>();
+
+/** Checks every backup on the device against its checksum. */
+export async function findCorruptBackups(): Promise<BackupFile[]> {
+  const corrupt: BackupFile[] = [];
+  for (const file of await listBackupFiles()) {
+    const key = `${file.uri}:${file.size}`;
+    let integrity = integrityCache.get(key);
+    if (!integrity) {
+      integrity = await checkBackupFile(file.uri);
+      integrityCache.set(key, integrity);
+    }
+    if (integrity === "corrupt") corrupt.push(file);
+  }
+  return corrupt;
+}
+
+/**
+ * How the live database differs from a backup. Members are matched by
+ * uuid, or by id for backups made before records had one.
+ */
+export async function compareWithDatabase(
+  data: database.RestoreData,
+): Promise<BackupComparison> {
+  const [members, sales, attendance] = await Promise.all([
+    database.getAllMembers(),
+    database.getAllSales(),
+    database.getAllAttendance(),
+  ]);
+  const backupMembers = data.members.filter((m) => !m.deleted_at);
+  const backupSales = data.sales.filter((s) => !s.deleted_at);
+  const uuids = new Set(backupMembers.map((m) => m.uuid));
+  const legacyIds = new Set(
+    backupMembers.filter((m) => !m.uuid).map((m) => m.id),
+  );
+  const liveUuids = new Set(members.map((m) => m.uuid));
+  const liveIds = new Set(members.map((m) => m.id));
+  const nameOf = (m: { firstname: string; lastname: string }) =>
+    `${m.firstname} ${m.lastname}`.trim();
+  const total = (rows: { amount: number }[]) =>
+    rows.reduce((sum, row) => sum + row.amount, 0);
+
+  return {
+    membersAdded: members
+      .filter((m) => !uuids.has(m.uuid) && !legacyIds.has(m.id))
+      .map(nameOf),
+    membersRemoved: backupMembers
+      .filter((m) => (m.uuid ? !liveUuids.has(m.uuid) : !liveIds.has(m.id)))
+      .map(nameOf),
+    sales: {
+      backupCount: backupSales.length,
+      backupTotal: total(backupSales),
+      liveCount: sales.length,
+      liveTotal: total(sales),
+    },
+    attendance: {
+      backup: data.attendance.filter((a) => !a.deleted_at).length,
+      live: attendance.length,
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  backupFilename,
+  getExpiredBackups,
+  isAutoBackupDue,
+  parseBackupFilename,
+  type BackupFile,
+  type BackupKind,
+} from "@/lib/backupRotation";
+
+process.env.TZ = "Asia/Manila";
+
+function file(createdAt: Date, kind: BackupKind = "auto"): BackupFile {
+  const filename = backupFilename(kind, createdAt, ".plbackup");
+  return { uri: `file:///${filename}`, filename, kind, createdAt, size: 1 };
+}
+
+const names = (files: BackupFile[]) => files.map((f) => f.filename).sort();
+
+describe("backup filenames", () => {
+  it("reads back the kind and local time a name was made with", () => {
+    const at = new Date(2026, 2, 10, 0, 30, 5, 42);
+    const name = backupFilename("auto", at, ".plbackup");
+    assert.equal(name, "powerlift_auto_2026-03-10_00-30-05-042.plbackup");
+    assert.deepEqual(parseBackupFilename(name), {
+      kind: "auto",
+      createdAt: at,
+    });
+  });
+
+  it("reads names from before milliseconds and archives", () => {
+    assert.deepEqual(
+      parseBackupFilename("powerlift_backup_2025-12-01_18-05-00.json"),
+      { kind: "manual", createdAt: new Date(2025, 11, 1, 18, 5, 0) },
+    );
+    assert.equal(parseBackupFilename("photo.jpg"), null);
+  });
+});
+
+describe("isAutoBackupDue", () => {
+  const now = new Date(2026, 2, 10, 12, 0);
+
+  it("waits out the interval since the last backup", () => {
+    const elevenHoursAgo = new Date(2026, 2, 10, 1, 0).toISOString();
+    const twelveHoursAgo = new Date(2026, 2, 10, 0, 0).toISOString();
+    assert.equal(isAutoBackupDue(elevenHoursAgo, 12, now), false);
+    assert.equal(isAutoBackupDue(twelveHoursAgo, 12, now), true);
+    assert.equal(isAutoBackupDue(null, 12, now), true);
+  });
+
+  it("never backs up when turned off", () => {
+    assert.equal(isAutoBackupDue(null, 0, now), false);
+  });
+});
+
+describe("getExpiredBackups", () => {
+  // A Wednesday
+  const now = new Date(2026, 2, 11, 12, 0);
+
+  it("keeps the newest backup of each of the last seven days", () => {
+    const morning = file(new Date(2026, 2, 11, 8, 0));
+    const noon = file(new Date(2026, 2, 11, 11, 59));
+    const yesterday = file(new Date(2026, 2, 10, 23, 0));
+    const weekAgo = file(new Date(2026, 2, 5, 9, 0));
+    assert.deepEqual(
+      getExpiredBackups([morning, noon, yesterday, weekAgo], now),
+      [morning],
+    );
+  });
+
+  it("goes by the local day, not the UTC one", () => {
+    // Both fall on March 10th in UTC
+    const early = file(new Date(2026, 2, 11, 1, 0));
+    const evening = file(new Date(2026, 2, 10, 20, 0));
+    assert.deepEqual(getExpiredBackups([early, evening], now), []);
+  });
+
+  it("keeps one backup a week, Monday to Sunday, for eight weeks", () => {
+    const sunday = file(new Date(2026, 1, 22, 9, 0));
+    const saturday = file(new Date(2026, 1, 21, 9, 0));
+    const monday = file(new Date(2026, 1, 16, 9, 0));
+    const tooOld = file(new Date(2026, 0, 12, 9, 0));
+    const expired = getExpiredBackups(
+      [file(now), sunday, saturday, monday, tooOld],
+      now,
+    );
+    assert.deepEqual(names(expired), names([saturday, monday, tooOld]));
+  });
+
+  it("always keeps the newest backup and never removes manual ones", () => {
+    const old = file(new Date(2025, 0, 1, 9, 0));
+    const older = file(new Date(2024, 0, 1, 9, 0));
+    const manual = file(new Date(2024, 0, 1, 9, 0), "manual");
+    assert.deepEqual(getExpiredBackups([older, manual, old], now), [older]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * How backup files are named and when automatic ones are made and
+ * removed. Kept apart from the file handling in backupFiles so it can be
+ * checked without a device.
+ *
+ * Automatic backups rotate out: the newest one of each calendar day is
+ * kept for a week and the newest one of each calendar week, Monday to
+ * Sunday, for eight weeks. Backups made with the button are never removed.
+ */
+
+/** Intervals offered on the backup screen, in hours; 0 is off. */
+export const AUTO_BACKUP_INTERVALS = [0, 12, 24, 72, 168] as const;
+
+const KEEP_DAILY_DAYS = 7;
+const KEEP_WEEKLY_WEEKS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days since 1970-01-01 of the local calendar date, whatever the time zone or DST. */
+function localDayNumber(date: Date): number {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+}
+
+/** Weeks since 1970 with each running Monday to Sunday; day 0 was a Thursday. */
+function localWeekNumber(date: Date): number {
+  return Math.floor((localDayNumber(date) + 3) / 7);
+}
+
+const FILE_PREFIX = {
+  manual: "powerlift_backup_",
+  auto: "powerlift_auto_",
+} as const;
+
+export type BackupKind = keyof typeof FILE_PREFIX;
+
+export interface BackupFile {
+  uri: string;
+  filename: string;
+  kind: BackupKind;
+  createdAt: Date;
+  /** In bytes. */
+  size: number;
+}
+
+// Milliseconds keep two backups in the same second apart; files from
+// before they were added end at the seconds
+const FILENAME_PATTERN =
+  /^(powerlift_backup_|powerlift_auto_)(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?\.(json|plbackup)$/;
+
+const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+/** The name of a backup made at `date`, in local time, ending in `extension`. */
+export function backupFilename(
+  kind: BackupKind,
+  date: Date,
+  extension: string,
+): string {
+  const dateString = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const timeString = `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}-${pad(date.getMilliseconds(), 3)}`;
+  return `${FILE_PREFIX[kind]}${dateString}_${timeString}${extension}`;
+}
+
+/** Reads a backup's kind and local time from its filename; null for other files. */
+export function parseBackupFilename(
+  filename: string,
+): Pick<BackupFile, "kind" | "createdAt"> | null {
+  const match = FILENAME_PATTERN.exec(filename);
+  if (!match) return null;
+  const [, prefix, year, month, day, hours, minutes, seconds, millis] = match;
+  return {
+    kind: prefix === FILE_PREFIX.auto ? "auto" : "manual",
+    createdAt: new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds),
+      Number(millis ?? 0),
+    ),
+  };
+}
+
+export function isAutoBackupDue(
+  lastBackupAt: string | null,
+  intervalHours: number,
+  now: Date,
+): boolean {
+  if (intervalHours <= 0) return false;
+  if (!lastBackupAt) return true;
+  return (
+    now.getTime() - new Date(lastBackupAt).getTime() >=
+    intervalHours * 60 * 60 * 1000
+  );
+}
+
+/**
+ * The automatic backups the retention policy no longer keeps. The newest
+ * one is always kept, however old, so a device left off for months still
+ * has something to restore.
+ */
+export function getExpiredBackups(
+  files: BackupFile[],
+  now: Date,
+): BackupFile[] {
+  const auto = files
+    .filter((f) => f.kind === "auto")
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keptDays = new Set<number>();
+  const keptWeeks = new Set<number>();
+  const today = localDayNumber(now);
+  const thisWeek = localWeekNumber(now);
+
+  return auto.filter((file, index) => {
+    const day = localDayNumber(file.createdAt);
+    const week = localWeekNumber(file.createdAt);
+    let keep = index === 0;
+    if (today - day < KEEP_DAILY_DAYS && !keptDays.has(day)) {
+      keptDays.add(day);
+      keep = true;
+    }
+    if (thisWeek - week < KEEP_WEEKLY_WEEKS && !keptWeeks.has(week)) {
+      keptWeeks.add(week);
+      keep = true;
+    }
+    return !keep;
+  });
+}
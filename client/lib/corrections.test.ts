@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Sale } from "@/context/AppContext";
+import {
+  getCorrectionTotals,
+  getRefundableAmount,
+  getReversibleRows,
+  getSaleCorrectionStatus,
+  validateCorrection,
+} from "@/lib/corrections";
+
+function sale(overrides: Partial<Sale> = {}): Sale {
+  return {
+    id: 1,
+    type: "membership",
+    amount: 1000,
+    date: "2026-03-10T09:00:00.000Z",
+    note: "",
+    payment_method: "cash",
+    reference_number: null,
+    payment_group: null,
+    shift_id: null,
+    reverses_sale_id: null,
+    correction_type: null,
+    correction_reason: null,
+    staff_id: null,
+    ...overrides,
+  };
+}
+
+function refund(of: Sale, amount: number, id: number): Sale {
+  return sale({
+    id,
+    amount: -amount,
+    reverses_sale_id: of.id,
+    correction_type: "refund",
+    correction_reason: "Overcharged",
+  });
+}
+
+describe("refunds", () => {
+  const original = sale();
+
+  it("tracks what is left to refund", () => {
+    const sales = [original, refund(original, 300, 2)];
+    assert.equal(getRefundableAmount(sales, original), 700);
+    assert.equal(
+      getSaleCorrectionStatus(sales, original),
+      "Partially refunded",
+    );
+  });
+
+  it("marks a sale refunded once nothing is left", () => {
+    const sales = [
+      original,
+      refund(original, 300, 2),
+      refund(original, 700, 3),
+    ];
+    assert.equal(getRefundableAmount(sales, original), 0);
+    assert.equal(getSaleCorrectionStatus(sales, original), "Refunded");
+    assert.equal(
+      validateCorrection(sales, original, "void", 0, "Mistake"),
+      "This sale has already been fully reversed.",
+    );
+  });
+
+  it("refuses refunds larger than what is left", () => {
+    const sales = [original, refund(original, 300, 2)];
+    assert.equal(
+      validateCorrection(sales, original, "refund", 800, "Overcharged"),
+      "Only ₱700 of this sale can still be refunded.",
+    );
+    assert.equal(
+      validateCorrection(sales, original, "refund", 700, "Overcharged"),
+      null,
+    );
+  });
+
+  it("needs a reason and an amount", () => {
+    assert.equal(
+      validateCorrection([original], original, "refund", 100, "  "),
+      "Please enter a reason.",
+    );
+    assert.equal(
+      validateCorrection([original], original, "refund", 0, "Overcharged"),
+      "Enter the amount to refund.",
+    );
+  });
+
+  it("does not correct a correction", () => {
+    const entry = refund(original, 300, 2);
+    assert.equal(
+      validateCorrection([original, entry], entry, "void", 0, "Mistake"),
+      "Voids and refunds cannot themselves be corrected.",
+    );
+  });
+});
+
+describe("voids", () => {
+  it("reverses every row of a split payment that has money left", () => {
+    const cash = sale({ id: 1, amount: 400 });
+    const gcash = sale({
+      id: 2,
+      amount: 600,
+      payment_method: "gcash",
+      payment_group: 1,
+    });
+    const other = sale({ id: 3, amount: 100 });
+    const sales = [cash, gcash, other, refund(cash, 400, 4)];
+    assert.deepEqual(getReversibleRows(sales, cash), [gcash]);
+  });
+
+  it("shows voided sales as voided", () => {
+    const original = sale();
+    const entry = sale({
+      id: 2,
+      amount: -1000,
+      reverses_sale_id: 1,
+      correction_type: "void",
+      correction_reason: "Double tap",
+    });
+    assert.equal(
+      getSaleCorrectionStatus([original, entry], original),
+      "Voided",
+    );
+    assert.equal(getSaleCorrectionStatus([original], original), null);
+  });
+
+  it("totals money given back by kind", () => {
+    const original = sale();
+    assert.deepEqual(
+      getCorrectionTotals([
+        original,
+        refund(original, 250, 2),
+        sale({
+          id: 3,
+          amount: -100,
+          reverses_sale_id: 9,
+          correction_type: "void",
+        }),
+      ]),
+      { refund: 250, void: 100 },
+    );
+  });
+});
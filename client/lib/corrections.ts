@@ -0,0 +1,105 @@
+import type { Sale } from "@/context/AppContext";
+import { getPaymentGroupId } from "@/lib/payments";
+
+/**
+ * A void cancels a sale that should never have been rung up, e.g. a
+ * double tap on Pay Session. A refund hands some or all of the money back.
+ * Both are written as offsetting sales with a negative amount.
+ */
+export type CorrectionType = "void" | "refund";
+
+export const CORRECTION_LABELS: Record<string, string> = {
+  void: "Void",
+  refund: "Refund",
+};
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isCorrection(sale: Sale): boolean {
+  return sale.reverses_sale_id !== null;
+}
+
+/** Offsetting entries written against a sale. */
+export function getCorrectionsFor(sales: Sale[], saleId: number): Sale[] {
+  return sales.filter((s) => s.reverses_sale_id === saleId);
+}
+
+/** What is left of a sale after earlier voids and refunds. */
+export function getRefundableAmount(sales: Sale[], sale: Sale): number {
+  const reversed = getCorrectionsFor(sales, sale.id).reduce(
+    (sum, s) => sum - s.amount,
+    0,
+  );
+  return roundCents(Math.max(0, sale.amount - reversed));
+}
+
+/** The rows of a payment that still have money left to reverse. */
+export function getReversibleRows(sales: Sale[], sale: Sale): Sale[] {
+  const groupId = getPaymentGroupId(sale);
+  return sales.filter(
+    (s) =>
+      !isCorrection(s) &&
+      getPaymentGroupId(s) === groupId &&
+      getRefundableAmount(sales, s) > 0,
+  );
+}
+
+/**
+ * Short status shown next to a sale in lists, or null for a sale that
+ * has not been corrected.
+ */
+export function getSaleCorrectionStatus(
+  sales: Sale[],
+  sale: Sale,
+): string | null {
+  const corrections = getCorrectionsFor(sales, sale.id);
+  if (corrections.length === 0) return null;
+  if (corrections.some((c) => c.correction_type === "void")) return "Voided";
+  return getRefundableAmount(sales, sale) > 0
+    ? "Partially refunded"
+    : "Refunded";
+}
+
+/**
+ * Returns a message describing why the correction cannot be recorded, or
+ * null when it can.
+ */
+export function validateCorrection(
+  sales: Sale[],
+  sale: Sale,
+  type: CorrectionType,
+  amount: number,
+  reason: string,
+): string | null {
+  if (isCorrection(sale)) {
+    return "Voids and refunds cannot themselves be corrected.";
+  }
+  if (!reason.trim()) return "Please enter a reason.";
+
+  if (type === "void") {
+    return getReversibleRows(sales, sale).length === 0
+      ? "This sale has already been fully reversed."
+      : null;
+  }
+
+  const refundable = getRefundableAmount(sales, sale);
+  if (!(amount > 0)) return "Enter the amount to refund.";
+  if (roundCents(amount) > refundable) {
+    return `Only ₱${refundable.toLocaleString()} of this sale can still be refunded.`;
+  }
+  return null;
+}
+
+/** Money given back through voids and refunds, as positive amounts. */
+export function getCorrectionTotals(sales: Sale[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  sales.forEach((s) => {
+    if (!s.correction_type) return;
+    totals[s.correction_type] = roundCents(
+      (totals[s.correction_type] || 0) - s.amount,
+    );
+  });
+  return totals;
+}
@@ -0,0 +1,190 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  constantTimeEqual,
+  createChaCha20,
+  createHmacSha256,
+  createSha256,
+  fromHex,
+  hmacSha256,
+  pbkdf2Sha256,
+  pbkdf2Sha256Async,
+  sha256,
+  toHex,
+  utf8Decode,
+  utf8Encode,
+} from "@/lib/crypto";
+
+const hex = (bytes: Uint8Array) => toHex(bytes);
+const text = (value: string) => utf8Encode(value);
+
+describe("sha256", () => {
+  // FIPS 180-2 examples
+  it("matches the published digests", () => {
+    assert.equal(
+      hex(sha256(text(""))),
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    );
+    assert.equal(
+      hex(sha256(text("abc"))),
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+    assert.equal(
+      hex(
+        sha256(
+          text("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"),
+        ),
+      ),
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    );
+  });
+
+  it("gives the same digest when fed in pieces", () => {
+    const data = Uint8Array.from({ length: 1000 }, (_, i) => i % 251);
+    const hasher = createSha256();
+    // Pieces that end inside, on and just past a 64-byte block
+    const cuts = [0, 1, 64, 128, 129, 500, 1000];
+    for (let i = 1; i < cuts.length; i++) {
+      hasher.update(data.subarray(cuts[i - 1], cuts[i]));
+    }
+    assert.equal(hex(hasher.digest()), hex(sha256(data)));
+  });
+});
+
+describe("hmacSha256", () => {
+  // RFC 4231 test cases 1, 2 and 6
+  it("matches the published MACs", () => {
+    assert.equal(
+      hex(hmacSha256(new Uint8Array(20).fill(0x0b), text("Hi There"))),
+      "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7",
+    );
+    assert.equal(
+      hex(hmacSha256(text("Jefe"), text("what do ya want for nothing?"))),
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    );
+    assert.equal(
+      hex(
+        hmacSha256(
+          new Uint8Array(131).fill(0xaa),
+          text("Test Using Larger Than Block-Size Key - Hash Key First"),
+        ),
+      ),
+      "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+    );
+  });
+
+  it("gives the same MAC when fed in pieces", () => {
+    const hmac = createHmacSha256(text("Jefe"));
+    hmac.update(text("what do ya want "));
+    hmac.update(text("for nothing?"));
+    assert.equal(
+      hex(hmac.digest()),
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    );
+  });
+});
+
+describe("pbkdf2Sha256", () => {
+  it("matches the published keys", () => {
+    const derive = (iterations: number, length = 32) =>
+      hex(pbkdf2Sha256(text("password"), text("salt"), iterations, length));
+    assert.equal(
+      derive(1),
+      "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b",
+    );
+    assert.equal(
+      derive(2),
+      "ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43",
+    );
+    assert.equal(
+      derive(4096),
+      "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a",
+    );
+  });
+
+  // RFC 7914 section 11, longer than one block of output
+  it("derives keys longer than one hash", () => {
+    assert.equal(
+      hex(pbkdf2Sha256(text("passwd"), text("salt"), 1, 64)),
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc" +
+        "49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783",
+    );
+  });
+
+  it("gives the same key when run in steps", async () => {
+    let pauses = 0;
+    const key = await pbkdf2Sha256Async(
+      text("password"),
+      text("salt"),
+      4096,
+      32,
+      async () => pauses++,
+      1000,
+    );
+    assert.equal(
+      hex(key),
+      "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a",
+    );
+    assert.equal(pauses, 4);
+  });
+});
+
+describe("createChaCha20", () => {
+  // RFC 8439 appendix A.2, test vector 1
+  it("matches the keystream for an all-zero key and nonce", () => {
+    const cipher = createChaCha20(new Uint8Array(32), new Uint8Array(12));
+    assert.equal(
+      hex(cipher.process(new Uint8Array(64))),
+      "76b8e0ada0f13d90405d6ae55386bd28bdd219b8a08ded1aa836efcc8b770dc7" +
+        "da41597c5157488d7724e03fb8d84a376a43b8f41518a11cc387b669b2ee6586",
+    );
+  });
+
+  // RFC 8439 section 2.4.2, which starts at block 1
+  it("encrypts the published plaintext", () => {
+    const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const cipher = createChaCha20(key, fromHex("000000000000004a00000000"));
+    cipher.process(new Uint8Array(64));
+    const plaintext =
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+    assert.equal(
+      hex(cipher.process(text(plaintext))),
+      "6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b" +
+        "f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8" +
+        "07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736" +
+        "5af90bbf74a35be6b40b8eedf2785e42874d",
+    );
+  });
+
+  it("decrypts what it encrypted, whatever the piece sizes", () => {
+    const key = new Uint8Array(32).fill(7);
+    const nonce = new Uint8Array(12).fill(9);
+    const message = text("a message that spans more than one block ".repeat(5));
+    const encrypted = createChaCha20(key, nonce).process(message);
+    const decrypter = createChaCha20(key, nonce);
+    const decrypted = new Uint8Array(message.length);
+    decrypted.set(decrypter.process(encrypted.subarray(0, 10)), 0);
+    decrypted.set(decrypter.process(encrypted.subarray(10, 100)), 10);
+    decrypted.set(decrypter.process(encrypted.subarray(100)), 100);
+    assert.deepEqual(decrypted, message);
+  });
+});
+
+describe("encoding helpers", () => {
+  it("round-trips text outside the basic plane", () => {
+    const value = "Añejo ₱500 💪";
+    assert.equal(utf8Decode(utf8Encode(value)), value);
+    assert.equal(hex(utf8Encode("₱")), "e282b1");
+    assert.equal(hex(utf8Encode("💪")), "f09f92aa");
+  });
+
+  it("round-trips hex", () => {
+    assert.equal(toHex(fromHex("00ff7a")), "00ff7a");
+  });
+
+  it("compares byte strings", () => {
+    assert.equal(constantTimeEqual(fromHex("0102"), fromHex("0102")), true);
+    assert.equal(constantTimeEqual(fromHex("0102"), fromHex("0103")), false);
+    assert.equal(constantTimeEqual(fromHex("0102"), fromHex("01")), false);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Small hashing primitives (SHA-256, HMAC, PBKDF2) and the ChaCha20
+ * stream cipher. Random bytes live in lib/random, as they need the
+ * platform.
+ *
+ * The app runs on Hermes and on the web, neither of which gives us a
+ * synchronous SubtleCrypto, so these are implemented in plain TypeScript.
+ * They favour clarity over speed; callers size iteration counts to suit.
+ */
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const H0 = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    // Combine surrogate pairs into a single code point
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i + 1] & 0x3f) << 6) |
+        (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[i + 1] & 0x3f) << 12) |
+        ((bytes[i + 2] & 0x3f) << 6) |
+        (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+    text += String.fromCodePoint(code);
+  }
+  return text;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((p) => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+}
+
+// Message schedule, reused across blocks to spare the allocator in PBKDF2
+const w = new Uint32Array(64);
+
+function compress(state: Uint32Array, block: Uint8Array, offset: number) {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] =
+      (block[j] << 24) |
+      (block[j + 1] << 16) |
+      (block[j + 2] << 8) |
+      block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const a = w[i - 15];
+    const b = w[i - 2];
+    const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+    const s1 = ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const S1 =
+      ((e >>> 6) | (e << 26)) ^
+      ((e >>> 11) | (e << 21)) ^
+      ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+    const S0 =
+      ((a >>> 2) | (a << 30)) ^
+      ((a >>> 13) | (a << 19)) ^
+      ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+export interface Sha256Hasher {
+  update(data: Uint8Array): void;
+  digest(): Uint8Array;
+}
+
+/** SHA-256 over data fed in pieces, e.g. a file read in chunks. */
+export function createSha256(): Sha256Hasher {
+  const state = new Uint32Array(H0);
+  const block = new Uint8Array(64);
+  let blockLength = 0;
+  let totalLength = 0;
+
+  return {
+    update(data) {
+      totalLength += data.length;
+      let offset = 0;
+      if (blockLength > 0) {
+        offset = Math.min(64 - blockLength, data.length);
+        block.set(data.subarray(0, offset), blockLength);
+        blockLength += offset;
+        if (blockLength < 64) return;
+        compress(state, block, 0);
+        blockLength = 0;
+      }
+      for (; offset + 64 <= data.length; offset += 64) {
+        compress(state, data, offset);
+      }
+      block.set(data.subarray(offset), 0);
+      blockLength = data.length - offset;
+    },
+
+    digest() {
+      const paddedLength = Math.ceil((blockLength + 9) / 64) * 64;
+      const padded = new Uint8Array(paddedLength);
+      padded.set(block.subarray(0, blockLength));
+      padded[blockLength] = 0x80;
+      // Message length in bits, big-endian; 2^53 bits is plenty
+      const bitLength = totalLength * 8;
+      const view = new DataView(padded.buffer);
+      view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+      view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+      for (let offset = 0; offset < paddedLength; offset += 64) {
+        compress(state, padded, offset);
+      }
+
+      const out = new Uint8Array(32);
+      const outView = new DataView(out.buffer);
+      state.forEach((word, i) => outView.setUint32(i * 4, word));
+      return out;
+    },
+  };
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  const hasher = createSha256();
+  hasher.update(data);
+  return hasher.digest();
+}
+
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(64);
+  blockKey.set(key.length > 64 ? sha256(key) : key);
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  return sha256(concatBytes(outer, sha256(concatBytes(inner, message))));
+}
+
+/** HMAC-SHA256 over a message fed in pieces. */
+export function createHmacSha256(key: Uint8Array): Sha256Hasher {
+  const blockKey = new Uint8Array(64);
+  blockKey.set(key.length > 64 ? sha256(key) : key);
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  const innerHasher = createSha256();
+  innerHasher.update(inner);
+  return {
+    update: (data) => innerHasher.update(data),
+    digest: () => sha256(concatBytes(outer, innerHasher.digest())),
+  };
+}
+
+// PBKDF2 rounds, pausing every `roundsPerStep` so a caller can hand the
+// thread back between steps
+function* pbkdf2Steps(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+  roundsPerStep: number,
+): Generator<void, Uint8Array> {
+  const out = new Uint8Array(length);
+  for (let block = 1, offset = 0; offset < length; block++) {
+    const counter = new Uint8Array([
+      block >>> 24,
+      (block >>> 16) & 0xff,
+      (block >>> 8) & 0xff,
+      block & 0xff,
+    ]);
+    let u = hmacSha256(password, concatBytes(salt, counter));
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmacSha256(password, u);
+      for (let j = 0; j < t.length; j++) t[j] ^= u[j];
+      if (i % roundsPerStep === 0) yield;
+    }
+    out.set(t.subarray(0, Math.min(32, length - offset)), offset);
+    offset += 32;
+  }
+  return out;
+}
+
+/** PBKDF2 with HMAC-SHA256 as the pseudorandom function (RFC 8018). */
+export function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+): Uint8Array {
+  const steps = pbkdf2Steps(password, salt, iterations, length, Infinity);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * The same as `pbkdf2Sha256`, awaiting `pause` every `roundsPerPause`
+ * rounds so a long derivation does not freeze the screen.
+ */
+export async function pbkdf2Sha256Async(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+  pause: () => Promise<unknown>,
+  roundsPerPause = 2000,
+): Promise<Uint8Array> {
+  const steps = pbkdf2Steps(password, salt, iterations, length, roundsPerPause);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    await pause();
+  }
+}
+
+function quarterRound(
+  x: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+) {
+  x[a] = (x[a] + x[b]) | 0;
+  x[d] ^= x[a];
+  x[d] = (x[d] << 16) | (x[d] >>> 16);
+  x[c] = (x[c] + x[d]) | 0;
+  x[b] ^= x[c];
+  x[b] = (x[b] << 12) | (x[b] >>> 20);
+  x[a] = (x[a] + x[b]) | 0;
+  x[d] ^= x[a];
+  x[d] = (x[d] << 8) | (x[d] >>> 24);
+  x[c] = (x[c] + x[d]) | 0;
+  x[b] ^= x[c];
+  x[b] = (x[b] << 7) | (x[b] >>> 25);
+}
+
+export interface StreamCipher {
+  /** Encrypts or decrypts the next piece of the stream. */
+  process(data: Uint8Array): Uint8Array;
+}
+
+/**
+ * ChaCha20 (RFC 8439) with a 32-byte key and 12-byte nonce, starting at
+ * block counter 0. Never reuse a nonce with the same key.
+ */
+export function createChaCha20(
+  key: Uint8Array,
+  nonce: Uint8Array,
+): StreamCipher {
+  const input = new Uint32Array(16);
+  const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const nonceView = new DataView(
+    nonce.buffer,
+    nonce.byteOffset,
+    nonce.byteLength,
+  );
+  input.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+  for (let i = 0; i < 8; i++) input[4 + i] = keyView.getUint32(i * 4, true);
+  for (let i = 0; i < 3; i++) input[13 + i] = nonceView.getUint32(i * 4, true);
+
+  const working = new Uint32Array(16);
+  const keystream = new Uint8Array(64);
+  const keystreamView = new DataView(keystream.buffer);
+  let used = 64;
+
+  const nextBlock = () => {
+    working.set(input);
+    for (let i = 0; i < 10; i++) {
+      quarterRound(working, 0, 4, 8, 12);
+      quarterRound(working, 1, 5, 9, 13);
+      quarterRound(working, 2, 6, 10, 14);
+      quarterRound(working, 3, 7, 11, 15);
+      quarterRound(working, 0, 5, 10, 15);
+      quarterRound(working, 1, 6, 11, 12);
+      quarterRound(working, 2, 7, 8, 13);
+      quarterRound(working, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) {
+      keystreamView.setUint32(i * 4, (working[i] + input[i]) | 0, true);
+    }
+    input[12] = (input[12] + 1) | 0;
+    used = 0;
+  };
+
+  return {
+    process(data) {
+      const out = new Uint8Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        if (used === 64) nextBlock();
+        out[i] = data[i] ^ keystream[used++];
+      }
+      return out;
+    },
+  };
+}
+
+/** Compares two byte strings without bailing out at the first difference. */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
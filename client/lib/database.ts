@@ -1,15 +1,27 @@
-import { Platform, AppState } from 'react-native';
+import { Platform, AppState } from "react-native";
+import type { SQLiteBindValue, SQLiteDatabase } from "expo-sqlite";
+import { runMigrations, MigrationError, SYNC_EPOCH } from "@/lib/migrations";
+import { randomUUID } from "@/lib/random";
 
-const DB_NAME = 'powerlift_gym.db';
+const DB_NAME = "powerlift_gym.db";
 
-let db: any = null;
+let db: SQLiteDatabase | null = null;
 let isInitializing = false;
 let appStateSubscription: any = null;
+let initError: string | null = null;
 
 interface InMemoryDB {
   members: DBMember[];
   attendance: DBAttendance[];
   sales: DBSale[];
+  plans: DBPlan[];
+  subscriptions: DBSubscription[];
+  freezes: DBFreeze[];
+  shifts: DBShift[];
+  staff: DBStaff[];
+  memberEdits: DBMemberEdit[];
+  cardReissues: DBCardReissue[];
+  changeJournal: DBChangeJournalEntry[];
   priceSettings: DBPriceSettings;
   appSettings: DBAppSettings;
 }
@@ -18,36 +30,111 @@ let inMemoryDB: InMemoryDB = {
   members: [],
   attendance: [],
   sales: [],
+  plans: [
+    {
+      id: 1,
+      name: "Monthly (Student)",
+      duration_value: 1,
+      duration_unit: "months",
+      price: 600,
+      category: "student",
+      is_active: 1,
+      allowed_from: null,
+      allowed_until: null,
+      ...stampRecord({}),
+    },
+    {
+      id: 2,
+      name: "Monthly (Regular)",
+      duration_value: 1,
+      duration_unit: "months",
+      price: 700,
+      category: "regular",
+      is_active: 1,
+      allowed_from: null,
+      allowed_until: null,
+      ...stampRecord({}),
+    },
+    {
+      id: 3,
+      name: "Monthly (Senior)",
+      duration_value: 1,
+      duration_unit: "months",
+      price: 560,
+      category: "senior",
+      is_active: 1,
+      allowed_from: null,
+      allowed_until: null,
+      ...stampRecord({}),
+    },
+  ],
+  subscriptions: [],
+  freezes: [],
+  shifts: [],
+  staff: [],
+  memberEdits: [],
+  cardReissues: [],
+  changeJournal: [],
   priceSettings: {
     id: 1,
     membership: 300,
-    student_monthly: 600,
-    regular_monthly: 700,
-    senior_monthly: 560,
     session_member: 70,
     session_nonmember: 100,
     session_member_senior: 40,
     session_nonmember_senior: 60,
+    updated_at: SYNC_EPOCH,
+    hub_updated_at: null,
+  },
+  appSettings: {
+    id: 1,
+    pin_hash: null,
+    is_dark_mode: 1,
+    renewal_grace_days: 7,
+    failed_pin_attempts: 0,
+    pin_locked_until: null,
+    recovery_code_hash: null,
+    checkout_on_second_scan: 1,
+    min_visit_minutes: 5,
+    closing_time: "22:00",
+    gym_capacity: 0,
+    access_one_per_day: 1,
+    access_min_age: 0,
+    card_secret: null,
+    accept_legacy_cards: 1,
+    scanner_input: 0,
+    kiosk_mode: 0,
+    device_id: null,
+    sync_hub_url: null,
+    sync_key: null,
+    sync_revision: 0,
+    sync_pushed_at: null,
+    last_synced_at: null,
+    auto_backup_hours: 24,
+    last_backup_at: null,
   },
-  appSettings: { id: 1, pin_hash: null, is_dark_mode: 1 },
 };
 
-async function getSQLiteDatabase() {
+async function getSQLiteDatabase(): Promise<SQLiteDatabase | null> {
   if (Platform.OS === 'web') {
     console.log('[Database] Running on web - using in-memory storage (for testing only)');
     return null;
   }
   
-  try {
-    // Prevent multiple concurrent initialization attempts
-    if (isInitializing) {
-      let attempts = 0;
-      while (isInitializing && attempts < 50) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-        attempts++;
-      }
+  // Prevent multiple concurrent initialization attempts
+  if (isInitializing) {
+    let attempts = 0;
+    while (isInitializing && attempts < 50) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      attempts++;
     }
+  }
+
+  // A failed upgrade fails the same way again, so it is not retried until
+  // the app restarts. Nothing falls back to memory meanwhile, where changes
+  // would be lost when the app closes.
+  if (initError) throw new Error(initError);
 
+  try {
     // If database is already open, return it
     if (db) {
       // Quick validation - try a simple query
@@ -78,104 +165,63 @@ async function getSQLiteDatabase() {
     await initDatabase(db);
     console.log('[Database] SQLite database initialized successfully');
     
+    initError = null;
     isInitializing = false;
     return db;
   } catch (error) {
     isInitializing = false;
-    console.error('[Database] CRITICAL: Failed to initialize SQLite database on native platform:', error);
+    if (error instanceof MigrationError) {
+      // The failed migration was rolled back, so the file on disk is still at
+      // the previous schema version. Close it rather than run against a
+      // half-upgraded schema, and surface the failure to the UI, which
+      // stops on it rather than work on data that is not saved.
+      initError = error.message;
+      try {
+        await db?.closeAsync();
+      } catch (closeError) {
+        console.warn(
+          "[Database] Error closing database after failed migration:",
+          closeError,
+        );
+      }
+      db = null;
+      throw error;
+    }
+    console.error(
+      "[Database] CRITICAL: Failed to initialize SQLite database on native platform:",
+      error,
+    );
     // Don't throw - allow app to continue with in-memory mode
     db = null;
     return null;
   }
 }
 
-async function initDatabase(database: any): Promise<void> {
-  await database.execAsync(`
-    CREATE TABLE IF NOT EXISTS members (
-      id INTEGER PRIMARY KEY,
-      firstname TEXT NOT NULL,
-      lastname TEXT NOT NULL,
-      age INTEGER NOT NULL,
-      gender TEXT NOT NULL,
-      email TEXT,
-      phone TEXT,
-      photo TEXT,
-      qr_code TEXT NOT NULL,
-      qr_image_path TEXT,
-      membership_type TEXT NOT NULL,
-      is_member INTEGER DEFAULT 1,
-      subscription_start TEXT,
-      subscription_end TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS attendance (
-      id INTEGER PRIMARY KEY,
-      member_id INTEGER NOT NULL,
-      date TEXT NOT NULL,
-      time TEXT NOT NULL,
-      FOREIGN KEY (member_id) REFERENCES members(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS sales (
-      id INTEGER PRIMARY KEY,
-      type TEXT NOT NULL,
-      amount REAL NOT NULL,
-      date TEXT NOT NULL,
-      note TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS price_settings (
-      id INTEGER PRIMARY KEY DEFAULT 1,
-      membership REAL DEFAULT 300,
-      student_monthly REAL DEFAULT 600,
-      regular_monthly REAL DEFAULT 700,
-      senior_monthly REAL DEFAULT 560,
-      session_member REAL DEFAULT 70,
-      session_nonmember REAL DEFAULT 100,
-      session_member_senior REAL DEFAULT 50,
-      session_nonmember_senior REAL DEFAULT 80
-    );
-
-    CREATE TABLE IF NOT EXISTS app_settings (
-      id INTEGER PRIMARY KEY DEFAULT 1,
-      pin_hash TEXT,
-      is_dark_mode INTEGER DEFAULT 1
-    );
-  `);
-
-  // Migration: Add missing columns if they don't exist
-  try {
-    const tableInfo = await database.getAllAsync("PRAGMA table_info(price_settings)");
-    const columnNames = tableInfo.map((col: any) => col.name);
-
-    if (!columnNames.includes('session_member_senior')) {
-      console.log('[Database] Migrating: Adding session_member_senior column...');
-      await database.execAsync('ALTER TABLE price_settings ADD COLUMN session_member_senior REAL DEFAULT 50');
-    }
-
-    if (!columnNames.includes('session_nonmember_senior')) {
-      console.log('[Database] Migrating: Adding session_nonmember_senior column...');
-      await database.execAsync('ALTER TABLE price_settings ADD COLUMN session_nonmember_senior REAL DEFAULT 80');
-    }
-  } catch (migrationError) {
-    console.warn('[Database] Migration check failed (table may not exist yet):', migrationError);
-  }
+async function initDatabase(database: SQLiteDatabase): Promise<void> {
+  const version = await runMigrations(database);
+  console.log(`[Database] Schema is at version ${version}`);
+}
 
-  await database.runAsync(
-    'INSERT OR REPLACE INTO price_settings (id, membership, student_monthly, regular_monthly, senior_monthly, session_member, session_nonmember, session_member_senior, session_nonmember_senior) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [1, 300, 600, 700, 560, 70, 100, 50, 80]
-  );
+/**
+ * Columns every record table carries on top of its own. The UUID is the
+ * record's identity across restores and devices; the local id is not.
+ * Deleted records keep their row with deleted_at set and are left out of
+ * reads unless asked for.
+ */
+export interface DBRecordStamp {
+  uuid: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
 
-  const appSettings = await database.getFirstAsync('SELECT * FROM app_settings WHERE id = 1');
-  if (!appSettings) {
-    await database.runAsync(
-      'INSERT INTO app_settings (id, is_dark_mode) VALUES (?, ?)',
-      [1, 1]
-    );
-  }
+/** Stamp columns of the records that travel through the LAN sync hub. */
+export interface DBSyncedRecord extends DBRecordStamp {
+  /** updated_at of the copy last pulled from the hub; a row still at that version has nothing to push. */
+  hub_updated_at: string | null;
 }
 
-export interface DBMember {
+export interface DBMember extends DBSyncedRecord {
   id: number;
   firstname: string;
   lastname: string;
@@ -190,86 +236,478 @@ export interface DBMember {
   is_member: number;
   subscription_start: string | null;
   subscription_end: string | null;
+  is_banned: number;
+  ban_reason: string | null;
+  card_version: number;
+  /** Device whose key signed the current card; null for cards from before sync. */
+  card_issuer: string | null;
+  /** Device the member was added on; null for members added before sync. */
+  origin_device_id: string | null;
 }
 
-export interface DBAttendance {
+export interface DBAttendance extends DBSyncedRecord {
   id: number;
   member_id: number;
   date: string;
   time: string;
+  staff_id: number | null;
+  check_out_time: string | null;
+  auto_checked_out: number;
+  entry_method: string;
 }
 
-export interface DBSale {
+export interface DBSale extends DBSyncedRecord {
   id: number;
   type: string;
   amount: number;
   date: string;
   note: string | null;
+  payment_method: string;
+  reference_number: string | null;
+  payment_group: number | null;
+  shift_id: number | null;
+  reverses_sale_id: number | null;
+  correction_type: string | null;
+  correction_reason: string | null;
+  staff_id: number | null;
+}
+
+export interface DBPlan extends DBRecordStamp {
+  id: number;
+  name: string;
+  duration_value: number;
+  duration_unit: string;
+  price: number;
+  category: string;
+  is_active: number;
+  allowed_from: string | null;
+  allowed_until: string | null;
+}
+
+export interface DBSubscription extends DBSyncedRecord {
+  id: number;
+  member_id: number;
+  plan_id: number | null;
+  start_date: string;
+  end_date: string;
+  amount_paid: number;
+  sale_id: number | null;
+  created_at: string;
+}
+
+export interface DBFreeze extends DBSyncedRecord {
+  id: number;
+  member_id: number;
+  start_date: string;
+  end_date: string | null;
+  reason: string;
+  fee: number;
+  sale_id: number | null;
+  unfrozen_at: string | null;
+  frozen_days: number;
+  created_at: string;
+}
+
+export interface DBShift extends DBRecordStamp {
+  id: number;
+  staff_name: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  closing_note: string | null;
+}
+
+export interface DBStaff extends DBRecordStamp {
+  id: number;
+  name: string;
+  role: string;
+  pin_hash: string;
+  is_active: number;
+  created_at: string;
+}
+
+export interface DBMemberEdit extends DBRecordStamp {
+  id: number;
+  member_id: number;
+  staff_id: number | null;
+  action: string;
+  fields: string | null;
+  created_at: string;
+}
+
+export interface DBCardReissue extends DBSyncedRecord {
+  id: number;
+  member_id: number;
+  /** The version of the card issued; earlier versions are revoked. */
+  card_version: number;
+  reason: string;
+  fee: number;
+  sale_id: number | null;
+  staff_id: number | null;
+  /** The code of the card this one replaced; null for reissues from before sync. */
+  replaced_qr_code: string | null;
+  created_at: string;
 }
 
 export interface DBPriceSettings {
   id: number;
   membership: number;
-  student_monthly: number;
-  regular_monthly: number;
-  senior_monthly: number;
   session_member: number;
   session_nonmember: number;
   session_member_senior: number;
   session_nonmember_senior: number;
+  updated_at: string;
+  hub_updated_at: string | null;
 }
 
 export interface DBAppSettings {
   id: number;
+  /** Unused since staff accounts; cleared by the hashed_pins migration. */
   pin_hash: string | null;
   is_dark_mode: number;
+  renewal_grace_days: number;
+  failed_pin_attempts: number;
+  pin_locked_until: string | null;
+  recovery_code_hash: string | null;
+  checkout_on_second_scan: number;
+  min_visit_minutes: number;
+  closing_time: string;
+  gym_capacity: number;
+  access_one_per_day: number;
+  access_min_age: number;
+  /** Hex key that signs member card QR codes; created on first start. */
+  card_secret: string | null;
+  accept_legacy_cards: number;
+  /** Listen for keyboard-wedge barcode scanners on every screen. */
+  scanner_input: number;
+  /** Start as the self check-in kiosk instead of at the PIN screen. */
+  kiosk_mode: number;
+  /** Identifies this device to the LAN sync hub; created on first start. */
+  device_id: string | null;
+  sync_hub_url: string | null;
+  sync_key: string | null;
+  /** Last hub revision pulled into this device. */
+  sync_revision: number;
+  /** Local changes made after this time have not reached the hub yet. */
+  sync_pushed_at: string | null;
+  last_synced_at: string | null;
+  /** Hours between automatic backups; 0 turns them off. */
+  auto_backup_hours: number;
+  last_backup_at: string | null;
+}
+
+/** A record to insert; stamp columns are filled in when missing. */
+export type NewRecord<T extends DBRecordStamp & { id: number }> = Omit<
+  T,
+  "id" | keyof DBSyncedRecord
+> &
+  Partial<DBSyncedRecord>;
+
+export type RecordTable =
+  | "members"
+  | "attendance"
+  | "sales"
+  | "plans"
+  | "subscriptions"
+  | "freezes"
+  | "shifts"
+  | "staff"
+  | "member_edits"
+  | "card_reissues";
+
+export type JournalOperation = "insert" | "update" | "delete";
+
+export interface DBChangeJournalEntry {
+  id: number;
+  table_name: RecordTable;
+  record_uuid: string;
+  operation: JournalOperation;
+  /** JSON of the inserted row or of the changed fields; null for deletes. */
+  changes: string | null;
+  changed_at: string;
+}
+
+const MEMORY_TABLES: Record<RecordTable, keyof InMemoryDB> = {
+  members: "members",
+  attendance: "attendance",
+  sales: "sales",
+  plans: "plans",
+  subscriptions: "subscriptions",
+  freezes: "freezes",
+  shifts: "shifts",
+  staff: "staff",
+  member_edits: "memberEdits",
+  card_reissues: "cardReissues",
+};
+
+// PIN hashes stay out of the journal, which is meant to be read and shared
+const UNJOURNALED_FIELDS = ["pin", "pin_hash"];
+
+const STAMP_COLUMNS = "uuid, created_at, updated_at, deleted_at";
+
+let lastMemoryId = 0;
+
+/** Row ids for the in-memory fallback; Date.now() alone repeats within a millisecond. */
+function nextMemoryId(): number {
+  lastMemoryId = Math.max(Date.now(), lastMemoryId + 1);
+  return lastMemoryId;
+}
+
+function memoryRows(table: RecordTable): ({ id: number } & DBRecordStamp)[] {
+  return inMemoryDB[MEMORY_TABLES[table]] as ({ id: number } & DBRecordStamp)[];
+}
+
+/**
+ * Fills in the stamp columns of a new record. Records that already carry
+ * them, from a backup or the sync hub, keep their own.
+ */
+function stampRecord<T extends Partial<DBRecordStamp>>(
+  record: T,
+): T & DBRecordStamp {
+  const now = new Date().toISOString();
+  return {
+    ...record,
+    uuid: record.uuid || randomUUID(),
+    created_at: record.created_at || now,
+    updated_at: record.updated_at || record.created_at || now,
+    deleted_at: record.deleted_at ?? null,
+  };
+}
+
+function stampValues(record: DBRecordStamp): (string | null)[] {
+  return [record.uuid, record.created_at, record.updated_at, record.deleted_at];
 }
 
-export async function getAllMembers(): Promise<DBMember[]> {
+/**
+ * Stamps a change with the current time unless it already carries one, as
+ * records pulled from the sync hub do.
+ */
+function withUpdatedAt<T extends { updated_at?: string }>(updates: T): T {
+  return updates.updated_at
+    ? updates
+    : { ...updates, updated_at: new Date().toISOString() };
+}
+
+async function appendToJournal(
+  database: SQLiteDatabase | null,
+  table: RecordTable,
+  recordUuid: string,
+  operation: JournalOperation,
+  changes: object | null,
+): Promise<void> {
+  let payload: string | null = null;
+  if (changes) {
+    const { id: _id, ...fields } = changes as Record<string, unknown>;
+    for (const field of UNJOURNALED_FIELDS) delete fields[field];
+    payload = JSON.stringify(fields);
+  }
+  const changedAt = new Date().toISOString();
+  if (!database) {
+    inMemoryDB.changeJournal.push({
+      id: inMemoryDB.changeJournal.length + 1,
+      table_name: table,
+      record_uuid: recordUuid,
+      operation,
+      changes: payload,
+      changed_at: changedAt,
+    });
+    return;
+  }
+  await database.runAsync(
+    "INSERT INTO change_journal (table_name, record_uuid, operation, changes, changed_at) VALUES (?, ?, ?, ?, ?)",
+    [table, recordUuid, operation, payload, changedAt],
+  );
+}
+
+/** Applies a change to one record and journals it; setting deleted_at journals a delete. */
+async function updateRecord(
+  table: RecordTable,
+  id: number,
+  changes: Record<string, unknown>,
+): Promise<void> {
+  const updates = withUpdatedAt(changes as { updated_at?: string });
+  const keys = Object.keys(updates).filter((k) => k !== "id");
+  const fields = Object.fromEntries(
+    keys.map((k) => [k, (updates as Record<string, unknown>)[k]]),
+  );
+  const operation: JournalOperation = fields.deleted_at ? "delete" : "update";
+
   const database = await getSQLiteDatabase();
   if (!database) {
-    return [...inMemoryDB.members].sort((a, b) => b.id - a.id);
+    const rows = memoryRows(table);
+    const index = rows.findIndex((r) => r.id === id);
+    if (index === -1) return;
+    rows[index] = { ...rows[index], ...fields };
+    await appendToJournal(
+      null,
+      table,
+      rows[index].uuid,
+      operation,
+      operation === "delete" ? null : fields,
+    );
+    return;
   }
-  const rows = await database.getAllAsync('SELECT * FROM members ORDER BY id DESC');
-return rows as DBMember[];
 
+  const setClause = keys.map((k) => `${k} = ?`).join(", ");
+  const values = keys.map((k) => fields[k] as string | number | null);
+  values.push(id);
+
+  await database.runAsync(
+    `UPDATE ${table} SET ${setClause} WHERE id = ?`,
+    values,
+  );
+  const row = await database.getFirstAsync<{ uuid: string }>(
+    `SELECT uuid FROM ${table} WHERE id = ?`,
+    [id],
+  );
+  if (row?.uuid) {
+    await appendToJournal(
+      database,
+      table,
+      row.uuid,
+      operation,
+      operation === "delete" ? null : fields,
+    );
+  }
 }
 
-export async function getMemberById(id: number): Promise<DBMember | null> {
+/** Soft-deletes every live record in `table` whose `column` equals `value`. */
+async function softDeleteWhere(
+  table: RecordTable,
+  column: "id" | "member_id",
+  value: number,
+): Promise<void> {
+  const now = new Date().toISOString();
   const database = await getSQLiteDatabase();
   if (!database) {
-    return inMemoryDB.members.find(m => m.id === id) || null;
+    for (const row of memoryRows(table)) {
+      if (
+        (row as unknown as Record<string, unknown>)[column] === value &&
+        !row.deleted_at
+      ) {
+        row.deleted_at = now;
+        row.updated_at = now;
+        await appendToJournal(null, table, row.uuid, "delete", null);
+      }
+    }
+    return;
+  }
+  await database.runAsync(
+    `INSERT INTO change_journal (table_name, record_uuid, operation, changes, changed_at)
+     SELECT ?, uuid, 'delete', NULL, ? FROM ${table} WHERE ${column} = ? AND deleted_at IS NULL`,
+    [table, now, value],
+  );
+  await database.runAsync(
+    `UPDATE ${table} SET deleted_at = ?, updated_at = ? WHERE ${column} = ? AND deleted_at IS NULL`,
+    [now, now, value],
+  );
+}
+
+/**
+ * Removes every row of a table outright, deleted ones included, and
+ * journals each as deleted. Only for replacing all data with a backup.
+ */
+async function purgeTable(
+  database: SQLiteDatabase | null,
+  table: RecordTable,
+): Promise<void> {
+  if (!database) {
+    for (const row of memoryRows(table)) {
+      await appendToJournal(null, table, row.uuid, "delete", null);
+    }
+    (inMemoryDB[MEMORY_TABLES[table]] as unknown[]).length = 0;
+    return;
   }
-  const row = await database.getFirstAsync('SELECT * FROM members WHERE id = ?', [id]);
-return row as DBMember | null;
+  await database.runAsync(
+    `INSERT INTO change_journal (table_name, record_uuid, operation, changes, changed_at)
+     SELECT ?, uuid, 'delete', NULL, ? FROM ${table}`,
+    [table, new Date().toISOString()],
+  );
+  await database.runAsync(`DELETE FROM ${table}`);
+}
 
+/**
+ * Returns the reason the SQLite database could not be upgraded, if any.
+ * It stays set until the app restarts; meanwhile every read and write
+ * throws it, and the app shows the error instead of its screens.
+ */
+export function getDatabaseError(): string | null {
+  return initError;
+}
+
+/** Live members; sync and backups pass includeDeleted to see deleted ones too. */
+export async function getAllMembers({ includeDeleted = false } = {}): Promise<
+  DBMember[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.members
+      .filter((r) => includeDeleted || !r.deleted_at)
+      .sort((a, b) => b.id - a.id);
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM members ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY id DESC`,
+  );
+  return rows as DBMember[];
 }
 
-export async function getMemberByQRCode(qrCode: string): Promise<DBMember | null> {
+export async function getMemberById(id: number): Promise<DBMember | null> {
   const database = await getSQLiteDatabase();
   if (!database) {
-    return inMemoryDB.members.find(m => m.qr_code === qrCode) || null;
+    return inMemoryDB.members.find((m) => m.id === id && !m.deleted_at) || null;
   }
-  const row = await database.getFirstAsync('SELECT * FROM members WHERE qr_code = ?', [qrCode]);
-return row as DBMember | null;
+  const row = await database.getFirstAsync(
+    "SELECT * FROM members WHERE id = ? AND deleted_at IS NULL",
+    [id],
+  );
+  return row as DBMember | null;
+}
 
+export async function getMemberByQRCode(
+  qrCode: string,
+): Promise<DBMember | null> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return (
+      inMemoryDB.members.find((m) => m.qr_code === qrCode && !m.deleted_at) ||
+      null
+    );
+  }
+  const row = await database.getFirstAsync(
+    "SELECT * FROM members WHERE qr_code = ? AND deleted_at IS NULL",
+    [qrCode],
+  );
+  return row as DBMember | null;
 }
 
-export async function insertMember(member: Omit<DBMember, 'id'>): Promise<number> {
+export async function insertMember(
+  newMember: NewRecord<DBMember>,
+): Promise<number> {
   // enforce that a photo is provided for each member
-  if (!member.photo || (typeof member.photo === 'string' && member.photo.trim() === '')) {
-    throw new Error('Member photo is required');
+  if (
+    !newMember.photo ||
+    (typeof newMember.photo === "string" && newMember.photo.trim() === "")
+  ) {
+    throw new Error("Member photo is required");
   }
+  const member = stampRecord(newMember);
   const database = await getSQLiteDatabase();
   if (!database) {
-    const id = Date.now();
-    inMemoryDB.members.push({ ...member, id });
+    const id = nextMemoryId();
+    inMemoryDB.members.push({
+      ...member,
+      hub_updated_at: member.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(null, "members", member.uuid, "insert", member);
     return id;
   }
-  
+
   const result = await database.runAsync(
-    `INSERT INTO members (firstname, lastname, age, gender, email, phone, photo, qr_code, qr_image_path, membership_type, is_member, subscription_start, subscription_end)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO members (firstname, lastname, age, gender, email, phone, photo, qr_code, qr_image_path, membership_type, is_member, subscription_start, subscription_end, is_banned, ban_reason, card_version, card_issuer, origin_device_id, hub_updated_at, ${STAMP_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       member.firstname,
       member.lastname,
@@ -283,130 +721,665 @@ export async function insertMember(member: Omit<DBMember, 'id'>): Promise<number
       member.membership_type,
       member.is_member,
       member.subscription_start,
-      member.subscription_end
-    ]
+      member.subscription_end,
+      member.is_banned ?? 0,
+      member.ban_reason ?? null,
+      member.card_version ?? 1,
+      member.card_issuer ?? null,
+      member.origin_device_id ?? null,
+      member.hub_updated_at ?? null,
+      ...stampValues(member),
+    ],
   );
+  await appendToJournal(database, "members", member.uuid, "insert", member);
   return result.lastInsertRowId;
 }
 
-export async function updateMemberById(id: number, updates: Partial<DBMember>): Promise<void> {
+export async function updateMemberById(
+  id: number,
+  changes: Partial<DBMember>,
+): Promise<void> {
+  await updateRecord("members", id, changes);
+}
+
+/** Soft-deletes the member along with their visits, subscriptions, freezes and card reissues. */
+export async function deleteMemberById(id: number): Promise<void> {
+  await softDeleteWhere("members", "id", id);
+  await softDeleteWhere("attendance", "member_id", id);
+  await softDeleteWhere("subscriptions", "member_id", id);
+  await softDeleteWhere("freezes", "member_id", id);
+  await softDeleteWhere("card_reissues", "member_id", id);
+}
+
+export async function getAllAttendance({
+  includeDeleted = false,
+} = {}): Promise<DBAttendance[]> {
   const database = await getSQLiteDatabase();
   if (!database) {
-    const index = inMemoryDB.members.findIndex(m => m.id === id);
-    if (index !== -1) {
-      inMemoryDB.members[index] = { ...inMemoryDB.members[index], ...updates };
-    }
-    return;
+    return inMemoryDB.attendance
+      .filter((r) => includeDeleted || !r.deleted_at)
+      .sort((a, b) => b.id - a.id);
   }
-  
-  const keys = Object.keys(updates).filter(k => k !== 'id');
-  if (keys.length === 0) return;
+  const rows = await database.getAllAsync(
+    `SELECT * FROM attendance ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY id DESC`,
+  );
+  return rows as DBAttendance[];
+}
 
-  const setClause = keys.map(k => `${k} = ?`).join(', ');
-  const values = keys.map(k => (updates as Record<string, string | number | null>)[k]);
-  values.push(id);
+export async function insertAttendance(
+  newAttendance: NewRecord<DBAttendance>,
+): Promise<number> {
+  const attendance = stampRecord(newAttendance);
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    const id = nextMemoryId();
+    inMemoryDB.attendance.push({
+      ...attendance,
+      hub_updated_at: attendance.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(
+      null,
+      "attendance",
+      attendance.uuid,
+      "insert",
+      attendance,
+    );
+    return id;
+  }
 
-  await database.runAsync(`UPDATE members SET ${setClause} WHERE id = ?`, values);
+  const result = await database.runAsync(
+    `INSERT INTO attendance (member_id, date, time, staff_id, check_out_time, auto_checked_out, entry_method, hub_updated_at, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      attendance.member_id,
+      attendance.date,
+      attendance.time,
+      attendance.staff_id ?? null,
+      attendance.check_out_time ?? null,
+      attendance.auto_checked_out ?? 0,
+      attendance.entry_method ?? "scan",
+      attendance.hub_updated_at ?? null,
+      ...stampValues(attendance),
+    ],
+  );
+  await appendToJournal(
+    database,
+    "attendance",
+    attendance.uuid,
+    "insert",
+    attendance,
+  );
+  return result.lastInsertRowId;
 }
 
-export async function deleteMemberById(id: number): Promise<void> {
+export async function updateAttendanceById(
+  id: number,
+  changes: Partial<DBAttendance>,
+): Promise<void> {
+  await updateRecord("attendance", id, changes);
+}
+
+export async function getAllSales({ includeDeleted = false } = {}): Promise<
+  DBSale[]
+> {
   const database = await getSQLiteDatabase();
   if (!database) {
-    inMemoryDB.members = inMemoryDB.members.filter(m => m.id !== id);
-    inMemoryDB.attendance = inMemoryDB.attendance.filter(a => a.member_id !== id);
-    return;
+    return inMemoryDB.sales
+      .filter((r) => includeDeleted || !r.deleted_at)
+      .sort((a, b) => b.id - a.id);
   }
-  
-  await database.runAsync('DELETE FROM members WHERE id = ?', [id]);
-  await database.runAsync('DELETE FROM attendance WHERE member_id = ?', [id]);
+  const rows = await database.getAllAsync(
+    `SELECT * FROM sales ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY id DESC`,
+  );
+  return rows as DBSale[];
 }
 
-export async function getAllAttendance(): Promise<DBAttendance[]> {
+export async function insertSale(newSale: NewRecord<DBSale>): Promise<number> {
+  const sale = stampRecord(newSale);
   const database = await getSQLiteDatabase();
   if (!database) {
-    return [...inMemoryDB.attendance].sort((a, b) => b.id - a.id);
+    const id = nextMemoryId();
+    inMemoryDB.sales.push({
+      ...sale,
+      hub_updated_at: sale.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(null, "sales", sale.uuid, "insert", sale);
+    return id;
   }
-  const rows = await database.getAllAsync('SELECT * FROM attendance ORDER BY id DESC');
-return rows as DBAttendance[];
 
+  const result = await database.runAsync(
+    `INSERT INTO sales (type, amount, date, note, payment_method, reference_number, payment_group, shift_id, reverses_sale_id, correction_type, correction_reason, staff_id, hub_updated_at, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      sale.type,
+      sale.amount,
+      sale.date,
+      sale.note,
+      sale.payment_method ?? "cash",
+      sale.reference_number ?? null,
+      sale.payment_group ?? null,
+      sale.shift_id ?? null,
+      sale.reverses_sale_id ?? null,
+      sale.correction_type ?? null,
+      sale.correction_reason ?? null,
+      sale.staff_id ?? null,
+      sale.hub_updated_at ?? null,
+      ...stampValues(sale),
+    ],
+  );
+  await appendToJournal(database, "sales", sale.uuid, "insert", sale);
+  return result.lastInsertRowId;
+}
+
+/**
+ * Sales are corrected with new rows rather than edited; this exists so a
+ * newer copy of a sale pulled from the sync hub can replace the local one.
+ */
+export async function updateSaleById(
+  id: number,
+  changes: Partial<DBSale>,
+): Promise<void> {
+  await updateRecord("sales", id, changes);
+}
+
+export async function getAllSubscriptions({
+  includeDeleted = false,
+} = {}): Promise<DBSubscription[]> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.subscriptions
+      .filter((s) => includeDeleted || !s.deleted_at)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM subscriptions ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY start_date ASC, id ASC`,
+  );
+  return rows as DBSubscription[];
 }
 
-export async function insertAttendance(attendance: Omit<DBAttendance, 'id'>): Promise<number> {
+export async function insertSubscription(
+  newSubscription: NewRecord<DBSubscription>,
+): Promise<number> {
+  const subscription = stampRecord(newSubscription);
   const database = await getSQLiteDatabase();
   if (!database) {
-    const id = Date.now();
-    inMemoryDB.attendance.push({ ...attendance, id });
+    const id = nextMemoryId();
+    inMemoryDB.subscriptions.push({
+      ...subscription,
+      hub_updated_at: subscription.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(
+      null,
+      "subscriptions",
+      subscription.uuid,
+      "insert",
+      subscription,
+    );
     return id;
   }
-  
+
   const result = await database.runAsync(
-    'INSERT INTO attendance (member_id, date, time) VALUES (?, ?, ?)',
-    [attendance.member_id, attendance.date, attendance.time]
+    `INSERT INTO subscriptions (member_id, plan_id, start_date, end_date, amount_paid, sale_id, hub_updated_at, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      subscription.member_id,
+      subscription.plan_id,
+      subscription.start_date,
+      subscription.end_date,
+      subscription.amount_paid,
+      subscription.sale_id,
+      subscription.hub_updated_at ?? null,
+      ...stampValues(subscription),
+    ],
+  );
+  await appendToJournal(
+    database,
+    "subscriptions",
+    subscription.uuid,
+    "insert",
+    subscription,
   );
   return result.lastInsertRowId;
 }
 
-export async function getAllSales(): Promise<DBSale[]> {
+export async function updateSubscriptionById(
+  id: number,
+  changes: Partial<DBSubscription>,
+): Promise<void> {
+  await updateRecord("subscriptions", id, changes);
+}
+
+export async function getAllFreezes({ includeDeleted = false } = {}): Promise<
+  DBFreeze[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.freezes
+      .filter((f) => includeDeleted || !f.deleted_at)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM freezes ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY start_date ASC, id ASC`,
+  );
+  return rows as DBFreeze[];
+}
+
+export async function insertFreeze(
+  newFreeze: NewRecord<DBFreeze>,
+): Promise<number> {
+  const freeze = stampRecord(newFreeze);
   const database = await getSQLiteDatabase();
   if (!database) {
-    return [...inMemoryDB.sales].sort((a, b) => b.id - a.id);
+    const id = nextMemoryId();
+    inMemoryDB.freezes.push({
+      ...freeze,
+      hub_updated_at: freeze.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(null, "freezes", freeze.uuid, "insert", freeze);
+    return id;
   }
-  const rows = await database.getAllAsync('SELECT * FROM sales ORDER BY id DESC');
-return rows as DBSale[];
 
+  const result = await database.runAsync(
+    `INSERT INTO freezes (member_id, start_date, end_date, reason, fee, sale_id, unfrozen_at, frozen_days, hub_updated_at, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      freeze.member_id,
+      freeze.start_date,
+      freeze.end_date,
+      freeze.reason,
+      freeze.fee,
+      freeze.sale_id,
+      freeze.unfrozen_at,
+      freeze.frozen_days,
+      freeze.hub_updated_at ?? null,
+      ...stampValues(freeze),
+    ],
+  );
+  await appendToJournal(database, "freezes", freeze.uuid, "insert", freeze);
+  return result.lastInsertRowId;
+}
+
+export async function updateFreezeById(
+  id: number,
+  changes: Partial<DBFreeze>,
+): Promise<void> {
+  await updateRecord("freezes", id, changes);
+}
+
+export async function getAllShifts({ includeDeleted = false } = {}): Promise<
+  DBShift[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.shifts
+      .filter((s) => includeDeleted || !s.deleted_at)
+      .sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM shifts ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY opened_at DESC, id DESC`,
+  );
+  return rows as DBShift[];
 }
 
-export async function insertSale(sale: Omit<DBSale, 'id'>): Promise<number> {
+export async function insertShift(
+  newShift: NewRecord<DBShift>,
+): Promise<number> {
+  const shift = stampRecord(newShift);
   const database = await getSQLiteDatabase();
   if (!database) {
-    const id = Date.now();
-    inMemoryDB.sales.push({ ...sale, id });
+    const id = nextMemoryId();
+    inMemoryDB.shifts.push({ ...shift, id });
+    await appendToJournal(null, "shifts", shift.uuid, "insert", shift);
     return id;
   }
-  
+
+  const result = await database.runAsync(
+    `INSERT INTO shifts (staff_name, opening_float, opened_at, closed_at, expected_cash, counted_cash, closing_note, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      shift.staff_name,
+      shift.opening_float,
+      shift.opened_at,
+      shift.closed_at,
+      shift.expected_cash,
+      shift.counted_cash,
+      shift.closing_note,
+      ...stampValues(shift),
+    ],
+  );
+  await appendToJournal(database, "shifts", shift.uuid, "insert", shift);
+  return result.lastInsertRowId;
+}
+
+export async function updateShiftById(
+  id: number,
+  changes: Partial<DBShift>,
+): Promise<void> {
+  await updateRecord("shifts", id, changes);
+}
+
+export async function getAllStaff({ includeDeleted = false } = {}): Promise<
+  DBStaff[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.staff
+      .filter((s) => includeDeleted || !s.deleted_at)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM staff ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY name ASC`,
+  );
+  return rows as DBStaff[];
+}
+
+export async function insertStaff(
+  newStaff: NewRecord<DBStaff>,
+): Promise<number> {
+  const staff = stampRecord(newStaff);
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    const id = nextMemoryId();
+    inMemoryDB.staff.push({ ...staff, id });
+    await appendToJournal(null, "staff", staff.uuid, "insert", staff);
+    return id;
+  }
+
+  const result = await database.runAsync(
+    `INSERT INTO staff (name, role, pin_hash, is_active, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      staff.name,
+      staff.role,
+      staff.pin_hash,
+      staff.is_active,
+      ...stampValues(staff),
+    ],
+  );
+  await appendToJournal(database, "staff", staff.uuid, "insert", staff);
+  return result.lastInsertRowId;
+}
+
+export async function updateStaffById(
+  id: number,
+  changes: Partial<DBStaff>,
+): Promise<void> {
+  await updateRecord("staff", id, changes);
+}
+
+export async function getAllMemberEdits({
+  includeDeleted = false,
+} = {}): Promise<DBMemberEdit[]> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.memberEdits
+      .filter((e) => includeDeleted || !e.deleted_at)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM member_edits ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY created_at DESC, id DESC`,
+  );
+  return rows as DBMemberEdit[];
+}
+
+export async function insertMemberEdit(
+  newMemberEdit: NewRecord<DBMemberEdit>,
+): Promise<number> {
+  const edit = stampRecord(newMemberEdit);
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    const id = nextMemoryId();
+    inMemoryDB.memberEdits.push({ ...edit, id });
+    await appendToJournal(null, "member_edits", edit.uuid, "insert", edit);
+    return id;
+  }
+
+  const result = await database.runAsync(
+    `INSERT INTO member_edits (member_id, staff_id, action, fields, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      edit.member_id,
+      edit.staff_id,
+      edit.action,
+      edit.fields,
+      ...stampValues(edit),
+    ],
+  );
+  await appendToJournal(database, "member_edits", edit.uuid, "insert", edit);
+  return result.lastInsertRowId;
+}
+
+export async function getAllCardReissues({
+  includeDeleted = false,
+} = {}): Promise<DBCardReissue[]> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.cardReissues
+      .filter((r) => includeDeleted || !r.deleted_at)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM card_reissues ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY created_at DESC, id DESC`,
+  );
+  return rows as DBCardReissue[];
+}
+
+export async function insertCardReissue(
+  newCardReissue: NewRecord<DBCardReissue>,
+): Promise<number> {
+  const reissue = stampRecord(newCardReissue);
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    const id = nextMemoryId();
+    inMemoryDB.cardReissues.push({
+      ...reissue,
+      hub_updated_at: reissue.hub_updated_at ?? null,
+      id,
+    });
+    await appendToJournal(
+      null,
+      "card_reissues",
+      reissue.uuid,
+      "insert",
+      reissue,
+    );
+    return id;
+  }
+
   const result = await database.runAsync(
-    'INSERT INTO sales (type, amount, date, note) VALUES (?, ?, ?, ?)',
-    [sale.type, sale.amount, sale.date, sale.note]
+    `INSERT INTO card_reissues (member_id, card_version, reason, fee, sale_id, staff_id, replaced_qr_code, hub_updated_at, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      reissue.member_id,
+      reissue.card_version,
+      reissue.reason,
+      reissue.fee,
+      reissue.sale_id,
+      reissue.staff_id,
+      reissue.replaced_qr_code,
+      reissue.hub_updated_at ?? null,
+      ...stampValues(reissue),
+    ],
+  );
+  await appendToJournal(
+    database,
+    "card_reissues",
+    reissue.uuid,
+    "insert",
+    reissue,
   );
   return result.lastInsertRowId;
 }
 
+export async function updateCardReissueById(
+  id: number,
+  changes: Partial<DBCardReissue>,
+): Promise<void> {
+  await updateRecord("card_reissues", id, changes);
+}
+
+/**
+ * Journal entries after the given entry id, oldest first. Pass a record's
+ * UUID to get only its history.
+ */
+export async function getChangeJournal({
+  afterId = 0,
+  recordUuid,
+}: { afterId?: number; recordUuid?: string } = {}): Promise<
+  DBChangeJournalEntry[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.changeJournal.filter(
+      (e) => e.id > afterId && (!recordUuid || e.record_uuid === recordUuid),
+    );
+  }
+  const rows = recordUuid
+    ? await database.getAllAsync(
+        "SELECT * FROM change_journal WHERE id > ? AND record_uuid = ? ORDER BY id ASC",
+        [afterId, recordUuid],
+      )
+    : await database.getAllAsync(
+        "SELECT * FROM change_journal WHERE id > ? ORDER BY id ASC",
+        [afterId],
+      );
+  return rows as DBChangeJournalEntry[];
+}
+
 export async function getPriceSettings(): Promise<DBPriceSettings> {
   const database = await getSQLiteDatabase();
   if (!database) {
     return inMemoryDB.priceSettings;
   }
-  
-  const row = await database.getFirstAsync('SELECT * FROM price_settings WHERE id = 1');
-const settings = row as DBPriceSettings | null;
 
-  return settings || {
-    id: 1,
-    membership: 300,
-    student_monthly: 600,
-    regular_monthly: 700,
-    senior_monthly: 560,
-    session_member: 70,
-    session_nonmember: 100,
-    session_member_senior: 40,
-    session_nonmember_senior: 60,
-  };
+  const row = await database.getFirstAsync(
+    "SELECT * FROM price_settings WHERE id = 1",
+  );
+  const settings = row as DBPriceSettings | null;
+
+  return (
+    settings || {
+      id: 1,
+      membership: 300,
+      session_member: 70,
+      session_nonmember: 100,
+      session_member_senior: 40,
+      session_nonmember_senior: 60,
+      updated_at: SYNC_EPOCH,
+      hub_updated_at: null,
+    }
+  );
 }
 
-export async function updatePriceSettingsDB(settings: Partial<DBPriceSettings>): Promise<void> {
+export async function updatePriceSettingsDB(
+  changes: Partial<DBPriceSettings>,
+): Promise<void> {
+  const settings = withUpdatedAt(changes);
   const database = await getSQLiteDatabase();
   if (!database) {
     inMemoryDB.priceSettings = { ...inMemoryDB.priceSettings, ...settings };
     return;
   }
-  
-  const keys = Object.keys(settings).filter(k => k !== 'id');
+
+  const keys = Object.keys(settings).filter((k) => k !== "id");
   if (keys.length === 0) return;
 
-  const setClause = keys.map(k => `${k} = ?`).join(', ');
-  const values = keys.map(k => (settings as Record<string, number>)[k]);
+  const setClause = keys.map((k) => `${k} = ?`).join(", ");
+  const values = keys.map(
+    (k) => (settings as Record<string, string | number>)[k],
+  );
+
+  await database.runAsync(
+    `UPDATE price_settings SET ${setClause} WHERE id = 1`,
+    values,
+  );
+}
+
+export async function getAllPlans({ includeDeleted = false } = {}): Promise<
+  DBPlan[]
+> {
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    return inMemoryDB.plans
+      .filter((p) => includeDeleted || !p.deleted_at)
+      .sort((a, b) => a.id - b.id);
+  }
+  const rows = await database.getAllAsync(
+    `SELECT * FROM plans ${includeDeleted ? "" : "WHERE deleted_at IS NULL "}ORDER BY id ASC`,
+  );
+  return rows as DBPlan[];
+}
+
+export async function insertPlan(newPlan: NewRecord<DBPlan>): Promise<number> {
+  const plan = stampRecord(newPlan);
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    const id = nextMemoryId();
+    inMemoryDB.plans.push({ ...plan, id });
+    await appendToJournal(null, "plans", plan.uuid, "insert", plan);
+    return id;
+  }
+
+  const result = await database.runAsync(
+    `INSERT INTO plans (name, duration_value, duration_unit, price, category, is_active, allowed_from, allowed_until, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      plan.name,
+      plan.duration_value,
+      plan.duration_unit,
+      plan.price,
+      plan.category,
+      plan.is_active,
+      plan.allowed_from,
+      plan.allowed_until,
+      ...stampValues(plan),
+    ],
+  );
+  await appendToJournal(database, "plans", plan.uuid, "insert", plan);
+  return result.lastInsertRowId;
+}
 
-  await database.runAsync(`UPDATE price_settings SET ${setClause} WHERE id = 1`, values);
+export async function updatePlanById(
+  id: number,
+  changes: Partial<DBPlan>,
+): Promise<void> {
+  await updateRecord("plans", id, changes);
+}
+
+/**
+ * Replace the whole plan catalog, keeping the original plan IDs.
+ * Used when restoring a backup that carries its own plans.
+ */
+export async function replaceAllPlans(
+  plans: (Omit<DBPlan, keyof DBRecordStamp> & Partial<DBRecordStamp>)[],
+): Promise<void> {
+  const stamped = plans.map((p) => stampRecord(p));
+  const database = await getSQLiteDatabase();
+  if (!database) {
+    await purgeTable(null, "plans");
+    for (const plan of stamped) {
+      inMemoryDB.plans.push({ ...plan });
+      await appendToJournal(null, "plans", plan.uuid, "insert", plan);
+    }
+    return;
+  }
+
+  await database.withTransactionAsync(async () => {
+    await purgeTable(database, "plans");
+    for (const plan of stamped) {
+      await database.runAsync(
+        `INSERT INTO plans (id, name, duration_value, duration_unit, price, category, is_active, allowed_from, allowed_until, ${STAMP_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          plan.id,
+          plan.name,
+          plan.duration_value,
+          plan.duration_unit,
+          plan.price,
+          plan.category,
+          plan.is_active,
+          plan.allowed_from ?? null,
+          plan.allowed_until ?? null,
+          ...stampValues(plan),
+        ],
+      );
+      await appendToJournal(database, "plans", plan.uuid, "insert", plan);
+    }
+  });
 }
 
 export async function getAppSettings(): Promise<DBAppSettings> {
@@ -414,14 +1387,46 @@ export async function getAppSettings(): Promise<DBAppSettings> {
   if (!database) {
     return inMemoryDB.appSettings;
   }
-  
- const row = await database.getFirstAsync('SELECT * FROM app_settings WHERE id = 1');
-const settings = row as DBAppSettings | null;
 
-  return settings || { id: 1, pin_hash: null, is_dark_mode: 1 };
+  const row = await database.getFirstAsync(
+    "SELECT * FROM app_settings WHERE id = 1",
+  );
+  const settings = row as DBAppSettings | null;
+
+  return (
+    settings || {
+      id: 1,
+      pin_hash: null,
+      is_dark_mode: 1,
+      renewal_grace_days: 7,
+      failed_pin_attempts: 0,
+      pin_locked_until: null,
+      recovery_code_hash: null,
+      checkout_on_second_scan: 1,
+      min_visit_minutes: 5,
+      closing_time: "22:00",
+      gym_capacity: 0,
+      access_one_per_day: 1,
+      access_min_age: 0,
+      card_secret: null,
+      accept_legacy_cards: 1,
+      scanner_input: 0,
+      kiosk_mode: 0,
+      device_id: null,
+      sync_hub_url: null,
+      sync_key: null,
+      sync_revision: 0,
+      sync_pushed_at: null,
+      last_synced_at: null,
+      auto_backup_hours: 24,
+      last_backup_at: null,
+    }
+  );
 }
 
-export async function updateAppSettings(settings: Partial<DBAppSettings>): Promise<void> {
+export async function updateAppSettings(
+  settings: Partial<DBAppSettings>,
+): Promise<void> {
   const database = await getSQLiteDatabase();
   if (!database) {
     inMemoryDB.appSettings = { ...inMemoryDB.appSettings, ...settings };
@@ -437,19 +1442,6 @@ export async function updateAppSettings(settings: Partial<DBAppSettings>): Promi
   await database.runAsync(`UPDATE app_settings SET ${setClause} WHERE id = 1`, values);
 }
 
-export async function hasPin(): Promise<boolean> {
-  const settings = await getAppSettings();
-  return !!settings.pin_hash;
-}
-
-export async function savePin(pin: string): Promise<void> {
-  await updateAppSettings({ pin_hash: pin });
-}
-
-export async function verifyPin(pin: string): Promise<boolean> {
-  const settings = await getAppSettings();
-  return settings.pin_hash === pin;
-}
 /**
  * Initialize app lifecycle handlers to manage database connection
  * Call this once in your AppProvider or App component
@@ -492,11 +1484,10 @@ export function initializeAppLifecycleHandlers(): () => void {
 export async function clearAllMembers(): Promise<void> {
   try {
     const database = await getSQLiteDatabase();
-    if (!database) return;
-    await database.execAsync('DELETE FROM members', []);
-    console.log('[Database] All members cleared');
+    await purgeTable(database, "members");
+    console.log("[Database] All members cleared");
   } catch (error) {
-    console.error('[Database] Error clearing members:', error);
+    console.error("[Database] Error clearing members:", error);
     throw error;
   }
 }
@@ -507,11 +1498,10 @@ export async function clearAllMembers(): Promise<void> {
 export async function clearAllAttendance(): Promise<void> {
   try {
     const database = await getSQLiteDatabase();
-    if (!database) return;
-    await database.execAsync('DELETE FROM attendance', []);
-    console.log('[Database] All attendance records cleared');
+    await purgeTable(database, "attendance");
+    console.log("[Database] All attendance records cleared");
   } catch (error) {
-    console.error('[Database] Error clearing attendance:', error);
+    console.error("[Database] Error clearing attendance:", error);
     throw error;
   }
 }
@@ -522,32 +1512,535 @@ export async function clearAllAttendance(): Promise<void> {
 export async function clearAllSales(): Promise<void> {
   try {
     const database = await getSQLiteDatabase();
-    if (!database) return;
-    await database.execAsync('DELETE FROM sales', []);
-    console.log('[Database] All sales cleared');
+    await purgeTable(database, "sales");
+    console.log("[Database] All sales cleared");
   } catch (error) {
-    console.error('[Database] Error clearing sales:', error);
+    console.error("[Database] Error clearing sales:", error);
     throw error;
   }
 }
 
 /**
- * Clear all data (members, attendance, sales) from the database
+ * Clear all data (members, attendance, subscriptions, freezes, sales, shifts, member edits, card reissues) from the database
+ * Staff accounts are kept so nobody is locked out by a restore
  */
 export async function clearAllData(): Promise<void> {
   try {
     const database = await getSQLiteDatabase();
-    if (!database) return;
-    await database.execAsync('DELETE FROM attendance', []);
-    await database.execAsync('DELETE FROM sales', []);
-    await database.execAsync('DELETE FROM members', []);
-    console.log('[Database] All data cleared');
+    await purgeTable(database, "attendance");
+    await purgeTable(database, "subscriptions");
+    await purgeTable(database, "freezes");
+    await purgeTable(database, "sales");
+    await purgeTable(database, "shifts");
+    await purgeTable(database, "member_edits");
+    await purgeTable(database, "card_reissues");
+    await purgeTable(database, "members");
+    console.log("[Database] All data cleared");
+  } catch (error) {
+    console.error("[Database] Error clearing all data:", error);
+    throw error;
+  }
+}
+
+/** A record from a backup; it keeps its id, and its stamp columns when it has them. */
+export type RestoreRecord<T extends DBRecordStamp & { id: number }> = Omit<
+  T,
+  keyof DBSyncedRecord
+> &
+  Partial<DBSyncedRecord>;
+
+export interface RestoreData {
+  members: RestoreRecord<DBMember>[];
+  attendance: RestoreRecord<DBAttendance>[];
+  sales: RestoreRecord<DBSale>[];
+  /** Left out to keep the current plan catalog. */
+  plans?: RestoreRecord<DBPlan>[];
+  subscriptions: RestoreRecord<DBSubscription>[];
+  freezes: RestoreRecord<DBFreeze>[];
+  shifts: RestoreRecord<DBShift>[];
+  member_edits: RestoreRecord<DBMemberEdit>[];
+  card_reissues: RestoreRecord<DBCardReissue>[];
+  /** Who the staff ids above refer to; the accounts are not restored. */
+  staff: { id: number; uuid?: string }[];
+  priceSettings: Omit<DBPriceSettings, "id" | "updated_at" | "hub_updated_at">;
+  cardSecret: string | null;
+}
+
+export interface RestoreProgress {
+  /** The table being written. */
+  table: RestoreTable;
+  /** Rows written so far across all tables. */
+  done: number;
+  total: number;
+}
+
+/** The tables a backup restores, parents before the rows that point at them. */
+export const RESTORE_TABLES = [
+  "members",
+  "plans",
+  "shifts",
+  "sales",
+  "attendance",
+  "subscriptions",
+  "freezes",
+  "member_edits",
+  "card_reissues",
+] as const satisfies readonly RecordTable[];
+
+export type RestoreTable = (typeof RESTORE_TABLES)[number];
+
+/**
+ * How a backup is applied: `replace` swaps all data for the backup,
+ * `merge` adds what is missing and keeps the newer copy of records both
+ * have, and `selected` puts back the backup's copy of records in the
+ * chosen tables and date range, leaving everything else alone.
+ */
+export type RestoreMode = "replace" | "merge" | "selected";
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  /** For `selected`: the tables to put back. */
+  tables?: RestoreTable[];
+  /** For `selected`: only records dated on or after this day (YYYY-MM-DD). */
+  from?: string | null;
+  /** For `selected`: only records dated on or before this day (YYYY-MM-DD). */
+  to?: string | null;
+}
+
+export interface RestoreCounts {
+  added: number;
+  updated: number;
+  /** Already up to date here, or cannot be matched safely. */
+  skipped: number;
+  /** Current records a replace removes. */
+  removed: number;
+}
+
+export type RestorePreview = Record<RestoreTable, RestoreCounts>;
+
+const RESTORE_PROGRESS_EVERY = 100;
+
+// The column each table is dated by, for restoring a date range
+const RESTORE_DATE_COLUMNS: Record<RestoreTable, string> = {
+  members: "created_at",
+  plans: "created_at",
+  shifts: "opened_at",
+  sales: "date",
+  attendance: "date",
+  subscriptions: "start_date",
+  freezes: "start_date",
+  member_edits: "created_at",
+  card_reissues: "created_at",
+};
+
+// Columns holding the id of another record. Ids differ between devices,
+// so a merge follows each one to its record's uuid and back to a local id.
+const RESTORE_LINKS: Partial<
+  Record<RestoreTable, Record<string, RestoreTable>>
+> = {
+  sales: {
+    shift_id: "shifts",
+    payment_group: "sales",
+    reverses_sale_id: "sales",
+  },
+  attendance: { member_id: "members" },
+  subscriptions: { member_id: "members", plan_id: "plans", sale_id: "sales" },
+  freezes: { member_id: "members", sale_id: "sales" },
+  member_edits: { member_id: "members" },
+  card_reissues: { member_id: "members", sale_id: "sales" },
+};
+
+/**
+ * Points the staff id of a backup record at the same account here, matched
+ * by uuid. Staff accounts are not restored, so a record whose account is
+ * not on this device is left without one rather than credited to whoever
+ * has that id here.
+ */
+async function getStaffRelinker(
+  database: SQLiteDatabase | null,
+  data: RestoreData,
+) {
+  const local: { id: number; uuid: string }[] = database
+    ? await database.getAllAsync("SELECT id, uuid FROM staff")
+    : inMemoryDB.staff;
+  const localIds = new Map(local.map((s) => [s.uuid, s.id]));
+  const ids = new Map<number, number>();
+  for (const s of data.staff) {
+    const localId = s.uuid ? localIds.get(s.uuid) : undefined;
+    if (localId !== undefined) ids.set(s.id, localId);
+  }
+  return <T extends object>(row: T): T => {
+    if (!("staff_id" in row)) return row;
+    const staffId = row.staff_id;
+    return {
+      ...row,
+      staff_id: typeof staffId === "number" ? (ids.get(staffId) ?? null) : null,
+    };
+  };
+}
+
+/**
+ * Replaces all data with a backup in one transaction, keeping every
+ * record's id so visits, subscriptions and sales still point at the right
+ * members. Any failure rolls the whole restore back and leaves the current
+ * data as it was. Staff accounts are kept so nobody is locked out.
+ */
+export async function restoreAllData(
+  data: RestoreData,
+  onProgress?: (progress: RestoreProgress) => void,
+): Promise<void> {
+  const tables = RESTORE_TABLES.filter((t) => t !== "plans" || data.plans);
+  const rowsFor = (table: (typeof tables)[number]) =>
+    [
+      ...((data[table] ?? []) as ({ id: number } & Partial<DBRecordStamp>)[]),
+    ].sort((a, b) => a.id - b.id);
+  const total = tables.reduce((sum, table) => sum + rowsFor(table).length, 0);
+  let done = 0;
+
+  const writeAll = async (database: SQLiteDatabase | null) => {
+    const relinkStaff = await getStaffRelinker(database, data);
+    for (const table of [...tables].reverse()) {
+      await purgeTable(database, table);
+    }
+    for (const table of tables) {
+      onProgress?.({ table, done, total });
+      const columns = database ? await getTableColumns(database, table) : [];
+      for (const row of rowsFor(table)) {
+        const record = stampRecord(relinkStaff(row));
+        if (!database) {
+          memoryRows(table).push(record);
+        } else {
+          const keys = Object.keys(record).filter((k) => columns.includes(k));
+          await database.runAsync(
+            `INSERT INTO ${table} (${keys.join(", ")}) VALUES (${keys.map(() => "?").join(", ")})`,
+            keys.map(
+              (k) =>
+                (record as unknown as Record<string, SQLiteBindValue>)[k] ??
+                null,
+            ),
+          );
+        }
+        await appendToJournal(database, table, record.uuid, "insert", record);
+        done++;
+        if (done % RESTORE_PROGRESS_EVERY === 0)
+          onProgress?.({ table, done, total });
+      }
+    }
+    const prices = {
+      ...data.priceSettings,
+      updated_at: new Date().toISOString(),
+    };
+    if (!database) {
+      inMemoryDB.priceSettings = { ...inMemoryDB.priceSettings, ...prices };
+      if (data.cardSecret) inMemoryDB.appSettings.card_secret = data.cardSecret;
+      return;
+    }
+    await database.runAsync(
+      "UPDATE price_settings SET membership = ?, session_member = ?, session_nonmember = ?, session_member_senior = ?, session_nonmember_senior = ?, updated_at = ? WHERE id = 1",
+      [
+        prices.membership,
+        prices.session_member,
+        prices.session_nonmember,
+        prices.session_member_senior,
+        prices.session_nonmember_senior,
+        prices.updated_at,
+      ],
+    );
+    // Without the backup's signing key, cards printed before the restore would no longer scan
+    if (data.cardSecret) {
+      await database.runAsync(
+        "UPDATE app_settings SET card_secret = ? WHERE id = 1",
+        [data.cardSecret],
+      );
+    }
+  };
+
+  await inRestoreTransaction(writeAll);
+  onProgress?.({ table: tables[tables.length - 1], done, total });
+  console.log(`[Database] Restored ${total} records from backup`);
+}
+
+/** Runs a restore so that a failure part way leaves the data as it was. */
+async function inRestoreTransaction(
+  write: (database: SQLiteDatabase | null) => Promise<void>,
+): Promise<void> {
+  const database = await getSQLiteDatabase();
+  if (database) {
+    await database.withTransactionAsync(() => write(database));
+    return;
+  }
+  const snapshot = {
+    ...inMemoryDB,
+    appSettings: { ...inMemoryDB.appSettings },
+  };
+  for (const table of RESTORE_TABLES) {
+    (snapshot as Record<string, unknown>)[MEMORY_TABLES[table]] = [
+      ...memoryRows(table),
+    ];
+  }
+  snapshot.changeJournal = [...inMemoryDB.changeJournal];
+  try {
+    await write(null);
   } catch (error) {
-    console.error('[Database] Error clearing all data:', error);
+    inMemoryDB = snapshot;
     throw error;
   }
 }
 
+type BackupRow = { id: number } & Partial<DBRecordStamp> &
+  Record<string, unknown>;
+type LocalStamp = { id: number; uuid: string; updated_at: string };
+
+interface RestoreStep {
+  table: RestoreTable;
+  row: BackupRow;
+  /** The record this one updates; null to add it. */
+  localId: number | null;
+}
+
+interface RestorePlan {
+  counts: RestorePreview;
+  steps: RestoreStep[];
+  /** Local ids of backup records already on this device, by backup id. */
+  matched: Record<RestoreTable, Map<number, number>>;
+}
+
+async function getLocalStamps(
+  database: SQLiteDatabase | null,
+  table: RestoreTable,
+): Promise<LocalStamp[]> {
+  if (!database) return memoryRows(table);
+  return database.getAllAsync(`SELECT id, uuid, updated_at FROM ${table}`);
+}
+
+function emptyCounts(): RestorePreview {
+  return Object.fromEntries(
+    RESTORE_TABLES.map((t) => [
+      t,
+      { added: 0, updated: 0, skipped: 0, removed: 0 },
+    ]),
+  ) as RestorePreview;
+}
+
+function backupRows(data: RestoreData, table: RestoreTable): BackupRow[] {
+  return [...((data[table] ?? []) as unknown as BackupRow[])].sort(
+    (a, b) => a.id - b.id,
+  );
+}
+
+/**
+ * Works out what a merge or selected restore would do with each backup
+ * record, matching records by uuid. Records from before uuids cannot be
+ * told apart from ones already here, so they are skipped rather than
+ * added twice; so are visits, edits and the like whose member would not
+ * exist afterwards.
+ *
+ * A record deleted in the backup deletes the copy here only when the
+ * backup's is newer, in either mode, and is not added where it never was.
+ */
+async function planRestore(
+  database: SQLiteDatabase | null,
+  data: RestoreData,
+  options: RestoreOptions,
+): Promise<RestorePlan> {
+  const counts = emptyCounts();
+  const steps: RestoreStep[] = [];
+  const matched = Object.fromEntries(
+    RESTORE_TABLES.map((t) => [t, new Map()]),
+  ) as RestorePlan["matched"];
+  const addedMembers = new Set<number>();
+
+  const inScope = (table: RestoreTable, row: BackupRow) => {
+    if (options.mode !== "selected") return true;
+    if (!options.tables?.includes(table)) return false;
+    const day = String(row[RESTORE_DATE_COLUMNS[table]] ?? "").slice(0, 10);
+    if (options.from && !(day >= options.from)) return false;
+    if (options.to && !(day <= options.to)) return false;
+    return true;
+  };
+
+  for (const table of RESTORE_TABLES) {
+    const local = new Map(
+      (await getLocalStamps(database, table)).map((r) => [r.uuid, r]),
+    );
+    const needsMember = "member_id" in (RESTORE_LINKS[table] ?? {});
+    for (const row of backupRows(data, table)) {
+      const match = row.uuid ? local.get(row.uuid) : undefined;
+      if (match) matched[table].set(row.id, match.id);
+      if (!inScope(table, row)) continue;
+
+      const memberId = row.member_id as number;
+      if (
+        !row.uuid ||
+        (needsMember &&
+          !matched.members.has(memberId) &&
+          !addedMembers.has(memberId))
+      ) {
+        counts[table].skipped++;
+        continue;
+      }
+      const updatedAt = row.updated_at ?? "";
+      if (!match && row.deleted_at) {
+        counts[table].skipped++;
+      } else if (!match) {
+        counts[table].added++;
+        steps.push({ table, row, localId: null });
+        if (table === "members") addedMembers.add(row.id);
+      } else if (
+        options.mode === "merge" || row.deleted_at
+          ? updatedAt > match.updated_at
+          : updatedAt !== match.updated_at
+      ) {
+        counts[table].updated++;
+        steps.push({ table, row, localId: match.id });
+      } else {
+        counts[table].skipped++;
+      }
+    }
+  }
+  return { counts, steps, matched };
+}
+
+/** What restoring a backup with these options would add, update and skip. */
+export async function previewRestore(
+  data: RestoreData,
+  options: RestoreOptions,
+): Promise<RestorePreview> {
+  const database = await getSQLiteDatabase();
+  if (options.mode !== "replace") {
+    return (await planRestore(database, data, options)).counts;
+  }
+  const counts = emptyCounts();
+  for (const table of RESTORE_TABLES) {
+    // Backups without plans keep the current catalog
+    if (table === "plans" && !data.plans) continue;
+    counts[table].added = backupRows(data, table).length;
+    counts[table].removed = (await getLocalStamps(database, table)).length;
+  }
+  return counts;
+}
+
+/**
+ * Merges a backup into the current data, or puts back the selected part
+ * of it, in one transaction. Records the backup adds get new ids, and
+ * every link to another record is pointed at that record's id here.
+ * Prices and the card signing key are only taken over by a replace.
+ */
+export async function mergeRestoreData(
+  data: RestoreData,
+  options: RestoreOptions,
+  onProgress?: (progress: RestoreProgress) => void,
+): Promise<RestorePreview> {
+  let counts = emptyCounts();
+
+  const writeAll = async (database: SQLiteDatabase | null) => {
+    const plan = await planRestore(database, data, options);
+    const relinkStaff = await getStaffRelinker(database, data);
+    counts = plan.counts;
+    const added = Object.fromEntries(
+      RESTORE_TABLES.map((t) => [t, new Map()]),
+    ) as RestorePlan["matched"];
+    const localIdFor = (table: RestoreTable, backupId: unknown) =>
+      typeof backupId === "number"
+        ? (plan.matched[table].get(backupId) ??
+          added[table].get(backupId) ??
+          null)
+        : null;
+    const total = plan.steps.length;
+    let done = 0;
+
+    for (const table of RESTORE_TABLES) {
+      const steps = plan.steps.filter((s) => s.table === table);
+      if (steps.length === 0) continue;
+      onProgress?.({ table, done, total });
+      const columns = database ? await getTableColumns(database, table) : null;
+      const links = Object.entries(RESTORE_LINKS[table] ?? {});
+      // Sales can point at sales that are only written later in this loop;
+      // those links are set once the whole table is in
+      const later = links.filter(([, target]) => target === table);
+      const pending: BackupRow[] = [];
+
+      for (const { row, localId } of steps) {
+        const { id: backupId, ...fields } = relinkStaff(row);
+        for (const [column, target] of links) {
+          fields[column] = localIdFor(target, row[column]);
+        }
+        if (
+          later.some(
+            ([column]) => row[column] != null && fields[column] === null,
+          )
+        ) {
+          pending.push(row);
+        }
+        const record = Object.fromEntries(
+          Object.entries(fields).filter(
+            ([k]) => !columns || columns.includes(k),
+          ),
+        );
+        if (localId !== null) {
+          await updateRecord(table, localId, record);
+        } else {
+          const stamped = stampRecord(record);
+          let id: number;
+          if (!database) {
+            id = nextMemoryId();
+            memoryRows(table).push({ ...stamped, id });
+          } else {
+            const keys = Object.keys(stamped);
+            const result = await database.runAsync(
+              `INSERT INTO ${table} (${keys.join(", ")}) VALUES (${keys.map(() => "?").join(", ")})`,
+              keys.map(
+                (k) => (stamped as Record<string, SQLiteBindValue>)[k] ?? null,
+              ),
+            );
+            id = result.lastInsertRowId;
+          }
+          added[table].set(backupId, id);
+          await appendToJournal(
+            database,
+            table,
+            stamped.uuid,
+            "insert",
+            stamped,
+          );
+        }
+        done++;
+        if (done % RESTORE_PROGRESS_EVERY === 0)
+          onProgress?.({ table, done, total });
+      }
+
+      for (const row of pending) {
+        await updateRecord(table, localIdFor(table, row.id)!, {
+          ...Object.fromEntries(
+            later.map(([column]) => [column, localIdFor(table, row[column])]),
+          ),
+          updated_at: row.updated_at,
+        });
+      }
+    }
+  };
+
+  await inRestoreTransaction(writeAll);
+  const written = RESTORE_TABLES.reduce(
+    (sum, t) => sum + counts[t].added + counts[t].updated,
+    0,
+  );
+  console.log(
+    `[Database] ${options.mode === "merge" ? "Merged" : "Restored"} ${written} records from backup`,
+  );
+  return counts;
+}
+
+async function getTableColumns(
+  database: SQLiteDatabase,
+  table: RecordTable,
+): Promise<string[]> {
+  const columns = await database.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  return columns.map((col) => col.name);
+}
+
 /**
  * Force close and reset the database connection
  * Use only for testing or emergency recovery
@@ -0,0 +1,79 @@
+import type { Freeze, Subscription } from "@/context/AppContext";
+import { daysBetween, getLatestSubscription } from "@/lib/subscriptions";
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * The member's freeze that has not been lifted yet, if any. A member has
+ * at most one open freeze; it may start in the future.
+ */
+export function getOpenFreeze(
+  freezes: Freeze[],
+  memberId: number,
+): Freeze | undefined {
+  return freezes.find((f) => f.member_id === memberId && !f.unfrozen_at);
+}
+
+/**
+ * The freeze in effect for a member on `today`, if any.
+ */
+export function getCurrentFreeze(
+  freezes: Freeze[],
+  memberId: number,
+  today: string,
+): Freeze | undefined {
+  const open = getOpenFreeze(freezes, memberId);
+  if (!open || open.start_date > today) return undefined;
+  if (open.end_date && open.end_date < today) return undefined;
+  return open;
+}
+
+/**
+ * A freeze whose scheduled end has passed but which has not been lifted.
+ * These are lifted automatically when the app loads.
+ */
+export function isFreezeDue(freeze: Freeze, today: string): boolean {
+  return !freeze.unfrozen_at && !!freeze.end_date && freeze.end_date < today;
+}
+
+/** The day the member is back to normal after a scheduled freeze. */
+export function getScheduledResumeDate(freeze: Freeze): string | null {
+  return freeze.end_date ? addDays(freeze.end_date, 1) : null;
+}
+
+/**
+ * Days the member actually spent frozen when resuming on `resumeDate`.
+ */
+export function countFrozenDays(freeze: Freeze, resumeDate: string): number {
+  return Math.max(0, daysBetween(freeze.start_date, resumeDate));
+}
+
+/**
+ * How lifting a freeze moves the member's expiry: the latest period is
+ * pushed out by the frozen days. Nothing moves if the member had no
+ * paid time left when the freeze started.
+ */
+export function getFreezeExtension(
+  memberSubscriptions: Subscription[],
+  freeze: Freeze,
+  resumeDate: string,
+): { subscriptionId: number; end_date: string } | null {
+  const latest = getLatestSubscription(memberSubscriptions);
+  if (!latest || latest.end_date < freeze.start_date) return null;
+
+  const days = countFrozenDays(freeze, resumeDate);
+  if (days === 0) return null;
+
+  return {
+    subscriptionId: latest.id,
+    end_date: addDays(latest.end_date, days),
+  };
+}
+
+export function formatFreezePeriod(freeze: Freeze): string {
+  return `${freeze.start_date} → ${freeze.end_date ?? "open-ended"}`;
+}
@@ -0,0 +1,115 @@
+import type {
+  Attendance,
+  Freeze,
+  Member,
+  Plan,
+  Subscription,
+} from "@/context/AppContext";
+import { AccessRules, evaluateAccess } from "@/lib/access";
+import type { MemberQRCheck } from "@/lib/memberCards";
+import {
+  getLocalDate,
+  getScanAction,
+  OccupancySettings,
+} from "@/lib/occupancy";
+import { daysBetween } from "@/lib/subscriptions";
+
+/** How long the result stays on screen before the kiosk is ready again. */
+export const KIOSK_WELCOME_MS = 5000;
+export const KIOSK_SEE_DESK_MS = 8000;
+
+/**
+ * What the kiosk shows after a member scans themselves. Only "welcome"
+ * records a visit and only "goodbye" checks one out; anything the member
+ * cannot sort out alone sends them to the front desk.
+ */
+export type KioskOutcome =
+  | { kind: "welcome"; member: Member; daysRemaining: number }
+  | { kind: "goodbye"; member: Member; visit: Attendance }
+  | { kind: "already_inside"; member: Member; visit: Attendance }
+  | { kind: "see_desk"; member: Member | null; reason: string };
+
+export interface KioskScan {
+  check: MemberQRCheck;
+  attendance: Attendance[];
+  subscriptions: Subscription[];
+  plans: Plan[];
+  rules: AccessRules;
+  occupancySettings: OccupancySettings;
+  freeze: Freeze | undefined;
+}
+
+export function evaluateKioskScan(
+  {
+    check,
+    attendance,
+    subscriptions,
+    plans,
+    rules,
+    occupancySettings,
+    freeze,
+  }: KioskScan,
+  now = new Date(),
+): KioskOutcome {
+  // The exact reason (forged, revoked, old-style) is for staff, not the queue
+  if (!check.valid) {
+    return {
+      kind: "see_desk",
+      member: null,
+      reason: "This card was not accepted.",
+    };
+  }
+  const { member } = check;
+
+  const scan = getScanAction(attendance, member.id, occupancySettings, now);
+  if (scan.action === "check_out") {
+    return { kind: "goodbye", member, visit: scan.visit };
+  }
+  if (scan.action === "already_inside") {
+    return { kind: "already_inside", member, visit: scan.visit };
+  }
+
+  const denials = evaluateAccess(
+    { member, attendance, subscriptions, plans, rules },
+    now,
+  );
+  if (denials.length > 0) {
+    // A ban reason is never shown on a public screen
+    const banned = denials.some((d) => d.rule === "banned");
+    return {
+      kind: "see_desk",
+      member,
+      reason: banned ? "Entry is not available." : `${denials[0].reason}.`,
+    };
+  }
+
+  if (freeze) {
+    return {
+      kind: "see_desk",
+      member,
+      reason: "Your membership is frozen.",
+    };
+  }
+
+  const today = getLocalDate(now);
+  if (!member.subscription_end) {
+    return {
+      kind: "see_desk",
+      member,
+      reason: "You have no membership plan to check in with.",
+    };
+  }
+  if (member.subscription_end < today) {
+    return {
+      kind: "see_desk",
+      member,
+      reason: `Your membership expired on ${member.subscription_end}.`,
+    };
+  }
+
+  return {
+    kind: "welcome",
+    member,
+    daysRemaining: daysBetween(today, member.subscription_end),
+  };
+}
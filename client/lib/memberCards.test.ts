@@ -0,0 +1,218 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CardReissue, Member } from "@/context/AppContext";
+import {
+  checkMemberQR,
+  createMemberQR,
+  FIRST_CARD_VERSION,
+  formatCardNumber,
+  parseMemberQR,
+} from "@/lib/memberCards";
+
+const DESK_A = "desk-a";
+const DESK_B = "desk-b";
+const SECRET_A = "11".repeat(32);
+const SECRET_B = "22".repeat(32);
+
+function member(overrides: Partial<Member> = {}): Member {
+  return {
+    id: 1,
+    firstname: "Ana",
+    lastname: "Reyes",
+    age: 30,
+    gender: "female",
+    email: "",
+    phone: "",
+    photo: "file:///photo.jpg",
+    qr_code: "",
+    qr_image_path: "",
+    membership_type: "regular",
+    is_member: 1,
+    subscription_start: null,
+    subscription_end: null,
+    is_banned: 0,
+    ban_reason: null,
+    card_version: FIRST_CARD_VERSION,
+    card_issuer: null,
+    origin_device_id: null,
+    ...overrides,
+  };
+}
+
+function reissue(memberId: number, version: number): CardReissue {
+  return {
+    id: 1,
+    member_id: memberId,
+    card_version: version,
+    reason: "lost",
+    fee: 100,
+    sale_id: null,
+    staff_id: null,
+    replaced_qr_code: null,
+    created_at: "2026-03-10T09:00:00.000Z",
+  };
+}
+
+describe("parseMemberQR", () => {
+  it("reads signed and old-style cards", () => {
+    assert.deepEqual(parseMemberQR("GYM-000123"), {
+      kind: "legacy",
+      memberId: 123,
+    });
+    assert.deepEqual(parseMemberQR(" GYMQ1.5.2.abc123 "), {
+      kind: "signed",
+      memberId: 5,
+      version: 2,
+      signature: "abc123",
+    });
+    assert.equal(parseMemberQR("GYMQ1.5.2"), null);
+    assert.equal(parseMemberQR("hello"), null);
+  });
+});
+
+describe("signed cards", () => {
+  const ana = member({ card_issuer: DESK_A });
+  ana.qr_code = createMemberQR(ana.id, FIRST_CARD_VERSION, SECRET_A);
+
+  it("accepts the member's current card", () => {
+    const check = checkMemberQR(
+      ana.qr_code,
+      [ana],
+      [],
+      SECRET_A,
+      false,
+      DESK_A,
+    );
+    assert.deepEqual(check, { valid: true, member: ana, legacy: false });
+  });
+
+  it("refuses a card signed with another key", () => {
+    const forged = createMemberQR(ana.id, FIRST_CARD_VERSION, SECRET_B);
+    const check = checkMemberQR(forged, [ana], [], SECRET_A, false, DESK_A);
+    assert.equal(check.valid, false);
+  });
+
+  it("says when a card was replaced by a reissue", () => {
+    const reissued = member({
+      card_version: 2,
+      card_issuer: DESK_A,
+      qr_code: createMemberQR(1, 2, SECRET_A),
+    });
+    const check = checkMemberQR(
+      ana.qr_code,
+      [reissued],
+      [reissue(1, 2)],
+      SECRET_A,
+      false,
+      DESK_A,
+    );
+    assert.deepEqual(check, {
+      valid: false,
+      reason: "Card revoked — reissued on 2026-03-10",
+    });
+  });
+
+  it("accepts a card another desk issued by its stored code", () => {
+    // Member 1 on desk A is member 7 here
+    const pulled = { ...ana, id: 7, origin_device_id: DESK_A };
+    const check = checkMemberQR(
+      ana.qr_code,
+      [pulled],
+      [],
+      SECRET_B,
+      false,
+      DESK_B,
+    );
+    assert.deepEqual(check, { valid: true, member: pulled, legacy: false });
+  });
+
+  it("says when another desk replaced the card", () => {
+    // Desk A reissued its member 1, who is member 7 here
+    const reissued = {
+      ...ana,
+      id: 7,
+      card_version: 2,
+      qr_code: createMemberQR(1, 2, SECRET_A),
+      origin_device_id: DESK_A,
+    };
+    const pulled = { ...reissue(7, 2), replaced_qr_code: ana.qr_code };
+    const check = checkMemberQR(
+      ana.qr_code,
+      [reissued],
+      [pulled],
+      SECRET_B,
+      false,
+      DESK_B,
+    );
+    assert.deepEqual(check, {
+      valid: false,
+      reason: "Card revoked — reissued on 2026-03-10",
+    });
+  });
+});
+
+describe("old-style cards", () => {
+  it("are refused once the legacy switch is off", () => {
+    const check = checkMemberQR(
+      "GYM-000001",
+      [member()],
+      [],
+      SECRET_A,
+      false,
+      DESK_A,
+    );
+    assert.equal(check.valid, false);
+  });
+
+  it("match members added on this desk or before sync", () => {
+    const beforeSync = member({ id: 1 });
+    const addedHere = member({ id: 2, origin_device_id: DESK_B });
+    for (const m of [beforeSync, addedHere]) {
+      const check = checkMemberQR(
+        formatCardNumber(m),
+        [beforeSync, addedHere],
+        [],
+        SECRET_B,
+        true,
+        DESK_B,
+      );
+      assert.deepEqual(check, { valid: true, member: m, legacy: true });
+    }
+  });
+
+  it("never match a member pulled from another desk with the same id", () => {
+    // Desk A printed GYM-000003 for its member 3. Desk B pulled another of
+    // desk A's members, who got id 3 here.
+    const pulled = member({
+      id: 3,
+      firstname: "Ben",
+      origin_device_id: DESK_A,
+    });
+    const check = checkMemberQR(
+      "GYM-000003",
+      [member({ id: 1, origin_device_id: DESK_B }), pulled],
+      [],
+      SECRET_B,
+      true,
+      DESK_B,
+    );
+    assert.deepEqual(check, {
+      valid: false,
+      reason:
+        "This old-style card is from another desk. Please reissue the member's card.",
+    });
+  });
+
+  it("stop working once the card is reissued", () => {
+    const reissued = member({ card_version: 2 });
+    const check = checkMemberQR(
+      "GYM-000001",
+      [reissued],
+      [reissue(1, 2)],
+      SECRET_A,
+      true,
+      DESK_A,
+    );
+    assert.equal(check.valid, false);
+  });
+});
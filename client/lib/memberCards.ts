@@ -0,0 +1,237 @@
+import type { CardReissue, Member } from "@/context/AppContext";
+import {
+  constantTimeEqual,
+  fromHex,
+  hmacSha256,
+  toHex,
+  utf8Encode,
+} from "@/lib/crypto";
+
+/**
+ * Member card QR payloads are `GYMQ1.<member id>.<card version>.<signature>`,
+ * where the signature is an HMAC of the id and version under a secret kept
+ * on this device. A code cannot be made up for someone else without the
+ * secret, and bumping the member's card version (a reissue) turns every
+ * earlier card into a mismatch.
+ *
+ * Cards printed before signing carry `GYM-000123`. Those are accepted only
+ * while the legacy switch is on, and only for members whose card has never
+ * been reissued. The id on them is local to the desk that printed them, so
+ * they are never matched against members that came from another desk.
+ *
+ * With LAN sync, a member's card may have been issued on another desk and
+ * signed with that desk's key. Member ids differ between desks too, so
+ * such a card is checked against the member's stored code instead, and
+ * once replaced it is known by the code its reissue replaced.
+ */
+const SIGNED_PREFIX = "GYMQ1";
+const LEGACY_PREFIX = "GYM-";
+// 96 bits is far beyond guessing at a scanner and keeps the QR small
+const SIGNATURE_BYTES = 12;
+
+/** Size of the signing key in bytes. */
+export const CARD_SECRET_BYTES = 32;
+
+/** Version of a member's first card; reissues count up from here. */
+export const FIRST_CARD_VERSION = 1;
+
+const CARD_REPLACED =
+  "This card has been replaced. Please use the member's current card.";
+
+export type CardReissueReason = "lost" | "damaged" | "other";
+
+export const CARD_REISSUE_REASONS: CardReissueReason[] = [
+  "lost",
+  "damaged",
+  "other",
+];
+
+export const CARD_REISSUE_REASON_LABELS: Record<CardReissueReason, string> = {
+  lost: "Lost / Stolen",
+  damaged: "Damaged",
+  other: "Other",
+};
+
+export type ParsedMemberQR =
+  | { kind: "signed"; memberId: number; version: number; signature: string }
+  | { kind: "legacy"; memberId: number };
+
+export type MemberQRCheck =
+  | { valid: true; member: Member; legacy: boolean }
+  | { valid: false; reason: string };
+
+function sign(memberId: number, version: number, secret: string): string {
+  const mac = hmacSha256(fromHex(secret), utf8Encode(`${memberId}.${version}`));
+  return toHex(mac.subarray(0, SIGNATURE_BYTES));
+}
+
+export function createMemberQR(
+  memberId: number,
+  version: number,
+  secret: string,
+): string {
+  return `${SIGNED_PREFIX}.${memberId}.${version}.${sign(memberId, version, secret)}`;
+}
+
+export function parseMemberQR(data: string): ParsedMemberQR | null {
+  const text = data.trim();
+  const legacy = /^GYM-(\d+)$/.exec(text);
+  if (legacy) {
+    return { kind: "legacy", memberId: parseInt(legacy[1], 10) };
+  }
+  const parts = text.split(".");
+  if (
+    parts.length !== 4 ||
+    parts[0] !== SIGNED_PREFIX ||
+    !/^\d+$/.test(parts[1]) ||
+    !/^\d+$/.test(parts[2]) ||
+    !/^[0-9a-f]+$/.test(parts[3])
+  ) {
+    return null;
+  }
+  return {
+    kind: "signed",
+    memberId: parseInt(parts[1], 10),
+    version: parseInt(parts[2], 10),
+    signature: parts[3],
+  };
+}
+
+/** The reissue that replaced the given card version, if it was logged. */
+export function getRevokingReissue(
+  reissues: CardReissue[],
+  memberId: number,
+  version: number,
+): CardReissue | undefined {
+  return reissues
+    .filter((r) => r.member_id === memberId && r.card_version > version)
+    .sort((a, b) => a.card_version - b.card_version)[0];
+}
+
+function reissuedOn(reissue: CardReissue): string {
+  return `Card revoked — reissued on ${reissue.created_at.split("T")[0]}`;
+}
+
+function revokedReason(
+  reissues: CardReissue[],
+  member: Member,
+  version: number,
+): string {
+  if (version > member.card_version) return CARD_REPLACED;
+  const reissue = getRevokingReissue(reissues, member.id, version);
+  return reissue ? reissuedOn(reissue) : CARD_REPLACED;
+}
+
+/**
+ * Check a scanned code against the member list. Every failure carries a
+ * reason the front desk can act on.
+ */
+export function checkMemberQR(
+  data: string,
+  members: Member[],
+  reissues: CardReissue[],
+  secret: string,
+  acceptLegacy: boolean,
+  deviceId: string,
+): MemberQRCheck {
+  const parsed = parseMemberQR(data);
+  if (!parsed) {
+    return {
+      valid: false,
+      reason: "QR code not recognized. Must be a valid gym member QR.",
+    };
+  }
+
+  if (parsed.kind === "signed") {
+    const current = members.find((m) => m.qr_code === data.trim());
+    if (current) return { valid: true, member: current, legacy: false };
+    const replaced = reissues.find((r) => r.replaced_qr_code === data.trim());
+    if (replaced) return { valid: false, reason: reissuedOn(replaced) };
+  }
+
+  if (parsed.kind === "legacy") {
+    if (!acceptLegacy) {
+      return {
+        valid: false,
+        reason:
+          "Old-style cards are no longer accepted. Please reissue this member's card.",
+      };
+    }
+    const member = members.find((m) => m.id === parsed.memberId);
+    if (!member) {
+      return { valid: false, reason: "Member not found in the system." };
+    }
+    if (member.origin_device_id && member.origin_device_id !== deviceId) {
+      return {
+        valid: false,
+        reason:
+          "This old-style card is from another desk. Please reissue the member's card.",
+      };
+    }
+    if (member.card_version !== FIRST_CARD_VERSION) {
+      return {
+        valid: false,
+        reason: revokedReason(reissues, member, FIRST_CARD_VERSION),
+      };
+    }
+    return { valid: true, member, legacy: true };
+  }
+
+  const member = members.find(
+    (m) =>
+      m.id === parsed.memberId &&
+      (!m.card_issuer || m.card_issuer === deviceId),
+  );
+  const expected = fromHex(sign(parsed.memberId, parsed.version, secret));
+  if (
+    parsed.signature.length !== expected.length * 2 ||
+    !constantTimeEqual(fromHex(parsed.signature), expected)
+  ) {
+    return {
+      valid: false,
+      reason:
+        "This card's signature does not match. It may be forged or from another gym.",
+    };
+  }
+  if (!member) {
+    return { valid: false, reason: "Member not found in the system." };
+  }
+  if (parsed.version !== member.card_version) {
+    return {
+      valid: false,
+      reason: revokedReason(reissues, member, parsed.version),
+    };
+  }
+  return { valid: true, member, legacy: false };
+}
+
+/** The short number printed under the QR, e.g. `GYM-000123`. */
+export function formatCardNumber(member: Member): string {
+  const number = `${LEGACY_PREFIX}${member.id.toString().padStart(6, "0")}`;
+  return member.card_version > FIRST_CARD_VERSION
+    ? `${number} · Card ${member.card_version}`
+    : number;
+}
+
+/** Whether a typed member number (`123`, `000123`, `GYM-000123`) is theirs. */
+export function matchesCardNumber(member: Member, query: string): boolean {
+  const digits = query.trim().replace(/^GYM-?/i, "");
+  return /^\d+$/.test(digits) && parseInt(digits, 10) === member.id;
+}
+
+/**
+ * Members matching a front-desk lookup by name, phone or member number,
+ * for checking in someone who has no card with them.
+ */
+export function searchMembers(members: Member[], query: string): Member[] {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+  const digits = text.replace(/\D/g, "");
+  return members.filter(
+    (m) =>
+      `${m.firstname} ${m.lastname}`.toLowerCase().includes(text) ||
+      `${m.lastname} ${m.firstname}`.toLowerCase().includes(text) ||
+      (digits.length >= 3 && m.phone.replace(/\D/g, "").includes(digits)) ||
+      matchesCardNumber(m, text),
+  );
+}
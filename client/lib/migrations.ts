@@ -0,0 +1,873 @@
+/**
+ * Versioned schema migrations for the local SQLite database.
+ *
+ * Each migration runs exactly once, inside its own transaction, and is
+ * recorded in the `schema_version` table. To change the schema, append a
+ * new entry to MIGRATIONS with the next version number - never edit or
+ * reorder a migration that has already shipped.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+import { hashPin, isPinHash } from "@/lib/auth";
+import { randomUUID } from "@/lib/random";
+
+/** Stands in for the creation or change time of rows older than the column. */
+export const SYNC_EPOCH = "1970-01-01T00:00:00.000Z";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (database: SQLiteDatabase) => Promise<void>;
+}
+
+export class MigrationError extends Error {
+  version: number;
+  migrationName: string;
+
+  constructor(migration: Migration, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Database migration ${migration.version} (${migration.name}) failed: ${reason}`,
+    );
+    this.name = "MigrationError";
+    this.version = migration.version;
+    this.migrationName = migration.name;
+  }
+}
+
+async function getColumnNames(
+  database: SQLiteDatabase,
+  table: string,
+): Promise<string[]> {
+  const tableInfo = await database.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  return tableInfo.map((col) => col.name);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS members (
+          id INTEGER PRIMARY KEY,
+          firstname TEXT NOT NULL,
+          lastname TEXT NOT NULL,
+          age INTEGER NOT NULL,
+          gender TEXT NOT NULL,
+          email TEXT,
+          phone TEXT,
+          photo TEXT,
+          qr_code TEXT NOT NULL,
+          qr_image_path TEXT,
+          membership_type TEXT NOT NULL,
+          is_member INTEGER DEFAULT 1,
+          subscription_start TEXT,
+          subscription_end TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS attendance (
+          id INTEGER PRIMARY KEY,
+          member_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          time TEXT NOT NULL,
+          FOREIGN KEY (member_id) REFERENCES members(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS sales (
+          id INTEGER PRIMARY KEY,
+          type TEXT NOT NULL,
+          amount REAL NOT NULL,
+          date TEXT NOT NULL,
+          note TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS price_settings (
+          id INTEGER PRIMARY KEY DEFAULT 1,
+          membership REAL DEFAULT 300,
+          student_monthly REAL DEFAULT 600,
+          regular_monthly REAL DEFAULT 700,
+          senior_monthly REAL DEFAULT 560,
+          session_member REAL DEFAULT 70,
+          session_nonmember REAL DEFAULT 100
+        );
+
+        CREATE TABLE IF NOT EXISTS app_settings (
+          id INTEGER PRIMARY KEY DEFAULT 1,
+          pin_hash TEXT,
+          is_dark_mode INTEGER DEFAULT 1
+        );
+      `);
+    },
+  },
+  {
+    // Databases created before senior rates existed lack these columns.
+    version: 2,
+    name: "senior_session_rates",
+    up: async (database) => {
+      const columnNames = await getColumnNames(database, "price_settings");
+
+      if (!columnNames.includes("session_member_senior")) {
+        await database.execAsync(
+          "ALTER TABLE price_settings ADD COLUMN session_member_senior REAL DEFAULT 50",
+        );
+      }
+
+      if (!columnNames.includes("session_nonmember_senior")) {
+        await database.execAsync(
+          "ALTER TABLE price_settings ADD COLUMN session_nonmember_senior REAL DEFAULT 80",
+        );
+      }
+    },
+  },
+  {
+    // Seed the singleton settings rows only when missing so that prices
+    // customised by the gym survive app restarts and updates.
+    version: 3,
+    name: "seed_default_settings",
+    up: async (database) => {
+      await database.runAsync(
+        "INSERT OR IGNORE INTO price_settings (id, membership, student_monthly, regular_monthly, senior_monthly, session_member, session_nonmember, session_member_senior, session_nonmember_senior) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+        [1, 300, 600, 700, 560, 70, 100, 50, 80],
+      );
+      await database.runAsync(
+        "INSERT OR IGNORE INTO app_settings (id, is_dark_mode) VALUES (?, ?)",
+        [1, 1],
+      );
+    },
+  },
+  {
+    // Replaces the fixed student/regular/senior monthly prices with a plan
+    // catalog. The old price_settings columns are kept so older backups
+    // still restore, but the seeded plans carry the gym's current prices.
+    version: 4,
+    name: "membership_plans",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS plans (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          duration_value INTEGER NOT NULL,
+          duration_unit TEXT NOT NULL DEFAULT 'months',
+          price REAL NOT NULL,
+          category TEXT NOT NULL DEFAULT 'any',
+          is_active INTEGER DEFAULT 1
+        );
+      `);
+
+      const prices = await database.getFirstAsync<{
+        student_monthly: number;
+        regular_monthly: number;
+        senior_monthly: number;
+      }>(
+        "SELECT student_monthly, regular_monthly, senior_monthly FROM price_settings WHERE id = 1",
+      );
+      const seeds: [string, number, string][] = [
+        ["Monthly (Student)", prices?.student_monthly ?? 600, "student"],
+        ["Monthly (Regular)", prices?.regular_monthly ?? 700, "regular"],
+        ["Monthly (Senior)", prices?.senior_monthly ?? 560, "senior"],
+      ];
+      for (const [name, price, category] of seeds) {
+        await database.runAsync(
+          "INSERT INTO plans (name, duration_value, duration_unit, price, category, is_active) VALUES (?, ?, ?, ?, ?, ?)",
+          [name, 1, "months", price, category, 1],
+        );
+      }
+    },
+  },
+  {
+    // One row per paid period instead of overwriting the member's dates.
+    // Existing members get a single backfilled period from their current
+    // subscription_start/subscription_end.
+    version: 5,
+    name: "subscription_history",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS subscriptions (
+          id INTEGER PRIMARY KEY,
+          member_id INTEGER NOT NULL,
+          plan_id INTEGER,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          amount_paid REAL NOT NULL DEFAULT 0,
+          sale_id INTEGER,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (member_id) REFERENCES members(id),
+          FOREIGN KEY (plan_id) REFERENCES plans(id),
+          FOREIGN KEY (sale_id) REFERENCES sales(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_subscriptions_member
+          ON subscriptions(member_id, end_date);
+      `);
+
+      await database.runAsync(
+        `INSERT INTO subscriptions (member_id, plan_id, start_date, end_date, amount_paid, sale_id, created_at)
+         SELECT id, NULL, COALESCE(subscription_start, subscription_end), subscription_end, 0, NULL, ?
+         FROM members WHERE subscription_end IS NOT NULL`,
+        [new Date().toISOString()],
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "renewal_grace_days",
+    up: async (database) => {
+      const columnNames = await getColumnNames(database, "app_settings");
+      if (!columnNames.includes("renewal_grace_days")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN renewal_grace_days INTEGER DEFAULT 7",
+        );
+      }
+    },
+  },
+  {
+    // end_date is NULL for open-ended freezes; unfrozen_at and frozen_days
+    // are filled in when the freeze is lifted and the expiry pushed out.
+    version: 7,
+    name: "membership_freezes",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS freezes (
+          id INTEGER PRIMARY KEY,
+          member_id INTEGER NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          reason TEXT,
+          fee REAL NOT NULL DEFAULT 0,
+          sale_id INTEGER,
+          unfrozen_at TEXT,
+          frozen_days INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (member_id) REFERENCES members(id),
+          FOREIGN KEY (sale_id) REFERENCES sales(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_freezes_member
+          ON freezes(member_id, start_date);
+      `);
+    },
+  },
+  {
+    // A payment split across tenders is stored as one sales row per tender;
+    // the extra rows point at the first via payment_group. Existing sales
+    // were all taken in cash.
+    version: 8,
+    name: "sale_payment_methods",
+    up: async (database) => {
+      const columnNames = await getColumnNames(database, "sales");
+      if (!columnNames.includes("payment_method")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN payment_method TEXT NOT NULL DEFAULT 'cash'",
+        );
+      }
+      if (!columnNames.includes("reference_number")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN reference_number TEXT",
+        );
+      }
+      if (!columnNames.includes("payment_group")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN payment_group INTEGER",
+        );
+      }
+    },
+  },
+  {
+    // Sales taken before shifts existed keep a null shift_id
+    version: 9,
+    name: "cash_drawer_shifts",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS shifts (
+          id INTEGER PRIMARY KEY,
+          staff_name TEXT NOT NULL,
+          opening_float REAL NOT NULL DEFAULT 0,
+          opened_at TEXT NOT NULL,
+          closed_at TEXT,
+          expected_cash REAL,
+          counted_cash REAL,
+          closing_note TEXT
+        );
+      `);
+      const columnNames = await getColumnNames(database, "sales");
+      if (!columnNames.includes("shift_id")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN shift_id INTEGER REFERENCES shifts(id)",
+        );
+      }
+    },
+  },
+  {
+    // Voids and refunds never change the original sale; they are written
+    // as offsetting rows with a negative amount that point back at it
+    version: 10,
+    name: "sale_corrections",
+    up: async (database) => {
+      const columnNames = await getColumnNames(database, "sales");
+      if (!columnNames.includes("reverses_sale_id")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN reverses_sale_id INTEGER REFERENCES sales(id)",
+        );
+      }
+      if (!columnNames.includes("correction_type")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN correction_type TEXT",
+        );
+      }
+      if (!columnNames.includes("correction_reason")) {
+        await database.execAsync(
+          "ALTER TABLE sales ADD COLUMN correction_reason TEXT",
+        );
+      }
+    },
+  },
+  {
+    // Replaces the single shared PIN with one account per staff member.
+    // Records made before this have a null staff_id.
+    version: 11,
+    name: "staff_accounts",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS staff (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          pin TEXT NOT NULL,
+          is_active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS member_edits (
+          id INTEGER PRIMARY KEY,
+          member_id INTEGER NOT NULL,
+          staff_id INTEGER,
+          action TEXT NOT NULL,
+          fields TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (staff_id) REFERENCES staff(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_member_edits_member
+          ON member_edits(member_id, created_at);
+      `);
+      for (const table of ["sales", "attendance"]) {
+        const columnNames = await getColumnNames(database, table);
+        if (!columnNames.includes("staff_id")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN staff_id INTEGER REFERENCES staff(id)`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // PINs were stored as typed. Hash them in place, and add the lockout
+    // counter and owner recovery code used by the PIN screen.
+    version: 12,
+    name: "hashed_pins",
+    up: async (database) => {
+      const staffColumns = await getColumnNames(database, "staff");
+      if (staffColumns.includes("pin")) {
+        await database.execAsync(
+          "ALTER TABLE staff RENAME COLUMN pin TO pin_hash",
+        );
+      }
+      const rows = await database.getAllAsync<{ id: number; pin_hash: string }>(
+        "SELECT id, pin_hash FROM staff",
+      );
+      for (const row of rows) {
+        if (isPinHash(row.pin_hash)) continue;
+        await database.runAsync("UPDATE staff SET pin_hash = ? WHERE id = ?", [
+          hashPin(row.pin_hash),
+          row.id,
+        ]);
+      }
+
+      const settingsColumns = await getColumnNames(database, "app_settings");
+      if (!settingsColumns.includes("failed_pin_attempts")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN failed_pin_attempts INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+      if (!settingsColumns.includes("pin_locked_until")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN pin_locked_until TEXT",
+        );
+      }
+      if (!settingsColumns.includes("recovery_code_hash")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN recovery_code_hash TEXT",
+        );
+      }
+      // The old single-PIN column was never hashed either
+      await database.execAsync("UPDATE app_settings SET pin_hash = NULL");
+    },
+  },
+  {
+    // Visits get a check-out time so the app knows who is inside. Visits
+    // recorded before this have no real check-out; they are closed at
+    // their check-in time and flagged as closed automatically. Rows store
+    // the UTC date, so ones dated within the last day may be today's and
+    // are left open for the closing-time check to close.
+    version: 13,
+    name: "visit_check_out",
+    up: async (database) => {
+      const attendanceColumns = await getColumnNames(database, "attendance");
+      if (!attendanceColumns.includes("check_out_time")) {
+        await database.execAsync(
+          "ALTER TABLE attendance ADD COLUMN check_out_time TEXT",
+        );
+      }
+      if (!attendanceColumns.includes("auto_checked_out")) {
+        await database.execAsync(
+          "ALTER TABLE attendance ADD COLUMN auto_checked_out INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await database.runAsync(
+        "UPDATE attendance SET check_out_time = time, auto_checked_out = 1 WHERE check_out_time IS NULL AND date < ?",
+        [dayAgo.toISOString().split("T")[0]],
+      );
+
+      const settingsColumns = await getColumnNames(database, "app_settings");
+      const settingsToAdd: [string, string][] = [
+        ["checkout_on_second_scan", "INTEGER NOT NULL DEFAULT 1"],
+        ["min_visit_minutes", "INTEGER NOT NULL DEFAULT 5"],
+        ["closing_time", "TEXT NOT NULL DEFAULT '22:00'"],
+        ["gym_capacity", "INTEGER NOT NULL DEFAULT 0"],
+      ];
+      for (const [column, definition] of settingsToAdd) {
+        if (!settingsColumns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE app_settings ADD COLUMN ${column} ${definition}`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // Entry rules checked at the scanner: bans on members, allowed hours
+    // on plans and gym-wide limits in settings. One check-in per day is on
+    // by default; plan hours and the age limit start unset.
+    version: 14,
+    name: "access_rules",
+    up: async (database) => {
+      const memberColumns = await getColumnNames(database, "members");
+      if (!memberColumns.includes("is_banned")) {
+        await database.execAsync(
+          "ALTER TABLE members ADD COLUMN is_banned INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+      if (!memberColumns.includes("ban_reason")) {
+        await database.execAsync(
+          "ALTER TABLE members ADD COLUMN ban_reason TEXT",
+        );
+      }
+
+      const planColumns = await getColumnNames(database, "plans");
+      for (const column of ["allowed_from", "allowed_until"]) {
+        if (!planColumns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE plans ADD COLUMN ${column} TEXT`,
+          );
+        }
+      }
+
+      const settingsColumns = await getColumnNames(database, "app_settings");
+      const settingsToAdd: [string, string][] = [
+        ["access_one_per_day", "INTEGER NOT NULL DEFAULT 1"],
+        ["access_min_age", "INTEGER NOT NULL DEFAULT 0"],
+      ];
+      for (const [column, definition] of settingsToAdd) {
+        if (!settingsColumns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE app_settings ADD COLUMN ${column} ${definition}`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // Member cards become signed QR codes with a version per member so a
+    // reissue voids the old card. The signing secret is created and the
+    // stored codes re-signed when the app next loads, not here.
+    version: 15,
+    name: "signed_member_cards",
+    up: async (database) => {
+      const memberColumns = await getColumnNames(database, "members");
+      if (!memberColumns.includes("card_version")) {
+        await database.execAsync(
+          "ALTER TABLE members ADD COLUMN card_version INTEGER NOT NULL DEFAULT 1",
+        );
+      }
+
+      const settingsColumns = await getColumnNames(database, "app_settings");
+      const settingsToAdd: [string, string][] = [
+        ["card_secret", "TEXT"],
+        ["accept_legacy_cards", "INTEGER NOT NULL DEFAULT 1"],
+      ];
+      for (const [column, definition] of settingsToAdd) {
+        if (!settingsColumns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE app_settings ADD COLUMN ${column} ${definition}`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // One row per replacement card. card_version is the version issued, so
+    // a scan of any lower version can say when that card was revoked.
+    version: 16,
+    name: "card_reissues",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS card_reissues (
+          id INTEGER PRIMARY KEY,
+          member_id INTEGER NOT NULL,
+          card_version INTEGER NOT NULL,
+          reason TEXT NOT NULL,
+          fee REAL NOT NULL DEFAULT 0,
+          sale_id INTEGER,
+          staff_id INTEGER,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (member_id) REFERENCES members(id),
+          FOREIGN KEY (sale_id) REFERENCES sales(id),
+          FOREIGN KEY (staff_id) REFERENCES staff(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_card_reissues_member
+          ON card_reissues(member_id, card_version);
+      `);
+    },
+  },
+  {
+    // How each visit was recorded: "scan" for a card at the scanner,
+    // "manual" when staff looked the member up instead. Earlier visits
+    // were all card scans.
+    version: 17,
+    name: "attendance_entry_method",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "attendance");
+      if (!columns.includes("entry_method")) {
+        await database.execAsync(
+          "ALTER TABLE attendance ADD COLUMN entry_method TEXT NOT NULL DEFAULT 'scan'",
+        );
+      }
+    },
+  },
+  {
+    // Hardware barcode scanners that type the code like a keyboard. Off by
+    // default so a tablet without one keeps its on-screen keyboard.
+    version: 18,
+    name: "scanner_input",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "app_settings");
+      if (!columns.includes("scanner_input")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN scanner_input INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+    },
+  },
+  {
+    // Kept in the database so an entrance tablet that restarts comes back
+    // up as a kiosk instead of at the PIN screen.
+    version: 19,
+    name: "kiosk_mode",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "app_settings");
+      if (!columns.includes("kiosk_mode")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN kiosk_mode INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+    },
+  },
+  {
+    // Records that travel between desks through the LAN sync hub need an
+    // identity every device agrees on and a time of last change to settle
+    // conflicts. Existing rows get a UUID now and the epoch as their change
+    // time, so any edit made on another desk wins over them.
+    version: 20,
+    name: "sync_identity",
+    up: async (database) => {
+      for (const table of ["members", "attendance", "sales"]) {
+        const columns = await getColumnNames(database, table);
+        if (!columns.includes("uuid")) {
+          await database.execAsync(`ALTER TABLE ${table} ADD COLUMN uuid TEXT`);
+        }
+        if (!columns.includes("updated_at")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN updated_at TEXT NOT NULL DEFAULT '${SYNC_EPOCH}'`,
+          );
+        }
+        const rows = await database.getAllAsync(
+          `SELECT id FROM ${table} WHERE uuid IS NULL`,
+        );
+        for (const row of rows as { id: number }[]) {
+          await database.runAsync(`UPDATE ${table} SET uuid = ? WHERE id = ?`, [
+            randomUUID(),
+            row.id,
+          ]);
+        }
+        await database.execAsync(
+          `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_uuid ON ${table}(uuid)`,
+        );
+      }
+
+      const memberColumns = await getColumnNames(database, "members");
+      if (!memberColumns.includes("card_issuer")) {
+        await database.execAsync(
+          "ALTER TABLE members ADD COLUMN card_issuer TEXT",
+        );
+      }
+
+      const priceColumns = await getColumnNames(database, "price_settings");
+      if (!priceColumns.includes("updated_at")) {
+        await database.execAsync(
+          `ALTER TABLE price_settings ADD COLUMN updated_at TEXT NOT NULL DEFAULT '${SYNC_EPOCH}'`,
+        );
+      }
+
+      const settingsColumns = await getColumnNames(database, "app_settings");
+      const settingsToAdd: [string, string][] = [
+        ["device_id", "TEXT"],
+        ["sync_hub_url", "TEXT"],
+        ["sync_key", "TEXT"],
+        ["sync_revision", "INTEGER NOT NULL DEFAULT 0"],
+        ["sync_pushed_at", "TEXT"],
+        ["last_synced_at", "TEXT"],
+      ];
+      for (const [column, definition] of settingsToAdd) {
+        if (!settingsColumns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE app_settings ADD COLUMN ${column} ${definition}`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // Every record gets an identity that survives restores and sync, its
+    // own created and updated times, and a deleted_at flag so deletes can
+    // be journaled and synced rather than erasing the row. The journal
+    // itself only grows; triggers refuse edits and deletes of its rows.
+    // It starts empty, with existing rows treated as the baseline.
+    version: 21,
+    name: "change_journal",
+    up: async (database) => {
+      const tables = [
+        "members",
+        "attendance",
+        "sales",
+        "plans",
+        "subscriptions",
+        "freezes",
+        "shifts",
+        "staff",
+        "member_edits",
+        "card_reissues",
+      ];
+      for (const table of tables) {
+        const columns = await getColumnNames(database, table);
+        if (!columns.includes("uuid")) {
+          await database.execAsync(`ALTER TABLE ${table} ADD COLUMN uuid TEXT`);
+          const rows = await database.getAllAsync(`SELECT id FROM ${table}`);
+          for (const row of rows as { id: number }[]) {
+            await database.runAsync(
+              `UPDATE ${table} SET uuid = ? WHERE id = ?`,
+              [randomUUID(), row.id],
+            );
+          }
+          await database.execAsync(
+            `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_uuid ON ${table}(uuid)`,
+          );
+        }
+        if (!columns.includes("created_at")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN created_at TEXT NOT NULL DEFAULT '${SYNC_EPOCH}'`,
+          );
+        }
+        if (!columns.includes("updated_at")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN updated_at TEXT NOT NULL DEFAULT '${SYNC_EPOCH}'`,
+          );
+          // Rows that already knew when they were made were last changed
+          // no earlier than that
+          await database.execAsync(
+            `UPDATE ${table} SET updated_at = created_at WHERE created_at > updated_at`,
+          );
+        }
+        if (!columns.includes("deleted_at")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN deleted_at TEXT`,
+          );
+        }
+      }
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS change_journal (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          table_name TEXT NOT NULL,
+          record_uuid TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          changes TEXT,
+          changed_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_change_journal_record
+          ON change_journal(table_name, record_uuid);
+
+        CREATE TRIGGER IF NOT EXISTS change_journal_no_update
+          BEFORE UPDATE ON change_journal
+          BEGIN
+            SELECT RAISE(ABORT, 'change_journal is append-only');
+          END;
+
+        CREATE TRIGGER IF NOT EXISTS change_journal_no_delete
+          BEFORE DELETE ON change_journal
+          BEGIN
+            SELECT RAISE(ABORT, 'change_journal is append-only');
+          END;
+      `);
+    },
+  },
+  {
+    // Backups used to happen only when someone remembered to tap the
+    // button. Daily by default so a desk that never opens the backup
+    // screen is still covered.
+    version: 22,
+    name: "auto_backup",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "app_settings");
+      if (!columns.includes("auto_backup_hours")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN auto_backup_hours INTEGER NOT NULL DEFAULT 24",
+        );
+      }
+      if (!columns.includes("last_backup_at")) {
+        await database.execAsync(
+          "ALTER TABLE app_settings ADD COLUMN last_backup_at TEXT",
+        );
+      }
+    },
+  },
+  {
+    // A record pulled from the sync hub is newer than the last push, but
+    // it is the hub's own copy. Remembering which version came from the
+    // hub keeps it from being pushed back as this device's change.
+    version: 23,
+    name: "sync_pulled_versions",
+    up: async (database) => {
+      for (const table of [
+        "members",
+        "attendance",
+        "sales",
+        "subscriptions",
+        "freezes",
+        "price_settings",
+      ]) {
+        const columns = await getColumnNames(database, table);
+        if (!columns.includes("hub_updated_at")) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN hub_updated_at TEXT`,
+          );
+        }
+      }
+    },
+  },
+  {
+    // Old-style cards carry only the local member id, and ids clash between
+    // desks. Members record the desk they were added on, so such a card
+    // is only matched against members added here. Members made before sync
+    // stay unmarked; ones whose card another desk signed were pulled from
+    // that desk.
+    version: 24,
+    name: "member_origin",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "members");
+      if (!columns.includes("origin_device_id")) {
+        await database.execAsync(
+          "ALTER TABLE members ADD COLUMN origin_device_id TEXT",
+        );
+      }
+      await database.execAsync(`
+        UPDATE members SET origin_device_id = card_issuer
+        WHERE origin_device_id IS NULL
+          AND card_issuer IS NOT NULL
+          AND card_issuer IS NOT (SELECT device_id FROM app_settings WHERE id = 1)
+      `);
+    },
+  },
+  {
+    // A card signed on another desk cannot be checked here, so reissues
+    // travel through the sync hub with the code they replaced and every
+    // desk can tell a revoked card from a forged one. Reissues made before
+    // this did not keep that code.
+    version: 25,
+    name: "card_reissue_sync",
+    up: async (database) => {
+      const columns = await getColumnNames(database, "card_reissues");
+      for (const column of ["replaced_qr_code", "hub_updated_at"]) {
+        if (!columns.includes(column)) {
+          await database.execAsync(
+            `ALTER TABLE card_reissues ADD COLUMN ${column} TEXT`,
+          );
+        }
+      }
+    },
+  },
+];
+
+export async function getSchemaVersion(
+  database: SQLiteDatabase,
+): Promise<number> {
+  const row = await database.getFirstAsync<{ version: number | null }>(
+    "SELECT MAX(version) AS version FROM schema_version",
+  );
+  return row?.version ?? 0;
+}
+
+/**
+ * Apply every migration newer than the stored schema version, in order.
+ * A failing migration is rolled back and raised as a MigrationError;
+ * migrations after it are not attempted.
+ */
+export async function runMigrations(database: SQLiteDatabase): Promise<number> {
+  await database.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  let currentVersion = await getSchemaVersion(database);
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion).sort(
+    (a, b) => a.version - b.version,
+  );
+
+  for (const migration of pending) {
+    console.log(
+      `[Database] Migrating: ${migration.version} ${migration.name}...`,
+    );
+    try {
+      await database.withTransactionAsync(async () => {
+        await migration.up(database);
+        await database.runAsync(
+          "INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)",
+          [migration.version, migration.name, new Date().toISOString()],
+        );
+      });
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+    currentVersion = migration.version;
+  }
+
+  return currentVersion;
+}
@@ -0,0 +1,202 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Attendance } from "@/context/AppContext";
+import {
+  DEFAULT_OCCUPANCY_SETTINGS,
+  formatDuration,
+  formatTime,
+  getAverageVisitDuration,
+  getCapacityStatus,
+  getCheckInInstant,
+  getLocalDate,
+  getLocalTime,
+  getScanAction,
+  getVisitDuration,
+  getVisitsInside,
+  getVisitsToAutoClose,
+  toMinutes,
+} from "@/lib/occupancy";
+
+// Ahead of UTC, so the early hours of a local day are still the previous
+// day in UTC, as at the gym
+process.env.TZ = "Asia/Manila";
+
+let nextId = 1;
+
+/** A visit as the scanner stores it: UTC date, local time. */
+function visit(at: Date, overrides: Partial<Attendance> = {}): Attendance {
+  return {
+    id: nextId++,
+    member_id: 1,
+    date: at.toISOString().split("T")[0],
+    time: getLocalTime(at),
+    staff_id: null,
+    check_out_time: null,
+    auto_checked_out: 0,
+    entry_method: "scan",
+    ...overrides,
+  };
+}
+
+describe("local dates and times", () => {
+  it("uses the local calendar day, not the UTC one", () => {
+    const earlyMorning = new Date(2026, 2, 5, 2, 30);
+    assert.equal(getLocalDate(earlyMorning), "2026-03-05");
+    assert.equal(earlyMorning.toISOString().split("T")[0], "2026-03-04");
+    assert.equal(getLocalTime(earlyMorning), "02:30:00");
+  });
+
+  it("reads times as minutes since midnight", () => {
+    assert.equal(toMinutes("00:00"), 0);
+    assert.equal(toMinutes("07:45:30"), 465);
+    assert.equal(toMinutes("22:00"), 1320);
+  });
+
+  it("formats times for the desk", () => {
+    assert.equal(formatTime("00:05:00"), "12:05 AM");
+    assert.equal(formatTime("13:30"), "1:30 PM");
+  });
+
+  it("finds the local check-in time of a visit stored with a UTC date", () => {
+    const at = new Date(2026, 2, 5, 2, 30);
+    assert.equal(getCheckInInstant(visit(at)).getTime(), at.getTime());
+    const evening = new Date(2026, 2, 5, 21, 15);
+    assert.equal(
+      getCheckInInstant(visit(evening)).getTime(),
+      evening.getTime(),
+    );
+  });
+});
+
+describe("getScanAction", () => {
+  const settings = DEFAULT_OCCUPANCY_SETTINGS;
+  const checkIn = new Date(2026, 2, 5, 9, 0);
+
+  it("checks in a member who is not inside", () => {
+    assert.deepEqual(getScanAction([], 1, settings, checkIn), {
+      action: "check_in",
+    });
+  });
+
+  it("ignores a second scan right after check-in", () => {
+    const open = visit(checkIn);
+    const soon = new Date(2026, 2, 5, 9, 2);
+    assert.deepEqual(getScanAction([open], 1, settings, soon), {
+      action: "already_inside",
+      visit: open,
+    });
+  });
+
+  it("checks out on a later scan", () => {
+    const open = visit(checkIn);
+    const later = new Date(2026, 2, 5, 10, 30);
+    assert.deepEqual(getScanAction([open], 1, settings, later), {
+      action: "check_out",
+      visit: open,
+    });
+  });
+
+  it("always checks in when second scans are not check-outs", () => {
+    const open = visit(checkIn);
+    const later = new Date(2026, 2, 5, 10, 30);
+    assert.deepEqual(
+      getScanAction(
+        [open],
+        1,
+        { ...settings, checkoutOnSecondScan: false },
+        later,
+      ),
+      { action: "check_in" },
+    );
+  });
+});
+
+describe("getVisitsToAutoClose", () => {
+  const settings = { ...DEFAULT_OCCUPANCY_SETTINGS, closingTime: "22:00" };
+
+  it("closes open visits at closing time once it has passed", () => {
+    const open = visit(new Date(2026, 2, 5, 18, 0));
+    assert.deepEqual(
+      getVisitsToAutoClose([open], settings, new Date(2026, 2, 5, 21, 59)),
+      [],
+    );
+    assert.deepEqual(
+      getVisitsToAutoClose([open], settings, new Date(2026, 2, 6, 8, 0)),
+      [{ visit: open, checkOutTime: "22:00:00" }],
+    );
+  });
+
+  it("closes a visit that began after closing at its own check-in", () => {
+    const late = visit(new Date(2026, 2, 5, 22, 30));
+    assert.deepEqual(
+      getVisitsToAutoClose([late], settings, new Date(2026, 2, 5, 23, 0)),
+      [{ visit: late, checkOutTime: "22:30:00" }],
+    );
+  });
+
+  it("leaves closed visits alone", () => {
+    const closed = visit(new Date(2026, 2, 5, 18, 0), {
+      check_out_time: "19:00:00",
+    });
+    assert.deepEqual(
+      getVisitsToAutoClose([closed], settings, new Date(2026, 2, 6, 8, 0)),
+      [],
+    );
+  });
+});
+
+describe("visit durations", () => {
+  it("measures visits, including ones past midnight", () => {
+    const day = new Date(2026, 2, 5, 9, 0);
+    assert.equal(getVisitDuration(visit(day)), null);
+    assert.equal(
+      getVisitDuration(visit(day, { check_out_time: "10:30:00" })),
+      90,
+    );
+    const night = new Date(2026, 2, 5, 23, 30);
+    assert.equal(
+      getVisitDuration(visit(night, { check_out_time: "00:15:00" })),
+      45,
+    );
+  });
+
+  it("averages completed visits, skipping ones closed at closing", () => {
+    const day = new Date(2026, 2, 5, 9, 0);
+    assert.equal(
+      getAverageVisitDuration([
+        visit(day, { check_out_time: "10:00:00" }),
+        visit(day, { check_out_time: "09:30:00" }),
+        visit(day, { check_out_time: "22:00:00", auto_checked_out: 1 }),
+        visit(day),
+      ]),
+      45,
+    );
+    assert.equal(getAverageVisitDuration([visit(day)]), null);
+  });
+
+  it("formats durations", () => {
+    assert.equal(formatDuration(45), "45m");
+    assert.equal(formatDuration(120), "2h");
+    assert.equal(formatDuration(135), "2h 15m");
+  });
+});
+
+describe("occupancy", () => {
+  it("lists who is inside, newest first", () => {
+    const first = visit(new Date(2026, 2, 5, 8, 0));
+    const second = visit(new Date(2026, 2, 5, 9, 0), { member_id: 2 });
+    const left = visit(new Date(2026, 2, 5, 7, 0), {
+      member_id: 3,
+      check_out_time: "07:45:00",
+    });
+    assert.deepEqual(getVisitsInside([first, left, second]), [second, first]);
+  });
+
+  it("reports how full the gym is", () => {
+    assert.equal(getCapacityStatus(50, 0), "ok");
+    assert.equal(getCapacityStatus(80, 100), "ok");
+    assert.equal(getCapacityStatus(90, 100), "near");
+    assert.equal(getCapacityStatus(100, 100), "full");
+    assert.equal(getCapacityStatus(101, 100), "over");
+  });
+});
@@ -0,0 +1,184 @@
+import type { Attendance } from "@/context/AppContext";
+
+/**
+ * Rules for turning scans into visits. A visit is an attendance row; it is
+ * open (the member is inside) until it gets a check-out time.
+ */
+export interface OccupancySettings {
+  /** Treat a second scan on the same day as a check-out. */
+  checkoutOnSecondScan: boolean;
+  /**
+   * A second scan sooner than this after check-in is ignored, so a card
+   * held against the scanner twice does not end the visit.
+   */
+  minVisitMinutes: number;
+  /** "HH:MM"; visits still open at this time are closed automatically. */
+  closingTime: string;
+  /** People allowed inside at once; 0 means no limit. */
+  capacity: number;
+}
+
+export const DEFAULT_OCCUPANCY_SETTINGS: OccupancySettings = {
+  checkoutOnSecondScan: true,
+  minVisitMinutes: 5,
+  closingTime: "22:00",
+  capacity: 0,
+};
+
+/** Share of capacity at which the dashboard starts warning. */
+const NEAR_CAPACITY_RATIO = 0.9;
+
+export type ScanAction =
+  | { action: "check_in" }
+  | { action: "check_out"; visit: Attendance }
+  | { action: "already_inside"; visit: Attendance };
+
+export type CapacityStatus = "ok" | "near" | "full" | "over";
+
+/** Local wall-clock time in the same "HH:MM:SS" form as attendance rows. */
+export function getLocalTime(date = new Date()): string {
+  return date.toTimeString().split(" ")[0];
+}
+
+/** Local calendar date in the "YYYY-MM-DD" form subscriptions use. */
+export function getLocalDate(date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Minutes since midnight for an "HH:MM" or "HH:MM:SS" time. */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((n) => parseInt(n, 10) || 0);
+  return hours * 60 + minutes;
+}
+
+export function isValidClosingTime(time: string): boolean {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  return !!match && parseInt(match[1], 10) < 24 && parseInt(match[2], 10) < 60;
+}
+
+export function isOpenVisit(visit: Attendance): boolean {
+  return !visit.check_out_time;
+}
+
+/**
+ * When the visit started. Rows store the UTC date but the local time, so
+ * the local day is whichever neighbour of the stored date maps back to it.
+ */
+export function getCheckInInstant(visit: Attendance): Date {
+  const stored = new Date(`${visit.date}T00:00:00Z`);
+  for (const shift of [0, 1, -1]) {
+    const day = new Date(stored.getTime() + shift * 24 * 60 * 60 * 1000);
+    const candidate = new Date(
+      `${day.toISOString().split("T")[0]}T${visit.time}`,
+    );
+    if (candidate.toISOString().split("T")[0] === visit.date) {
+      return candidate;
+    }
+  }
+  return new Date(`${visit.date}T${visit.time}`);
+}
+
+/**
+ * Everyone who has checked in and not yet out, newest first. Visits from
+ * earlier days are closed automatically, so these are all from today.
+ */
+export function getVisitsInside(attendance: Attendance[]): Attendance[] {
+  return attendance
+    .filter(isOpenVisit)
+    .sort(
+      (a, b) => getCheckInInstant(b).getTime() - getCheckInInstant(a).getTime(),
+    );
+}
+
+/** What a scan of this member's card should do right now. */
+export function getScanAction(
+  attendance: Attendance[],
+  memberId: number,
+  settings: OccupancySettings,
+  now = new Date(),
+): ScanAction {
+  if (!settings.checkoutOnSecondScan) return { action: "check_in" };
+
+  const visit = getVisitsInside(attendance).find(
+    (a) => a.member_id === memberId,
+  );
+  if (!visit) return { action: "check_in" };
+
+  const minutesInside =
+    (now.getTime() - getCheckInInstant(visit).getTime()) / 60000;
+  return minutesInside < settings.minVisitMinutes
+    ? { action: "already_inside", visit }
+    : { action: "check_out", visit };
+}
+
+/**
+ * Open visits whose day has reached closing time. Each is paired with the
+ * check-out time to record: closing time, or the check-in time for anyone
+ * who arrived after closing.
+ */
+export function getVisitsToAutoClose(
+  attendance: Attendance[],
+  settings: OccupancySettings,
+  now = new Date(),
+): { visit: Attendance; checkOutTime: string }[] {
+  const closingMinutes = toMinutes(settings.closingTime);
+
+  return attendance.filter(isOpenVisit).flatMap((visit) => {
+    const checkIn = getCheckInInstant(visit);
+    const closesAt = new Date(checkIn);
+    closesAt.setHours(
+      Math.floor(closingMinutes / 60),
+      closingMinutes % 60,
+      0,
+      0,
+    );
+    if (closesAt < checkIn) closesAt.setTime(checkIn.getTime());
+    if (now < closesAt) return [];
+    return [{ visit, checkOutTime: getLocalTime(closesAt) }];
+  });
+}
+
+/** Minutes between check-in and check-out, or null for an open visit. */
+export function getVisitDuration(visit: Attendance): number | null {
+  if (!visit.check_out_time) return null;
+  const minutes = toMinutes(visit.check_out_time) - toMinutes(visit.time);
+  // A visit that ran past midnight
+  return minutes < 0 ? minutes + 24 * 60 : minutes;
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/** Average length of completed visits, ignoring ones closed at closing. */
+export function getAverageVisitDuration(
+  attendance: Attendance[],
+): number | null {
+  const durations = attendance
+    .filter((a) => a.check_out_time && !a.auto_checked_out)
+    .map((a) => getVisitDuration(a) as number);
+  if (durations.length === 0) return null;
+  return Math.round(
+    durations.reduce((sum, d) => sum + d, 0) / durations.length,
+  );
+}
+
+export function getCapacityStatus(
+  inside: number,
+  capacity: number,
+): CapacityStatus {
+  if (capacity <= 0) return "ok";
+  if (inside > capacity) return "over";
+  if (inside === capacity) return "full";
+  return inside >= capacity * NEAR_CAPACITY_RATIO ? "near" : "ok";
+}
+
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map((n) => parseInt(n, 10) || 0);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, "0")} ${suffix}`;
+}
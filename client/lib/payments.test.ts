@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Sale } from "@/context/AppContext";
+import {
+  allocateTenders,
+  cashTender,
+  getPaymentGroupId,
+  getTenderTotal,
+  getTotalsByMethod,
+  validateTenders,
+  type Tender,
+} from "@/lib/payments";
+
+function sale(overrides: Partial<Sale> = {}): Sale {
+  return {
+    id: 1,
+    type: "session",
+    amount: 100,
+    date: "2026-03-10T09:00:00.000Z",
+    note: "",
+    payment_method: "cash",
+    reference_number: null,
+    payment_group: null,
+    shift_id: null,
+    reverses_sale_id: null,
+    correction_type: null,
+    correction_reason: null,
+    staff_id: null,
+    ...overrides,
+  };
+}
+
+const gcash = (amount: number, reference = "REF-1"): Tender => ({
+  method: "gcash",
+  amount,
+  reference,
+});
+
+describe("validateTenders", () => {
+  it("accepts tenders that cover the total exactly", () => {
+    assert.equal(validateTenders(cashTender(500), 500), null);
+    assert.equal(validateTenders([...cashTender(200), gcash(300)], 500), null);
+  });
+
+  it("ignores floating point noise in the total", () => {
+    assert.equal(validateTenders([...cashTender(0.1), gcash(0.2)], 0.3), null);
+  });
+
+  it("says what is wrong", () => {
+    assert.equal(validateTenders([], 500), "Add at least one payment method.");
+    assert.equal(
+      validateTenders(cashTender(0), 500),
+      "Each payment method needs an amount.",
+    );
+    assert.equal(
+      validateTenders([gcash(500, " ")], 500),
+      "Enter the GCash reference number.",
+    );
+    assert.equal(
+      validateTenders(cashTender(400), 500),
+      "Payments add up to ₱400 but ₱500 is due.",
+    );
+  });
+});
+
+describe("allocateTenders", () => {
+  it("splits tenders across charges in order", () => {
+    const tenders = [...cashTender(300), gcash(700)];
+    assert.deepEqual(allocateTenders(tenders, [500, 500]), [
+      [
+        { method: "cash", amount: 300, reference: "" },
+        { method: "gcash", amount: 200, reference: "REF-1" },
+      ],
+      [{ method: "gcash", amount: 500, reference: "REF-1" }],
+    ]);
+    // The caller's tenders are left as they were
+    assert.equal(getTenderTotal(tenders), 1000);
+  });
+});
+
+describe("sale groups and totals", () => {
+  it("groups the rows of a split payment under the first row", () => {
+    assert.equal(getPaymentGroupId(sale({ id: 4 })), 4);
+    assert.equal(getPaymentGroupId(sale({ id: 5, payment_group: 4 })), 4);
+  });
+
+  it("totals sales by payment method", () => {
+    assert.deepEqual(
+      getTotalsByMethod([
+        sale({ amount: 100 }),
+        sale({ amount: 250.5, payment_method: "gcash" }),
+        sale({ amount: -100 }),
+        sale({ amount: 0.1, payment_method: "gcash" }),
+      ]),
+      { cash: 0, gcash: 250.6 },
+    );
+  });
+});
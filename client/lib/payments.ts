@@ -0,0 +1,108 @@
+import type { Sale } from "@/context/AppContext";
+
+export type PaymentMethod = "cash" | "gcash" | "maya" | "card";
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "gcash",
+  "maya",
+  "card",
+];
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: "Cash",
+  gcash: "GCash",
+  maya: "Maya",
+  card: "Card",
+};
+
+/** One portion of a payment, taken with a single method. */
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;
+  reference: string;
+}
+
+/** Every method except cash leaves a transaction reference to reconcile. */
+export function requiresReference(method: PaymentMethod): boolean {
+  return method !== "cash";
+}
+
+export function cashTender(amount: number): Tender[] {
+  return [{ method: "cash", amount, reference: "" }];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getTenderTotal(tenders: Tender[]): number {
+  return roundCents(tenders.reduce((sum, t) => sum + t.amount, 0));
+}
+
+/**
+ * Returns a message describing what is wrong with the tenders for a
+ * payment of `total`, or null when they can be recorded.
+ */
+export function validateTenders(
+  tenders: Tender[],
+  total: number,
+): string | null {
+  if (tenders.length === 0) return "Add at least one payment method.";
+  if (tenders.some((t) => !(t.amount > 0))) {
+    return "Each payment method needs an amount.";
+  }
+  const missingRef = tenders.find(
+    (t) => requiresReference(t.method) && !t.reference.trim(),
+  );
+  if (missingRef) {
+    return `Enter the ${PAYMENT_METHOD_LABELS[missingRef.method]} reference number.`;
+  }
+  const paid = getTenderTotal(tenders);
+  if (paid !== roundCents(total)) {
+    return `Payments add up to ₱${paid} but ₱${roundCents(total)} is due.`;
+  }
+  return null;
+}
+
+/**
+ * Split one set of tenders across several charges paid together, e.g. the
+ * membership fee and first plan at registration. Tenders are consumed in
+ * order, so a tender may be divided between two charges.
+ */
+export function allocateTenders(
+  tenders: Tender[],
+  amounts: number[],
+): Tender[][] {
+  const remaining = tenders.map((t) => ({ ...t }));
+  return amounts.map((amount) => {
+    const portion: Tender[] = [];
+    let due = roundCents(amount);
+    for (const tender of remaining) {
+      if (due <= 0) break;
+      if (tender.amount <= 0) continue;
+      const take = roundCents(Math.min(due, tender.amount));
+      portion.push({ ...tender, amount: take });
+      tender.amount = roundCents(tender.amount - take);
+      due = roundCents(due - take);
+    }
+    return portion;
+  });
+}
+
+/**
+ * Sales grouped back into the payments they were taken as. Split
+ * payments are stored as one row per tender.
+ */
+export function getPaymentGroupId(sale: Sale): number {
+  return sale.payment_group ?? sale.id;
+}
+
+export function getTotalsByMethod(sales: Sale[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  sales.forEach((s) => {
+    const method = s.payment_method || "cash";
+    totals[method] = roundCents((totals[method] || 0) + s.amount);
+  });
+  return totals;
+}
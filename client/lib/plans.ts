@@ -0,0 +1,45 @@
+import type { Member, Plan } from "@/context/AppContext";
+
+export const PLAN_CATEGORY_LABELS: Record<Plan["category"], string> = {
+  any: "All Members",
+  student: "Student",
+  regular: "Regular",
+  senior: "Senior",
+};
+
+/**
+ * Returns the date a plan bought on `start` runs until.
+ */
+export function addPlanDuration(
+  start: Date,
+  plan: Pick<Plan, "duration_value" | "duration_unit">,
+): Date {
+  const end = new Date(start);
+  if (plan.duration_unit === "days") {
+    end.setDate(end.getDate() + plan.duration_value);
+  } else {
+    end.setMonth(end.getMonth() + plan.duration_value);
+  }
+  return end;
+}
+
+export function formatPlanDuration(plan: Plan): string {
+  const unit = plan.duration_unit === "days" ? "day" : "month";
+  return `${plan.duration_value} ${unit}${plan.duration_value === 1 ? "" : "s"}`;
+}
+
+/**
+ * Active plans a member of the given category may buy, cheapest first.
+ */
+export function getPlansForMember(
+  plans: Plan[],
+  membershipType: Member["membership_type"],
+): Plan[] {
+  return plans
+    .filter(
+      (p) =>
+        p.is_active === 1 &&
+        (p.category === "any" || p.category === membershipType),
+    )
+    .sort((a, b) => a.price - b.price);
+}
@@ -1,12 +1,27 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { SYNC_KEY_HEADER } from "@shared/sync";
 
 /**
- * OFFLINE MODE: Backend API disabled
- * App uses local SQLite database exclusively
+ * The app keeps all of its data in the local SQLite database. The only
+ * server it ever talks to is an optional LAN sync hub (the bundled Express
+ * server) that front desk devices share; until one is set up in Settings
+ * every request fails fast.
  */
+const REQUEST_TIMEOUT_MS = 15000;
+
+let hubUrl = "";
+let hubKey = "";
+
+export function setApiHub(url: string, key: string): void {
+  hubUrl = url.trim().replace(/\/+$/, "");
+  hubKey = key;
+}
+
 export function getApiUrl(): string {
-  console.warn("[API] App is running in OFFLINE mode. No backend API available.");
-  return ""; // Not used
+  if (!hubUrl) {
+    throw new Error("No sync hub is set up on this device.");
+  }
+  return hubUrl;
 }
 
 async function throwIfResNotOk(res: Response) {
@@ -16,17 +31,42 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
-/**
- * OFFLINE MODE: apiRequest is disabled
- * All data operations use local SQLite database via AppContext
- */
+async function hubFetch(
+  method: string,
+  route: string,
+  data?: unknown,
+): Promise<Response> {
+  const url = new URL(route, getApiUrl());
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, {
+      method,
+      headers: {
+        [SYNC_KEY_HEADER]: hubKey,
+        ...(data !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: data !== undefined ? JSON.stringify(data) : undefined,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`The sync hub at ${hubUrl} did not answer in time.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 export async function apiRequest(
   method: string,
   route: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  console.warn("[API] Attempted API call in offline mode:", method, route);
-  throw new Error("Offline mode: Backend API is disabled. Use local database instead.");
+  const res = await hubFetch(method, route, data);
+  await throwIfResNotOk(res);
+  return res;
 }
 
 type UnauthorizedBehavior = "returnNull" | "throw";
@@ -35,15 +75,14 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    // OFFLINE MODE: This function should not be called
-    // All queries should use AppContext with local database instead
-    console.error(
-      "[QueryClient] getQueryFn called in offline mode. This should not happen. queryKey:",
-      queryKey
-    );
-    throw new Error(
-      "Offline mode: Query functions should use AppContext with local SQLite database, not React Query with API calls."
-    );
+    const res = await hubFetch("GET", queryKey.join("/") as string);
+
+    if (unauthorizedBehavior === "returnNull" && res.status === 401) {
+      return null;
+    }
+
+    await throwIfResNotOk(res);
+    return await res.json();
   };
 
 export const queryClient = new QueryClient({
@@ -0,0 +1,34 @@
+import { getRandomValues } from "expo-crypto";
+import { toHex } from "@/lib/crypto";
+
+/**
+ * Random bytes from the platform CSPRNG. Hermes has no global `crypto`, so
+ * they come from expo-crypto; there is deliberately no weaker fallback, as
+ * salts, keys and recovery codes all depend on these.
+ */
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  try {
+    getRandomValues(bytes);
+  } catch (error) {
+    throw new Error(
+      `No secure random number generator is available: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return bytes;
+}
+
+/** A random (version 4) UUID, e.g. for records shared between devices. */
+export function randomUUID(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = toHex(bytes);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatRenewalStatus,
+  getRenewalContext,
+  quoteRenewal,
+} from "@/lib/renewal";
+
+const month = { duration_value: 1, duration_unit: "months" } as const;
+const tenDays = { duration_value: 10, duration_unit: "days" } as const;
+
+describe("getRenewalContext", () => {
+  it("starts today for members who never subscribed", () => {
+    assert.deepEqual(getRenewalContext(null, "2026-03-10", 7), {
+      status: "none",
+      daysRemaining: 0,
+      daysLapsed: 0,
+      defaultStart: "today",
+    });
+  });
+
+  it("continues from expiry while a period is running", () => {
+    assert.deepEqual(getRenewalContext("2026-03-10", "2026-03-10", 7), {
+      status: "active",
+      daysRemaining: 1,
+      daysLapsed: 0,
+      defaultStart: "expiry",
+    });
+  });
+
+  it("continues from expiry within the grace period", () => {
+    assert.deepEqual(getRenewalContext("2026-03-03", "2026-03-10", 7), {
+      status: "grace",
+      daysRemaining: 0,
+      daysLapsed: 7,
+      defaultStart: "expiry",
+    });
+  });
+
+  it("starts today once the grace period is over", () => {
+    assert.deepEqual(getRenewalContext("2026-03-02", "2026-03-10", 7), {
+      status: "lapsed",
+      daysRemaining: 0,
+      daysLapsed: 8,
+      defaultStart: "today",
+    });
+  });
+});
+
+describe("quoteRenewal", () => {
+  it("continues a period from its end date", () => {
+    assert.deepEqual(
+      quoteRenewal("2026-03-31", month, "expiry", "2026-03-20"),
+      {
+        start_date: "2026-03-31",
+        end_date: "2026-05-01",
+      },
+    );
+  });
+
+  it("starts today when asked to, or when there is no period", () => {
+    assert.deepEqual(
+      quoteRenewal("2026-03-31", tenDays, "today", "2026-03-20"),
+      {
+        start_date: "2026-03-20",
+        end_date: "2026-03-30",
+      },
+    );
+    assert.deepEqual(quoteRenewal(null, tenDays, "expiry", "2026-03-20"), {
+      start_date: "2026-03-20",
+      end_date: "2026-03-30",
+    });
+  });
+
+  it("keeps the calendar day in any time zone", () => {
+    try {
+      for (const zone of ["Asia/Manila", "America/Los_Angeles"]) {
+        process.env.TZ = zone;
+        assert.deepEqual(quoteRenewal(null, month, "today", "2026-03-15"), {
+          start_date: "2026-03-15",
+          end_date: "2026-04-15",
+        });
+      }
+    } finally {
+      delete process.env.TZ;
+    }
+  });
+});
+
+describe("formatRenewalStatus", () => {
+  it("describes each status", () => {
+    const at = (end: string | null) =>
+      formatRenewalStatus(getRenewalContext(end, "2026-03-10", 7));
+    assert.equal(at(null), "No subscription yet");
+    assert.equal(at("2026-03-10"), "Active, 1 day left");
+    assert.equal(at("2026-03-12"), "Active, 3 days left");
+    assert.equal(at("2026-03-09"), "Expired 1 day ago (in grace period)");
+    assert.equal(at("2026-03-01"), "Expired 9 days ago");
+  });
+});
@@ -0,0 +1,104 @@
+import type { Plan } from "@/context/AppContext";
+import { addPlanDuration } from "@/lib/plans";
+import { daysBetween } from "@/lib/subscriptions";
+
+/** Grace period used until the gym configures its own in Settings. */
+export const DEFAULT_RENEWAL_GRACE_DAYS = 7;
+
+/**
+ * Where a new period begins: on the day it is bought, or where the
+ * member's current period ends so no paid days are lost.
+ */
+export type RenewalStart = "today" | "expiry";
+
+export type RenewalDuration = Pick<Plan, "duration_value" | "duration_unit">;
+
+export type RenewalStatus = "none" | "active" | "grace" | "lapsed";
+
+export interface RenewalContext {
+  status: RenewalStatus;
+  /** Days left on the current period, counting today. 0 unless active. */
+  daysRemaining: number;
+  /** Days since the current period ended. 0 unless in grace or lapsed. */
+  daysLapsed: number;
+  /** The start staff should be offered first. */
+  defaultStart: RenewalStart;
+}
+
+export interface RenewalQuote {
+  start_date: string;
+  end_date: string;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Describe where a member stands relative to their current end date.
+ * Active members and members lapsed by no more than `graceDays` default
+ * to continuing from expiry; everyone else defaults to starting today.
+ */
+export function getRenewalContext(
+  currentEnd: string | null,
+  today: string,
+  graceDays: number,
+): RenewalContext {
+  if (!currentEnd) {
+    return {
+      status: "none",
+      daysRemaining: 0,
+      daysLapsed: 0,
+      defaultStart: "today",
+    };
+  }
+
+  const diff = daysBetween(today, currentEnd);
+  if (diff >= 0) {
+    return {
+      status: "active",
+      daysRemaining: diff + 1,
+      daysLapsed: 0,
+      defaultStart: "expiry",
+    };
+  }
+
+  const daysLapsed = -diff;
+  const inGrace = daysLapsed <= graceDays;
+  return {
+    status: inGrace ? "grace" : "lapsed",
+    daysRemaining: 0,
+    daysLapsed,
+    defaultStart: inGrace ? "expiry" : "today",
+  };
+}
+
+/**
+ * Dates for a new period of the given length. Continuing from expiry
+ * starts on the current end date, which keeps the periods contiguous;
+ * without a current end date it falls back to starting today.
+ */
+export function quoteRenewal(
+  currentEnd: string | null,
+  duration: RenewalDuration,
+  start: RenewalStart,
+  today: string,
+): RenewalQuote {
+  const startDate = start === "expiry" && currentEnd ? currentEnd : today;
+  // Noon UTC keeps the calendar day stable in any local time zone
+  const end = addPlanDuration(new Date(startDate + "T12:00:00Z"), duration);
+  return { start_date: startDate, end_date: toDateString(end) };
+}
+
+export function formatRenewalStatus(context: RenewalContext): string {
+  switch (context.status) {
+    case "active":
+      return `Active, ${context.daysRemaining} day${context.daysRemaining === 1 ? "" : "s"} left`;
+    case "grace":
+      return `Expired ${context.daysLapsed} day${context.daysLapsed === 1 ? "" : "s"} ago (in grace period)`;
+    case "lapsed":
+      return `Expired ${context.daysLapsed} days ago`;
+    default:
+      return "No subscription yet";
+  }
+}
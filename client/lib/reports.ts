@@ -0,0 +1,61 @@
+import { Platform, Alert } from "react-native";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system/legacy";
+
+export const SALE_TYPE_LABELS: Record<string, string> = {
+  membership_fee: "Membership Fee",
+  subscription: "Subscription",
+  freeze_fee: "Freeze Fee",
+  card_replacement: "Card Replacement",
+  monthly_student: "Monthly Subscription (Student)",
+  monthly_regular: "Monthly Subscription (Regular)",
+  monthly_senior: "Monthly Subscription (Senior)",
+  session_member: "Session Payment (Regular Member)",
+  session_member_senior: "Session Payment (Senior Member)",
+  session_nonmember: "Session Payment (Walk-in)",
+  session_nonmember_senior: "Session Payment (Senior Walk-in)",
+};
+
+/**
+ * Print a report on web, or render it to a PDF and open the share sheet
+ * on device. Without a share sheet the PDF is kept in the documents
+ * directory, and without a print service the raw HTML is kept instead.
+ */
+export async function exportHTMLAsPDF(
+  html: string,
+  fileName: string,
+): Promise<void> {
+  if (Platform.OS === "web") {
+    const printWindow = window.open("", "_blank");
+    if (printWindow) {
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.print();
+    }
+    return;
+  }
+
+  try {
+    const { uri } = await Print.printToFileAsync({ html });
+    const isSharingAvailable = await Sharing.isAvailableAsync();
+
+    if (isSharingAvailable) {
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/pdf",
+        UTI: "com.adobe.pdf",
+      });
+    } else {
+      const destPath = (FileSystem.documentDirectory || "") + `${fileName}.pdf`;
+      await FileSystem.copyAsync({ from: uri, to: destPath });
+      Alert.alert("Success", `PDF saved locally. File: ${fileName}.pdf`);
+    }
+  } catch {
+    const htmlPath = (FileSystem.documentDirectory || "") + `${fileName}.html`;
+    await FileSystem.writeAsStringAsync(htmlPath, html);
+    Alert.alert(
+      "PDF Unavailable",
+      `Print service not available offline. Report saved as HTML file: ${fileName}.html`,
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Keyboard-wedge barcode scanners (USB or Bluetooth HID) "type" the code
+ * followed by Enter, far faster than anyone types by hand. Keys are
+ * buffered while they keep arriving in a burst; Enter at the end of a long
+ * enough burst is a scan. Anything slower is someone typing and is dropped.
+ */
+export const MAX_KEY_GAP_MS = 50;
+// Shorter than any member card payload, including old `GYM-000123` cards
+export const MIN_SCAN_LENGTH = 6;
+
+export interface ScanBuffer {
+  /** Feed one key; returns the scanned code when Enter completes a burst. */
+  push: (key: string, at: number) => string | null;
+  reset: () => void;
+}
+
+export function createScanBuffer(): ScanBuffer {
+  let chars = "";
+  let lastKeyAt = 0;
+
+  const reset = () => {
+    chars = "";
+    lastKeyAt = 0;
+  };
+
+  const push = (key: string, at: number): string | null => {
+    const inBurst = chars.length > 0 && at - lastKeyAt <= MAX_KEY_GAP_MS;
+    lastKeyAt = at;
+
+    if (key === "Enter") {
+      const code = inBurst && chars.length >= MIN_SCAN_LENGTH ? chars : null;
+      chars = "";
+      return code;
+    }
+    // Modifiers and named keys (Shift, Tab, arrows) are not part of a code
+    if (key.length !== 1) return null;
+
+    chars = inBurst ? chars + key : key;
+    return null;
+  };
+
+  return { push, reset };
+}
+
+// A scan can arrive before the scan screen is showing, so the latest one
+// waits here until the screen mounts and takes it.
+let pendingScan: string | null = null;
+const listeners = new Set<() => void>();
+
+export function publishScan(data: string): void {
+  pendingScan = data;
+  listeners.forEach((listener) => listener());
+}
+
+export function takePendingScan(): string | null {
+  const data = pendingScan;
+  pendingScan = null;
+  return data;
+}
+
+export function subscribeToScans(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,189 @@
+import type { Sale, Shift } from "@/context/AppContext";
+import { getTotalsByMethod, PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { SALE_TYPE_LABELS } from "@/lib/reports";
+import {
+  CORRECTION_LABELS,
+  getCorrectionTotals,
+  isCorrection,
+} from "@/lib/corrections";
+
+export interface ShiftSummary {
+  sales: Sale[];
+  total: number;
+  salesByType: Record<string, number>;
+  salesByMethod: Record<string, number>;
+  /** Voids and refunds given during the shift, already netted above. */
+  corrections: Record<string, number>;
+  /** Cash the drawer should hold: the opening float plus cash taken. */
+  expectedCash: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** The shift currently taking sales. At most one shift is open at a time. */
+export function getOpenShift(shifts: Shift[]): Shift | undefined {
+  return shifts.find((s) => !s.closed_at);
+}
+
+export function summarizeShift(shift: Shift, allSales: Sale[]): ShiftSummary {
+  const sales = allSales.filter((s) => s.shift_id === shift.id);
+  const salesByType: Record<string, number> = {};
+  sales.forEach((s) => {
+    salesByType[s.type] = roundCents((salesByType[s.type] || 0) + s.amount);
+  });
+  const salesByMethod = getTotalsByMethod(sales);
+
+  return {
+    sales,
+    total: roundCents(sales.reduce((sum, s) => sum + s.amount, 0)),
+    salesByType,
+    salesByMethod,
+    corrections: getCorrectionTotals(sales),
+    expectedCash: roundCents(shift.opening_float + (salesByMethod.cash || 0)),
+  };
+}
+
+/**
+ * Counted minus expected cash for a closed shift; negative when the
+ * drawer is short. Null while the shift is still open.
+ */
+export function getCashVariance(shift: Shift): number | null {
+  if (shift.counted_cash === null || shift.expected_cash === null) return null;
+  return roundCents(shift.counted_cash - shift.expected_cash);
+}
+
+export function formatVariance(variance: number): string {
+  if (variance === 0) return "Balanced";
+  const amount = `₱${Math.abs(variance).toLocaleString()}`;
+  return variance > 0 ? `Over by ${amount}` : `Short by ${amount}`;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * End-of-shift Z-report. Expected cash and the count come from the
+ * closed shift row so the report reads the same when reprinted later.
+ */
+export function generateZReportHTML(
+  shift: Shift,
+  summary: ShiftSummary,
+): string {
+  const expected = shift.expected_cash ?? summary.expectedCash;
+  const variance = getCashVariance(shift);
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Z-Report - Powerlift Fitness Gym</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: Arial, sans-serif; padding: 20px; color: #333; }
+    .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #DC2626; padding-bottom: 20px; }
+    .header h1 { color: #DC2626; font-size: 24px; margin-bottom: 5px; }
+    .header p { color: #666; font-size: 12px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
+    th { background-color: #f5f5f5; font-weight: bold; color: #333; }
+    .total-row { font-weight: bold; background-color: #f0f0f0; }
+    .section-title { margin: 20px 0 10px; font-size: 16px; color: #333; }
+    .amount { text-align: right; }
+    .short { color: #DC2626; }
+    .over { color: #16A34A; }
+    .footer { margin-top: 30px; text-align: center; color: #999; font-size: 10px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>POWERLIFT FITNESS GYM</h1>
+    <p>Z-Report - Shift #${shift.id}</p>
+    <p>Staff: ${shift.staff_name}</p>
+    <p>Opened: ${formatDateTime(shift.opened_at)} | Closed: ${shift.closed_at ? formatDateTime(shift.closed_at) : "Still open"}</p>
+  </div>
+
+  <h2 class="section-title">Cash Drawer</h2>
+  <table>
+    <tbody>
+      <tr><td>Opening Float</td><td class="amount">P${shift.opening_float.toLocaleString()}</td></tr>
+      <tr><td>Cash Sales</td><td class="amount">P${(summary.salesByMethod.cash || 0).toLocaleString()}</td></tr>
+      <tr class="total-row"><td>Expected Cash</td><td class="amount">P${expected.toLocaleString()}</td></tr>
+      <tr><td>Counted Cash</td><td class="amount">${shift.counted_cash !== null ? `P${shift.counted_cash.toLocaleString()}` : "-"}</td></tr>
+      <tr class="total-row">
+        <td>Variance</td>
+        <td class="amount ${variance !== null && variance < 0 ? "short" : variance ? "over" : ""}">${variance !== null ? formatVariance(variance) : "-"}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Sales by Category</h2>
+  <table>
+    <thead>
+      <tr><th>Category</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${Object.entries(summary.salesByType)
+        .map(
+          ([type, amount]) => `
+        <tr>
+          <td>${SALE_TYPE_LABELS[type] || type}</td>
+          <td class="amount">P${amount.toLocaleString()}</td>
+        </tr>
+      `,
+        )
+        .join("")}
+      ${Object.entries(summary.corrections)
+        .map(
+          ([type, amount]) => `
+        <tr>
+          <td>Less ${CORRECTION_LABELS[type] || type}s (included above)</td>
+          <td class="amount">-P${amount.toLocaleString()}</td>
+        </tr>
+      `,
+        )
+        .join("")}
+      <tr class="total-row">
+        <td>TOTAL (${summary.sales.filter((s) => !isCorrection(s)).length} transactions)</td>
+        <td class="amount">P${summary.total.toLocaleString()}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Sales by Payment Method</h2>
+  <table>
+    <thead>
+      <tr><th>Method</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${Object.entries(summary.salesByMethod)
+        .map(
+          ([method, amount]) => `
+        <tr>
+          <td>${PAYMENT_METHOD_LABELS[method] || method}</td>
+          <td class="amount">P${amount.toLocaleString()}</td>
+        </tr>
+      `,
+        )
+        .join("")}
+    </tbody>
+  </table>
+
+  ${shift.closing_note ? `<h2 class="section-title">Note</h2><p>${shift.closing_note}</p>` : ""}
+
+  <div class="footer">
+    <p>Powerlift Fitness Gym - Developed by Rov - 2025</p>
+  </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,57 @@
+import type { Staff } from "@/context/AppContext";
+
+export type StaffRole = "owner" | "manager" | "front_desk";
+
+export const STAFF_ROLES: StaffRole[] = ["owner", "manager", "front_desk"];
+
+export const STAFF_ROLE_LABELS: Record<string, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  front_desk: "Front Desk",
+};
+
+export type Permission =
+  | "edit_prices"
+  | "delete_members"
+  | "restore_backups"
+  | "manage_staff";
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ["edit_prices", "delete_members", "restore_backups", "manage_staff"],
+  manager: ["edit_prices", "delete_members", "restore_backups"],
+  front_desk: [],
+};
+
+export const PERMISSION_DENIED_MESSAGES: Record<Permission, string> = {
+  edit_prices: "Only managers and owners can change prices.",
+  delete_members: "Only managers and owners can delete members.",
+  restore_backups: "Only managers and owners can restore backups.",
+  manage_staff: "Only owners can manage staff accounts.",
+};
+
+export function hasPermission(
+  staff: Staff | null,
+  permission: Permission,
+): boolean {
+  return !!staff && ROLE_PERMISSIONS[staff.role].includes(permission);
+}
+
+export function getActiveStaff(staff: Staff[]): Staff[] {
+  return staff.filter((s) => s.is_active === 1);
+}
+
+/**
+ * Returns a message describing what is wrong with a new or changed PIN,
+ * or null when it can be saved. Staff pick their name before entering a
+ * PIN, so two people may share one.
+ */
+export function validateStaffPin(pin: string): string | null {
+  if (!/^\d{4}$/.test(pin)) return "PIN must be 4 digits";
+  return null;
+}
+
+/** Name shown against sales, visits and edits; blank for old records. */
+export function getStaffName(staff: Staff[], staffId: number | null): string {
+  if (staffId === null) return "";
+  return staff.find((s) => s.id === staffId)?.name ?? `Staff #${staffId}`;
+}
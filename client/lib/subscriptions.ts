@@ -0,0 +1,179 @@
+import type { Subscription } from "@/context/AppContext";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days after a period ends in which a new period still counts as a renewal. */
+export const RETENTION_GRACE_DAYS = 7;
+
+function toDay(date: string): number {
+  return new Date(date + "T00:00:00Z").getTime();
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toDay(to) - toDay(from)) / DAY_MS);
+}
+
+/**
+ * A member's periods in chronological order.
+ */
+export function getMemberSubscriptions(
+  subscriptions: Subscription[],
+  memberId: number,
+): Subscription[] {
+  return subscriptions
+    .filter((s) => s.member_id === memberId)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id - b.id);
+}
+
+/**
+ * The latest period for a member, i.e. the one that ends last.
+ */
+export function getLatestSubscription(
+  memberSubscriptions: Subscription[],
+): Subscription | undefined {
+  return memberSubscriptions.reduce<Subscription | undefined>(
+    (latest, s) => (!latest || s.end_date > latest.end_date ? s : latest),
+    undefined,
+  );
+}
+
+/**
+ * Derive the member's displayed start/end dates from their history.
+ * The end is the last paid day; the start is where the unbroken run of
+ * periods leading up to it began, so early renewals don't reset it.
+ */
+export function deriveSubscriptionDates(memberSubscriptions: Subscription[]): {
+  subscription_start: string | null;
+  subscription_end: string | null;
+} {
+  const latest = getLatestSubscription(memberSubscriptions);
+  if (!latest) {
+    return { subscription_start: null, subscription_end: null };
+  }
+
+  let start = latest.start_date;
+  const byEndDesc = [...memberSubscriptions].sort((a, b) =>
+    b.end_date.localeCompare(a.end_date),
+  );
+  for (const s of byEndDesc) {
+    if (s.start_date < start && daysBetween(s.end_date, start) <= 1) {
+      start = s.start_date;
+    }
+  }
+
+  return { subscription_start: start, subscription_end: latest.end_date };
+}
+
+/**
+ * Gaps between consecutive periods, keyed by the id of the period that
+ * ended the gap. Used to mark lapses on the member timeline.
+ */
+export function getLapses(
+  memberSubscriptions: Subscription[],
+): Record<number, number> {
+  const lapses: Record<number, number> = {};
+  let coveredUntil: string | null = null;
+  for (const s of memberSubscriptions) {
+    if (coveredUntil) {
+      const gap = daysBetween(coveredUntil, s.start_date) - 1;
+      if (gap > 0) lapses[s.id] = gap;
+    }
+    if (!coveredUntil || s.end_date > coveredUntil) coveredUntil = s.end_date;
+  }
+  return lapses;
+}
+
+/**
+ * Total days a member has been covered by a subscription up to `today`,
+ * counting overlapping periods once.
+ */
+export function getTenureDays(
+  memberSubscriptions: Subscription[],
+  today: string,
+): number {
+  let total = 0;
+  let coveredUntil: string | null = null;
+  for (const s of memberSubscriptions) {
+    if (s.start_date > today) break;
+    const end = s.end_date < today ? s.end_date : today;
+    const from =
+      coveredUntil && coveredUntil >= s.start_date ? coveredUntil : null;
+    if (from) {
+      if (end > from) total += daysBetween(from, end);
+    } else {
+      total += daysBetween(s.start_date, end) + 1;
+    }
+    if (!coveredUntil || end > coveredUntil) coveredUntil = end;
+  }
+  return total;
+}
+
+export interface RetentionStats {
+  due: number;
+  renewed: number;
+  lapsed: number;
+  pending: number;
+  rate: number | null;
+}
+
+/**
+ * Retention for members whose coverage ran out between `start` and `end`.
+ * A member counts as renewed if another period starts no later than
+ * RETENTION_GRACE_DAYS after the expiry, as pending if that window is
+ * still open, and as lapsed otherwise.
+ */
+export function computeRetention(
+  subscriptions: Subscription[],
+  start: string,
+  end: string,
+  today: string,
+): RetentionStats {
+  const byMember = new Map<number, Subscription[]>();
+  for (const s of subscriptions) {
+    const list = byMember.get(s.member_id) ?? [];
+    list.push(s);
+    byMember.set(s.member_id, list);
+  }
+
+  const stats: RetentionStats = {
+    due: 0,
+    renewed: 0,
+    lapsed: 0,
+    pending: 0,
+    rate: null,
+  };
+
+  byMember.forEach((periods) => {
+    for (const period of periods) {
+      if (period.end_date < start || period.end_date > end) continue;
+      // Ignore expiries already covered by a longer, overlapping period
+      const coveredPast = periods.some(
+        (p) =>
+          p !== period &&
+          p.start_date <= period.end_date &&
+          p.end_date > period.end_date &&
+          p.start_date <= period.start_date,
+      );
+      if (coveredPast) continue;
+
+      stats.due += 1;
+      const renewed = periods.some(
+        (p) =>
+          p !== period &&
+          p.start_date > period.start_date &&
+          daysBetween(period.end_date, p.start_date) <= RETENTION_GRACE_DAYS,
+      );
+      if (renewed) {
+        stats.renewed += 1;
+      } else if (daysBetween(period.end_date, today) <= RETENTION_GRACE_DAYS) {
+        stats.pending += 1;
+      } else {
+        stats.lapsed += 1;
+      }
+    }
+  });
+
+  const decided = stats.renewed + stats.lapsed;
+  stats.rate = decided > 0 ? Math.round((stats.renewed / decided) * 100) : null;
+  return stats;
+}
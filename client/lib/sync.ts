@@ -0,0 +1,423 @@
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system/legacy";
+import * as database from "@/lib/database";
+import { apiRequest } from "@/lib/query-client";
+import {
+  SYNC_BATCH_SIZE,
+  type SyncChangesResponse,
+  type SyncPushResponse,
+  type SyncSale,
+  type SyncTable,
+} from "@shared/sync";
+import {
+  fromSyncAttendance,
+  fromSyncCardReissue,
+  fromSyncFreeze,
+  fromSyncSale,
+  fromSyncSubscription,
+  getChangedRecords,
+  getMemberPullAction,
+  getSaleLinks,
+  incomingWins,
+  toSyncAttendance,
+  toSyncCardReissue,
+  toSyncFreeze,
+  toSyncMember,
+  toSyncPrices,
+  toSyncSale,
+  toSyncSubscription,
+  type LocalIds,
+  type LocalUuids,
+} from "@/lib/syncRecords";
+
+/**
+ * Two-way sync between this device and the LAN hub. Local changes made
+ * since the last push go up first, then everything the hub received since
+ * the last pull comes down, and the newer copy of each record wins (see
+ * shared/sync.ts).
+ *
+ * Deleted records are soft-deleted and travel like any other change.
+ * What is sent and kept is decided in syncRecords; this module makes the
+ * requests and writes the results.
+ */
+
+/** How often a device with a hub set up syncs while the app is open. */
+export const AUTO_SYNC_INTERVAL_MS = 60 * 1000;
+
+/** Member photos from other desks and from restored backup archives. */
+export const PHOTO_DIR = `${FileSystem.documentDirectory}member-photos/`;
+
+export interface SyncSummary {
+  pushed: number;
+  pulled: number;
+  /** Local edits the hub already had a newer copy of. */
+  conflicts: number;
+}
+
+async function readPhoto(uri: string | null): Promise<string | null> {
+  if (!uri) return null;
+  if (uri.startsWith("data:")) return uri.split(",")[1] ?? null;
+  if (Platform.OS === "web") return null;
+  try {
+    return await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  } catch (error) {
+    console.warn("[Sync] Could not read member photo:", uri, error);
+    return null;
+  }
+}
+
+/** Downloads a member's photo from the hub and returns a local URI for it. */
+async function fetchPhoto(uuid: string): Promise<string | null> {
+  try {
+    const res = await apiRequest("GET", `/api/photos/${uuid}`);
+    const { data } = (await res.json()) as { data: string };
+    if (Platform.OS === "web") return `data:image/jpeg;base64,${data}`;
+    await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true });
+    // A fresh name each time, so the image cache never shows an old
+    // photo; pull deletes the file this one replaces
+    const uri = `${PHOTO_DIR}${uuid}-${Date.now()}.jpg`;
+    await FileSystem.writeAsStringAsync(uri, data, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return uri;
+  } catch (error) {
+    console.warn("[Sync] Could not download member photo:", uuid, error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a photo file an earlier pull or restore left behind once the
+ * member points at a newer one. Photos elsewhere belong to the camera
+ * flow and are left alone.
+ */
+async function deleteReplacedPhoto(uri: string | null): Promise<void> {
+  if (!uri?.startsWith(PHOTO_DIR)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.warn("[Sync] Could not delete old member photo:", uri, error);
+  }
+}
+
+async function pushRecords<T>(
+  table: SyncTable,
+  records: T[],
+): Promise<SyncPushResponse> {
+  const total: SyncPushResponse = { revision: 0, accepted: 0, stale: 0 };
+  for (let i = 0; i < records.length; i += SYNC_BATCH_SIZE) {
+    const res = await apiRequest("POST", `/api/${table}`, {
+      records: records.slice(i, i + SYNC_BATCH_SIZE),
+    });
+    const result = (await res.json()) as SyncPushResponse;
+    total.revision = result.revision;
+    total.accepted += result.accepted;
+    total.stale += result.stale;
+  }
+  return total;
+}
+
+async function push(
+  deviceId: string,
+  since: string,
+): Promise<{ pushed: number; conflicts: number }> {
+  const [
+    members,
+    attendance,
+    sales,
+    subscriptions,
+    freezes,
+    cardReissues,
+    plans,
+    prices,
+  ] = await Promise.all([
+    database.getAllMembers({ includeDeleted: true }),
+    database.getAllAttendance({ includeDeleted: true }),
+    database.getAllSales({ includeDeleted: true }),
+    database.getAllSubscriptions({ includeDeleted: true }),
+    database.getAllFreezes({ includeDeleted: true }),
+    database.getAllCardReissues({ includeDeleted: true }),
+    database.getAllPlans(),
+    database.getPriceSettings(),
+  ]);
+  const uuids: LocalUuids = {
+    members: new Map(members.map((m) => [m.id, m.uuid])),
+    plans: new Map(plans.map((p) => [p.id, p.uuid])),
+    sales: new Map(sales.map((s) => [s.id, s.uuid])),
+  };
+  const changedMembers = getChangedRecords(members, since);
+  for (const member of changedMembers) {
+    if (member.deleted_at) continue;
+    const data = await readPhoto(member.photo);
+    if (data) {
+      await apiRequest("PUT", `/api/photos/${member.uuid}`, { data });
+    }
+  }
+
+  const results = [
+    await pushRecords(
+      "members",
+      changedMembers.map((m) => toSyncMember(m, deviceId)),
+    ),
+    await pushRecords(
+      "attendance",
+      getChangedRecords(attendance, since).flatMap(
+        (a) => toSyncAttendance(a, uuids, deviceId) ?? [],
+      ),
+    ),
+    await pushRecords(
+      "sales",
+      getChangedRecords(sales, since).map((s) =>
+        toSyncSale(s, uuids, deviceId),
+      ),
+    ),
+    await pushRecords(
+      "subscriptions",
+      getChangedRecords(subscriptions, since).flatMap(
+        (s) => toSyncSubscription(s, uuids, deviceId) ?? [],
+      ),
+    ),
+    await pushRecords(
+      "freezes",
+      getChangedRecords(freezes, since).flatMap(
+        (f) => toSyncFreeze(f, uuids, deviceId) ?? [],
+      ),
+    ),
+    await pushRecords(
+      "card_reissues",
+      getChangedRecords(cardReissues, since).flatMap(
+        (r) => toSyncCardReissue(r, uuids, deviceId) ?? [],
+      ),
+    ),
+  ];
+
+  if (getChangedRecords([prices], since).length > 0) {
+    const res = await apiRequest(
+      "PUT",
+      "/api/prices",
+      toSyncPrices(prices, deviceId),
+    );
+    results.push((await res.json()) as SyncPushResponse);
+  }
+
+  return {
+    pushed: results.reduce((sum, r) => sum + r.accepted, 0),
+    conflicts: results.reduce((sum, r) => sum + r.stale, 0),
+  };
+}
+
+async function fetchChanges(
+  since: number,
+): Promise<Omit<SyncChangesResponse, "hasMore">> {
+  const changes: Omit<SyncChangesResponse, "hasMore"> = {
+    revision: since,
+    members: [],
+    attendance: [],
+    sales: [],
+    subscriptions: [],
+    freezes: [],
+    card_reissues: [],
+    prices: null,
+  };
+  for (;;) {
+    const res = await apiRequest(
+      "GET",
+      `/api/sync/changes?since=${changes.revision}`,
+    );
+    const page = (await res.json()) as SyncChangesResponse;
+    changes.members.push(...page.members);
+    changes.attendance.push(...page.attendance);
+    changes.sales.push(...page.sales);
+    changes.subscriptions.push(...page.subscriptions);
+    changes.freezes.push(...page.freezes);
+    changes.card_reissues.push(...page.card_reissues);
+    changes.prices = page.prices ?? changes.prices;
+    changes.revision = page.revision;
+    if (!page.hasMore) return changes;
+  }
+}
+
+async function pull(since: number): Promise<number> {
+  const changes = await fetchChanges(since);
+  let pulled = 0;
+  let skipped = 0;
+
+  const members = await database.getAllMembers({ includeDeleted: true });
+  const membersByUuid = new Map(members.map((m) => [m.uuid, m]));
+  for (const { device_id: deviceId, ...record } of changes.members) {
+    const local = membersByUuid.get(record.uuid);
+    if (local && !incomingWins(record, local)) continue;
+    const photo = record.deleted_at ? null : await fetchPhoto(record.uuid);
+    const action = getMemberPullAction(record, local, photo);
+    if (action === "update" && local) {
+      await database.updateMemberById(local.id, {
+        ...record,
+        hub_updated_at: record.updated_at,
+        ...(photo ? { photo } : {}),
+      });
+      if (photo && photo !== local.photo) {
+        await deleteReplacedPhoto(local.photo);
+      }
+    } else if (action === "insert" && photo) {
+      await database.insertMember({
+        ...record,
+        origin_device_id: deviceId,
+        hub_updated_at: record.updated_at,
+        photo,
+        qr_image_path: null,
+      });
+    } else {
+      if (action === "retry") {
+        console.warn("[Sync] Skipping member without a photo:", record.uuid);
+        skipped++;
+      }
+      continue;
+    }
+    pulled++;
+  }
+
+  const sales = await database.getAllSales({ includeDeleted: true });
+  const ids: LocalIds = {
+    members: new Map(
+      (await database.getAllMembers({ includeDeleted: true })).map((m) => [
+        m.uuid,
+        m.id,
+      ]),
+    ),
+    plans: new Map((await database.getAllPlans()).map((p) => [p.uuid, p.id])),
+    sales: new Map(sales.map((s) => [s.uuid, s.id])),
+  };
+
+  const attendance = await database.getAllAttendance({ includeDeleted: true });
+  const attendanceByUuid = new Map(attendance.map((a) => [a.uuid, a]));
+  for (const record of changes.attendance) {
+    const row = fromSyncAttendance(record, ids);
+    const local = attendanceByUuid.get(record.uuid);
+    if (!row || (local && !incomingWins(record, local))) continue;
+    if (local) {
+      await database.updateAttendanceById(local.id, row);
+    } else {
+      await database.insertAttendance({ ...row, staff_id: null });
+    }
+    pulled++;
+  }
+
+  const salesByUuid = new Map(sales.map((s) => [s.uuid, s]));
+  const applied: SyncSale[] = [];
+  for (const record of changes.sales) {
+    const local = salesByUuid.get(record.uuid);
+    if (local && !incomingWins(record, local)) continue;
+    const row = fromSyncSale(record);
+    if (local) {
+      await database.updateSaleById(local.id, row);
+    } else {
+      const id = await database.insertSale({
+        ...row,
+        payment_group: null,
+        reverses_sale_id: null,
+        shift_id: null,
+        staff_id: null,
+      });
+      ids.sales.set(record.uuid, id);
+    }
+    applied.push(record);
+    pulled++;
+  }
+  for (const record of applied) {
+    await database.updateSaleById(ids.sales.get(record.uuid)!, {
+      ...getSaleLinks(record, ids),
+      updated_at: record.updated_at,
+    });
+  }
+
+  // Member status, renewals and freezes are worked out from these, so
+  // they follow the member to every desk
+  const subscriptions = await database.getAllSubscriptions({
+    includeDeleted: true,
+  });
+  const subscriptionsByUuid = new Map(subscriptions.map((s) => [s.uuid, s]));
+  for (const record of changes.subscriptions) {
+    const row = fromSyncSubscription(record, ids);
+    const local = subscriptionsByUuid.get(record.uuid);
+    if (!row || (local && !incomingWins(record, local))) continue;
+    if (local) {
+      await database.updateSubscriptionById(local.id, row);
+    } else {
+      await database.insertSubscription(row);
+    }
+    pulled++;
+  }
+
+  const freezes = await database.getAllFreezes({ includeDeleted: true });
+  const freezesByUuid = new Map(freezes.map((f) => [f.uuid, f]));
+  for (const record of changes.freezes) {
+    const row = fromSyncFreeze(record, ids);
+    const local = freezesByUuid.get(record.uuid);
+    if (!row || (local && !incomingWins(record, local))) continue;
+    if (local) {
+      await database.updateFreezeById(local.id, row);
+    } else {
+      await database.insertFreeze(row);
+    }
+    pulled++;
+  }
+
+  // A card replaced on another desk is then reported as revoked here too
+  const cardReissues = await database.getAllCardReissues({
+    includeDeleted: true,
+  });
+  const cardReissuesByUuid = new Map(cardReissues.map((r) => [r.uuid, r]));
+  for (const record of changes.card_reissues) {
+    const row = fromSyncCardReissue(record, ids);
+    const local = cardReissuesByUuid.get(record.uuid);
+    if (!row || (local && !incomingWins(record, local))) continue;
+    if (local) {
+      await database.updateCardReissueById(local.id, row);
+    } else {
+      await database.insertCardReissue({ ...row, staff_id: null });
+    }
+    pulled++;
+  }
+
+  if (changes.prices) {
+    const prices = await database.getPriceSettings();
+    if (incomingWins(changes.prices, prices)) {
+      const { device_id: _device, ...record } = changes.prices;
+      await database.updatePriceSettingsDB({
+        ...record,
+        hub_updated_at: record.updated_at,
+      });
+      pulled++;
+    }
+  }
+
+  // Anything skipped is pulled again next time rather than lost
+  if (skipped === 0) {
+    await database.updateAppSettings({ sync_revision: changes.revision });
+  }
+  return pulled;
+}
+
+/**
+ * Runs one push and pull against the hub set up in Settings. Throws with a
+ * message for the desk when the hub cannot be reached or rejects the key.
+ */
+export async function syncWithHub(deviceId: string): Promise<SyncSummary> {
+  const settings = await database.getAppSettings();
+  // Changes made while this runs are pushed next time
+  const startedAt = new Date().toISOString();
+
+  const { pushed, conflicts } = await push(
+    deviceId,
+    settings.sync_pushed_at ?? "",
+  );
+  await database.updateAppSettings({ sync_pushed_at: startedAt });
+  const pulled = await pull(settings.sync_revision ?? 0);
+  await database.updateAppSettings({
+    last_synced_at: new Date().toISOString(),
+  });
+
+  return { pushed, pulled, conflicts };
+}
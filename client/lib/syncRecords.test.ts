@@ -0,0 +1,240 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  DBAttendance,
+  DBCardReissue,
+  DBMember,
+  DBSale,
+} from "@/lib/database";
+import {
+  fromSyncAttendance,
+  fromSyncCardReissue,
+  fromSyncSubscription,
+  getChangedRecords,
+  getMemberPullAction,
+  getSaleLinks,
+  incomingWins,
+  toSyncAttendance,
+  toSyncCardReissue,
+  toSyncSale,
+  type LocalIds,
+  type LocalUuids,
+} from "@/lib/syncRecords";
+
+const stamp = (uuid: string, updatedAt: string) => ({
+  uuid,
+  created_at: "2026-03-01T00:00:00.000Z",
+  updated_at: updatedAt,
+  deleted_at: null,
+  hub_updated_at: null,
+});
+
+function sale(id: number, overrides: Partial<DBSale> = {}): DBSale {
+  return {
+    ...stamp(`sale-${id}`, "2026-03-10T09:00:00.000Z"),
+    id,
+    type: "membership",
+    amount: 1000,
+    date: "2026-03-10T09:00:00.000Z",
+    note: null,
+    payment_method: "cash",
+    reference_number: null,
+    payment_group: null,
+    shift_id: null,
+    reverses_sale_id: null,
+    correction_type: null,
+    correction_reason: null,
+    staff_id: null,
+    ...overrides,
+  };
+}
+
+function visit(id: number, memberId: number): DBAttendance {
+  return {
+    ...stamp(`visit-${id}`, "2026-03-10T09:00:00.000Z"),
+    id,
+    member_id: memberId,
+    date: "2026-03-10",
+    time: "09:00:00",
+    staff_id: 4,
+    check_out_time: null,
+    auto_checked_out: 0,
+    entry_method: "scan",
+  };
+}
+
+const noIds = (): LocalIds => ({
+  members: new Map(),
+  plans: new Map(),
+  sales: new Map(),
+});
+
+describe("what a push sends", () => {
+  const since = "2026-03-10T00:00:00.000Z";
+
+  it("sends rows changed since the last push", () => {
+    const before = stamp("a", "2026-03-09T23:00:00.000Z");
+    const after = stamp("b", "2026-03-10T08:00:00.000Z");
+    assert.deepEqual(getChangedRecords([before, after], since), [after]);
+  });
+
+  it("does not send back a copy just pulled from the hub", () => {
+    const pulled = {
+      ...stamp("a", "2026-03-10T08:00:00.000Z"),
+      hub_updated_at: "2026-03-10T08:00:00.000Z",
+    };
+    const editedSince = { ...pulled, updated_at: "2026-03-10T08:05:00.000Z" };
+    assert.deepEqual(getChangedRecords([pulled, editedSince], since), [
+      editedSince,
+    ]);
+  });
+
+  it("sends links as uuids and leaves out rows of unknown members", () => {
+    const uuids: LocalUuids = {
+      members: new Map([[1, "member-1"]]),
+      plans: new Map(),
+      sales: new Map([
+        [5, "sale-5"],
+        [6, "sale-6"],
+      ]),
+    };
+    const refund = sale(7, {
+      amount: -200,
+      payment_group: 6,
+      reverses_sale_id: 5,
+      correction_type: "refund",
+    });
+    const sent = toSyncSale(refund, uuids, "desk-a");
+    assert.equal(sent.payment_group_uuid, "sale-6");
+    assert.equal(sent.reverses_sale_uuid, "sale-5");
+    assert.equal(sent.device_id, "desk-a");
+
+    assert.equal(
+      toSyncAttendance(visit(1, 1), uuids, "desk-a")?.member_uuid,
+      "member-1",
+    );
+    assert.equal(toSyncAttendance(visit(2, 9), uuids, "desk-a"), null);
+  });
+});
+
+describe("what a pull keeps", () => {
+  it("keeps the local copy on a tie", () => {
+    const local = { updated_at: "2026-03-10T08:00:00.000Z" };
+    assert.equal(incomingWins({ updated_at: local.updated_at }, local), false);
+    assert.equal(
+      incomingWins({ updated_at: "2026-03-10T08:00:01.000Z" }, local),
+      true,
+    );
+  });
+
+  it("relinks a split payment and its refund to this desk's ids", () => {
+    // Ids on the desk that made the sales differ from the ones here
+    const uuids: LocalUuids = {
+      members: new Map(),
+      plans: new Map(),
+      sales: new Map([
+        [1, "cash-part"],
+        [2, "gcash-part"],
+        [3, "refund"],
+      ]),
+    };
+    const gcash = toSyncSale(sale(2, { payment_group: 1 }), uuids, "desk-a");
+    const refund = toSyncSale(
+      sale(3, { amount: -400, reverses_sale_id: 1, correction_type: "void" }),
+      uuids,
+      "desk-a",
+    );
+    const ids = noIds();
+    ids.sales.set("cash-part", 40);
+    ids.sales.set("gcash-part", 41);
+    ids.sales.set("refund", 42);
+    assert.deepEqual(getSaleLinks(gcash, ids), {
+      payment_group: 40,
+      reverses_sale_id: null,
+    });
+    assert.deepEqual(getSaleLinks(refund, ids), {
+      payment_group: null,
+      reverses_sale_id: 40,
+    });
+  });
+
+  it("relinks subscriptions and waits for their member", () => {
+    const record = {
+      ...stamp("sub-1", "2026-03-10T09:00:00.000Z"),
+      device_id: "desk-a",
+      member_uuid: "member-1",
+      plan_uuid: "plan-gone",
+      start_date: "2026-03-10",
+      end_date: "2026-04-10",
+      amount_paid: 1000,
+      sale_uuid: "sale-1",
+    };
+    assert.equal(fromSyncSubscription(record, noIds()), null);
+
+    const ids = noIds();
+    ids.members.set("member-1", 12);
+    ids.sales.set("sale-1", 30);
+    const row = fromSyncSubscription(record, ids);
+    assert.equal(row?.member_id, 12);
+    assert.equal(row?.sale_id, 30);
+    assert.equal(row?.plan_id, null);
+    // Stored at the hub's version, so the next push leaves it out
+    assert.equal(row?.hub_updated_at, record.updated_at);
+  });
+
+  it("stores pulled visits at the hub's version", () => {
+    const ids = noIds();
+    ids.members.set("member-1", 3);
+    const uuids: LocalUuids = {
+      members: new Map([[1, "member-1"]]),
+      plans: new Map(),
+      sales: new Map(),
+    };
+    const sent = toSyncAttendance(visit(1, 1), uuids, "desk-a")!;
+    const row = fromSyncAttendance(sent, ids)!;
+    assert.equal(row.member_id, 3);
+    assert.deepEqual(getChangedRecords([row], ""), []);
+  });
+
+  it("relinks reissues and keeps the code they replaced", () => {
+    const uuids: LocalUuids = {
+      members: new Map([[1, "member-1"]]),
+      plans: new Map(),
+      sales: new Map([[5, "sale-5"]]),
+    };
+    const reissue: DBCardReissue = {
+      ...stamp("reissue-1", "2026-03-10T09:00:00.000Z"),
+      id: 1,
+      member_id: 1,
+      card_version: 2,
+      reason: "lost",
+      fee: 100,
+      sale_id: 5,
+      staff_id: 4,
+      replaced_qr_code: "GYMQ1.1.1.abc123",
+    };
+    const sent = toSyncCardReissue(reissue, uuids, "desk-a")!;
+    const ids = noIds();
+    ids.members.set("member-1", 7);
+    ids.sales.set("sale-5", 30);
+    const row = fromSyncCardReissue(sent, ids);
+    assert.equal(row?.member_id, 7);
+    assert.equal(row?.sale_id, 30);
+    assert.equal(row?.replaced_qr_code, "GYMQ1.1.1.abc123");
+    assert.equal(fromSyncCardReissue(sent, noIds()), null);
+  });
+
+  it("skips new members until their photo arrives", () => {
+    const local = { id: 1 } as DBMember;
+    const live = { deleted_at: null };
+    const deleted = { deleted_at: "2026-03-10T09:00:00.000Z" };
+    assert.equal(
+      getMemberPullAction(live, undefined, "file:///a.jpg"),
+      "insert",
+    );
+    assert.equal(getMemberPullAction(live, undefined, null), "retry");
+    assert.equal(getMemberPullAction(deleted, undefined, null), "ignore");
+    // Known members are updated and keep their photo when none came
+    assert.equal(getMemberPullAction(live, local, null), "update");
+  });
+});
@@ -0,0 +1,357 @@
+import type {
+  DBAttendance,
+  DBCardReissue,
+  DBFreeze,
+  DBMember,
+  DBPriceSettings,
+  DBSale,
+  DBSubscription,
+} from "@/lib/database";
+import type {
+  SyncAttendance,
+  SyncCardReissue,
+  SyncFreeze,
+  SyncMember,
+  SyncPrices,
+  SyncSale,
+  SyncSubscription,
+} from "@shared/sync";
+
+/**
+ * The rows sync sends and receives, and which of them it sends or keeps.
+ * Records travel with uuids in place of local ids, so every link is
+ * turned into the other desk's id on the way in (see lib/sync for the
+ * requests themselves).
+ */
+
+type HubVersioned = { updated_at: string; hub_updated_at: string | null };
+
+/** Local ids of linked records by their uuid. */
+export interface LocalIds {
+  members: Map<string, number>;
+  plans: Map<string, number>;
+  sales: Map<string, number>;
+}
+
+/** Uuids of linked records by their local id. */
+export interface LocalUuids {
+  members: Map<number, string>;
+  plans: Map<number, string>;
+  sales: Map<number, string>;
+}
+
+function uuidOf(uuids: Map<number, string>, id: number | null): string | null {
+  return id !== null ? (uuids.get(id) ?? null) : null;
+}
+
+function idOf(ids: Map<string, number>, uuid: string | null): number | null {
+  return uuid ? (ids.get(uuid) ?? null) : null;
+}
+
+/**
+ * Rows changed since the last push. Rows still at the version pulled from
+ * the hub are the hub's copy, not a change made here.
+ */
+export function getChangedRecords<T extends HubVersioned>(
+  rows: T[],
+  since: string,
+): T[] {
+  return rows.filter(
+    (row) => row.updated_at > since && row.updated_at !== row.hub_updated_at,
+  );
+}
+
+/**
+ * Whether a pulled copy replaces the local one. Local edits were pushed
+ * first, so the hub has already settled any tie and a copy with the same
+ * time is the one this device already has.
+ */
+export function incomingWins(
+  incoming: { updated_at: string },
+  local: { updated_at: string },
+): boolean {
+  return incoming.updated_at > local.updated_at;
+}
+
+export function toSyncMember(m: DBMember, deviceId: string): SyncMember {
+  return {
+    uuid: m.uuid,
+    created_at: m.created_at,
+    updated_at: m.updated_at,
+    deleted_at: m.deleted_at,
+    device_id: deviceId,
+    firstname: m.firstname,
+    lastname: m.lastname,
+    age: m.age,
+    gender: m.gender,
+    email: m.email,
+    phone: m.phone,
+    qr_code: m.qr_code,
+    card_issuer: m.card_issuer,
+    card_version: m.card_version,
+    membership_type: m.membership_type,
+    is_member: m.is_member,
+    subscription_start: m.subscription_start,
+    subscription_end: m.subscription_end,
+    is_banned: m.is_banned,
+    ban_reason: m.ban_reason,
+  };
+}
+
+/** The visit as sent to the hub; null when its member is gone. */
+export function toSyncAttendance(
+  a: DBAttendance,
+  uuids: LocalUuids,
+  deviceId: string,
+): SyncAttendance | null {
+  const memberUuid = uuids.members.get(a.member_id);
+  if (!memberUuid) return null;
+  return {
+    uuid: a.uuid,
+    created_at: a.created_at,
+    updated_at: a.updated_at,
+    deleted_at: a.deleted_at,
+    device_id: deviceId,
+    member_uuid: memberUuid,
+    date: a.date,
+    time: a.time,
+    check_out_time: a.check_out_time,
+    auto_checked_out: a.auto_checked_out,
+    entry_method: a.entry_method,
+  };
+}
+
+export function toSyncSale(
+  s: DBSale,
+  uuids: LocalUuids,
+  deviceId: string,
+): SyncSale {
+  return {
+    uuid: s.uuid,
+    created_at: s.created_at,
+    updated_at: s.updated_at,
+    deleted_at: s.deleted_at,
+    device_id: deviceId,
+    type: s.type,
+    amount: s.amount,
+    date: s.date,
+    note: s.note,
+    payment_method: s.payment_method,
+    reference_number: s.reference_number,
+    payment_group_uuid: uuidOf(uuids.sales, s.payment_group),
+    reverses_sale_uuid: uuidOf(uuids.sales, s.reverses_sale_id),
+    correction_type: s.correction_type,
+    correction_reason: s.correction_reason,
+  };
+}
+
+/** The subscription as sent to the hub; null when its member is gone. */
+export function toSyncSubscription(
+  s: DBSubscription,
+  uuids: LocalUuids,
+  deviceId: string,
+): SyncSubscription | null {
+  const memberUuid = uuids.members.get(s.member_id);
+  if (!memberUuid) return null;
+  return {
+    uuid: s.uuid,
+    created_at: s.created_at,
+    updated_at: s.updated_at,
+    deleted_at: s.deleted_at,
+    device_id: deviceId,
+    member_uuid: memberUuid,
+    plan_uuid: uuidOf(uuids.plans, s.plan_id),
+    start_date: s.start_date,
+    end_date: s.end_date,
+    amount_paid: s.amount_paid,
+    sale_uuid: uuidOf(uuids.sales, s.sale_id),
+  };
+}
+
+/** The freeze as sent to the hub; null when its member is gone. */
+export function toSyncFreeze(
+  f: DBFreeze,
+  uuids: LocalUuids,
+  deviceId: string,
+): SyncFreeze | null {
+  const memberUuid = uuids.members.get(f.member_id);
+  if (!memberUuid) return null;
+  return {
+    uuid: f.uuid,
+    created_at: f.created_at,
+    updated_at: f.updated_at,
+    deleted_at: f.deleted_at,
+    device_id: deviceId,
+    member_uuid: memberUuid,
+    start_date: f.start_date,
+    end_date: f.end_date,
+    reason: f.reason,
+    fee: f.fee,
+    sale_uuid: uuidOf(uuids.sales, f.sale_id),
+    unfrozen_at: f.unfrozen_at,
+    frozen_days: f.frozen_days,
+  };
+}
+
+/** The reissue as sent to the hub; null when its member is gone. */
+export function toSyncCardReissue(
+  r: DBCardReissue,
+  uuids: LocalUuids,
+  deviceId: string,
+): SyncCardReissue | null {
+  const memberUuid = uuids.members.get(r.member_id);
+  if (!memberUuid) return null;
+  return {
+    uuid: r.uuid,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+    deleted_at: r.deleted_at,
+    device_id: deviceId,
+    member_uuid: memberUuid,
+    card_version: r.card_version,
+    reason: r.reason,
+    fee: r.fee,
+    sale_uuid: uuidOf(uuids.sales, r.sale_id),
+    replaced_qr_code: r.replaced_qr_code,
+  };
+}
+
+export function toSyncPrices(
+  prices: DBPriceSettings,
+  deviceId: string,
+): SyncPrices {
+  return {
+    updated_at: prices.updated_at,
+    device_id: deviceId,
+    membership: prices.membership,
+    session_member: prices.session_member,
+    session_nonmember: prices.session_nonmember,
+    session_member_senior: prices.session_member_senior,
+    session_nonmember_senior: prices.session_nonmember_senior,
+  };
+}
+
+/**
+ * What to do with a pulled member that won against the local copy, once
+ * its photo has been fetched. Every member needs a photo, so a new one
+ * without it is tried again once the hub has it; one deleted before this
+ * desk ever saw them is not needed at all.
+ */
+export function getMemberPullAction(
+  record: { deleted_at: string | null },
+  local: DBMember | undefined,
+  photo: string | null,
+): "update" | "insert" | "retry" | "ignore" {
+  if (local) return "update";
+  if (photo) return "insert";
+  return record.deleted_at ? "ignore" : "retry";
+}
+
+/** The pulled visit's columns; null until its member is on this desk. */
+export function fromSyncAttendance(record: SyncAttendance, ids: LocalIds) {
+  const memberId = ids.members.get(record.member_uuid);
+  if (memberId === undefined) return null;
+  return {
+    member_id: memberId,
+    date: record.date,
+    time: record.time,
+    check_out_time: record.check_out_time,
+    auto_checked_out: record.auto_checked_out,
+    entry_method: record.entry_method,
+    uuid: record.uuid,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    deleted_at: record.deleted_at,
+    hub_updated_at: record.updated_at,
+  };
+}
+
+/** The pulled sale's columns, without its links to other sales. */
+export function fromSyncSale(record: SyncSale) {
+  return {
+    type: record.type,
+    amount: record.amount,
+    date: record.date,
+    note: record.note,
+    payment_method: record.payment_method,
+    reference_number: record.reference_number,
+    correction_type: record.correction_type,
+    correction_reason: record.correction_reason,
+    uuid: record.uuid,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    deleted_at: record.deleted_at,
+    hub_updated_at: record.updated_at,
+  };
+}
+
+/**
+ * The payment group and corrected sale of a pulled sale as local ids.
+ * They can point at sales from the same pull, so they are worked out once
+ * every sale has a local id.
+ */
+export function getSaleLinks(record: SyncSale, ids: LocalIds) {
+  return {
+    payment_group: idOf(ids.sales, record.payment_group_uuid),
+    reverses_sale_id: idOf(ids.sales, record.reverses_sale_uuid),
+  };
+}
+
+/** The pulled subscription's columns; null until its member is on this desk. */
+export function fromSyncSubscription(record: SyncSubscription, ids: LocalIds) {
+  const memberId = ids.members.get(record.member_uuid);
+  if (memberId === undefined) return null;
+  return {
+    member_id: memberId,
+    plan_id: idOf(ids.plans, record.plan_uuid),
+    start_date: record.start_date,
+    end_date: record.end_date,
+    amount_paid: record.amount_paid,
+    sale_id: idOf(ids.sales, record.sale_uuid),
+    uuid: record.uuid,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    deleted_at: record.deleted_at,
+    hub_updated_at: record.updated_at,
+  };
+}
+
+/** The pulled freeze's columns; null until its member is on this desk. */
+export function fromSyncFreeze(record: SyncFreeze, ids: LocalIds) {
+  const memberId = ids.members.get(record.member_uuid);
+  if (memberId === undefined) return null;
+  return {
+    member_id: memberId,
+    start_date: record.start_date,
+    end_date: record.end_date,
+    reason: record.reason,
+    fee: record.fee,
+    sale_id: idOf(ids.sales, record.sale_uuid),
+    unfrozen_at: record.unfrozen_at,
+    frozen_days: record.frozen_days,
+    uuid: record.uuid,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    deleted_at: record.deleted_at,
+    hub_updated_at: record.updated_at,
+  };
+}
+
+/** The pulled reissue's columns; null until its member is on this desk. */
+export function fromSyncCardReissue(record: SyncCardReissue, ids: LocalIds) {
+  const memberId = ids.members.get(record.member_uuid);
+  if (memberId === undefined) return null;
+  return {
+    member_id: memberId,
+    card_version: record.card_version,
+    reason: record.reason,
+    fee: record.fee,
+    sale_id: idOf(ids.sales, record.sale_uuid),
+    replaced_qr_code: record.replaced_qr_code,
+    uuid: record.uuid,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    deleted_at: record.deleted_at,
+    hub_updated_at: record.updated_at,
+  };
+}
@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { View, StyleSheet, useWindowDimensions, Pressable, ScrollView, Image } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import Animated, {
   useAnimatedStyle,
   withSpring,
@@ -13,12 +15,16 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
+import { ScannerInput } from "@/components/ScannerInput";
+import { publishScan } from "@/lib/scannerInput";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 import DashboardScreen from "@/screens/DashboardScreen";
 import RegisterScreen from "@/screens/RegisterScreen";
 import ScanQRScreen from "@/screens/ScanQRScreen";
 import MembersScreen from "@/screens/MembersScreen";
 import ReportsScreen from "@/screens/ReportsScreen";
+import ShiftScreen from "@/screens/ShiftScreen";
 import SettingsScreen from "@/screens/SettingsScreen";
 
 type NavItem = {
@@ -33,18 +39,21 @@ const navItems: NavItem[] = [
   { key: "scan", label: "Scan QR", icon: "camera" },
   { key: "members", label: "Members", icon: "users" },
   { key: "reports", label: "Reports", icon: "bar-chart-2" },
+  { key: "shift", label: "Cash Drawer", icon: "dollar-sign" },
   { key: "settings", label: "Settings", icon: "settings" },
 ];
 
 export default function MainNavigator() {
   const { theme, isDark } = useTheme();
-  const { toggleTheme } = useApp();
+  const { toggleTheme, scannerInputEnabled } = useApp();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const insets = useSafeAreaInsets();
   const { width } = useWindowDimensions();
-  
+
   const [activeScreen, setActiveScreen] = useState("dashboard");
   const [isExpanded, setIsExpanded] = useState(width > 768);
-  
+
   const animationProgress = useSharedValue(isExpanded ? 1 : 0);
 
   useEffect(() => {
@@ -75,6 +84,16 @@ export default function MainNavigator() {
     transform: [{ translateX: interpolate(animationProgress.value, [0, 1], [-10, 0]) }],
   }));
 
+  // A hardware scan from anywhere brings up the scan screen with the result
+  const handleScannerInput = useCallback(
+    (data: string) => {
+      publishScan(data);
+      setActiveScreen("scan");
+      navigation.navigate("Main");
+    },
+    [navigation],
+  );
+
   const renderScreen = () => {
     switch (activeScreen) {
       case "dashboard":
@@ -87,6 +106,8 @@ export default function MainNavigator() {
         return <MembersScreen />;
       case "reports":
         return <ReportsScreen />;
+      case "shift":
+        return <ShiftScreen />;
       case "settings":
         return <SettingsScreen />;
       default:
@@ -184,6 +205,9 @@ export default function MainNavigator() {
       </Animated.View>
 
       <View style={styles.content}>{renderScreen()}</View>
+      {scannerInputEnabled ? (
+        <ScannerInput onScan={handleScannerInput} />
+      ) : null}
     </View>
   );
 }
@@ -3,29 +3,49 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useApp } from "@/context/AppContext";
 
+import DatabaseErrorScreen from "@/screens/DatabaseErrorScreen";
 import PinScreen from "@/screens/PinScreen";
+import KioskScreen from "@/screens/KioskScreen";
 import MainNavigator from "@/navigation/MainNavigator";
 import MemberDetailScreen from "@/screens/MemberDetailScreen";
 import MemberCardScreen from "@/screens/MemberCardScreen";
 import DataBackupScreen from "@/screens/DataBackupScreen";
+import PlansScreen from "@/screens/PlansScreen";
+import StaffScreen from "@/screens/StaffScreen";
 
 export type RootStackParamList = {
+  DatabaseError: undefined;
   Pin: undefined;
+  Kiosk: undefined;
   Main: undefined;
   MemberDetail: { memberId: number };
   MemberCard: { memberId: number };
   DataBackup: undefined;
+  Plans: undefined;
+  Staff: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function RootStackNavigator() {
   const screenOptions = useScreenOptions();
-  const { isAuthenticated } = useApp();
+  const { isAuthenticated, kioskMode, databaseError } = useApp();
 
   return (
     <Stack.Navigator screenOptions={screenOptions}>
-      {!isAuthenticated ? (
+      {databaseError ? (
+        <Stack.Screen
+          name="DatabaseError"
+          component={DatabaseErrorScreen}
+          options={{ headerShown: false }}
+        />
+      ) : kioskMode ? (
+        <Stack.Screen
+          name="Kiosk"
+          component={KioskScreen}
+          options={{ headerShown: false }}
+        />
+      ) : !isAuthenticated ? (
         <Stack.Screen
           name="Pin"
           component={PinScreen}
@@ -62,6 +82,22 @@ export default function RootStackNavigator() {
               presentation: "card",
             }}
           />
+          <Stack.Screen
+            name="Plans"
+            component={PlansScreen}
+            options={{
+              headerTitle: "Membership Plans",
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="Staff"
+            component={StaffScreen}
+            options={{
+              headerTitle: "Staff Accounts",
+              presentation: "card",
+            }}
+          />
         </>
       )}
     </Stack.Navigator>
@@ -1,5 +1,5 @@
 import React from "react";
-import { View, StyleSheet, ScrollView, Image } from "react-native";
+import { View, StyleSheet, ScrollView, Image, Pressable } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
 
@@ -8,6 +8,12 @@ import { useApp } from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  formatDuration,
+  formatTime,
+  getAverageVisitDuration,
+  getCapacityStatus,
+} from "@/lib/occupancy";
 
 interface StatCardProps {
   title: string;
@@ -40,18 +46,33 @@ function StatCard({ title, value, icon, color }: StatCardProps) {
 export default function DashboardScreen() {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { 
-    getActiveMembers, 
-    getExpiredMembers, 
-    getTodayAttendance, 
+  const {
+    getActiveMembers,
+    getExpiredMembers,
+    getFrozenMembers,
+    getTodayAttendance,
     getTodaySales,
-    members 
+    getVisitsInside,
+    checkOutAttendance,
+    occupancySettings,
+    members,
   } = useApp();
 
   const activeMembers = getActiveMembers().length;
   const expiredMembers = getExpiredMembers().length;
-  const todayCheckIns = getTodayAttendance().length;
+  const frozenMembers = getFrozenMembers().length;
+  const todayAttendance = getTodayAttendance();
+  const todayCheckIns = todayAttendance.length;
+  const averageVisit = getAverageVisitDuration(todayAttendance);
   const todaySales = getTodaySales();
+  const visitsInside = getVisitsInside();
+  const capacity = occupancySettings.capacity;
+  const capacityStatus = getCapacityStatus(visitsInside.length, capacity);
+
+  const getMemberName = (memberId: number) => {
+    const member = members.find((m) => m.id === memberId);
+    return member ? `${member.firstname} ${member.lastname}` : "Unknown member";
+  };
 
   return (
     <ScrollView
@@ -73,7 +94,50 @@ export default function DashboardScreen() {
         </View>
       </View>
 
+      {capacityStatus !== "ok" ? (
+        <Card
+          style={{
+            ...styles.errorCard,
+            borderLeftColor:
+              capacityStatus === "near" ? theme.warning : theme.error,
+          }}
+        >
+          <View style={styles.errorHeader}>
+            <Feather
+              name="alert-triangle"
+              size={20}
+              color={capacityStatus === "near" ? theme.warning : theme.error}
+            />
+            <ThemedText
+              type="h4"
+              style={{
+                color: capacityStatus === "near" ? theme.warning : theme.error,
+              }}
+            >
+              {capacityStatus === "over"
+                ? "Over Capacity"
+                : capacityStatus === "full"
+                  ? "At Capacity"
+                  : "Nearly Full"}
+            </ThemedText>
+          </View>
+          <ThemedText style={{ color: theme.textSecondary }}>
+            {visitsInside.length} of {capacity} people are inside.
+          </ThemedText>
+        </Card>
+      ) : null}
+
       <View style={styles.statsGrid}>
+        <StatCard
+          title={
+            capacity > 0
+              ? `Currently Inside (of ${capacity})`
+              : "Currently Inside"
+          }
+          value={visitsInside.length}
+          icon="activity"
+          color={capacityStatus === "ok" ? theme.primary : theme.warning}
+        />
         <StatCard
           title="Active Members"
           value={activeMembers}
@@ -86,6 +150,12 @@ export default function DashboardScreen() {
           icon="user-x"
           color={theme.warning}
         />
+        <StatCard
+          title="Frozen Members"
+          value={frozenMembers}
+          icon="pause-circle"
+          color={theme.frozen}
+        />
         <StatCard
           title="Today Check-ins"
           value={todayCheckIns}
@@ -100,6 +170,51 @@ export default function DashboardScreen() {
         />
       </View>
 
+      <View style={styles.section}>
+        <ThemedText type="h4" style={styles.sectionTitle}>
+          Currently Inside
+        </ThemedText>
+        <Card>
+          {visitsInside.length === 0 ? (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              Nobody is checked in right now
+            </ThemedText>
+          ) : (
+            visitsInside.map((visit, index) => (
+              <View key={visit.id}>
+                {index > 0 ? (
+                  <View
+                    style={[styles.divider, { backgroundColor: theme.border }]}
+                  />
+                ) : null}
+                <View style={styles.quickStatRow}>
+                  <View style={styles.insideInfo}>
+                    <ThemedText numberOfLines={1}>
+                      {getMemberName(visit.member_id)}
+                    </ThemedText>
+                    <ThemedText
+                      style={[styles.statTitle, { color: theme.textSecondary }]}
+                    >
+                      In since {formatTime(visit.time)}
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    onPress={() => checkOutAttendance(visit.id)}
+                    style={[
+                      styles.checkOutButton,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                  >
+                    <Feather name="log-out" size={16} color={theme.text} />
+                    <ThemedText style={styles.statTitle}>Check Out</ThemedText>
+                  </Pressable>
+                </View>
+              </View>
+            ))
+          )}
+        </Card>
+      </View>
+
       <View style={styles.section}>
         <ThemedText type="h4" style={styles.sectionTitle}>
           Quick Stats
@@ -116,6 +231,15 @@ export default function DashboardScreen() {
               {members.length > 0 ? Math.round((activeMembers / members.length) * 100) : 0}%
             </ThemedText>
           </View>
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+          <View style={styles.quickStatRow}>
+            <ThemedText style={{ color: theme.textSecondary }}>
+              Average Visit Today
+            </ThemedText>
+            <ThemedText type="h4">
+              {averageVisit !== null ? formatDuration(averageVisit) : "-"}
+            </ThemedText>
+          </View>
         </Card>
       </View>
     </ScrollView>
@@ -143,6 +267,16 @@ const styles = StyleSheet.create({
   headerText: {
     flex: 1,
   },
+  errorCard: {
+    borderLeftWidth: 4,
+    marginBottom: Spacing["2xl"],
+  },
+  errorHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
   statsGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -188,4 +322,16 @@ const styles = StyleSheet.create({
     height: 1,
     marginVertical: Spacing.sm,
   },
+  insideInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  checkOutButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
 });
@@ -1,4 +1,9 @@
-import React, { useState, useEffect, useLayoutEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+} from "react";
 import {
   View,
   StyleSheet,
@@ -10,10 +15,8 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
-import * as FileSystem from "expo-file-system/legacy";
 import * as DocumentPicker from "expo-document-picker";
 import * as Sharing from "expo-sharing";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
@@ -21,11 +24,37 @@ import { useNavigation } from "@react-navigation/native";
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { Card } from "@/components/Card";
+import { PassphraseModal } from "@/components/PassphraseModal";
+import {
+  BackupBrowser,
+  BackupFileComparison,
+} from "@/components/BackupBrowser";
+import { RestorePreviewModal } from "@/components/RestorePreviewModal";
 import { Spacing, BorderRadius } from "@/constants/theme";
-
-const LAST_BACKUP_KEY = "powerlift_last_backup_date";
-// Use the legacy API from expo-file-system
-const BACKUP_FOLDER = `${FileSystem.documentDirectory}PowerliftBackups/`;
+import { PERMISSION_DENIED_MESSAGES } from "@/lib/staff";
+import { BACKUP_TABLE_LABELS, countBackupRecords } from "@/lib/backup";
+import { AUTO_BACKUP_INTERVALS, BackupFile } from "@/lib/backupRotation";
+import {
+  LoadedBackup,
+  checkBackupFile,
+  compareWithDatabase,
+  findCorruptBackups,
+  listBackupFiles,
+  readBackupData,
+  releaseBackup,
+} from "@/lib/backupFiles";
+import {
+  checkBackupPassphrase,
+  isEncryptedBackup,
+} from "@/lib/backupEncryption";
+import type { RestoreOptions } from "@/lib/database";
+
+function formatInterval(hours: number): string {
+  if (hours === 0) return "Off";
+  if (hours === 24) return "Daily";
+  if (hours === 168) return "Weekly";
+  return hours % 24 === 0 ? `Every ${hours / 24} days` : `Every ${hours} hours`;
+}
 
 export default function DataBackupScreen() {
   const { theme } = useTheme();
@@ -35,17 +64,33 @@ export default function DataBackupScreen() {
     members,
     attendance,
     sales,
-    backupAllData,
+    createBackup,
+    openBackup,
     restoreFromBackup,
-    refreshData,
+    deleteBackup,
+    hasPermission,
+    autoBackupHours,
+    setAutoBackupHours,
+    lastBackupAt,
   } = useApp();
+  const canRestore = hasPermission("restore_backups");
 
-  const [lastBackupDate, setLastBackupDate] = useState<string>("");
+  const [backupFiles, setBackupFiles] = useState<BackupFile[]>([]);
+  const [corruptBackups, setCorruptBackups] = useState<BackupFile[]>([]);
+  const [comparison, setComparison] = useState<BackupFileComparison | null>(
+    null,
+  );
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [restoreProgress, setRestoreProgress] = useState(0);
   const [showProgressModal, setShowProgressModal] = useState(false);
   const [progressMessage, setProgressMessage] = useState("");
+  const [passphrasePrompt, setPassphrasePrompt] = useState<
+    | { mode: "create" }
+    | { mode: "restore"; fileUri: string; purpose: "restore" | "compare" }
+    | null
+  >(null);
+  const [openedBackup, setOpenedBackup] = useState<LoadedBackup | null>(null);
 
   // Configure header with back button
   useLayoutEffect(() => {
@@ -61,65 +106,38 @@ export default function DataBackupScreen() {
     });
   }, [navigation, theme.text]);
 
-  useEffect(() => {
-    loadLastBackupDate();
-    initializeBackupFolder();
-  }, []);
-
-  const initializeBackupFolder = async () => {
+  // Damaged files are pointed out here rather than when a restore fails
+  const refreshBackups = useCallback(async () => {
     try {
-      const info = await FileSystem.getInfoAsync(BACKUP_FOLDER);
-      if (!info.exists) {
-        await FileSystem.makeDirectoryAsync(BACKUP_FOLDER, {
-          intermediates: true,
-        });
-        console.log("[Backup] Created backup folder");
-      }
+      setBackupFiles(await listBackupFiles());
+      setCorruptBackups(await findCorruptBackups());
     } catch (error) {
-      console.error("[Backup] Failed to initialize backup folder:", error);
+      console.error("[Backup] Failed to check backup files:", error);
     }
-  };
+  }, []);
 
-  const loadLastBackupDate = async () => {
-    try {
-      const date = await AsyncStorage.getItem(LAST_BACKUP_KEY);
-      if (date) {
-        setLastBackupDate(date);
-      }
-    } catch (error) {
-      console.error("Failed to load last backup date:", error);
-    }
+  useEffect(() => {
+    refreshBackups();
+  }, [lastBackupAt, refreshBackups]);
+
+  const handleCreateBackup = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setPassphrasePrompt({ mode: "create" });
   };
 
-  const handleCreateBackup = async () => {
+  const performBackup = async (passphrase?: string) => {
     try {
       setIsBackingUp(true);
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-
-      // Generate backup data
-      const backupData = await backupAllData();
-
-      // Create backup filename with timestamp
-      const timestamp = new Date();
-      const dateString = timestamp.toISOString().split("T")[0];
-      const timeString = timestamp.toTimeString().split(" ")[0].replace(/:/g, "-");
-      const filename = `powerlift_backup_${dateString}_${timeString}.json`;
-
-      // Save file to temporary location first
-      const fileUri = `${BACKUP_FOLDER}${filename}`;
-      await FileSystem.writeAsStringAsync(fileUri, backupData, {
-        encoding: "utf8",
-      });
 
-      console.log("[Backup] File saved to:", fileUri);
+      const { uri, filename } = await createBackup(passphrase);
 
       // Show share dialog to let user choose where to save
       const canShare = await Sharing.isAvailableAsync();
       if (canShare) {
-        await Sharing.shareAsync(fileUri, {
-          mimeType: "application/json",
+        await Sharing.shareAsync(uri, {
+          mimeType: "application/octet-stream",
           dialogTitle: "Save Backup File",
-          UTI: "public.json",
+          UTI: "public.data",
         });
       } else {
         Alert.alert(
@@ -128,15 +146,10 @@ export default function DataBackupScreen() {
         );
       }
 
-      // Save backup date
-      const formattedDate = timestamp.toLocaleDateString();
-      await AsyncStorage.setItem(LAST_BACKUP_KEY, formattedDate);
-      setLastBackupDate(formattedDate);
-
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         "Success",
-        `Backup created successfully!\n\nFile: ${filename}\n\nChoose where to save it in the next dialog.`,
+        `Backup created successfully!\n\nFile: ${filename}${passphrase ? "\n\nThe file is encrypted. Keep the passphrase somewhere safe: without it the backup cannot be restored." : ""}\n\nChoose where to save it in the next dialog.`,
         [{ text: "OK", onPress: () => {} }]
       );
     } catch (error) {
@@ -148,42 +161,71 @@ export default function DataBackupScreen() {
     }
   };
 
+  const handleAutoBackupHours = async (hours: number) => {
+    try {
+      await setAutoBackupHours(hours);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      Alert.alert(
+        "Not Allowed",
+        error instanceof Error
+          ? error.message
+          : "Could not change automatic backups",
+      );
+    }
+  };
+
   const handleRestoreBackup = async () => {
+    if (!canRestore) {
+      Alert.alert("Not Allowed", PERMISSION_DENIED_MESSAGES.restore_backups);
+      return;
+    }
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      // Pick a file
+      // Pick a file; archives have no registered type, so allow any
       const result = await DocumentPicker.getDocumentAsync({
-        type: "application/json",
+        type: "*/*",
       });
 
       if (result.canceled) {
         return;
       }
 
-      // Read the file
-      const fileContent = await FileSystem.readAsStringAsync(
-        result.assets[0].uri,
-        {
-          encoding: "utf8",
-        }
-      );
+      await restoreFromFile(result.assets[0].uri);
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Error", "Failed to read backup file");
+    }
+  };
 
-      // Show confirmation dialog
+  const restoreFromFile = async (fileUri: string) => {
+    if ((await checkBackupFile(fileUri)) === "corrupt") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert(
-        "Restore Backup?",
-        "This will replace all current data with the backup. This action cannot be undone.\n\nAre you sure?",
-        [
-          { text: "Cancel", onPress: () => {}, style: "cancel" },
-          {
-            text: "Restore",
-            onPress: async () => {
-              await performRestore(fileContent);
-            },
-            style: "destructive",
-          },
-        ]
+        "Damaged Backup",
+        "This backup file does not match its checksum. It may be incomplete or changed, so it cannot be restored.",
       );
+      return;
+    }
+
+    // The passphrase is checked before anything else is asked
+    if (isEncryptedBackup(fileUri)) {
+      setPassphrasePrompt({ mode: "restore", fileUri, purpose: "restore" });
+      return;
+    }
+    await loadBackup(fileUri);
+  };
+
+  const handleRestoreFile = async (file: BackupFile) => {
+    if (!canRestore) {
+      Alert.alert("Not Allowed", PERMISSION_DENIED_MESSAGES.restore_backups);
+      return;
+    }
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      await restoreFromFile(file.uri);
     } catch (error) {
       console.error("Failed to restore backup:", error);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -191,43 +233,188 @@ export default function DataBackupScreen() {
     }
   };
 
-  const performRestore = async (backupData: string) => {
+  const handleCompareFile = async (file: BackupFile) => {
+    if (comparison?.uri === file.uri) {
+      setComparison(null);
+      return;
+    }
+    if (isEncryptedBackup(file.uri)) {
+      setPassphrasePrompt({
+        mode: "restore",
+        fileUri: file.uri,
+        purpose: "compare",
+      });
+      return;
+    }
+    await compareFile(file.uri);
+  };
+
+  const compareFile = async (fileUri: string, passphrase?: string) => {
+    try {
+      const { data } = await readBackupData(fileUri, passphrase);
+      setComparison({
+        uri: fileUri,
+        counts: countBackupRecords(data),
+        comparison: await compareWithDatabase(data),
+      });
+    } catch (error) {
+      console.error("Failed to compare backup:", error);
+      Alert.alert(
+        "Error",
+        `Failed to read backup file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const handleShareFile = async (file: BackupFile) => {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert(
+          "Sharing Not Available",
+          "Sharing is not available on this device.",
+        );
+        return;
+      }
+      await Sharing.shareAsync(file.uri, {
+        mimeType: "application/octet-stream",
+        dialogTitle: "Save Backup File",
+        UTI: "public.data",
+      });
+    } catch (error) {
+      console.error("Failed to share backup:", error);
+      Alert.alert("Error", "Failed to share backup file");
+    }
+  };
+
+  const handleDeleteFile = (file: BackupFile) => {
+    Alert.alert(
+      "Delete Backup?",
+      `${file.filename} will be removed from this device. This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteBackup(file);
+              if (comparison?.uri === file.uri) setComparison(null);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              await refreshBackups();
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                error instanceof Error
+                  ? error.message
+                  : "Failed to delete backup file",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handlePassphrase = async (
+    passphrase: string | null,
+  ): Promise<string | null> => {
+    if (!passphrasePrompt) return null;
+    if (passphrasePrompt.mode === "create") {
+      setPassphrasePrompt(null);
+      performBackup(passphrase ?? undefined);
+      return null;
+    }
+    const { fileUri, purpose } = passphrasePrompt;
+    try {
+      if (!passphrase || !(await checkBackupPassphrase(fileUri, passphrase))) {
+        return "Wrong passphrase for this backup";
+      }
+    } catch (error) {
+      return error instanceof Error
+        ? error.message
+        : "Could not read this backup";
+    }
+    setPassphrasePrompt(null);
+    if (purpose === "compare") {
+      await compareFile(fileUri, passphrase);
+    } else {
+      await loadBackup(fileUri, passphrase);
+    }
+    return null;
+  };
+
+  // Reads the whole file up front, so the preview is of what will be written
+  const loadBackup = async (fileUri: string, passphrase?: string) => {
     try {
       setIsRestoring(true);
       setShowProgressModal(true);
       setRestoreProgress(0);
-      setProgressMessage("Starting restore process...");
-
-      // Parse and validate
-      setProgressMessage("Validating backup file...");
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      setRestoreProgress(10);
-
-      const parsed = JSON.parse(backupData);
-
-      if (
-        !parsed.members ||
-        !parsed.attendance ||
-        !parsed.sales ||
-        !parsed.priceSettings
-      ) {
-        throw new Error("Invalid backup file - missing required data");
-      }
+      setProgressMessage("Reading backup file...");
+      setOpenedBackup(await openBackup(fileUri, passphrase));
+    } catch (error) {
+      console.error("Failed to open backup:", error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        "Error",
+        `Failed to read backup file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setShowProgressModal(false);
+      setIsRestoring(false);
+    }
+  };
 
-      // Restore data
-      setProgressMessage("Restoring members...");
-      setRestoreProgress(20);
-      await restoreFromBackup(backupData);
+  const handleCancelRestore = () => {
+    if (openedBackup) {
+      releaseBackup(openedBackup).catch((error) =>
+        console.error("[Backup] Failed to remove extracted photos:", error),
+      );
+    }
+    setOpenedBackup(null);
+  };
 
-      setProgressMessage("Refreshing application...");
-      setRestoreProgress(80);
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  const handleConfirmRestore = (options: RestoreOptions) => {
+    if (options.mode !== "replace") {
+      performRestore(options);
+      return;
+    }
+    Alert.alert(
+      "Replace All Data?",
+      "This will replace all current data with the backup. This action cannot be undone.\n\nAre you sure?",
+      [
+        { text: "Cancel", onPress: () => {}, style: "cancel" },
+        {
+          text: "Replace",
+          onPress: async () => {
+            await performRestore(options);
+          },
+          style: "destructive",
+        },
+      ],
+    );
+  };
 
-      await refreshData();
+  const performRestore = async (options: RestoreOptions) => {
+    if (!openedBackup) return;
+    const backup = openedBackup;
+    setOpenedBackup(null);
+    try {
+      setIsRestoring(true);
+      setShowProgressModal(true);
+      setRestoreProgress(0);
+      setProgressMessage("Preparing restore...");
+
+      await restoreFromBackup(backup, options, ({ table, done, total }) => {
+        setRestoreProgress(total > 0 ? Math.round((done / total) * 100) : 100);
+        setProgressMessage(
+          `Restoring ${BACKUP_TABLE_LABELS[table]}... (${done} of ${total})`,
+        );
+      });
 
       setRestoreProgress(100);
       setProgressMessage("Restore complete!");
-      await new Promise((resolve) => setTimeout(resolve, 1000));
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
@@ -246,7 +433,7 @@ export default function DataBackupScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert(
         "Error",
-        `Failed to restore backup: ${error instanceof Error ? error.message : "Unknown error"}`
+        `Failed to restore backup: ${error instanceof Error ? error.message : "Unknown error"}\n\nNo data was changed.`,
       );
     } finally {
       setIsRestoring(false);
@@ -295,7 +482,7 @@ export default function DataBackupScreen() {
             <ThemedText
               style={[styles.infoText, { color: theme.textSecondary }]}
             >
-              {`1. Tap "Create Backup" to save all your data (members, sales, attendance)\n\n2. The backup file will be saved to your device storage\n\n3. You can backup periodically to keep your data safe\n\n4. If your device is lost or damaged, use "Restore from Backup" to recover your data\n\n5. Restores replace all current data with the backup`}
+              {`1. Tap "Create Backup" to save all your data (members with their photos, sales, attendance)\n\n2. The backup file will be saved to your device storage\n\n3. You can backup periodically to keep your data safe\n\n4. If your device is lost or damaged, use "Restore from Backup" to recover your data\n\n5. Before restoring, choose to replace all data, merge the backup with what is on this device, or put back only some tables or dates. The preview shows what will change\n\n6. Add a passphrase when creating a backup to encrypt it before it leaves the device. The same passphrase is needed to restore it\n\n7. Backups saved on this device are listed at the bottom, where you can compare one with the current data, share it or restore from it`}
             </ThemedText>
           </Card>
         </View>
@@ -359,12 +546,66 @@ export default function DataBackupScreen() {
                 Last Backup
               </ThemedText>
               <ThemedText style={styles.lastBackupDate}>
-                {lastBackupDate || "Never"}
+                {lastBackupAt
+                  ? new Date(lastBackupAt).toLocaleString()
+                  : "Never"}
               </ThemedText>
             </View>
           </View>
         </Card>
 
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="refresh-cw" size={20} color={theme.primary} />
+            <ThemedText type="h4">Automatic Backups</ThemedText>
+          </View>
+          <ThemedText style={[styles.infoText, { color: theme.textSecondary }]}>
+            Saved to this device when the app opens and the last backup is older
+            than this. Daily backups are kept for a week and weekly ones for
+            eight weeks.
+          </ThemedText>
+          <View style={styles.intervalRow}>
+            {AUTO_BACKUP_INTERVALS.map((hours) => {
+              const selected = hours === autoBackupHours;
+              return (
+                <Pressable
+                  key={hours}
+                  onPress={() => handleAutoBackupHours(hours)}
+                  disabled={!canRestore}
+                  style={[
+                    styles.intervalChip,
+                    {
+                      backgroundColor: selected
+                        ? theme.primary
+                        : theme.backgroundSecondary,
+                      opacity: canRestore || selected ? 1 : 0.5,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={selected ? { color: "#FFFFFF" } : undefined}
+                  >
+                    {formatInterval(hours)}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+          {corruptBackups.length > 0 ? (
+            <View
+              style={[
+                styles.corruptWarning,
+                { backgroundColor: theme.error + "20" },
+              ]}
+            >
+              <Feather name="alert-triangle" size={18} color={theme.error} />
+              <ThemedText style={[styles.corruptText, { color: theme.error }]}>
+                {`${corruptBackups.length === 1 ? "1 backup file is" : `${corruptBackups.length} backup files are`} damaged and cannot be restored:\n${corruptBackups.map((f) => f.filename).join("\n")}`}
+              </ThemedText>
+            </View>
+          ) : null}
+        </Card>
+
         <Pressable
           onPress={handleCreateBackup}
           disabled={isBackingUp}
@@ -391,7 +632,10 @@ export default function DataBackupScreen() {
           disabled={isRestoring}
           style={[
             styles.restoreButton,
-            { opacity: isRestoring ? 0.7 : 1, backgroundColor: "#ff6b6b" },
+            {
+              opacity: isRestoring || !canRestore ? 0.5 : 1,
+              backgroundColor: "#ff6b6b",
+            },
           ]}
         >
           {isRestoring ? (
@@ -406,8 +650,38 @@ export default function DataBackupScreen() {
             </>
           )}
         </Pressable>
+
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="folder" size={20} color={theme.primary} />
+            <ThemedText type="h4">Backups on This Device</ThemedText>
+          </View>
+          <BackupBrowser
+            files={backupFiles}
+            corrupt={new Set(corruptBackups.map((f) => f.uri))}
+            canManage={canRestore}
+            comparison={comparison}
+            onCompare={handleCompareFile}
+            onShare={handleShareFile}
+            onRestore={handleRestoreFile}
+            onDelete={handleDeleteFile}
+          />
+        </Card>
       </KeyboardAwareScrollViewCompat>
 
+      <RestorePreviewModal
+        backup={openedBackup}
+        onCancel={handleCancelRestore}
+        onRestore={handleConfirmRestore}
+      />
+
+      <PassphraseModal
+        visible={passphrasePrompt !== null}
+        mode={passphrasePrompt?.mode ?? "create"}
+        onClose={() => setPassphrasePrompt(null)}
+        onSubmit={handlePassphrase}
+      />
+
       {/* Progress Modal */}
       <Modal visible={showProgressModal} transparent animationType="fade">
         <View style={styles.progressOverlay}>
@@ -545,6 +819,28 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "600",
   },
+  intervalRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  intervalChip: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  corruptWarning: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  corruptText: {
+    flex: 1,
+    fontSize: 13,
+  },
   createButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,97 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { reloadAppAsync } from "expo";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+/**
+ * Shown in place of every other screen when the database could not be
+ * upgraded. The failed upgrade was rolled back, but nothing entered now
+ * would be saved, so the desk stops here until a restart fixes it.
+ */
+export default function DatabaseErrorScreen() {
+  const { theme } = useTheme();
+  const { databaseError } = useApp();
+
+  const handleRestart = async () => {
+    try {
+      await reloadAppAsync();
+    } catch (error) {
+      console.error("Failed to restart app:", error);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.content}>
+        <Feather name="alert-triangle" size={48} color={theme.error} />
+        <ThemedText type="h2" style={styles.title}>
+          Database Upgrade Failed
+        </ThemedText>
+        <ThemedText style={[styles.message, { color: theme.textSecondary }]}>
+          The data on this device has not been changed, but nothing can be saved
+          until the upgrade works. Restart the app to try again. If this keeps
+          happening, get help before reinstalling, as reinstalling erases the
+          data.
+        </ThemedText>
+        <ThemedText
+          style={[styles.detail, { color: theme.textSecondary }]}
+          selectable
+        >
+          {databaseError}
+        </ThemedText>
+        <Pressable
+          onPress={handleRestart}
+          style={({ pressed }) => [
+            styles.button,
+            { backgroundColor: theme.primary, opacity: pressed ? 0.9 : 1 },
+          ]}
+        >
+          <ThemedText style={styles.buttonText}>Restart App</ThemedText>
+        </Pressable>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing["2xl"],
+  },
+  content: {
+    alignItems: "center",
+    gap: Spacing.lg,
+    width: "100%",
+    maxWidth: 600,
+  },
+  title: {
+    textAlign: "center",
+  },
+  message: {
+    textAlign: "center",
+    lineHeight: 24,
+  },
+  detail: {
+    fontSize: 12,
+    textAlign: "center",
+  },
+  button: {
+    paddingVertical: Spacing.lg,
+    paddingHorizontal: Spacing["2xl"],
+    borderRadius: BorderRadius.md,
+    minWidth: 200,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    textAlign: "center",
+  },
+});
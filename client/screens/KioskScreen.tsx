@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { View, StyleSheet, Pressable, Image, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { Audio } from "expo-av";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { ScannerInput } from "@/components/ScannerInput";
+import { KioskExitModal } from "@/components/KioskExitModal";
+import {
+  evaluateKioskScan,
+  KioskOutcome,
+  KIOSK_SEE_DESK_MS,
+  KIOSK_WELCOME_MS,
+} from "@/lib/kiosk";
+import { formatTime } from "@/lib/occupancy";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+// The same card held in front of the camera is not read twice in a row
+const REPEAT_SCAN_MS = 10000;
+
+export default function KioskScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const {
+    verifyMemberQR,
+    getCurrentFreeze,
+    addAttendance,
+    checkOutAttendance,
+    attendance,
+    subscriptions,
+    plans,
+    accessRules,
+    occupancySettings,
+    scannerInputEnabled,
+  } = useApp();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [outcome, setOutcome] = useState<KioskOutcome | null>(null);
+  const [showExit, setShowExit] = useState(false);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const resetTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const lastScanRef = useRef({ data: "", at: 0 });
+
+  useEffect(() => {
+    const loadSound = async () => {
+      try {
+        const { sound } = await Audio.Sound.createAsync(
+          require("../../assets/sounds/beep.mp3"),
+          { volume: 1.0 },
+        );
+        soundRef.current = sound;
+      } catch (error) {
+        console.log("Failed to load beep sound:", error);
+      }
+    };
+    loadSound();
+
+    return () => {
+      if (soundRef.current) {
+        soundRef.current.unloadAsync();
+        soundRef.current = null;
+      }
+      if (resetTimerRef.current) {
+        clearTimeout(resetTimerRef.current);
+      }
+    };
+  }, []);
+
+  // Ask once when the kiosk starts; staff set it up before walking away
+  useEffect(() => {
+    if (
+      Platform.OS !== "web" &&
+      permission &&
+      !permission.granted &&
+      permission.canAskAgain
+    ) {
+      requestPermission();
+    }
+  }, [permission, requestPermission]);
+
+  const playBeep = useCallback(async () => {
+    try {
+      if (soundRef.current) {
+        await soundRef.current.setPositionAsync(0);
+        await soundRef.current.playAsync();
+      }
+    } catch (error) {
+      console.log("Sound playback error:", error);
+    }
+  }, []);
+
+  const handleScan = useCallback(
+    async (data: string) => {
+      const now = Date.now();
+      const last = lastScanRef.current;
+      if (last.data === data && now - last.at < REPEAT_SCAN_MS) return;
+      lastScanRef.current = { data, at: now };
+
+      const check = verifyMemberQR(data);
+      const result = evaluateKioskScan({
+        check,
+        attendance,
+        subscriptions,
+        plans,
+        rules: accessRules,
+        occupancySettings,
+        freeze: check.valid ? getCurrentFreeze(check.member.id) : undefined,
+      });
+
+      if (result.kind === "welcome") {
+        await addAttendance(result.member.id, "kiosk");
+      } else if (result.kind === "goodbye") {
+        await checkOutAttendance(result.visit.id);
+      }
+      if (result.kind !== "see_desk") {
+        playBeep();
+      }
+
+      setOutcome(result);
+      if (resetTimerRef.current) clearTimeout(resetTimerRef.current);
+      resetTimerRef.current = setTimeout(
+        () => setOutcome(null),
+        result.kind === "see_desk" ? KIOSK_SEE_DESK_MS : KIOSK_WELCOME_MS,
+      );
+    },
+    [
+      verifyMemberQR,
+      attendance,
+      subscriptions,
+      plans,
+      accessRules,
+      occupancySettings,
+      getCurrentFreeze,
+      addAttendance,
+      checkOutAttendance,
+      playBeep,
+    ],
+  );
+
+  const cameraReady = Platform.OS !== "web" && !!permission?.granted;
+
+  const renderOutcome = (result: KioskOutcome) => {
+    const member = result.member;
+    const isDesk = result.kind === "see_desk";
+    const accent = isDesk ? theme.warning : theme.success;
+
+    const heading =
+      result.kind === "welcome"
+        ? `Welcome, ${result.member.firstname}!`
+        : result.kind === "goodbye"
+          ? `See you next time, ${result.member.firstname}!`
+          : result.kind === "already_inside"
+            ? `You are already checked in, ${result.member.firstname}`
+            : "Please see the front desk";
+
+    const detail =
+      result.kind === "welcome"
+        ? result.daysRemaining === 0
+          ? "Your membership ends today"
+          : result.daysRemaining === 1
+            ? "1 day remaining on your membership"
+            : `${result.daysRemaining} days remaining on your membership`
+        : result.kind === "goodbye"
+          ? "You are checked out"
+          : result.kind === "already_inside"
+            ? `Checked in at ${formatTime(result.visit.time)}`
+            : result.reason;
+
+    return (
+      <View
+        style={[styles.resultOverlay, { backgroundColor: "rgba(0,0,0,0.85)" }]}
+      >
+        <Card style={styles.resultCard}>
+          {member?.photo ? (
+            <Image source={{ uri: member.photo }} style={styles.photo} />
+          ) : (
+            <View
+              style={[
+                styles.photo,
+                styles.photoPlaceholder,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="user" size={72} color={theme.textSecondary} />
+            </View>
+          )}
+          <View style={[styles.statusIcon, { backgroundColor: accent + "20" }]}>
+            <Feather
+              name={isDesk ? "alert-circle" : "check-circle"}
+              size={32}
+              color={accent}
+            />
+          </View>
+          <ThemedText type="h2" style={styles.heading}>
+            {heading}
+          </ThemedText>
+          <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+            {detail}
+          </ThemedText>
+          {isDesk && member ? (
+            <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+              Nothing has been recorded. The front desk can help you.
+            </ThemedText>
+          ) : null}
+        </Card>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {cameraReady ? (
+        <CameraView
+          style={StyleSheet.absoluteFillObject}
+          onBarcodeScanned={
+            outcome || showExit ? undefined : ({ data }) => handleScan(data)
+          }
+          barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+        />
+      ) : null}
+
+      <View
+        style={[
+          styles.prompt,
+          {
+            paddingTop: insets.top + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <Image
+          source={require("../../assets/images/gym-logo.jpg")}
+          style={styles.logo}
+          resizeMode="contain"
+        />
+        <ThemedText
+          type="h1"
+          style={[styles.promptTitle, cameraReady && styles.onCamera]}
+        >
+          Check In
+        </ThemedText>
+        <ThemedText
+          style={[
+            styles.promptText,
+            cameraReady ? styles.onCamera : { color: theme.textSecondary },
+          ]}
+        >
+          {cameraReady
+            ? "Hold your membership card up to the camera"
+            : "Scan your membership card at the scanner"}
+        </ThemedText>
+      </View>
+
+      <Pressable
+        onPress={() => setShowExit(true)}
+        style={[
+          styles.exitButton,
+          { top: insets.top + Spacing.md, backgroundColor: "rgba(0,0,0,0.3)" },
+        ]}
+        hitSlop={12}
+      >
+        <Feather name="lock" size={18} color="#FFFFFF" />
+      </Pressable>
+
+      {outcome ? renderOutcome(outcome) : null}
+
+      {scannerInputEnabled && !showExit ? (
+        <ScannerInput onScan={handleScan} />
+      ) : null}
+
+      <KioskExitModal visible={showExit} onClose={() => setShowExit(false)} />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  prompt: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+  },
+  logo: {
+    width: 96,
+    height: 96,
+    borderRadius: BorderRadius.md,
+  },
+  promptTitle: {
+    textAlign: "center",
+  },
+  promptText: {
+    fontSize: 20,
+    textAlign: "center",
+  },
+  onCamera: {
+    color: "#FFFFFF",
+    textShadowColor: "rgba(0,0,0,0.6)",
+    textShadowRadius: 4,
+  },
+  exitButton: {
+    position: "absolute",
+    right: Spacing.lg,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  resultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  resultCard: {
+    width: "100%",
+    maxWidth: 520,
+    padding: Spacing["3xl"],
+    alignItems: "center",
+  },
+  photo: {
+    width: 180,
+    height: 180,
+    borderRadius: 90,
+    marginBottom: Spacing.xl,
+  },
+  photoPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  statusIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.lg,
+  },
+  heading: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  detail: {
+    fontSize: 18,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+});
@@ -17,6 +17,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { formatCardNumber } from "@/lib/memberCards";
 
 type RouteParams = RouteProp<RootStackParamList, "MemberCard">;
 
@@ -230,7 +231,7 @@ export default function MemberCardScreen() {
                   <div class="qr-image">
                     <img src="https://api.qrserver.com/v1/create-qr-code/?size=280x280&data=${encodeURIComponent(member.qr_code)}&errorCorrection=H" alt="QR Code" />
                   </div>
-                  <p class="qr-code-text">${member.qr_code}</p>
+                  <p class="qr-code-text">${formatCardNumber(member)}</p>
                 </div>
               ` : `
                 <div style="background: #1A1A1A; border-radius: 16px; border: 2px solid #DC2626; overflow: hidden;">
@@ -254,7 +255,7 @@ export default function MemberCardScreen() {
                       <div style="background: #FFFFFF; padding: 15px; border-radius: 12px; border: 2px solid #DC2626; display: inline-block; margin-bottom: 15px;">
                         <img src="https://api.qrserver.com/v1/create-qr-code/?size=280x280&data=${encodeURIComponent(member.qr_code)}&errorCorrection=H" alt="QR Code" style="display: block; width: 280px; height: 280px;" />
                       </div>
-                      <p style="color: #CCCCCC; font-size: 12px; font-family: 'Courier New', monospace; letter-spacing: 1px; margin: 15px 0; padding: 10px; background: #333; border-radius: 6px;">${member.qr_code}</p>
+                      <p style="color: #CCCCCC; font-size: 12px; font-family: 'Courier New', monospace; letter-spacing: 1px; margin: 15px 0; padding: 10px; background: #333; border-radius: 6px;">${formatCardNumber(member)}</p>
                     </div>
                   </div>
                   <div style="text-align: center; padding: 16px; background: #0F0F0F;">
@@ -367,7 +368,7 @@ export default function MemberCardScreen() {
                 lightColor="#CCCCCC"
                 darkColor="#CCCCCC"
               >
-                {member.qr_code}
+                {formatCardNumber(member)}
               </ThemedText>
             </View>
           </View>
@@ -10,9 +10,42 @@ import { useHeaderHeight } from "@react-navigation/elements";
 import { setIsInPhotoPicker } from "@/components/SessionManager";
 
 import { useTheme } from "@/hooks/useTheme";
-import { useApp, Member } from "@/context/AppContext";
+import {
+  useApp,
+  Member,
+  Plan,
+  Freeze,
+  CardReissue,
+} from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
+import { PlanPickerModal } from "@/components/PlanPickerModal";
+import { FreezeModal } from "@/components/FreezeModal";
+import { CardReissueModal } from "@/components/CardReissueModal";
+import { TenderModal, PendingPayment } from "@/components/TenderModal";
+import { Tender } from "@/lib/payments";
+import { getPlansForMember } from "@/lib/plans";
+import { quoteRenewal, RenewalStart } from "@/lib/renewal";
+import {
+  countFrozenDays,
+  formatFreezePeriod,
+  getOpenFreeze,
+} from "@/lib/freezes";
+import {
+  getLapses,
+  getMemberSubscriptions,
+  getTenureDays,
+} from "@/lib/subscriptions";
+import { getStaffName } from "@/lib/staff";
+import {
+  formatDuration,
+  getLocalDate,
+  getVisitDuration,
+} from "@/lib/occupancy";
+import {
+  CARD_REISSUE_REASON_LABELS,
+  formatCardNumber,
+} from "@/lib/memberCards";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { Calendar } from "react-native-calendars";
@@ -26,7 +59,29 @@ export default function MemberDetailScreen() {
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
-  const { getMember, renewSubscription, paySession, attendance, priceSettings, deleteMember, updateMember } = useApp();
+  const {
+    getMember,
+    getCurrentFreeze,
+    freezeMember,
+    unfreezeMember,
+    freezes,
+    renewSubscription,
+    extendSubscription,
+    setSubscriptionDates,
+    renewalGraceDays,
+    paySession,
+    attendance,
+    subscriptions,
+    priceSettings,
+    plans,
+    deleteMember,
+    updateMember,
+    hasPermission,
+    staff,
+    memberEdits,
+    cardReissues,
+    reissueMemberCard,
+  } = useApp();
 
   const member = getMember(route.params.memberId);
   const [editModalVisible, setEditModalVisible] = useState(false);
@@ -35,6 +90,14 @@ export default function MemberDetailScreen() {
   const [editMembershipType, setEditMembershipType] = useState<Member["membership_type"]>("regular");
   const [showDateModal, setShowDateModal] = useState(false);
   const [editingField, setEditingField] = useState<"start" | "end">("end");
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [showFreezeModal, setShowFreezeModal] = useState(false);
+  const [showReissueModal, setShowReissueModal] = useState(false);
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(
+    null,
+  );
+  const [showBanModal, setShowBanModal] = useState(false);
+  const [banReason, setBanReason] = useState("");
 
   // Configure header with back button
   useLayoutEffect(() => {
@@ -52,7 +115,7 @@ export default function MemberDetailScreen() {
 
   const isActive = useMemo(() => {
     if (!member?.subscription_end) return false;
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     return member.subscription_end >= today;
   }, [member?.subscription_end]);
 
@@ -64,6 +127,31 @@ export default function MemberDetailScreen() {
       .slice(0, 10);
   }, [member, attendance]);
 
+  const recordChanges = useMemo(
+    () =>
+      member
+        ? memberEdits.filter((e) => e.member_id === member.id).slice(0, 10)
+        : [],
+    [member, memberEdits],
+  );
+
+  const memberSubscriptions = useMemo(
+    () => (member ? getMemberSubscriptions(subscriptions, member.id) : []),
+    [member, subscriptions],
+  );
+
+  const lapses = useMemo(
+    () => getLapses(memberSubscriptions),
+    [memberSubscriptions],
+  );
+
+  // Newest first, as loaded
+  const lastReissue = useMemo(
+    () =>
+      member ? cardReissues.find((r) => r.member_id === member.id) : undefined,
+    [member, cardReissues],
+  );
+
   if (!member) {
     return (
       <View style={[styles.container, styles.centered, { backgroundColor: theme.backgroundRoot }]}>
@@ -72,21 +160,110 @@ export default function MemberDetailScreen() {
     );
   }
 
+  const memberPlans = getPlansForMember(plans, member.membership_type);
+  const today = getLocalDate();
+  const currentFreeze = getCurrentFreeze(member.id);
+  const openFreeze = getOpenFreeze(freezes, member.id);
+
   const handleRenew = () => {
-    const priceKey = `${member.membership_type}_monthly` as keyof typeof priceSettings;
-    const amount = priceSettings[priceKey] as number;
-    
+    setShowPlanModal(true);
+  };
+
+  const handlePlanSelect = (plan: Plan, start: RenewalStart) => {
+    const { start_date, end_date } = quoteRenewal(
+      member.subscription_end,
+      plan,
+      start,
+      today,
+    );
+    setPendingPayment({
+      total: plan.price,
+      title: "Renew Subscription",
+      description: `${plan.name} · ${start_date} → ${end_date}`,
+      onConfirm: async (tenders) => {
+        await renewSubscription(member.id, plan.id, start, tenders);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert("Success", "Subscription renewed successfully!");
+      },
+    });
+  };
+
+  const handleFreezeConfirm = (
+    freeze: Pick<Freeze, "start_date" | "end_date" | "reason" | "fee">,
+  ) => {
+    const saveFreeze = async (tenders?: Tender[]) => {
+      try {
+        await freezeMember(member.id, freeze, tenders);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert("Success", `Membership frozen from ${freeze.start_date}.`);
+      } catch (error) {
+        console.error("Failed to freeze member:", error);
+        Alert.alert("Error", "Failed to freeze membership.");
+      }
+    };
+
+    setShowFreezeModal(false);
+    if (freeze.fee > 0) {
+      setPendingPayment({
+        total: freeze.fee,
+        title: "Freeze Fee",
+        description: `${member.firstname} ${member.lastname}`,
+        onConfirm: saveFreeze,
+      });
+    } else {
+      void saveFreeze();
+    }
+  };
+
+  const handleReissueConfirm = (
+    reissue: Pick<CardReissue, "reason" | "fee">,
+  ) => {
+    const saveReissue = async (tenders?: Tender[]) => {
+      try {
+        await reissueMemberCard(member.id, reissue, tenders);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          "Card Reissued",
+          "The old card no longer scans. Print or share the new card for the member.",
+          [
+            { text: "Later", style: "cancel" },
+            { text: "View Card", onPress: handleViewCard },
+          ],
+        );
+      } catch (error) {
+        console.error("Failed to reissue card:", error);
+        Alert.alert("Error", "Failed to reissue the card.");
+      }
+    };
+
+    setShowReissueModal(false);
+    if (reissue.fee > 0) {
+      setPendingPayment({
+        total: reissue.fee,
+        title: "Replacement Card",
+        description: `${member.firstname} ${member.lastname}`,
+        onConfirm: saveReissue,
+      });
+    } else {
+      void saveReissue();
+    }
+  };
+
+  const handleUnfreeze = () => {
+    if (!openFreeze) return;
+    const days = countFrozenDays(openFreeze, today);
     Alert.alert(
-      "Renew Subscription",
-      `Renew monthly subscription for ₱${amount}?`,
+      "Unfreeze Membership",
+      days > 0
+        ? `Lift the freeze? The subscription end date moves forward by ${days} day${days === 1 ? "" : "s"}.`
+        : "Cancel this freeze?",
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Confirm",
-          onPress: () => {
-            renewSubscription(member.id);
+          text: "Unfreeze",
+          onPress: async () => {
+            await unfreezeMember(member.id);
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            Alert.alert("Success", "Subscription renewed successfully!");
           },
         },
       ]
@@ -98,21 +275,16 @@ export default function MemberDetailScreen() {
     const amount = isSenior ? priceSettings.session_member_senior : priceSettings.session_member;
     const rateType = isSenior ? "Senior Member" : "Regular Member";
     
-    Alert.alert(
-      "Pay Per Session",
-      `Record ${rateType} session payment of ₱${amount}?`,
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Confirm",
-          onPress: () => {
-            void paySession(member.id, true, isSenior);
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            Alert.alert("Success", `Session payment recorded! Amount: ₱${amount}`);
-          },
-        },
-      ]
-    );
+    setPendingPayment({
+      total: amount,
+      title: "Pay Per Session",
+      description: `${rateType} session`,
+      onConfirm: async (tenders) => {
+        await paySession(member.id, true, isSenior, tenders, "manual");
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert("Success", `Session payment recorded! Amount: ₱${amount}`);
+      },
+    });
   };
 
   const handleViewCard = () => {
@@ -133,6 +305,32 @@ export default function MemberDetailScreen() {
             navigation.goBack();
           },
         },
+      ],
+    );
+  };
+
+  const handleBan = async () => {
+    await updateMember(member.id, {
+      is_banned: 1,
+      ban_reason: banReason.trim() || null,
+    });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    setShowBanModal(false);
+  };
+
+  const handleLiftBan = () => {
+    Alert.alert(
+      "Lift Ban",
+      `Allow ${member.firstname} ${member.lastname} to check in again?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Lift Ban",
+          onPress: async () => {
+            await updateMember(member.id, { is_banned: 0, ban_reason: null });
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
       ]
     );
   };
@@ -247,11 +445,11 @@ export default function MemberDetailScreen() {
     setShowDateModal(true);
   };
 
-  const handleDateSelect = (day: string) => {
+  const handleDateSelect = async (day: string) => {
     if (editingField === "start") {
-      updateMember(member.id, { subscription_start: day });
+      await setSubscriptionDates(member.id, { start_date: day });
     } else {
-      updateMember(member.id, { subscription_end: day });
+      await setSubscriptionDates(member.id, { end_date: day });
     }
     
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -259,16 +457,8 @@ export default function MemberDetailScreen() {
     Alert.alert("Success", `Subscription ${editingField} date updated to ${day}!`);
   };
 
-  const handleQuickExtend = (days: number) => {
-    const currentEnd = member.subscription_end 
-      ? new Date(member.subscription_end) 
-      : new Date();
-    
-    const newEnd = new Date(currentEnd);
-    newEnd.setDate(newEnd.getDate() + days);
-    
-    const newDateStr = newEnd.toISOString().split("T")[0];
-    updateMember(member.id, { subscription_end: newDateStr });
+  const handleQuickExtend = async (days: number) => {
+    await extendSubscription(member.id, days);
     
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     Alert.alert("Success", `Subscription extended by ${days} days!`);
@@ -299,21 +489,57 @@ export default function MemberDetailScreen() {
           <Pressable onPress={openEditModal} style={[styles.editNameButton, { marginTop: 8 }]}>
             <Feather name="edit-2" size={16} color={theme.primary} />
           </Pressable>
-          <View
-            style={[
-              styles.statusBadge,
-              { backgroundColor: isActive ? theme.success + "20" : theme.warning + "20" },
-            ]}
-          >
-            <Feather
-              name={isActive ? "check-circle" : "alert-circle"}
-              size={16}
-              color={isActive ? theme.success : theme.warning}
-            />
-            <ThemedText style={{ color: isActive ? theme.success : theme.warning, fontWeight: "500" }}>
-              {isActive ? "Active" : "Expired"}
-            </ThemedText>
-          </View>
+          {currentFreeze ? (
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: theme.frozen + "20" },
+              ]}
+            >
+              <Feather name="pause-circle" size={16} color={theme.frozen} />
+              <ThemedText style={{ color: theme.frozen, fontWeight: "500" }}>
+                Frozen
+              </ThemedText>
+            </View>
+          ) : (
+            <View
+              style={[
+                styles.statusBadge,
+                {
+                  backgroundColor: isActive
+                    ? theme.success + "20"
+                    : theme.warning + "20",
+                },
+              ]}
+            >
+              <Feather
+                name={isActive ? "check-circle" : "alert-circle"}
+                size={16}
+                color={isActive ? theme.success : theme.warning}
+              />
+              <ThemedText
+                style={{
+                  color: isActive ? theme.success : theme.warning,
+                  fontWeight: "500",
+                }}
+              >
+                {isActive ? "Active" : "Expired"}
+              </ThemedText>
+            </View>
+          )}
+          {member.is_banned ? (
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: theme.error + "20", marginTop: Spacing.sm },
+              ]}
+            >
+              <Feather name="slash" size={16} color={theme.error} />
+              <ThemedText style={{ color: theme.error, fontWeight: "500" }}>
+                Banned{member.ban_reason ? `: ${member.ban_reason}` : ""}
+              </ThemedText>
+            </View>
+          ) : null}
         </View>
 
         <Card style={styles.infoCard}>
@@ -353,6 +579,20 @@ export default function MemberDetailScreen() {
               </View>
             </>
           ) : null}
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+          <View style={styles.infoRow}>
+            <ThemedText style={{ color: theme.textSecondary }}>Card</ThemedText>
+            <ThemedText style={styles.infoValue}>
+              {formatCardNumber(member)}
+            </ThemedText>
+          </View>
+          {lastReissue ? (
+            <ThemedText style={{ color: theme.textSecondary, fontSize: 13 }}>
+              Reissued {lastReissue.created_at.split("T")[0]} ·{" "}
+              {CARD_REISSUE_REASON_LABELS[lastReissue.reason]}
+              {lastReissue.fee > 0 ? ` · ₱${lastReissue.fee}` : ""}
+            </ThemedText>
+          ) : null}
         </Card>
 
         <Card style={styles.subscriptionCard}>
@@ -386,6 +626,30 @@ export default function MemberDetailScreen() {
             </View>
           </View>
 
+          {openFreeze ? (
+            <View
+              style={[
+                styles.freezeInfo,
+                { backgroundColor: theme.frozen + "20" },
+              ]}
+            >
+              <Feather name="pause-circle" size={16} color={theme.frozen} />
+              <View style={{ flex: 1 }}>
+                <ThemedText style={{ color: theme.frozen, fontWeight: "600" }}>
+                  {currentFreeze ? "Frozen" : "Freeze scheduled"}:{" "}
+                  {formatFreezePeriod(openFreeze)}
+                </ThemedText>
+                {openFreeze.reason ? (
+                  <ThemedText
+                    style={{ color: theme.textSecondary, fontSize: 13 }}
+                  >
+                    {openFreeze.reason}
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+          ) : null}
+
           <View style={styles.quickExtendSection}>
             <ThemedText style={[styles.quickExtendLabel, { color: theme.textSecondary }]}>
               Quick Extend:
@@ -428,6 +692,28 @@ export default function MemberDetailScreen() {
             <Feather name="dollar-sign" size={18} color="#FFFFFF" />
             <ThemedText style={styles.actionButtonText}>Pay Per Session</ThemedText>
           </Pressable>
+          {openFreeze ? (
+            <Pressable
+              onPress={handleUnfreeze}
+              style={[styles.actionButton, { backgroundColor: theme.frozen }]}
+            >
+              <Feather name="play-circle" size={18} color="#FFFFFF" />
+              <ThemedText style={styles.actionButtonText}>
+                Unfreeze Membership
+              </ThemedText>
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={() => setShowFreezeModal(true)}
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="pause-circle" size={18} color={theme.frozen} />
+              <ThemedText>Freeze Membership</ThemedText>
+            </Pressable>
+          )}
           <Pressable
             onPress={handleViewCard}
             style={[styles.actionButton, { backgroundColor: theme.backgroundSecondary }]}
@@ -435,8 +721,120 @@ export default function MemberDetailScreen() {
             <Feather name="credit-card" size={18} color={theme.text} />
             <ThemedText>View Membership Card</ThemedText>
           </Pressable>
+          <Pressable
+            onPress={() => setShowReissueModal(true)}
+            style={[
+              styles.actionButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <Feather name="refresh-cw" size={18} color={theme.text} />
+            <ThemedText>Report Lost / Reissue Card</ThemedText>
+          </Pressable>
+          {member.is_banned ? (
+            <Pressable
+              onPress={handleLiftBan}
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="check-circle" size={18} color={theme.success} />
+              <ThemedText>Lift Ban</ThemedText>
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={() => {
+                setBanReason("");
+                setShowBanModal(true);
+              }}
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="slash" size={18} color={theme.error} />
+              <ThemedText>Ban Member</ThemedText>
+            </Pressable>
+          )}
         </View>
 
+        <Card style={styles.attendanceCard}>
+          <View style={styles.historyHeader}>
+            <ThemedText type="h4">Subscription History</ThemedText>
+            {memberSubscriptions.length > 0 ? (
+              <ThemedText style={{ color: theme.textSecondary, fontSize: 13 }}>
+                {getTenureDays(memberSubscriptions, today)} days as member
+              </ThemedText>
+            ) : null}
+          </View>
+          {memberSubscriptions.length > 0 ? (
+            [...memberSubscriptions].reverse().map((s, index) => {
+              const plan = plans.find((p) => p.id === s.plan_id);
+              const isCurrent = s.start_date <= today && s.end_date >= today;
+              return (
+                <View key={s.id}>
+                  {index > 0 ? (
+                    <View
+                      style={[
+                        styles.divider,
+                        { backgroundColor: theme.border },
+                      ]}
+                    />
+                  ) : null}
+                  <View style={styles.historyRow}>
+                    <View
+                      style={[
+                        styles.historyDot,
+                        {
+                          backgroundColor: isCurrent
+                            ? theme.success
+                            : theme.textSecondary,
+                        },
+                      ]}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <ThemedText style={styles.infoValue}>
+                        {plan ? plan.name : "Manual / Legacy"}
+                      </ThemedText>
+                      <ThemedText
+                        style={{ color: theme.textSecondary, fontSize: 13 }}
+                      >
+                        {s.start_date} → {s.end_date}
+                      </ThemedText>
+                    </View>
+                    <ThemedText>₱{s.amount_paid}</ThemedText>
+                  </View>
+                  {lapses[s.id] ? (
+                    <View
+                      style={[
+                        styles.lapseRow,
+                        { backgroundColor: theme.warning + "20" },
+                      ]}
+                    >
+                      <Feather
+                        name="alert-circle"
+                        size={14}
+                        color={theme.warning}
+                      />
+                      <ThemedText
+                        style={{ color: theme.warning, fontSize: 13 }}
+                      >
+                        Lapsed {lapses[s.id]} day{lapses[s.id] === 1 ? "" : "s"}{" "}
+                        before this period
+                      </ThemedText>
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })
+          ) : (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              No subscription history
+            </ThemedText>
+          )}
+        </Card>
+
         <Card style={styles.attendanceCard}>
           <ThemedText type="h4" style={styles.sectionTitle}>
             Recent Attendance
@@ -444,11 +842,56 @@ export default function MemberDetailScreen() {
           {memberAttendance.length > 0 ? (
             memberAttendance.map((a, index) => (
               <View key={a.id}>
-                {index > 0 ? <View style={[styles.divider, { backgroundColor: theme.border }]} /> : null}
+                {index > 0 ? (
+                  <View
+                    style={[styles.divider, { backgroundColor: theme.border }]}
+                  />
+                ) : null}
                 <View style={styles.attendanceRow}>
-                  <Feather name="log-in" size={16} color={theme.textSecondary} />
-                  <ThemedText style={{ color: theme.textSecondary }}>{a.date}</ThemedText>
+                  <Feather
+                    name="log-in"
+                    size={16}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText style={{ color: theme.textSecondary }}>
+                    {a.date}
+                  </ThemedText>
                   <ThemedText>{a.time}</ThemedText>
+                  {a.check_out_time === null ? (
+                    <ThemedText style={{ color: theme.success }}>
+                      Inside
+                    </ThemedText>
+                  ) : !a.auto_checked_out ? (
+                    <ThemedText style={{ color: theme.textSecondary }}>
+                      {formatDuration(getVisitDuration(a) ?? 0)}
+                    </ThemedText>
+                  ) : null}
+                  {a.entry_method === "manual" ? (
+                    <ThemedText
+                      style={[styles.staffLabel, { color: theme.warning }]}
+                    >
+                      Manual
+                    </ThemedText>
+                  ) : a.entry_method === "kiosk" ? (
+                    <ThemedText
+                      style={[
+                        styles.staffLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      Kiosk
+                    </ThemedText>
+                  ) : null}
+                  {a.staff_id !== null ? (
+                    <ThemedText
+                      style={[
+                        styles.staffLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      {getStaffName(staff, a.staff_id)}
+                    </ThemedText>
+                  ) : null}
                 </View>
               </View>
             ))
@@ -457,12 +900,89 @@ export default function MemberDetailScreen() {
           )}
         </Card>
 
-        <Pressable onPress={handleDelete} style={styles.deleteButton}>
-          <Feather name="trash-2" size={18} color={theme.error} />
-          <ThemedText style={{ color: theme.error }}>Delete Member</ThemedText>
-        </Pressable>
+        {recordChanges.length > 0 ? (
+          <Card style={styles.attendanceCard}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Record Changes
+            </ThemedText>
+            {recordChanges.map((edit, index) => (
+              <View key={edit.id}>
+                {index > 0 ? (
+                  <View
+                    style={[styles.divider, { backgroundColor: theme.border }]}
+                  />
+                ) : null}
+                <View style={styles.attendanceRow}>
+                  <Feather
+                    name={edit.action === "create" ? "user-plus" : "edit-2"}
+                    size={16}
+                    color={theme.textSecondary}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <ThemedText>
+                      {edit.action === "create"
+                        ? "Registered"
+                        : `Edited ${edit.fields?.split(",").join(", ") || "details"}`}
+                    </ThemedText>
+                    <ThemedText
+                      style={[
+                        styles.staffLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      {edit.created_at.split("T")[0]}
+                      {edit.staff_id !== null
+                        ? ` · ${getStaffName(staff, edit.staff_id)}`
+                        : ""}
+                    </ThemedText>
+                  </View>
+                </View>
+              </View>
+            ))}
+          </Card>
+        ) : null}
+
+        {hasPermission("delete_members") ? (
+          <Pressable onPress={handleDelete} style={styles.deleteButton}>
+            <Feather name="trash-2" size={18} color={theme.error} />
+            <ThemedText style={{ color: theme.error }}>
+              Delete Member
+            </ThemedText>
+          </Pressable>
+        ) : null}
       </ScrollView>
 
+      <PlanPickerModal
+        visible={showPlanModal}
+        onClose={() => setShowPlanModal(false)}
+        onSelect={handlePlanSelect}
+        plans={memberPlans}
+        title="Choose Plan"
+        memberName={`${member.firstname} ${member.lastname}`}
+        defaultPlanId={memberPlans[0]?.id}
+        currentEnd={member.subscription_end}
+        graceDays={renewalGraceDays}
+      />
+
+      <FreezeModal
+        visible={showFreezeModal}
+        onClose={() => setShowFreezeModal(false)}
+        onConfirm={handleFreezeConfirm}
+        memberName={`${member.firstname} ${member.lastname}`}
+      />
+
+      <CardReissueModal
+        visible={showReissueModal}
+        onClose={() => setShowReissueModal(false)}
+        onConfirm={handleReissueConfirm}
+        memberName={`${member.firstname} ${member.lastname}`}
+      />
+
+      <TenderModal
+        payment={pendingPayment}
+        onClose={() => setPendingPayment(null)}
+      />
+
       <Modal
         visible={showDateModal}
         transparent
@@ -510,6 +1030,63 @@ export default function MemberDetailScreen() {
         </View>
       </Modal>
 
+      <Modal
+        visible={showBanModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowBanModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={styles.modalTitle}>
+              Ban Member
+            </ThemedText>
+            <ThemedText
+              style={[styles.modalHint, { color: theme.textSecondary }]}
+            >
+              {member.firstname} will be refused at the scanner until the ban is
+              lifted.
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.dateInput,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={banReason}
+              onChangeText={setBanReason}
+              placeholder="Reason (optional)"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setShowBanModal(false)}
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleBan}
+                style={[styles.modalButton, { backgroundColor: theme.error }]}
+              >
+                <ThemedText style={{ color: "#FFFFFF" }}>Ban</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         visible={editModalVisible}
         transparent
@@ -653,6 +1230,14 @@ const styles = StyleSheet.create({
   divider: {
     height: 1,
   },
+  freezeInfo: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.md,
+  },
   quickExtendSection: {
     marginTop: Spacing.lg,
     paddingTop: Spacing.lg,
@@ -696,12 +1281,41 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xl,
     padding: Spacing.xl,
   },
+  historyHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  historyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  lapseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
   attendanceRow: {
     flexDirection: "row",
     alignItems: "center",
     gap: Spacing.md,
     paddingVertical: Spacing.sm,
   },
+  staffLabel: {
+    fontSize: 12,
+  },
   deleteButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -11,16 +11,24 @@ import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { getCurrentFreeze } from "@/lib/freezes";
+import { getLocalDate } from "@/lib/occupancy";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-function MemberCard({ member }: { member: Member }) {
+function MemberCard({
+  member,
+  isFrozen,
+}: {
+  member: Member;
+  isFrozen: boolean;
+}) {
   const { theme } = useTheme();
   const navigation = useNavigation<NavigationProp>();
 
   const isActive = useMemo(() => {
     if (!member.subscription_end) return false;
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     return member.subscription_end >= today;
   }, [member.subscription_end]);
 
@@ -45,7 +53,18 @@ function MemberCard({ member }: { member: Member }) {
             {member.membership_type.charAt(0).toUpperCase() + member.membership_type.slice(1)}
           </ThemedText>
         </View>
-        <View style={[styles.statusDot, { backgroundColor: isActive ? theme.success : theme.warning }]} />
+        <View
+          style={[
+            styles.statusDot,
+            {
+              backgroundColor: isFrozen
+                ? theme.frozen
+                : isActive
+                  ? theme.success
+                  : theme.warning,
+            },
+          ]}
+        />
       </View>
     </Card>
   );
@@ -54,17 +73,30 @@ function MemberCard({ member }: { member: Member }) {
 export default function MembersScreen() {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { members } = useApp();
+  const { members, freezes } = useApp();
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedFilter, setSelectedFilter] = useState<"all" | "expired" | "student" | "regular" | "senior">("all");
+  const [selectedFilter, setSelectedFilter] = useState<
+    "all" | "expired" | "frozen" | "student" | "regular" | "senior"
+  >("all");
+
+  const frozenIds = useMemo(() => {
+    const today = getLocalDate();
+    return new Set(
+      members
+        .filter((m) => getCurrentFreeze(freezes, m.id, today))
+        .map((m) => m.id),
+    );
+  }, [members, freezes]);
 
   const filteredMembers = useMemo(() => {
     let result = members;
 
     // Apply filter
     if (selectedFilter === "expired") {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDate();
       result = result.filter((m) => !m.subscription_end || m.subscription_end < today);
+    } else if (selectedFilter === "frozen") {
+      result = result.filter((m) => frozenIds.has(m.id));
     } else if (selectedFilter === "student") {
       result = result.filter((m) => m.membership_type === "student");
     } else if (selectedFilter === "regular") {
@@ -83,7 +115,7 @@ export default function MembersScreen() {
         m.email.toLowerCase().includes(query) ||
         m.phone.includes(query)
     );
-  }, [members, searchQuery, selectedFilter]);
+  }, [members, frozenIds, searchQuery, selectedFilter]);
 
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
@@ -120,7 +152,16 @@ export default function MembersScreen() {
         </View>
 
         <View style={styles.filterContainer}>
-          {(["all", "expired", "student", "regular", "senior"] as const).map((filter) => (
+          {(
+            [
+              "all",
+              "expired",
+              "frozen",
+              "student",
+              "regular",
+              "senior",
+            ] as const
+          ).map((filter) => (
             <Pressable
               key={filter}
               onPress={() => setSelectedFilter(filter)}
@@ -151,7 +192,9 @@ export default function MembersScreen() {
           styles.listContent,
           { paddingBottom: insets.bottom + Spacing.xl },
         ]}
-        renderItem={({ item }) => <MemberCard member={item} />}
+        renderItem={({ item }) => (
+          <MemberCard member={item} isFrozen={frozenIds.has(item.id)} />
+        )}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Feather name="users" size={50} color={theme.textSecondary} />
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from "react";
-import { View, StyleSheet, Image, Pressable, Platform } from "react-native";
+import { View, StyleSheet, Image, Pressable, TextInput } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import * as SecureStore from "expo-secure-store";
 import * as Haptics from "expo-haptics";
 import { Feather } from "@expo/vector-icons";
 
@@ -9,25 +8,60 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { Spacing, BorderRadius } from "@/constants/theme";
-
-const PIN_KEY = "powerlift_gym_pin";
+import { Spacing, BorderRadius, Fonts } from "@/constants/theme";
+import { getActiveStaff, STAFF_ROLE_LABELS } from "@/lib/staff";
+import { formatLockoutRemaining, getLockoutRemaining } from "@/lib/auth";
 
 export default function PinScreen() {
   const { theme } = useTheme();
-  const { setAuthenticated, setHasPin } = useApp();
+  const {
+    staff,
+    isLoading,
+    pinLockout,
+    migratedRecoveryCode,
+    signIn,
+    createOwnerAccount,
+    recoverOwnerAccess,
+    dismissMigratedRecoveryCode,
+  } = useApp();
   const insets = useSafeAreaInsets();
 
   const [pin, setPin] = useState("");
   const [confirmPin, setConfirmPin] = useState("");
-  const [isCreating, setIsCreating] = useState(false);
   const [isConfirming, setIsConfirming] = useState(false);
   const [error, setError] = useState("");
-  const [storedPin, setStoredPin] = useState<string | null>(null);
+  const [ownerName, setOwnerName] = useState("");
+  const [selectedStaffId, setSelectedStaffId] = useState<number | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryInput, setRecoveryInput] = useState("");
+  const [recoveryPin, setRecoveryPin] = useState("");
+  // A new recovery code is shown once, before signing in
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [pendingSignIn, setPendingSignIn] = useState<{
+    staffId: number;
+    pin: string;
+  } | null>(null);
+  // Or the one made when an upgrade turned the old PIN into the owner account
+  const shownRecoveryCode = recoveryCode ?? migratedRecoveryCode;
+  const [now, setNow] = useState(Date.now());
+
+  const activeStaff = getActiveStaff(staff);
+  // With no accounts yet the first person to open the app sets up the owner
+  const isCreating = !isLoading && activeStaff.length === 0;
+  const selectedStaff =
+    activeStaff.length === 1
+      ? activeStaff[0]
+      : activeStaff.find((s) => s.id === selectedStaffId);
+
+  const lockoutRemaining = getLockoutRemaining(pinLockout.lockedUntil, now);
+  const isLockedOut = lockoutRemaining > 0;
 
+  // Tick once a second so the lockout countdown stays current
   useEffect(() => {
-    checkExistingPin();
-  }, []);
+    if (!isLockedOut) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isLockedOut]);
 
   useEffect(() => {
     if (isCreating && !isConfirming && pin.length === 4) {
@@ -42,33 +76,17 @@ export default function PinScreen() {
     }
   }, [pin, confirmPin]);
 
-  const checkExistingPin = async () => {
-    try {
-      if (Platform.OS === "web") {
-        const webPin = localStorage.getItem(PIN_KEY);
-        if (webPin) {
-          setStoredPin(webPin);
-          setHasPin(true);
-        } else {
-          setIsCreating(true);
-        }
-      } else {
-        const existingPin = await SecureStore.getItemAsync(PIN_KEY);
-        if (existingPin) {
-          setStoredPin(existingPin);
-          setHasPin(true);
-        } else {
-          setIsCreating(true);
-        }
-      }
-    } catch {
-      setIsCreating(true);
-    }
-  };
-
   const handleNumberPress = (num: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setError("");
+
+    if (!isCreating && isLockedOut) {
+      return;
+    }
+    if (!isCreating && !selectedStaff) {
+      setError("Select your name first");
+      return;
+    }
     
     if (isCreating && isConfirming) {
       if (confirmPin.length < 4) {
@@ -101,6 +119,13 @@ export default function PinScreen() {
     }
   };
 
+  const handleSelectStaff = (id: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedStaffId(id);
+    setPin("");
+    setError("");
+  };
+
   const handleSubmit = async () => {
     if (isCreating) {
       if (pin.length !== 4) {
@@ -119,29 +144,74 @@ export default function PinScreen() {
         return;
       }
       try {
-        if (Platform.OS === "web") {
-          localStorage.setItem(PIN_KEY, pin);
-        } else {
-          await SecureStore.setItemAsync(PIN_KEY, pin);
-        }
-        setHasPin(true);
-        setAuthenticated(true);
+        const created = await createOwnerAccount(
+          ownerName.trim() || "Owner",
+          pin,
+        );
+        setPendingSignIn({ staffId: created.owner.id, pin });
+        setRecoveryCode(created.recoveryCode);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       } catch {
         setError("Failed to save PIN");
       }
     } else {
-      if (pin === storedPin) {
-        setAuthenticated(true);
+      if (!selectedStaff) return;
+      const result = await signIn(selectedStaff.id, pin);
+      if (result.success) {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      } else {
-        setError("Incorrect PIN");
-        setPin("");
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
       }
+      setPin("");
+      setNow(Date.now());
+      if (!result.lockedUntil) {
+        setError(
+          result.attemptsLeft === 1
+            ? "Incorrect PIN. 1 attempt left"
+            : `Incorrect PIN. ${result.attemptsLeft} attempts left`,
+        );
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleRecover = async () => {
+    setError("");
+    try {
+      const recovered = await recoverOwnerAccess(recoveryInput, recoveryPin);
+      setPendingSignIn({ staffId: recovered.owner.id, pin: recoveryPin });
+      setRecoveryCode(recovered.recoveryCode);
+      setIsRecovering(false);
+      setRecoveryInput("");
+      setRecoveryPin("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      setNow(Date.now());
+      setError(err instanceof Error ? err.message : "Failed to reset PIN");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleContinue = async () => {
+    // The upgraded PIN signs in as before once the code is saved
+    if (!pendingSignIn) {
+      dismissMigratedRecoveryCode();
+      return;
+    }
+    const result = await signIn(pendingSignIn.staffId, pendingSignIn.pin);
+    if (!result.success) {
+      setRecoveryCode(null);
+      setPendingSignIn(null);
+      setError("Please sign in with your new PIN");
     }
   };
 
+  const toggleRecovering = () => {
+    setIsRecovering(!isRecovering);
+    setRecoveryInput("");
+    setRecoveryPin("");
+    setError("");
+  };
+
   const renderPinDots = (value: string) => {
     return (
       <View style={styles.pinDots}>
@@ -181,14 +251,115 @@ export default function PinScreen() {
     return pin;
   };
 
+  const renderRecoveryCode = () => (
+    <View style={styles.recoveryBox}>
+      <View
+        style={[
+          styles.codeBox,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+        ]}
+      >
+        <ThemedText style={styles.codeText} selectable>
+          {shownRecoveryCode}
+        </ThemedText>
+      </View>
+      <Pressable
+        onPress={handleContinue}
+        style={[styles.recoveryButton, { backgroundColor: theme.primary }]}
+      >
+        <ThemedText style={styles.recoveryButtonText}>
+          I have saved it, continue
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+
+  const renderRecoveryForm = () => (
+    <View style={styles.recoveryBox}>
+      <TextInput
+        style={[
+          styles.nameInput,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            color: theme.text,
+            borderColor: theme.border,
+          },
+        ]}
+        value={recoveryInput}
+        onChangeText={setRecoveryInput}
+        placeholder="XXXX-XXXX-XXXX-XXXX"
+        placeholderTextColor={theme.textSecondary}
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      <TextInput
+        style={[
+          styles.nameInput,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            color: theme.text,
+            borderColor: theme.border,
+          },
+        ]}
+        value={recoveryPin}
+        onChangeText={(text) => setRecoveryPin(text.replace(/[^0-9]/g, ""))}
+        placeholder="New 4-digit PIN"
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="number-pad"
+        maxLength={4}
+        secureTextEntry
+      />
+      <Pressable
+        onPress={handleRecover}
+        disabled={isLockedOut}
+        style={[
+          styles.recoveryButton,
+          { backgroundColor: theme.primary, opacity: isLockedOut ? 0.5 : 1 },
+        ]}
+      >
+        <ThemedText style={styles.recoveryButtonText}>
+          Reset Owner PIN
+        </ThemedText>
+      </Pressable>
+      <Pressable onPress={toggleRecovering} style={styles.linkButton}>
+        <ThemedText style={[styles.linkText, { color: theme.primary }]}>
+          Back to sign in
+        </ThemedText>
+      </Pressable>
+      {isLockedOut ? (
+        <ThemedText style={[styles.error, { color: theme.error }]}>
+          Too many attempts. Try again in{" "}
+          {formatLockoutRemaining(lockoutRemaining)}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+
+  const showKeypad = !shownRecoveryCode && !isRecovering;
+
   const getSubtitle = () => {
+    if (!recoveryCode && migratedRecoveryCode) {
+      return "Your PIN now signs in to the Owner account. Write down this recovery code and keep it somewhere safe. It is the only way back in if the owner PIN is forgotten.";
+    }
+    if (recoveryCode) {
+      return "Write down this recovery code and keep it somewhere safe. It is the only way back in if the owner PIN is forgotten.";
+    }
+    if (isRecovering) {
+      return "Enter the owner recovery code and choose a new PIN";
+    }
     if (isCreating) {
       if (isConfirming) {
         return "Confirm your 4-digit PIN";
       }
-      return "Create your 4-digit PIN";
+      return "Set up the owner account with a 4-digit PIN";
+    }
+    if (!selectedStaff) {
+      return "Select your name to sign in";
     }
-    return "Enter your PIN to continue";
+    return `Hi ${selectedStaff.name}, enter your PIN to continue`;
   };
 
   return (
@@ -213,56 +384,140 @@ export default function PinScreen() {
           {getSubtitle()}
         </ThemedText>
 
-        {renderPinDots(getCurrentPin())}
+        {showKeypad && isCreating && !isConfirming ? (
+          <TextInput
+            style={[
+              styles.nameInput,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+                borderColor: theme.border,
+              },
+            ]}
+            value={ownerName}
+            onChangeText={setOwnerName}
+            placeholder="Owner name"
+            placeholderTextColor={theme.textSecondary}
+          />
+        ) : null}
+
+        {showKeypad && !isCreating && activeStaff.length > 1 ? (
+          <View style={styles.staffRow}>
+            {activeStaff.map((member) => {
+              const isSelected = selectedStaff?.id === member.id;
+              return (
+                <Pressable
+                  key={member.id}
+                  onPress={() => handleSelectStaff(member.id)}
+                  style={[
+                    styles.staffChip,
+                    {
+                      backgroundColor: isSelected
+                        ? theme.primary
+                        : theme.backgroundSecondary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.staffName,
+                      isSelected ? { color: "#FFFFFF" } : undefined,
+                    ]}
+                  >
+                    {member.name}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      styles.staffRole,
+                      { color: isSelected ? "#FFFFFF" : theme.textSecondary },
+                    ]}
+                  >
+                    {STAFF_ROLE_LABELS[member.role]}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
 
-        {error ? (
-          <ThemedText style={[styles.error, { color: theme.error }]}>{error}</ThemedText>
+        {shownRecoveryCode ? renderRecoveryCode() : null}
+        {isRecovering ? renderRecoveryForm() : null}
+        {showKeypad ? renderPinDots(getCurrentPin()) : null}
+
+        {showKeypad && !isCreating && isLockedOut ? (
+          <ThemedText style={[styles.error, { color: theme.error }]}>
+            Too many attempts. Try again in{" "}
+            {formatLockoutRemaining(lockoutRemaining)}
+          </ThemedText>
+        ) : error ? (
+          <ThemedText style={[styles.error, { color: theme.error }]}>
+            {error}
+          </ThemedText>
         ) : (
           <View style={styles.errorPlaceholder} />
         )}
       </View>
 
-      <View style={styles.keypadContainer}>
-        <View style={styles.keypadRow}>
-          {renderNumberButton("1")}
-          {renderNumberButton("2")}
-          {renderNumberButton("3")}
-        </View>
-        <View style={styles.keypadRow}>
-          {renderNumberButton("4")}
-          {renderNumberButton("5")}
-          {renderNumberButton("6")}
-        </View>
-        <View style={styles.keypadRow}>
-          {renderNumberButton("7")}
-          {renderNumberButton("8")}
-          {renderNumberButton("9")}
-        </View>
-        <View style={styles.keypadRow}>
-          <Pressable
-            onPress={handleClear}
-            onLongPress={handleClear}
-            style={({ pressed }) => [
-              styles.numButton,
-              styles.actionButton,
-              { backgroundColor: pressed ? theme.error : "transparent" },
-            ]}
-          >
-            <ThemedText style={[styles.actionButtonText, { color: theme.error }]}>C</ThemedText>
-          </Pressable>
-          {renderNumberButton("0")}
-          <Pressable
-            onPress={handleBackspace}
-            style={({ pressed }) => [
-              styles.numButton,
-              styles.actionButton,
-              { backgroundColor: pressed ? theme.textSecondary : "transparent" },
-            ]}
-          >
-            <Feather name="delete" size={24} color={theme.text} />
-          </Pressable>
+      {showKeypad ? (
+        <View style={styles.keypadContainer}>
+          <View style={styles.keypadRow}>
+            {renderNumberButton("1")}
+            {renderNumberButton("2")}
+            {renderNumberButton("3")}
+          </View>
+          <View style={styles.keypadRow}>
+            {renderNumberButton("4")}
+            {renderNumberButton("5")}
+            {renderNumberButton("6")}
+          </View>
+          <View style={styles.keypadRow}>
+            {renderNumberButton("7")}
+            {renderNumberButton("8")}
+            {renderNumberButton("9")}
+          </View>
+          <View style={styles.keypadRow}>
+            <Pressable
+              onPress={handleClear}
+              onLongPress={handleClear}
+              style={({ pressed }) => [
+                styles.numButton,
+                styles.actionButton,
+                { backgroundColor: pressed ? theme.error : "transparent" },
+              ]}
+            >
+              <ThemedText
+                style={[styles.actionButtonText, { color: theme.error }]}
+              >
+                C
+              </ThemedText>
+            </Pressable>
+            {renderNumberButton("0")}
+            <Pressable
+              onPress={handleBackspace}
+              style={({ pressed }) => [
+                styles.numButton,
+                styles.actionButton,
+                {
+                  backgroundColor: pressed
+                    ? theme.textSecondary
+                    : "transparent",
+                },
+              ]}
+            >
+              <Feather name="delete" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+          {!isCreating ? (
+            <Pressable onPress={toggleRecovering} style={styles.linkButton}>
+              <ThemedText style={[styles.linkText, { color: theme.primary }]}>
+                Forgot owner PIN?
+              </ThemedText>
+            </Pressable>
+          ) : null}
         </View>
-      </View>
+      ) : (
+        <View style={styles.keypadContainer} />
+      )}
 
       <ThemedText style={[styles.footer, { color: theme.textSecondary }]}>
         Developed by Rov - 2025
@@ -295,6 +550,74 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xl,
     fontSize: 14,
   },
+  nameInput: {
+    width: "100%",
+    maxWidth: 280,
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: Spacing.lg,
+  },
+  staffRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  staffChip: {
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  staffName: {
+    fontWeight: "600",
+  },
+  staffRole: {
+    fontSize: 11,
+  },
+  recoveryBox: {
+    width: "100%",
+    alignItems: "center",
+  },
+  codeBox: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.lg,
+    paddingHorizontal: Spacing.xl,
+    marginBottom: Spacing.lg,
+  },
+  codeText: {
+    fontSize: 20,
+    fontWeight: "700",
+    letterSpacing: 2,
+    fontFamily: Fonts?.mono || "monospace",
+  },
+  recoveryButton: {
+    width: "100%",
+    maxWidth: 280,
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  recoveryButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  linkButton: {
+    alignSelf: "center",
+    padding: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  linkText: {
+    fontSize: 14,
+  },
   pinDots: {
     flexDirection: "row",
     gap: Spacing.lg,
@@ -0,0 +1,470 @@
+import React, { useLayoutEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Modal,
+  TextInput,
+  Switch,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useApp, Plan } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { Card } from "@/components/Card";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { formatPlanDuration, PLAN_CATEGORY_LABELS } from "@/lib/plans";
+import { formatAllowedHours, isValidAccessTime } from "@/lib/access";
+
+const CATEGORIES: Plan["category"][] = ["any", "student", "regular", "senior"];
+const UNITS: Plan["duration_unit"][] = ["days", "months"];
+
+export default function PlansScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation();
+  const { plans, addPlan, updatePlan } = useApp();
+
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingPlanId, setEditingPlanId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [durationValue, setDurationValue] = useState("1");
+  const [durationUnit, setDurationUnit] =
+    useState<Plan["duration_unit"]>("months");
+  const [price, setPrice] = useState("");
+  const [category, setCategory] = useState<Plan["category"]>("any");
+  const [allowedFrom, setAllowedFrom] = useState("");
+  const [allowedUntil, setAllowedUntil] = useState("");
+
+  // Configure header with back button
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="chevron-left" size={24} color={theme.text} />
+        </Pressable>
+      ),
+    });
+  }, [navigation, theme.text]);
+
+  const openEditor = (plan?: Plan) => {
+    setEditingPlanId(plan?.id ?? null);
+    setName(plan?.name ?? "");
+    setDurationValue(plan ? plan.duration_value.toString() : "1");
+    setDurationUnit(plan?.duration_unit ?? "months");
+    setPrice(plan ? plan.price.toString() : "");
+    setCategory(plan?.category ?? "any");
+    setAllowedFrom(plan?.allowed_from ?? "");
+    setAllowedUntil(plan?.allowed_until ?? "");
+    setShowEditor(true);
+  };
+
+  const handleSave = async () => {
+    const duration = parseInt(durationValue, 10);
+    const amount = parseFloat(price);
+
+    if (!name.trim()) {
+      Alert.alert("Missing Information", "Please enter a plan name.");
+      return;
+    }
+    if (!duration || duration <= 0) {
+      Alert.alert("Invalid Duration", "Duration must be at least 1.");
+      return;
+    }
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert("Invalid Price", "Please enter a valid price.");
+      return;
+    }
+    const from = allowedFrom.trim();
+    const until = allowedUntil.trim();
+    if (
+      (from || until) &&
+      (!isValidAccessTime(from) || !isValidAccessTime(until) || from === until)
+    ) {
+      Alert.alert(
+        "Invalid Entry Hours",
+        "Enter both times as HH:MM in 24-hour format, e.g. 09:00 and 16:00, or leave both blank.",
+      );
+      return;
+    }
+
+    const planData = {
+      name: name.trim(),
+      duration_value: duration,
+      duration_unit: durationUnit,
+      price: amount,
+      category,
+      allowed_from: from || null,
+      allowed_until: until || null,
+    };
+
+    try {
+      if (editingPlanId !== null) {
+        await updatePlan(editingPlanId, planData);
+      } else {
+        await addPlan({ ...planData, is_active: 1 });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setShowEditor(false);
+    } catch (error) {
+      console.error("Failed to save plan:", error);
+      Alert.alert("Error", "Failed to save plan.");
+    }
+  };
+
+  const handleToggleActive = async (plan: Plan) => {
+    try {
+      await updatePlan(plan.id, { is_active: plan.is_active === 1 ? 0 : 1 });
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error("Failed to update plan:", error);
+      Alert.alert("Error", "Failed to update plan.");
+    }
+  };
+
+  const renderChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText style={selected ? { color: "#FFFFFF" } : undefined}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <>
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <ThemedText style={[styles.intro, { color: theme.textSecondary }]}>
+          Plans are offered when registering or renewing a member. Inactive
+          plans are hidden from staff but kept for past records.
+        </ThemedText>
+
+        {plans.map((plan) => (
+          <Card key={plan.id} style={styles.planCard}>
+            <View style={styles.planRow}>
+              <Pressable
+                onPress={() => openEditor(plan)}
+                style={styles.planInfo}
+              >
+                <ThemedText
+                  type="h4"
+                  style={plan.is_active ? undefined : { opacity: 0.5 }}
+                >
+                  {plan.name}
+                </ThemedText>
+                <ThemedText style={{ color: theme.textSecondary }}>
+                  {formatPlanDuration(plan)} ·{" "}
+                  {PLAN_CATEGORY_LABELS[plan.category]} · ₱{plan.price}
+                  {formatAllowedHours(plan)
+                    ? ` · ${formatAllowedHours(plan)}`
+                    : ""}
+                </ThemedText>
+              </Pressable>
+              <Switch
+                value={plan.is_active === 1}
+                onValueChange={() => handleToggleActive(plan)}
+                trackColor={{
+                  false: theme.backgroundTertiary,
+                  true: theme.primary + "80",
+                }}
+                thumbColor={
+                  plan.is_active ? theme.primary : theme.backgroundSecondary
+                }
+              />
+            </View>
+          </Card>
+        ))}
+
+        <Pressable
+          onPress={() => openEditor()}
+          style={[styles.addButton, { backgroundColor: theme.primary }]}
+        >
+          <Feather name="plus" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.addButtonText}>Add Plan</ThemedText>
+        </Pressable>
+      </ScrollView>
+
+      <Modal
+        visible={showEditor}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowEditor(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={styles.modalTitle}>
+              {editingPlanId !== null ? "Edit Plan" : "New Plan"}
+            </ThemedText>
+
+            <ThemedText style={styles.label}>Name</ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Quarterly (Regular)"
+              placeholderTextColor={theme.textSecondary}
+            />
+
+            <ThemedText style={styles.label}>Duration</ThemedText>
+            <View style={styles.row}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.durationInput,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={durationValue}
+                onChangeText={(text) =>
+                  setDurationValue(text.replace(/[^0-9]/g, ""))
+                }
+                keyboardType="number-pad"
+              />
+              {UNITS.map((unit) =>
+                renderChip(
+                  unit === "days" ? "Days" : "Months",
+                  durationUnit === unit,
+                  () => setDurationUnit(unit),
+                ),
+              )}
+            </View>
+
+            <ThemedText style={styles.label}>Price</ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={price}
+              onChangeText={(text) => setPrice(text.replace(/[^0-9.]/g, ""))}
+              keyboardType="decimal-pad"
+              placeholder="0.00"
+              placeholderTextColor={theme.textSecondary}
+            />
+
+            <ThemedText style={styles.label}>Eligible Members</ThemedText>
+            <View style={[styles.row, styles.chipWrap]}>
+              {CATEGORIES.map((c) =>
+                renderChip(PLAN_CATEGORY_LABELS[c], category === c, () =>
+                  setCategory(c),
+                ),
+              )}
+            </View>
+
+            <ThemedText style={styles.label}>Entry Hours (optional)</ThemedText>
+            <View style={styles.row}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.hoursInput,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={allowedFrom}
+                onChangeText={(text) =>
+                  setAllowedFrom(text.replace(/[^0-9:]/g, ""))
+                }
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+                placeholder="From 09:00"
+                placeholderTextColor={theme.textSecondary}
+              />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.hoursInput,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={allowedUntil}
+                onChangeText={(text) =>
+                  setAllowedUntil(text.replace(/[^0-9:]/g, ""))
+                }
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+                placeholder="Until 16:00"
+                placeholderTextColor={theme.textSecondary}
+              />
+            </View>
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setShowEditor(false)}
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={[styles.modalButton, { backgroundColor: theme.primary }]}
+              >
+                <ThemedText style={{ color: "#FFFFFF" }}>Save</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  intro: {
+    fontSize: 13,
+    marginBottom: Spacing.xl,
+  },
+  planCard: {
+    marginBottom: Spacing.md,
+    padding: Spacing.lg,
+  },
+  planRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  planInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.full,
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+  modalContent: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  modalTitle: {
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "500",
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  chipWrap: {
+    flexWrap: "wrap",
+    marginBottom: Spacing.lg,
+  },
+  durationInput: {
+    width: 80,
+  },
+  hoursInput: {
+    flex: 1,
+  },
+  chip: {
+    height: Spacing.inputHeight,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  modalButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { View, StyleSheet, TextInput, Pressable, Image, Alert, Platform } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
@@ -11,14 +11,24 @@ import { useApp } from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import { formatPlanDuration, getPlansForMember } from "@/lib/plans";
+import { allocateTenders, Tender } from "@/lib/payments";
+import { TenderModal, PendingPayment } from "@/components/TenderModal";
 
 type MembershipType = "student" | "regular" | "senior";
-type RegistrationOption = "member_only" | "member_monthly" | "member_session";
+type RegistrationOption = "member_only" | "member_plan" | "member_session";
 
 export default function RegisterScreen() {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { addMember, addSale, priceSettings, addAttendance } = useApp();
+  const {
+    addMember,
+    addSale,
+    subscribeMember,
+    priceSettings,
+    plans,
+    addAttendance,
+  } = useApp();
 
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
@@ -27,8 +37,28 @@ export default function RegisterScreen() {
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [photo, setPhoto] = useState("");
-  const [membershipType, setMembershipType] = useState<MembershipType>("regular");
-  const [registrationOption, setRegistrationOption] = useState<RegistrationOption>("member_only");
+  const [membershipType, setMembershipType] =
+    useState<MembershipType>("regular");
+  const [registrationOption, setRegistrationOption] =
+    useState<RegistrationOption>("member_only");
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(
+    null,
+  );
+
+  const availablePlans = useMemo(
+    () => getPlansForMember(plans, membershipType),
+    [plans, membershipType],
+  );
+  const selectedPlan =
+    availablePlans.find((p) => p.id === selectedPlanId) ?? availablePlans[0];
+
+  // Keep the chosen plan valid when the membership type changes
+  useEffect(() => {
+    if (!availablePlans.some((p) => p.id === selectedPlanId)) {
+      setSelectedPlanId(availablePlans[0]?.id ?? null);
+    }
+  }, [availablePlans, selectedPlanId]);
 
   const pickImage = async () => {
     setIsInPhotoPicker(true);
@@ -81,6 +111,7 @@ export default function RegisterScreen() {
     setPhoto("");
     setMembershipType("regular");
     setRegistrationOption("member_only");
+    setSelectedPlanId(null);
   };
 
   const handleRegister = async () => {
@@ -97,40 +128,64 @@ export default function RegisterScreen() {
       return;
     }
 
-    const today = new Date();
-    let subscriptionStart: string | null = null;
-    let subscriptionEnd: string | null = null;
-
-    if (registrationOption === "member_monthly") {
-      subscriptionStart = today.toISOString().split("T")[0];
-      const endDate = new Date(today);
-      endDate.setMonth(endDate.getMonth() + 1);
-      subscriptionEnd = endDate.toISOString().split("T")[0];
+    if (registrationOption === "member_plan" && !selectedPlan) {
+      Alert.alert(
+        "No Plan Available",
+        "Add an active plan for this membership type in Settings first.",
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
     }
 
-    const newMember = await addMember({
-  firstname: firstName.trim(),
-  lastname: lastName.trim(),
-  age: parseInt(age),
-  gender,
-  email: email.trim(),
-  phone: phone.trim(),
-  photo,
-  membership_type: membershipType,
-  is_member: 1,
-  subscription_start: subscriptionStart,
-  subscription_end: subscriptionEnd,
-});
-
+    // Registration fee first, then the plan or first session
+    const charges = [priceSettings.membership];
+    if (registrationOption === "member_plan" && selectedPlan) {
+      charges.push(selectedPlan.price);
+    } else if (registrationOption === "member_session") {
+      charges.push(priceSettings.session_member);
+    }
 
-    addSale("membership_fee", priceSettings.membership, `Membership for ${firstName} ${lastName}`);
+    setPendingPayment({
+      total: charges.reduce((sum, c) => sum + c, 0),
+      title: "Registration Payment",
+      description: `${firstName.trim()} ${lastName.trim()}`,
+      onConfirm: (tenders) =>
+        completeRegistration(allocateTenders(tenders, charges)),
+    });
+  };
 
-    if (registrationOption === "member_monthly") {
-      const priceKey = `${membershipType}_monthly` as keyof typeof priceSettings;
-      addSale(`monthly_${membershipType}`, priceSettings[priceKey] as number, `Monthly subscription for ${firstName} ${lastName}`);
+  const completeRegistration = async (payments: Tender[][]) => {
+    const newMember = await addMember({
+      firstname: firstName.trim(),
+      lastname: lastName.trim(),
+      age: parseInt(age),
+      gender,
+      email: email.trim(),
+      phone: phone.trim(),
+      photo,
+      membership_type: membershipType,
+      is_member: 1,
+      subscription_start: null,
+      subscription_end: null,
+    });
+
+    addSale(
+      "membership_fee",
+      priceSettings.membership,
+      `Membership for ${firstName} ${lastName}`,
+      payments[0],
+    );
+
+    if (registrationOption === "member_plan" && selectedPlan) {
+      await subscribeMember(newMember, selectedPlan, undefined, payments[1]);
     } else if (registrationOption === "member_session") {
-      addSale("session_member", priceSettings.session_member, `Session for ${firstName} ${lastName}`);
-  await addAttendance(newMember.id);
+      addSale(
+        "session_member",
+        priceSettings.session_member,
+        `Session for ${firstName} ${lastName}`,
+        payments[1],
+      );
+      await addAttendance(newMember.id, "manual");
     }
 
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -153,7 +208,7 @@ export default function RegisterScreen() {
     </Pressable>
   );
 
-  const renderMembershipOption = (value: MembershipType, label: string, price: number) => (
+  const renderMembershipOption = (value: MembershipType, label: string) => (
     <Pressable
       onPress={() => setMembershipType(value)}
       style={[
@@ -166,7 +221,7 @@ export default function RegisterScreen() {
         {label}
       </ThemedText>
       <ThemedText style={[styles.membershipPrice, { color: theme.textSecondary }]}>
-        ₱{price}/month
+        {getPlansForMember(plans, value).length} plans
       </ThemedText>
     </Pressable>
   );
@@ -303,9 +358,9 @@ export default function RegisterScreen() {
           Membership Type
         </ThemedText>
         <View style={styles.membershipGrid}>
-          {renderMembershipOption("student", "Student", priceSettings.student_monthly)}
-          {renderMembershipOption("regular", "Regular", priceSettings.regular_monthly)}
-          {renderMembershipOption("senior", "Senior", priceSettings.senior_monthly)}
+          {renderMembershipOption("student", "Student")}
+          {renderMembershipOption("regular", "Regular")}
+          {renderMembershipOption("senior", "Senior")}
         </View>
       </View>
 
@@ -314,10 +369,72 @@ export default function RegisterScreen() {
           Registration Option
         </ThemedText>
         {renderRegistrationOption("member_only", "Member Only", `Membership fee: ₱${priceSettings.membership}`)}
-        {renderRegistrationOption("member_monthly", "Member + Monthly Subscription", `Total: ₱${priceSettings.membership + (priceSettings[`${membershipType}_monthly` as keyof typeof priceSettings] as number)}`)}
-        {renderRegistrationOption("member_session", "Member + Per Session", `Total: ₱${priceSettings.membership + priceSettings.session_member}`)}
+        {renderRegistrationOption(
+          "member_plan",
+          "Member + Subscription Plan",
+          selectedPlan
+            ? `Total: ₱${priceSettings.membership + selectedPlan.price}`
+            : "No active plans for this membership type",
+        )}
+        {renderRegistrationOption(
+          "member_session",
+          "Member + Per Session",
+          `Total: ₱${priceSettings.membership + priceSettings.session_member}`,
+        )}
       </View>
 
+      {registrationOption === "member_plan" && availablePlans.length > 0 ? (
+        <View style={styles.formSection}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Subscription Plan
+          </ThemedText>
+          {availablePlans.map((plan) => (
+            <Pressable
+              key={plan.id}
+              onPress={() => setSelectedPlanId(plan.id)}
+              style={[
+                styles.regOption,
+                {
+                  borderColor: theme.border,
+                  backgroundColor: theme.backgroundDefault,
+                },
+                selectedPlan?.id === plan.id && {
+                  borderColor: theme.primary,
+                  backgroundColor: theme.primary + "15",
+                },
+              ]}
+            >
+              <View style={styles.radioOuter}>
+                {selectedPlan?.id === plan.id ? (
+                  <View
+                    style={[
+                      styles.radioInner,
+                      { backgroundColor: theme.primary },
+                    ]}
+                  />
+                ) : null}
+              </View>
+              <View style={styles.regOptionText}>
+                <ThemedText
+                  style={
+                    selectedPlan?.id === plan.id
+                      ? { color: theme.primary }
+                      : undefined
+                  }
+                >
+                  {plan.name}
+                </ThemedText>
+                <ThemedText
+                  style={[styles.regOptionDesc, { color: theme.textSecondary }]}
+                >
+                  {formatPlanDuration(plan)} · ₱{plan.price}
+                </ThemedText>
+              </View>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
       <Pressable
         onPress={handleRegister}
         disabled={!photo}
@@ -327,8 +444,15 @@ export default function RegisterScreen() {
         ]}
       >
         <Feather name="user-plus" size={20} color="#FFFFFF" />
-        <ThemedText style={styles.registerButtonText}>Register Member</ThemedText>
+        <ThemedText style={styles.registerButtonText}>
+          Register Member
+        </ThemedText>
       </Pressable>
+
+      <TenderModal
+        payment={pendingPayment}
+        onClose={() => setPendingPayment(null)}
+      />
     </KeyboardAwareScrollViewCompat>
   );
 }
@@ -2,7 +2,6 @@ import React, { useState, useMemo } from "react";
 import { View, StyleSheet, ScrollView, Pressable, Share, Platform, Alert, Modal } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
-import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import * as FileSystem from "expo-file-system/legacy";
 import { Calendar } from "react-native-calendars";
@@ -12,30 +11,43 @@ import { useApp } from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import { computeRetention, RETENTION_GRACE_DAYS } from "@/lib/subscriptions";
+import {
+  getPaymentGroupId,
+  getTotalsByMethod,
+  PAYMENT_METHOD_LABELS,
+} from "@/lib/payments";
+import { exportHTMLAsPDF, SALE_TYPE_LABELS } from "@/lib/reports";
+import { getStaffName } from "@/lib/staff";
+import { getLocalDate } from "@/lib/occupancy";
+import {
+  CORRECTION_LABELS,
+  CorrectionType,
+  getCorrectionTotals,
+  getRefundableAmount,
+  getSaleCorrectionStatus,
+  isCorrection,
+} from "@/lib/corrections";
+import { SaleCorrectionModal } from "@/components/SaleCorrectionModal";
+import type { Sale } from "@/context/AppContext";
 
-type FilterPeriod = "daily" | "weekly" | "monthly" | "annual" | "custom";
+const TRANSACTION_PREVIEW_COUNT = 20;
 
-const SALE_TYPE_LABELS: Record<string, string> = {
-  membership_fee: "Membership Fee",
-  monthly_student: "Monthly Subscription (Student)",
-  monthly_regular: "Monthly Subscription (Regular)",
-  monthly_senior: "Monthly Subscription (Senior)",
-  session_member: "Session Payment (Regular Member)",
-  session_member_senior: "Session Payment (Senior Member)",
-  session_nonmember: "Session Payment (Walk-in)",
-  session_nonmember_senior: "Session Payment (Senior Walk-in)",
-};
+type FilterPeriod = "daily" | "weekly" | "monthly" | "annual" | "custom";
 
 export default function ReportsScreen() {
   const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
-  const { sales, attendance, members } = useApp();
+  const { sales, attendance, members, subscriptions, staff, correctSale } =
+    useApp();
   const [filter, setFilter] = useState<FilterPeriod>("daily");
   const [isExporting, setIsExporting] = useState(false);
   const [showDateRangeModal, setShowDateRangeModal] = useState(false);
   const [pickingDateType, setPickingDateType] = useState<"start" | "end" | null>(null);
   const [customStartDate, setCustomStartDate] = useState<string>("");
   const [customEndDate, setCustomEndDate] = useState<string>("");
+  const [correctingSale, setCorrectingSale] = useState<Sale | null>(null);
+  const [showAllTransactions, setShowAllTransactions] = useState(false);
 
   const getDateRange = (period: FilterPeriod): { start: string; end: string } => {
     const today = new Date();
@@ -71,16 +83,28 @@ export default function ReportsScreen() {
     return { start, end };
   };
 
-  const { filteredSales, filteredAttendance, totalEarnings, salesByType, earningsByDate } = useMemo(() => {
+  const {
+    filteredSales,
+    filteredAttendance,
+    totalEarnings,
+    transactionCount,
+    salesByType,
+    salesByMethod,
+    correctionTotals,
+    earningsByDate,
+    retention,
+  } = useMemo(() => {
     const { start, end } = getDateRange(filter);
-    
-    const fSales = sales.filter(s => s.date >= start && s.date <= end);
-    const fAttendance = attendance.filter(a => a.date >= start && a.date <= end);
-    
+
+    const fSales = sales.filter((s) => s.date >= start && s.date <= end);
+    const fAttendance = attendance.filter(
+      (a) => a.date >= start && a.date <= end,
+    );
+
     const total = fSales.reduce((sum, s) => sum + s.amount, 0);
-    
+
     const byType: Record<string, number> = {};
-    fSales.forEach(s => {
+    fSales.forEach((s) => {
       byType[s.type] = (byType[s.type] || 0) + s.amount;
     });
 
@@ -93,27 +117,48 @@ export default function ReportsScreen() {
       filteredSales: fSales,
       filteredAttendance: fAttendance,
       totalEarnings: total,
+      // Voids and refunds are offsetting entries, not transactions of their own
+      transactionCount: fSales.filter((s) => !isCorrection(s)).length,
       salesByType: byType,
+      salesByMethod: getTotalsByMethod(fSales),
+      correctionTotals: getCorrectionTotals(fSales),
       earningsByDate: byDate,
+      retention: computeRetention(
+        subscriptions,
+        start,
+        end,
+        new Date().toISOString().split("T")[0],
+      ),
     };
-  }, [sales, attendance, filter, customStartDate, customEndDate]);
+  }, [
+    sales,
+    attendance,
+    subscriptions,
+    filter,
+    customStartDate,
+    customEndDate,
+  ]);
 
   const maxEarning = useMemo(() => {
     const values = Object.values(earningsByDate);
-    return values.length > 0 ? Math.max(...values) : 1;
+    // Days that are all refunds net out negative and draw no bar
+    return values.length > 0 ? Math.max(...values, 1) : 1;
   }, [earningsByDate]);
 
   const generateCSV = (): string => {
-    let csv = "Date,Type,Amount,Note\n";
-    filteredSales.forEach(s => {
-      csv += `${s.date},"${SALE_TYPE_LABELS[s.type] || s.type}",${s.amount},"${s.note || ''}"\n`;
+    // Typed text can hold quotes, which CSV escapes by doubling
+    const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+    let csv =
+      "Sale #,Date,Type,Amount,Payment Method,Reference,Payment #,Correction,Reverses Sale #,Reason,Staff,Note\n";
+    filteredSales.forEach((s) => {
+      csv += `${s.id},${s.date},"${SALE_TYPE_LABELS[s.type] || s.type}",${s.amount},"${PAYMENT_METHOD_LABELS[s.payment_method] || s.payment_method}",${quote(s.reference_number || "")},${getPaymentGroupId(s)},"${s.correction_type ? CORRECTION_LABELS[s.correction_type] : ""}",${s.reverses_sale_id ?? ""},${quote(s.correction_reason || "")},${quote(getStaffName(staff, s.staff_id))},${quote(s.note || "")}\n`;
     });
     return csv;
   };
 
   const generateMembersCSV = (): string => {
     let csv = "ID,First Name,Last Name,Age,Gender,Email,Phone,Membership Type,Status,Subscription End\n";
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     members.forEach(m => {
       const status = m.subscription_end && m.subscription_end >= today ? "Active" : "Expired";
       csv += `${m.id},"${m.firstname}","${m.lastname}",${m.age},"${m.gender}","${m.email || ''}","${m.phone || ''}","${m.membership_type}","${status}","${m.subscription_end || 'N/A'}"\n`;
@@ -170,7 +215,7 @@ export default function ReportsScreen() {
       <p>Total Earnings</p>
     </div>
     <div class="summary-card">
-      <h3>${filteredSales.length}</h3>
+      <h3>${transactionCount}</h3>
       <p>Transactions</p>
     </div>
     <div class="summary-card">
@@ -193,7 +238,19 @@ export default function ReportsScreen() {
           <td>${SALE_TYPE_LABELS[type] || type}</td>
           <td class="amount">P${Number(amount).toLocaleString()}</td>
         </tr>
-      `).join('')}
+      `,
+        )
+        .join("")}
+      ${Object.entries(correctionTotals)
+        .map(
+          ([type, amount]) => `
+        <tr>
+          <td>Less ${CORRECTION_LABELS[type] || type}s (included above)</td>
+          <td class="amount">-P${Number(amount).toLocaleString()}</td>
+        </tr>
+      `,
+        )
+        .join("")}
       <tr class="total-row">
         <td>TOTAL</td>
         <td class="amount">P${totalEarnings.toLocaleString()}</td>
@@ -201,6 +258,28 @@ export default function ReportsScreen() {
     </tbody>
   </table>
 
+  <h2 class="section-title">Sales by Payment Method</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Method</th>
+        <th class="amount">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${Object.entries(salesByMethod)
+        .map(
+          ([method, amount]) => `
+        <tr>
+          <td>${PAYMENT_METHOD_LABELS[method] || method}</td>
+          <td class="amount">P${Number(amount).toLocaleString()}</td>
+        </tr>
+      `,
+        )
+        .join("")}
+    </tbody>
+  </table>
+
   <h2 class="section-title">Transaction Details</h2>
   <table>
     <thead>
@@ -208,6 +287,7 @@ export default function ReportsScreen() {
         <th>Date</th>
         <th>Type</th>
         <th class="amount">Amount</th>
+        <th>Method</th>
         <th>Note</th>
       </tr>
     </thead>
@@ -217,9 +297,12 @@ export default function ReportsScreen() {
           <td>${s.date}</td>
           <td>${SALE_TYPE_LABELS[s.type] || s.type}</td>
           <td class="amount">P${s.amount.toLocaleString()}</td>
-          <td>${s.note || '-'}</td>
+          <td>${PAYMENT_METHOD_LABELS[s.payment_method] || s.payment_method}${s.reference_number ? ` #${s.reference_number}` : ""}</td>
+          <td>${s.note || "-"}${s.correction_reason ? ` - Reason: ${s.correction_reason}` : ""}</td>
         </tr>
-      `).join('')}
+      `,
+        )
+        .join("")}
     </tbody>
   </table>
 
@@ -232,7 +315,7 @@ export default function ReportsScreen() {
   };
 
   const generateMembersReportHTML = (): string => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate();
     const todayFormatted = new Date().toLocaleDateString();
     const activeMembers = members.filter(m => m.subscription_end && m.subscription_end >= today);
     const expiredMembers = members.filter(m => !m.subscription_end || m.subscription_end < today);
@@ -369,38 +452,7 @@ export default function ReportsScreen() {
     setIsExporting(true);
     try {
       const html = generateSalesReportHTML();
-      
-      if (Platform.OS === "web") {
-        const printWindow = window.open("", "_blank");
-        if (printWindow) {
-          printWindow.document.write(html);
-          printWindow.document.close();
-          printWindow.print();
-        }
-        return;
-      }
-
-      const fileName = `sales_report_${filter}_${Date.now()}`;
-      
-      try {
-        const { uri } = await Print.printToFileAsync({ html });
-        const isSharingAvailable = await Sharing.isAvailableAsync();
-        
-        if (isSharingAvailable) {
-          await Sharing.shareAsync(uri, { mimeType: "application/pdf", UTI: "com.adobe.pdf" });
-        } else {
-          const destPath = (FileSystem.documentDirectory || '') + `${fileName}.pdf`;
-          await FileSystem.copyAsync({ from: uri, to: destPath });
-          Alert.alert("Success", `PDF saved locally. File: ${fileName}.pdf`);
-        }
-      } catch (printError) {
-        const htmlPath = (FileSystem.documentDirectory || '') + `${fileName}.html`;
-        await FileSystem.writeAsStringAsync(htmlPath, html);
-        Alert.alert(
-          "PDF Unavailable", 
-          `Print service not available offline. Report saved as HTML file: ${fileName}.html`
-        );
-      }
+      await exportHTMLAsPDF(html, `sales_report_${filter}_${Date.now()}`);
     } catch (error) {
       console.log("PDF export error:", error);
       Alert.alert("Error", "Failed to generate report. Please try again.");
@@ -441,38 +493,7 @@ export default function ReportsScreen() {
     setIsExporting(true);
     try {
       const html = generateMembersReportHTML();
-      
-      if (Platform.OS === "web") {
-        const printWindow = window.open("", "_blank");
-        if (printWindow) {
-          printWindow.document.write(html);
-          printWindow.document.close();
-          printWindow.print();
-        }
-        return;
-      }
-
-      const fileName = `members_list_${Date.now()}`;
-
-      try {
-        const { uri } = await Print.printToFileAsync({ html });
-        const isSharingAvailable = await Sharing.isAvailableAsync();
-        
-        if (isSharingAvailable) {
-          await Sharing.shareAsync(uri, { mimeType: "application/pdf", UTI: "com.adobe.pdf" });
-        } else {
-          const destPath = (FileSystem.documentDirectory || '') + `${fileName}.pdf`;
-          await FileSystem.copyAsync({ from: uri, to: destPath });
-          Alert.alert("Success", `PDF saved locally. File: ${fileName}.pdf`);
-        }
-      } catch (printError) {
-        const htmlPath = (FileSystem.documentDirectory || '') + `${fileName}.html`;
-        await FileSystem.writeAsStringAsync(htmlPath, html);
-        Alert.alert(
-          "PDF Unavailable", 
-          `Print service not available offline. Report saved as HTML file: ${fileName}.html`
-        );
-      }
+      await exportHTMLAsPDF(html, `members_list_${Date.now()}`);
     } catch (error) {
       console.log("PDF export error:", error);
       Alert.alert("Error", "Failed to generate report. Please try again.");
@@ -481,6 +502,29 @@ export default function ReportsScreen() {
     }
   };
 
+  const handleCorrectSale = async (
+    type: CorrectionType,
+    reason: string,
+    amount: number,
+  ) => {
+    if (!correctingSale) return;
+    try {
+      await correctSale(correctingSale.id, type, reason, amount);
+      setCorrectingSale(null);
+      Alert.alert(
+        "Success",
+        `${CORRECTION_LABELS[type]} recorded for sale #${correctingSale.id}.`,
+      );
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        error instanceof Error
+          ? error.message
+          : "Failed to record the correction.",
+      );
+    }
+  };
+
   const handleApplyDateRange = () => {
     if (!customStartDate || !customEndDate) {
       Alert.alert("Error", "Please select both start and end dates");
@@ -529,140 +573,355 @@ export default function ReportsScreen() {
         style={styles.flex}
         contentContainerStyle={[
           styles.content,
-          { paddingTop: insets.top + Spacing.xl, paddingBottom: insets.bottom + Spacing.xl },
+          {
+            paddingTop: insets.top + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
         ]}
       >
-      <ThemedText type="h3" style={styles.title}>
-        Reports
-      </ThemedText>
+        <ThemedText type="h3" style={styles.title}>
+          Reports
+        </ThemedText>
+
+        <View style={styles.filterRow}>
+          {renderFilterButton("daily", "Daily")}
+          {renderFilterButton("weekly", "Weekly")}
+          {renderFilterButton("monthly", "Monthly")}
+          {renderFilterButton("annual", "Annual")}
+          {renderFilterButton("custom", "Custom")}
+        </View>
+
+        <View style={styles.summaryRow}>
+          <Card
+            style={{
+              ...styles.summaryCard,
+              borderLeftColor: theme.success,
+              borderLeftWidth: 4,
+            }}
+          >
+            <ThemedText
+              style={[styles.summaryLabel, { color: theme.textSecondary }]}
+            >
+              Total Earnings
+            </ThemedText>
+            <ThemedText type="h3">P{totalEarnings.toLocaleString()}</ThemedText>
+          </Card>
+          <Card
+            style={{
+              ...styles.summaryCard,
+              borderLeftColor: theme.primary,
+              borderLeftWidth: 4,
+            }}
+          >
+            <ThemedText
+              style={[styles.summaryLabel, { color: theme.textSecondary }]}
+            >
+              Total Attendance
+            </ThemedText>
+            <ThemedText type="h3">{filteredAttendance.length}</ThemedText>
+          </Card>
+        </View>
+
+        <Card style={styles.chartCard}>
+          <ThemedText type="h4" style={styles.chartTitle}>
+            Earnings Overview
+          </ThemedText>
+          {Object.keys(earningsByDate).length > 0 ? (
+            <View style={styles.chartContainer}>
+              {Object.entries(earningsByDate)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .slice(-7)
+                .map(([date, amount]) => (
+                  <View key={date} style={styles.barContainer}>
+                    <View style={styles.barWrapper}>
+                      <View
+                        style={[
+                          styles.bar,
+                          {
+                            height: `${(Math.max(0, amount) / maxEarning) * 100}%`,
+                            backgroundColor: theme.primary,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <ThemedText
+                      style={[styles.barLabel, { color: theme.textSecondary }]}
+                    >
+                      {date.slice(5)}
+                    </ThemedText>
+                  </View>
+                ))}
+            </View>
+          ) : (
+            <ThemedText
+              style={{
+                color: theme.textSecondary,
+                textAlign: "center",
+                paddingVertical: Spacing.xl,
+              }}
+            >
+              No data for selected period
+            </ThemedText>
+          )}
+        </Card>
 
-      <View style={styles.filterRow}>
-        {renderFilterButton("daily", "Daily")}
-        {renderFilterButton("weekly", "Weekly")}
-        {renderFilterButton("monthly", "Monthly")}
-        {renderFilterButton("annual", "Annual")}
-        {renderFilterButton("custom", "Custom")}
-      </View>
-
-      <View style={styles.summaryRow}>
-        <Card style={{ ...styles.summaryCard, borderLeftColor: theme.success, borderLeftWidth: 4 }}>
-          <ThemedText style={[styles.summaryLabel, { color: theme.textSecondary }]}>
-            Total Earnings
+        <Card style={styles.breakdownCard}>
+          <ThemedText type="h4" style={styles.breakdownTitle}>
+            Sales Breakdown
           </ThemedText>
-          <ThemedText type="h3">P{totalEarnings.toLocaleString()}</ThemedText>
+          {Object.entries(salesByType).length > 0 ? (
+            Object.entries(salesByType).map(([type, amount]) => (
+              <View key={type} style={styles.breakdownRow}>
+                <ThemedText>{SALE_TYPE_LABELS[type] || type}</ThemedText>
+                <ThemedText style={{ fontWeight: "600" }}>
+                  P{amount.toLocaleString()}
+                </ThemedText>
+              </View>
+            ))
+          ) : (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              No sales for selected period
+            </ThemedText>
+          )}
+          {Object.entries(correctionTotals).map(([type, amount]) => (
+            <View key={type} style={styles.breakdownRow}>
+              <ThemedText style={{ color: theme.textSecondary }}>
+                {CORRECTION_LABELS[type] || type}s (netted above)
+              </ThemedText>
+              <ThemedText style={{ fontWeight: "600", color: theme.error }}>
+                -P{amount.toLocaleString()}
+              </ThemedText>
+            </View>
+          ))}
         </Card>
-        <Card style={{ ...styles.summaryCard, borderLeftColor: theme.primary, borderLeftWidth: 4 }}>
-          <ThemedText style={[styles.summaryLabel, { color: theme.textSecondary }]}>
-            Total Attendance
+
+        <Card style={styles.breakdownCard}>
+          <ThemedText type="h4" style={styles.breakdownTitle}>
+            Payment Methods
           </ThemedText>
-          <ThemedText type="h3">{filteredAttendance.length}</ThemedText>
+          {Object.entries(salesByMethod).length > 0 ? (
+            Object.entries(salesByMethod).map(([method, amount]) => (
+              <View key={method} style={styles.breakdownRow}>
+                <ThemedText>
+                  {PAYMENT_METHOD_LABELS[method] || method}
+                </ThemedText>
+                <ThemedText style={{ fontWeight: "600" }}>
+                  P{amount.toLocaleString()}
+                </ThemedText>
+              </View>
+            ))
+          ) : (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              No sales for selected period
+            </ThemedText>
+          )}
         </Card>
-      </View>
 
-      <Card style={styles.chartCard}>
-        <ThemedText type="h4" style={styles.chartTitle}>
-          Earnings Overview
-        </ThemedText>
-        {Object.keys(earningsByDate).length > 0 ? (
-          <View style={styles.chartContainer}>
-            {Object.entries(earningsByDate)
-              .sort(([a], [b]) => a.localeCompare(b))
-              .slice(-7)
-              .map(([date, amount]) => (
-                <View key={date} style={styles.barContainer}>
-                  <View style={styles.barWrapper}>
-                    <View
-                      style={[
-                        styles.bar,
-                        {
-                          height: `${(amount / maxEarning) * 100}%`,
-                          backgroundColor: theme.primary,
-                        },
-                      ]}
-                    />
+        <Card style={styles.breakdownCard}>
+          <ThemedText type="h4" style={styles.breakdownTitle}>
+            Transactions
+          </ThemedText>
+          {filteredSales.length > 0 ? (
+            <>
+              {(showAllTransactions
+                ? filteredSales
+                : filteredSales.slice(0, TRANSACTION_PREVIEW_COUNT)
+              ).map((sale) => {
+                const status = isCorrection(sale)
+                  ? `${CORRECTION_LABELS[sale.correction_type || ""] || "Correction"} of #${sale.reverses_sale_id}: ${sale.correction_reason || ""}`
+                  : getSaleCorrectionStatus(sales, sale);
+                const canCorrect =
+                  !isCorrection(sale) && getRefundableAmount(sales, sale) > 0;
+                const staffName = getStaffName(staff, sale.staff_id);
+                return (
+                  <View
+                    key={sale.id}
+                    style={[
+                      styles.transactionRow,
+                      { borderBottomColor: theme.border },
+                    ]}
+                  >
+                    <View style={styles.transactionInfo}>
+                      <ThemedText numberOfLines={1}>
+                        #{sale.id} {SALE_TYPE_LABELS[sale.type] || sale.type}
+                      </ThemedText>
+                      <ThemedText
+                        style={[
+                          styles.transactionMeta,
+                          { color: theme.textSecondary },
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {sale.date} ·{" "}
+                        {PAYMENT_METHOD_LABELS[sale.payment_method] ||
+                          sale.payment_method}
+                        {staffName ? ` · ${staffName}` : ""}
+                        {status ? ` · ${status}` : ""}
+                      </ThemedText>
+                    </View>
+                    <ThemedText
+                      style={{
+                        fontWeight: "600",
+                        color: sale.amount < 0 ? theme.error : theme.text,
+                      }}
+                    >
+                      {sale.amount < 0 ? "-" : ""}P
+                      {Math.abs(sale.amount).toLocaleString()}
+                    </ThemedText>
+                    {canCorrect ? (
+                      <Pressable
+                        onPress={() => setCorrectingSale(sale)}
+                        style={[
+                          styles.correctButton,
+                          { backgroundColor: theme.backgroundSecondary },
+                        ]}
+                      >
+                        <Feather
+                          name="rotate-ccw"
+                          size={16}
+                          color={theme.error}
+                        />
+                      </Pressable>
+                    ) : (
+                      <View style={styles.correctButton} />
+                    )}
                   </View>
-                  <ThemedText style={[styles.barLabel, { color: theme.textSecondary }]}>
-                    {date.slice(5)}
+                );
+              })}
+              {filteredSales.length > TRANSACTION_PREVIEW_COUNT ? (
+                <Pressable
+                  onPress={() => setShowAllTransactions(!showAllTransactions)}
+                  style={styles.showAllButton}
+                >
+                  <ThemedText style={{ color: theme.primary }}>
+                    {showAllTransactions
+                      ? "Show Less"
+                      : `Show All ${filteredSales.length}`}
                   </ThemedText>
-                </View>
-              ))}
-          </View>
-        ) : (
-          <ThemedText style={{ color: theme.textSecondary, textAlign: "center", paddingVertical: Spacing.xl }}>
-            No data for selected period
-          </ThemedText>
-        )}
-      </Card>
+                </Pressable>
+              ) : null}
+            </>
+          ) : (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              No sales for selected period
+            </ThemedText>
+          )}
+        </Card>
 
-      <Card style={styles.breakdownCard}>
-        <ThemedText type="h4" style={styles.breakdownTitle}>
-          Sales Breakdown
-        </ThemedText>
-        {Object.entries(salesByType).length > 0 ? (
-          Object.entries(salesByType).map(([type, amount]) => (
-            <View key={type} style={styles.breakdownRow}>
-              <ThemedText>{SALE_TYPE_LABELS[type] || type}</ThemedText>
-              <ThemedText style={{ fontWeight: "600" }}>P{amount.toLocaleString()}</ThemedText>
-            </View>
-          ))
-        ) : (
-          <ThemedText style={{ color: theme.textSecondary }}>
-            No sales for selected period
+        <Card style={styles.breakdownCard}>
+          <ThemedText type="h4" style={styles.breakdownTitle}>
+            Retention
           </ThemedText>
-        )}
-      </Card>
-
-      <View style={styles.exportSection}>
-        <ThemedText type="h4" style={styles.exportTitle}>
-          Export Sales Report
-        </ThemedText>
-        <View style={styles.exportButtons}>
-          <Pressable
-            onPress={handleExportPDF}
-            disabled={isExporting}
-            style={[styles.exportButton, { backgroundColor: theme.primary }]}
-          >
-            <Feather name="file-text" size={18} color="#FFFFFF" />
-            <ThemedText style={{ color: "#FFFFFF", fontWeight: "500" }}>
-              {isExporting ? "Generating..." : "Download PDF"}
+          {retention.due > 0 ? (
+            <>
+              <View style={styles.breakdownRow}>
+                <ThemedText>Subscriptions expired</ThemedText>
+                <ThemedText style={{ fontWeight: "600" }}>
+                  {retention.due}
+                </ThemedText>
+              </View>
+              <View style={styles.breakdownRow}>
+                <ThemedText>Renewed</ThemedText>
+                <ThemedText style={{ fontWeight: "600", color: theme.success }}>
+                  {retention.renewed}
+                </ThemedText>
+              </View>
+              <View style={styles.breakdownRow}>
+                <ThemedText>Lapsed</ThemedText>
+                <ThemedText style={{ fontWeight: "600", color: theme.warning }}>
+                  {retention.lapsed}
+                </ThemedText>
+              </View>
+              {retention.pending > 0 ? (
+                <View style={styles.breakdownRow}>
+                  <ThemedText>
+                    Still within {RETENTION_GRACE_DAYS}-day window
+                  </ThemedText>
+                  <ThemedText style={{ fontWeight: "600" }}>
+                    {retention.pending}
+                  </ThemedText>
+                </View>
+              ) : null}
+              <View style={styles.breakdownRow}>
+                <ThemedText>Retention Rate</ThemedText>
+                <ThemedText style={{ fontWeight: "600" }}>
+                  {retention.rate !== null ? `${retention.rate}%` : "N/A"}
+                </ThemedText>
+              </View>
+            </>
+          ) : (
+            <ThemedText style={{ color: theme.textSecondary }}>
+              No subscriptions expired in selected period
             </ThemedText>
-          </Pressable>
-          <Pressable
-            onPress={handleExportCSV}
-            style={[styles.exportButton, { backgroundColor: theme.backgroundSecondary }]}
-          >
-            <Feather name="download" size={18} color={theme.text} />
-            <ThemedText>Download CSV</ThemedText>
-          </Pressable>
+          )}
+        </Card>
+
+        <View style={styles.exportSection}>
+          <ThemedText type="h4" style={styles.exportTitle}>
+            Export Sales Report
+          </ThemedText>
+          <View style={styles.exportButtons}>
+            <Pressable
+              onPress={handleExportPDF}
+              disabled={isExporting}
+              style={[styles.exportButton, { backgroundColor: theme.primary }]}
+            >
+              <Feather name="file-text" size={18} color="#FFFFFF" />
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "500" }}>
+                {isExporting ? "Generating..." : "Download PDF"}
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleExportCSV}
+              style={[
+                styles.exportButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="download" size={18} color={theme.text} />
+              <ThemedText>Download CSV</ThemedText>
+            </Pressable>
+          </View>
         </View>
-      </View>
 
-      <View style={styles.exportSection}>
-        <ThemedText type="h4" style={styles.exportTitle}>
-          Export Members List
-        </ThemedText>
-        <View style={styles.exportButtons}>
-          <Pressable
-            onPress={handleExportMembersPDF}
-            disabled={isExporting}
-            style={[styles.exportButton, { backgroundColor: theme.success }]}
-          >
-            <Feather name="users" size={18} color="#FFFFFF" />
-            <ThemedText style={{ color: "#FFFFFF", fontWeight: "500" }}>
-              {isExporting ? "Generating..." : "Download PDF"}
-            </ThemedText>
-          </Pressable>
-          <Pressable
-            onPress={handleExportMembersCSV}
-            style={[styles.exportButton, { backgroundColor: theme.backgroundSecondary }]}
-          >
-            <Feather name="download" size={18} color={theme.text} />
-            <ThemedText>Download CSV</ThemedText>
-          </Pressable>
+        <View style={styles.exportSection}>
+          <ThemedText type="h4" style={styles.exportTitle}>
+            Export Members List
+          </ThemedText>
+          <View style={styles.exportButtons}>
+            <Pressable
+              onPress={handleExportMembersPDF}
+              disabled={isExporting}
+              style={[styles.exportButton, { backgroundColor: theme.success }]}
+            >
+              <Feather name="users" size={18} color="#FFFFFF" />
+              <ThemedText style={{ color: "#FFFFFF", fontWeight: "500" }}>
+                {isExporting ? "Generating..." : "Download PDF"}
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleExportMembersCSV}
+              style={[
+                styles.exportButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <Feather name="download" size={18} color={theme.text} />
+              <ThemedText>Download CSV</ThemedText>
+            </Pressable>
+          </View>
         </View>
-      </View>
       </ScrollView>
 
+      <SaleCorrectionModal
+        sale={correctingSale}
+        refundable={
+          correctingSale ? getRefundableAmount(sales, correctingSale) : 0
+        }
+        onClose={() => setCorrectingSale(null)}
+        onConfirm={handleCorrectSale}
+      />
+
       {/* Date Range Selection Modal */}
       <Modal
         visible={showDateRangeModal}
@@ -1070,6 +1329,30 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     paddingVertical: Spacing.sm,
   },
+  transactionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  transactionInfo: {
+    flex: 1,
+  },
+  transactionMeta: {
+    fontSize: 12,
+  },
+  correctButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  showAllButton: {
+    alignItems: "center",
+    paddingTop: Spacing.md,
+  },
   exportSection: {
     marginBottom: Spacing.xl,
   },
@@ -15,11 +15,33 @@ import Animated, {
 } from "react-native-reanimated";
 
 import { useTheme } from "@/hooks/useTheme";
-import { useApp, Member } from "@/context/AppContext";
+import {
+  useApp,
+  EntryMethod,
+  Member,
+  Plan,
+  Subscription,
+} from "@/context/AppContext";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
 import { SessionTypeModal } from "@/components/SessionTypeModal";
+import { PlanPickerModal } from "@/components/PlanPickerModal";
+import { TenderModal, PendingPayment } from "@/components/TenderModal";
+import { MemberSearchModal } from "@/components/MemberSearchModal";
+import { getPlansForMember } from "@/lib/plans";
+import { RenewalStart } from "@/lib/renewal";
+import { formatFreezePeriod } from "@/lib/freezes";
+import {
+  formatDuration,
+  formatTime,
+  getCapacityStatus,
+  getCheckInInstant,
+  getLocalDate,
+  getScanAction,
+} from "@/lib/occupancy";
+import { evaluateAccess } from "@/lib/access";
+import { subscribeToScans, takePendingScan } from "@/lib/scannerInput";
 import { Spacing, BorderRadius } from "@/constants/theme";
 
 const NO_QR_RESET_DELAY = 3000;
@@ -27,13 +49,40 @@ const NO_QR_RESET_DELAY = 3000;
 export default function ScanQRScreen() {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { getMemberByQR, addAttendance, renewSubscription, paySession, priceSettings } = useApp();
+  const {
+    members,
+    verifyMemberQR,
+    getCurrentFreeze,
+    unfreezeMember,
+    addAttendance,
+    checkOutAttendance,
+    getVisitsInside,
+    attendance,
+    occupancySettings,
+    accessRules,
+    subscriptions,
+    subscribeMember,
+    paySession,
+    priceSettings,
+    plans,
+    renewalGraceDays,
+  } = useApp();
 
   const [permission, requestPermission] = useCameraPermissions();
   const [scannedMember, setScannedMember] = useState<Member | null>(null);
+  const [scannedLegacyCard, setScannedLegacyCard] = useState(false);
+  // Picked from the member search because they have no card with them
+  const [manualEntry, setManualEntry] = useState(false);
+  const [showMemberSearch, setShowMemberSearch] = useState(false);
   const [showResult, setShowResult] = useState(false);
   const [showSessionModal, setShowSessionModal] = useState(false);
-  const [sessionModalType, setSessionModalType] = useState<"member_expired" | "walkin" | null>(null);
+  const [sessionModalType, setSessionModalType] = useState<
+    "member_expired" | "walkin" | null
+  >(null);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(
+    null,
+  );
   const [lastScanTime, setLastScanTime] = useState(0);
   const [noQRDetected, setNoQRDetected] = useState(true);
   const soundRef = useRef<Audio.Sound | null>(null);
@@ -103,74 +152,217 @@ export default function ScanQRScreen() {
     }
   }, []);
 
+  const scannedFreeze = scannedMember
+    ? getCurrentFreeze(scannedMember.id)
+    : undefined;
+  // A member already inside is checking out rather than in
+  const scanAction = scannedMember
+    ? getScanAction(attendance, scannedMember.id, occupancySettings)
+    : null;
+  const openVisit =
+    scanAction && scanAction.action !== "check_in" ? scanAction.visit : null;
+  // Entry rules only gate check-ins; anyone inside can always check out
+  const accessDenials =
+    scannedMember && scanAction?.action === "check_in"
+      ? evaluateAccess({
+          member: scannedMember,
+          attendance,
+          subscriptions,
+          plans,
+          rules: accessRules,
+        })
+      : [];
+  const entryMethod: EntryMethod = manualEntry ? "manual" : "scan";
+  const insideCount = getVisitsInside().length;
+  const capacityStatus = getCapacityStatus(
+    insideCount,
+    occupancySettings.capacity,
+  );
+
   const isSubscriptionActive = (member: Member): boolean => {
     if (!member.subscription_end) return false;
-    const today = new Date().toISOString().split("T")[0];
-    return member.subscription_end >= today;
+    return member.subscription_end >= getLocalDate();
   };
 
-  const handleBarCodeScanned = useCallback(({ data }: { data: string }) => {
-    setNoQRDetected(false);
-    resetNoQRMessage();
-    
-    const now = Date.now();
-    if (now - lastScanTime < 5000) return;
-    setLastScanTime(now);
-
-    if (!data.startsWith("GYM-")) {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert("Invalid QR", "QR code not recognized. Must be a valid gym member QR.");
-      return;
-    }
+  // Shared by the camera and hardware scanners
+  const showScanResult = useCallback(
+    (data: string) => {
+      const check = verifyMemberQR(data);
+      if (!check.valid) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert("Card Not Accepted", check.reason);
+        return;
+      }
 
-    const member = getMemberByQR(data);
-    if (!member) {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert("Not Found", "Member not found in the system.");
-      return;
-    }
+      playBeep();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setScannedMember(check.member);
+      setScannedLegacyCard(check.legacy);
+      setManualEntry(false);
+      setShowResult(true);
+    },
+    [verifyMemberQR, playBeep],
+  );
+
+  const handleBarCodeScanned = useCallback(
+    ({ data }: { data: string }) => {
+      setNoQRDetected(false);
+      resetNoQRMessage();
 
-    playBeep();
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const now = Date.now();
+      if (now - lastScanTime < 5000) return;
+      setLastScanTime(now);
+
+      showScanResult(data);
+    },
+    [lastScanTime, showScanResult, resetNoQRMessage],
+  );
+
+  // Each hardware scan is a deliberate trigger press, so unlike the camera
+  // there is no repeat window. One made on another screen is waiting here.
+  useEffect(() => {
+    const handleHardwareScan = () => {
+      const data = takePendingScan();
+      if (data) showScanResult(data);
+    };
+    handleHardwareScan();
+    return subscribeToScans(handleHardwareScan);
+  }, [showScanResult]);
+
+  const handleMemberSelect = (member: Member) => {
+    setShowMemberSearch(false);
     setScannedMember(member);
+    setScannedLegacyCard(false);
+    setManualEntry(true);
     setShowResult(true);
-  }, [lastScanTime, getMemberByQR, playBeep, resetNoQRMessage]);
+  };
 
-  const handleRecordAttendance = () => {
+  const handleRecordAttendance = async () => {
     if (scannedMember) {
-      addAttendance(scannedMember.id);
-      playBeep();
-      Alert.alert("Success", "Attendance recorded successfully!");
-      setShowResult(false);
-      setScannedMember(null);
+      try {
+        await addAttendance(scannedMember.id, entryMethod);
+        playBeep();
+        Alert.alert("Success", "Attendance recorded successfully!");
+        setShowResult(false);
+        setScannedMember(null);
+      } catch (error) {
+        console.error("Failed to record attendance:", error);
+        Alert.alert("Error", "Failed to record attendance.");
+      }
+    }
+  };
+
+  const handleCheckOut = async () => {
+    if (scannedMember && openVisit) {
+      const minutes = Math.max(
+        0,
+        Math.round(
+          (Date.now() - getCheckInInstant(openVisit).getTime()) / 60000,
+        ),
+      );
+      try {
+        await checkOutAttendance(openVisit.id);
+        playBeep();
+        Alert.alert(
+          "Checked Out",
+          `${scannedMember.firstname} trained for ${formatDuration(minutes)}. See you next time!`,
+        );
+        setShowResult(false);
+        setScannedMember(null);
+      } catch (error) {
+        console.error("Failed to check out:", error);
+        Alert.alert("Error", "Failed to check out.");
+      }
     }
   };
 
   const handleRenewSubscription = () => {
+    setShowPlanModal(true);
+  };
+
+  const handlePlanSelect = (plan: Plan, start: RenewalStart) => {
     if (scannedMember) {
-      renewSubscription(scannedMember.id);
-      addAttendance(scannedMember.id);
-      playBeep();
-      Alert.alert("Success", "Subscription renewed and attendance recorded!");
-      setShowResult(false);
-      setScannedMember(null);
+      const member = scannedMember;
+      setPendingPayment({
+        total: plan.price,
+        title: "Renew Subscription",
+        description: `${plan.name} · ${member.firstname} ${member.lastname}`,
+        onConfirm: async (tenders) => {
+          let subscription: Subscription;
+          try {
+            subscription = await subscribeMember(member, plan, start, tenders);
+          } catch (error) {
+            console.error("Failed to renew subscription:", error);
+            Alert.alert("Error", "Failed to renew the subscription.");
+            return;
+          }
+          setShowResult(false);
+          setScannedMember(null);
+
+          // The new plan may have its own hours, so entry is checked again
+          const denials = evaluateAccess({
+            member,
+            attendance,
+            subscriptions: [...subscriptions, subscription],
+            plans,
+            rules: accessRules,
+          });
+          if (denials.length > 0) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            Alert.alert(
+              "Entry Denied",
+              `${plan.name} subscription renewed, but no visit was recorded.\n${denials
+                .map((denial) => denial.reason)
+                .join("\n")}`,
+            );
+            return;
+          }
+          try {
+            await addAttendance(member.id, entryMethod);
+            playBeep();
+            Alert.alert(
+              "Success",
+              `${plan.name} subscription renewed and attendance recorded!`,
+            );
+          } catch (error) {
+            console.error("Failed to record attendance:", error);
+            Alert.alert(
+              "Error",
+              `${plan.name} subscription renewed, but the visit could not be recorded. Scan the card again to check in.`,
+            );
+          }
+        },
+      });
     }
   };
 
   const handlePaySession = () => {
     if (scannedMember) {
       // Auto-apply the correct rate based on member's membership_type
-      const isSenior = scannedMember.membership_type === "senior";
-      void paySession(scannedMember.id, true, isSenior);
-      playBeep();
+      const member = scannedMember;
+      const isSenior = member.membership_type === "senior";
       const amount =
         isSenior ? priceSettings.session_member_senior : priceSettings.session_member;
-      Alert.alert(
-        "Success",
-        `Session payment recorded. Amount: ₱${amount}\nAttendance logged!`
-      );
-      setShowResult(false);
-      setScannedMember(null);
+      setPendingPayment({
+        total: amount,
+        title: "Pay Session",
+        description: `${member.firstname} ${member.lastname}`,
+        onConfirm: async (tenders) => {
+          try {
+            await paySession(member.id, true, isSenior, tenders, entryMethod);
+            playBeep();
+            Alert.alert(
+              "Success",
+              `Session payment recorded. Amount: ₱${amount}\nAttendance logged!`,
+            );
+            setShowResult(false);
+            setScannedMember(null);
+          } catch (error) {
+            console.error("Failed to record session payment:", error);
+            Alert.alert("Error", "Failed to record the session payment.");
+          }
+        },
+      });
     }
   };
 
@@ -179,9 +371,28 @@ export default function ScanQRScreen() {
     setShowSessionModal(true);
   };
 
+  const handleUnfreeze = async () => {
+    if (scannedMember) {
+      try {
+        await unfreezeMember(scannedMember.id);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          "Freeze Lifted",
+          `${scannedMember.firstname}'s membership is active again. Scan the card again to check in.`,
+        );
+        setShowResult(false);
+        setScannedMember(null);
+      } catch (error) {
+        console.error("Failed to lift freeze:", error);
+        Alert.alert("Error", "Failed to lift the freeze.");
+      }
+    }
+  };
+
   const handleClose = () => {
     setShowResult(false);
     setScannedMember(null);
+    setManualEntry(false);
     setNoQRDetected(true);
   };
 
@@ -190,28 +401,64 @@ export default function ScanQRScreen() {
       const isSenior = option.isSenior || false;
 
       if (sessionModalType === "member_expired" && scannedMember) {
-        void paySession(scannedMember.id, true, isSenior);
-        playBeep();
+        const member = scannedMember;
         const amount =
           isSenior ? priceSettings.session_member_senior : priceSettings.session_member;
-        Alert.alert(
-          "Success",
-          `Session payment recorded. Amount: ₱${amount}\nAttendance logged!`
-        );
-        setShowResult(false);
-        setScannedMember(null);
+        setPendingPayment({
+          total: amount,
+          title: "Pay Session",
+          description: `${member.firstname} ${member.lastname}`,
+          onConfirm: async (tenders) => {
+            try {
+              await paySession(member.id, true, isSenior, tenders, entryMethod);
+              playBeep();
+              Alert.alert(
+                "Success",
+                `Session payment recorded. Amount: ₱${amount}\nAttendance logged!`,
+              );
+              setShowResult(false);
+              setScannedMember(null);
+            } catch (error) {
+              console.error("Failed to record session payment:", error);
+              Alert.alert("Error", "Failed to record the session payment.");
+            }
+          },
+        });
       } else if (sessionModalType === "walkin") {
-        void paySession(0, false, isSenior);
-        playBeep();
-        const amount =
-          isSenior ? priceSettings.session_nonmember_senior : priceSettings.session_nonmember;
-        Alert.alert("Success", `Walk-in session recorded. Amount: ₱${amount}`);
+        const amount = isSenior
+          ? priceSettings.session_nonmember_senior
+          : priceSettings.session_nonmember;
+        setPendingPayment({
+          total: amount,
+          title: "Walk-in Session",
+          description: option.isSenior ? "Senior walk-in" : "Walk-in",
+          onConfirm: async (tenders) => {
+            try {
+              await paySession(0, false, isSenior, tenders);
+              playBeep();
+              Alert.alert(
+                "Success",
+                `Walk-in session recorded. Amount: ₱${amount}`,
+              );
+            } catch (error) {
+              console.error("Failed to record walk-in session:", error);
+              Alert.alert("Error", "Failed to record the walk-in session.");
+            }
+          },
+        });
       }
 
       setShowSessionModal(false);
       setSessionModalType(null);
     },
-    [sessionModalType, scannedMember, paySession, priceSettings, playBeep]
+    [
+      sessionModalType,
+      scannedMember,
+      entryMethod,
+      paySession,
+      priceSettings,
+      playBeep,
+    ],
   );
 
   const openSettings = async () => {
@@ -224,6 +471,357 @@ export default function ScanQRScreen() {
     }
   };
 
+  // Shared by every view so walk-ins and manual check-ins work without a camera
+  const overlays = (
+    <>
+      {showResult && scannedMember ? (
+        <View style={[styles.resultOverlay, { backgroundColor: "rgba(0,0,0,0.85)" }]}>
+          <Card style={styles.resultCard}>
+            <View style={styles.memberHeader}>
+              {scannedMember.photo ? (
+                <Image source={{ uri: scannedMember.photo }} style={styles.memberPhoto} />
+              ) : (
+                <View style={[styles.memberPhotoPlaceholder, { backgroundColor: theme.backgroundSecondary }]}>
+                  <Feather name="user" size={30} color={theme.textSecondary} />
+                </View>
+              )}
+              <View style={styles.memberInfo}>
+                <ThemedText type="h4">
+                  {scannedMember.firstname} {scannedMember.lastname}
+                </ThemedText>
+                <ThemedText style={{ color: theme.textSecondary, textTransform: "capitalize" }}>
+                  {scannedMember.membership_type} Member
+                </ThemedText>
+                {manualEntry ? (
+                  <ThemedText
+                    style={{ color: theme.textSecondary, fontSize: 13 }}
+                  >
+                    Manual check-in · confirm the photo matches
+                  </ThemedText>
+                ) : null}
+                {scannedLegacyCard ? (
+                  <ThemedText style={{ color: theme.warning, fontSize: 13 }}>
+                    Old-style card. Reissue it from the member profile.
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+
+            {openVisit ? (
+              <>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: theme.primary + "20" },
+                  ]}
+                >
+                  <Feather name="log-in" size={18} color={theme.primary} />
+                  <ThemedText
+                    style={{ color: theme.primary, fontWeight: "600" }}
+                  >
+                    Checked in at {formatTime(openVisit.time)}
+                  </ThemedText>
+                </View>
+                {scanAction?.action === "already_inside" ? (
+                  <ThemedText
+                    style={[styles.expiryText, { color: theme.textSecondary }]}
+                  >
+                    Scanned again within {occupancySettings.minVisitMinutes}{" "}
+                    minutes of checking in.
+                  </ThemedText>
+                ) : null}
+                <View style={styles.actionButtons}>
+                  <Pressable
+                    onPress={handleCheckOut}
+                    style={[styles.actionButton, { backgroundColor: theme.primary }]}
+                  >
+                    <Feather name="log-out" size={18} color="#FFFFFF" />
+                    <ThemedText style={styles.actionButtonText}>
+                      {scanAction?.action === "already_inside"
+                        ? "Check Out Anyway"
+                        : "Check Out"}
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              </>
+            ) : accessDenials.length > 0 ? (
+              <>
+                {accessDenials.map((denial) => (
+                  <View
+                    key={denial.rule}
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: theme.error + "20" },
+                    ]}
+                  >
+                    <Feather name="slash" size={18} color={theme.error} />
+                    <ThemedText
+                      style={[styles.denialText, { color: theme.error }]}
+                    >
+                      {denial.reason}
+                    </ThemedText>
+                  </View>
+                ))}
+                <ThemedText
+                  style={[styles.expiryText, { color: theme.textSecondary }]}
+                >
+                  Entry denied. Nothing has been recorded.
+                </ThemedText>
+              </>
+            ) : scannedFreeze ? (
+              <>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: theme.frozen + "20" },
+                  ]}
+                >
+                  <Feather name="pause-circle" size={18} color={theme.frozen} />
+                  <ThemedText
+                    style={{ color: theme.frozen, fontWeight: "600" }}
+                  >
+                    Membership Frozen
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  style={[styles.expiryText, { color: theme.textSecondary }]}
+                >
+                  {formatFreezePeriod(scannedFreeze)}
+                  {scannedFreeze.reason ? ` · ${scannedFreeze.reason}` : ""}
+                </ThemedText>
+                <View style={styles.actionButtons}>
+                  <Pressable
+                    onPress={handleUnfreeze}
+                    style={[
+                      styles.actionButton,
+                      { backgroundColor: theme.frozen },
+                    ]}
+                  >
+                    <Feather name="play-circle" size={18} color="#FFFFFF" />
+                    <ThemedText style={styles.actionButtonText}>
+                      Unfreeze Membership
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              </>
+            ) : (
+              <>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    {
+                      backgroundColor: isSubscriptionActive(scannedMember)
+                        ? theme.success + "20"
+                        : theme.warning + "20",
+                    },
+                  ]}
+                >
+                  <Feather
+                    name={
+                      isSubscriptionActive(scannedMember)
+                        ? "check-circle"
+                        : "alert-circle"
+                    }
+                    size={18}
+                    color={
+                      isSubscriptionActive(scannedMember)
+                        ? theme.success
+                        : theme.warning
+                    }
+                  />
+                  <ThemedText
+                    style={{
+                      color: isSubscriptionActive(scannedMember)
+                        ? theme.success
+                        : theme.warning,
+                      fontWeight: "600",
+                    }}
+                  >
+                    {isSubscriptionActive(scannedMember)
+                      ? "Active Subscription"
+                      : "Subscription Expired"}
+                  </ThemedText>
+                </View>
+
+                {scannedMember.subscription_end ? (
+                  <ThemedText
+                    style={[styles.expiryText, { color: theme.textSecondary }]}
+                  >
+                    {isSubscriptionActive(scannedMember)
+                      ? "Expires"
+                      : "Expired"}
+                    : {scannedMember.subscription_end}
+                  </ThemedText>
+                ) : null}
+
+                {capacityStatus === "full" || capacityStatus === "over" ? (
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: theme.warning + "20" },
+                    ]}
+                  >
+                    <Feather
+                      name="alert-triangle"
+                      size={18}
+                      color={theme.warning}
+                    />
+                    <ThemedText
+                      style={{ color: theme.warning, fontWeight: "600" }}
+                    >
+                      At capacity: {insideCount} of {occupancySettings.capacity}{" "}
+                      inside
+                    </ThemedText>
+                  </View>
+                ) : null}
+
+                <View style={styles.actionButtons}>
+                  {isSubscriptionActive(scannedMember) ? (
+                    <Pressable
+                      onPress={handleRecordAttendance}
+                      style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.success },
+                      ]}
+                    >
+                      <Feather name="check" size={20} color="#FFFFFF" />
+                      <ThemedText style={styles.actionButtonText}>
+                        Record Attendance
+                      </ThemedText>
+                    </Pressable>
+                  ) : (
+                    <>
+                      <Pressable
+                        onPress={handleRenewSubscription}
+                        style={[
+                          styles.actionButton,
+                          { backgroundColor: theme.primary },
+                        ]}
+                      >
+                        <Feather name="refresh-cw" size={18} color="#FFFFFF" />
+                        <ThemedText style={styles.actionButtonText}>
+                          Renew Subscription
+                        </ThemedText>
+                      </Pressable>
+                      <Pressable
+                        onPress={handlePaySession}
+                        style={[
+                          styles.actionButton,
+                          { backgroundColor: theme.success },
+                        ]}
+                      >
+                        <Feather name="dollar-sign" size={18} color="#FFFFFF" />
+                        <ThemedText style={styles.actionButtonText}>
+                          Pay Session
+                        </ThemedText>
+                      </Pressable>
+                    </>
+                  )}
+                </View>
+              </>
+            )}
+
+            <Pressable onPress={handleClose} style={styles.closeButton}>
+              <ThemedText style={{ color: theme.textSecondary }}>Close</ThemedText>
+            </Pressable>
+          </Card>
+        </View>
+      ) : null}
+
+      <MemberSearchModal
+        visible={showMemberSearch}
+        onClose={() => setShowMemberSearch(false)}
+        onSelect={handleMemberSelect}
+        members={members}
+      />
+
+      <PlanPickerModal
+        visible={showPlanModal}
+        onClose={() => setShowPlanModal(false)}
+        onSelect={handlePlanSelect}
+        plans={
+          scannedMember
+            ? getPlansForMember(plans, scannedMember.membership_type)
+            : []
+        }
+        title="Choose Plan"
+        memberName={
+          scannedMember
+            ? `${scannedMember.firstname} ${scannedMember.lastname}`
+            : undefined
+        }
+        currentEnd={scannedMember?.subscription_end}
+        graceDays={renewalGraceDays}
+      />
+
+      <TenderModal
+        payment={pendingPayment}
+        onClose={() => setPendingPayment(null)}
+      />
+
+      <SessionTypeModal
+        visible={showSessionModal}
+        onClose={() => {
+          setShowSessionModal(false);
+          setSessionModalType(null);
+        }}
+        onSelect={handleSessionTypeSelect}
+        title={
+          sessionModalType === "member_expired"
+            ? "Session Type"
+            : "Walk-in Session Type"
+        }
+        memberName={
+          sessionModalType === "member_expired" && scannedMember
+            ? `${scannedMember.firstname} ${scannedMember.lastname}`
+            : undefined
+        }
+        defaultOptionId={
+          sessionModalType === "member_expired" && scannedMember
+            ? scannedMember.membership_type === "senior"
+              ? "member_senior"
+              : "member"
+            : undefined
+        }
+        options={
+          sessionModalType === "member_expired"
+            ? [
+                {
+                  id: "member",
+                  label: "Member",
+                  subtitle: "Regular Member Rate",
+                  price: priceSettings.session_member,
+                  isSenior: false,
+                },
+                {
+                  id: "member_senior",
+                  label: "Senior Member",
+                  subtitle: "Senior Member Rate",
+                  price: priceSettings.session_member_senior,
+                  isSenior: true,
+                },
+              ]
+            : [
+                {
+                  id: "nonmember",
+                  label: "Regular Walk-in",
+                  subtitle: "Non-Member Rate",
+                  price: priceSettings.session_nonmember,
+                  isSenior: false,
+                },
+                {
+                  id: "nonmember_senior",
+                  label: "Senior Walk-in",
+                  subtitle: "Senior Non-Member Rate",
+                  price: priceSettings.session_nonmember_senior,
+                  isSenior: true,
+                },
+              ]
+        }
+      />
+    </>
+  );
+
   if (!permission) {
     return (
       <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
@@ -245,14 +843,19 @@ export default function ScanQRScreen() {
         <ThemedText type="h4" style={styles.permissionTitle}>
           Camera Permission Required
         </ThemedText>
-        <ThemedText style={[styles.permissionText, { color: theme.textSecondary }]}>
+        <ThemedText
+          style={[styles.permissionText, { color: theme.textSecondary }]}
+        >
           We need camera access to scan member QR codes
         </ThemedText>
-        
+
         {permission.canAskAgain ? (
           <Pressable
             onPress={requestPermission}
-            style={[styles.permissionButton, { backgroundColor: theme.primary }]}
+            style={[
+              styles.permissionButton,
+              { backgroundColor: theme.primary },
+            ]}
           >
             <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
               Enable Camera
@@ -260,13 +863,18 @@ export default function ScanQRScreen() {
           </Pressable>
         ) : (
           <View style={styles.settingsContainer}>
-            <ThemedText style={[styles.permissionText, { color: theme.textSecondary }]}>
+            <ThemedText
+              style={[styles.permissionText, { color: theme.textSecondary }]}
+            >
               Please enable camera in your device settings
             </ThemedText>
             {Platform.OS !== "web" ? (
               <Pressable
                 onPress={openSettings}
-                style={[styles.permissionButton, { backgroundColor: theme.primary }]}
+                style={[
+                  styles.permissionButton,
+                  { backgroundColor: theme.primary },
+                ]}
               >
                 <ThemedText style={{ color: "#FFFFFF", fontWeight: "600" }}>
                   Open Settings
@@ -275,10 +883,12 @@ export default function ScanQRScreen() {
             ) : null}
           </View>
         )}
-        
+
         <View style={styles.walkInSection}>
-          <ThemedText style={[styles.walkInLabel, { color: theme.textSecondary }]}>
-            Or record a walk-in session:
+          <ThemedText
+            style={[styles.walkInLabel, { color: theme.textSecondary }]}
+          >
+            Or record a walk-in session or find a member:
           </ThemedText>
           <Pressable
             onPress={handleWalkInSession}
@@ -289,7 +899,15 @@ export default function ScanQRScreen() {
               Walk-in Session
             </ThemedText>
           </Pressable>
+          <Pressable
+            onPress={() => setShowMemberSearch(true)}
+            style={[styles.findMemberButton, { borderColor: theme.border }]}
+          >
+            <Feather name="search" size={20} color={theme.text} />
+            <ThemedText style={{ fontWeight: "600" }}>Find Member</ThemedText>
+          </Pressable>
         </View>
+        {overlays}
       </ThemedView>
     );
   }
@@ -307,13 +925,17 @@ export default function ScanQRScreen() {
         <ThemedText type="h4" style={styles.permissionTitle}>
           Run in Expo Go
         </ThemedText>
-        <ThemedText style={[styles.permissionText, { color: theme.textSecondary }]}>
+        <ThemedText
+          style={[styles.permissionText, { color: theme.textSecondary }]}
+        >
           QR scanning requires running on a mobile device.{"\n"}
           Scan the QR code to open in Expo Go.
         </ThemedText>
         <View style={styles.walkInSection}>
-          <ThemedText style={[styles.walkInLabel, { color: theme.textSecondary }]}>
-            Or record a walk-in session:
+          <ThemedText
+            style={[styles.walkInLabel, { color: theme.textSecondary }]}
+          >
+            Or record a walk-in session or find a member:
           </ThemedText>
           <Pressable
             onPress={handleWalkInSession}
@@ -324,7 +946,15 @@ export default function ScanQRScreen() {
               Walk-in Session
             </ThemedText>
           </Pressable>
+          <Pressable
+            onPress={() => setShowMemberSearch(true)}
+            style={[styles.findMemberButton, { borderColor: theme.border }]}
+          >
+            <Feather name="search" size={20} color={theme.text} />
+            <ThemedText style={{ fontWeight: "600" }}>Find Member</ThemedText>
+          </Pressable>
         </View>
+        {overlays}
       </ThemedView>
     );
   }
@@ -333,25 +963,69 @@ export default function ScanQRScreen() {
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
       <CameraView
         style={StyleSheet.absoluteFillObject}
-        onBarcodeScanned={showResult ? undefined : handleBarCodeScanned}
+        onBarcodeScanned={
+          showResult || showMemberSearch ? undefined : handleBarCodeScanned
+        }
         barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
       />
 
-      <View style={[styles.overlay, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <View
+        style={[
+          styles.overlay,
+          { paddingTop: insets.top, paddingBottom: insets.bottom },
+        ]}
+      >
         <View style={styles.scanArea}>
-          <View style={[styles.corner, styles.topLeft, { borderColor: theme.primary }]} />
-          <View style={[styles.corner, styles.topRight, { borderColor: theme.primary }]} />
-          <View style={[styles.corner, styles.bottomLeft, { borderColor: theme.primary }]} />
-          <View style={[styles.corner, styles.bottomRight, { borderColor: theme.primary }]} />
-          
-          <Animated.View style={[styles.scanLine, { backgroundColor: theme.primary }, scanLineStyle]} />
+          <View
+            style={[
+              styles.corner,
+              styles.topLeft,
+              { borderColor: theme.primary },
+            ]}
+          />
+          <View
+            style={[
+              styles.corner,
+              styles.topRight,
+              { borderColor: theme.primary },
+            ]}
+          />
+          <View
+            style={[
+              styles.corner,
+              styles.bottomLeft,
+              { borderColor: theme.primary },
+            ]}
+          />
+          <View
+            style={[
+              styles.corner,
+              styles.bottomRight,
+              { borderColor: theme.primary },
+            ]}
+          />
+
+          <Animated.View
+            style={[
+              styles.scanLine,
+              { backgroundColor: theme.primary },
+              scanLineStyle,
+            ]}
+          />
         </View>
 
         <View style={styles.statusContainer}>
           {noQRDetected ? (
-            <View style={[styles.statusBadgeSmall, { backgroundColor: "rgba(0,0,0,0.7)" }]}>
+            <View
+              style={[
+                styles.statusBadgeSmall,
+                { backgroundColor: "rgba(0,0,0,0.7)" },
+              ]}
+            >
               <Feather name="search" size={16} color="#FFFFFF" />
-              <ThemedText style={styles.statusText}>No QR code detected</ThemedText>
+              <ThemedText style={styles.statusText}>
+                No QR code detected
+              </ThemedText>
             </View>
           ) : null}
         </View>
@@ -360,154 +1034,31 @@ export default function ScanQRScreen() {
           Point camera at member QR code
         </ThemedText>
 
-        <Pressable
-          onPress={handleWalkInSession}
-          style={[styles.walkInFloating, { backgroundColor: theme.backgroundDefault }]}
-        >
-          <Feather name="user" size={18} color={theme.text} />
-          <ThemedText>Walk-in Session</ThemedText>
-        </Pressable>
-      </View>
-
-      {showResult && scannedMember ? (
-        <View style={[styles.resultOverlay, { backgroundColor: "rgba(0,0,0,0.85)" }]}>
-          <Card style={styles.resultCard}>
-            <View style={styles.memberHeader}>
-              {scannedMember.photo ? (
-                <Image source={{ uri: scannedMember.photo }} style={styles.memberPhoto} />
-              ) : (
-                <View style={[styles.memberPhotoPlaceholder, { backgroundColor: theme.backgroundSecondary }]}>
-                  <Feather name="user" size={30} color={theme.textSecondary} />
-                </View>
-              )}
-              <View style={styles.memberInfo}>
-                <ThemedText type="h4">
-                  {scannedMember.firstname} {scannedMember.lastname}
-                </ThemedText>
-                <ThemedText style={{ color: theme.textSecondary, textTransform: "capitalize" }}>
-                  {scannedMember.membership_type} Member
-                </ThemedText>
-              </View>
-            </View>
-
-            <View style={[styles.statusBadge, { 
-              backgroundColor: isSubscriptionActive(scannedMember) ? theme.success + "20" : theme.warning + "20" 
-            }]}>
-              <Feather
-                name={isSubscriptionActive(scannedMember) ? "check-circle" : "alert-circle"}
-                size={18}
-                color={isSubscriptionActive(scannedMember) ? theme.success : theme.warning}
-              />
-              <ThemedText style={{ 
-                color: isSubscriptionActive(scannedMember) ? theme.success : theme.warning,
-                fontWeight: "600"
-              }}>
-                {isSubscriptionActive(scannedMember) ? "Active Subscription" : "Subscription Expired"}
-              </ThemedText>
-            </View>
-
-            {scannedMember.subscription_end ? (
-              <ThemedText style={[styles.expiryText, { color: theme.textSecondary }]}>
-                {isSubscriptionActive(scannedMember) ? "Expires" : "Expired"}: {scannedMember.subscription_end}
-              </ThemedText>
-            ) : null}
-
-            <View style={styles.actionButtons}>
-              {isSubscriptionActive(scannedMember) ? (
-                <Pressable
-                  onPress={handleRecordAttendance}
-                  style={[styles.actionButton, { backgroundColor: theme.success }]}
-                >
-                  <Feather name="check" size={20} color="#FFFFFF" />
-                  <ThemedText style={styles.actionButtonText}>Record Attendance</ThemedText>
-                </Pressable>
-              ) : (
-                <>
-                  <Pressable
-                    onPress={handleRenewSubscription}
-                    style={[styles.actionButton, { backgroundColor: theme.primary }]}
-                  >
-                    <Feather name="refresh-cw" size={18} color="#FFFFFF" />
-                    <ThemedText style={styles.actionButtonText}>Renew Monthly</ThemedText>
-                  </Pressable>
-                  <Pressable
-                    onPress={handlePaySession}
-                    style={[styles.actionButton, { backgroundColor: theme.success }]}
-                  >
-                    <Feather name="dollar-sign" size={18} color="#FFFFFF" />
-                    <ThemedText style={styles.actionButtonText}>Pay Session</ThemedText>
-                  </Pressable>
-                </>
-              )}
-            </View>
-
-            <Pressable onPress={handleClose} style={styles.closeButton}>
-              <ThemedText style={{ color: theme.textSecondary }}>Close</ThemedText>
-            </Pressable>
-          </Card>
+        <View style={styles.floatingActions}>
+          <Pressable
+            onPress={handleWalkInSession}
+            style={[
+              styles.walkInFloating,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="user" size={18} color={theme.text} />
+            <ThemedText>Walk-in Session</ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={() => setShowMemberSearch(true)}
+            style={[
+              styles.walkInFloating,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="search" size={18} color={theme.text} />
+            <ThemedText>Find Member</ThemedText>
+          </Pressable>
         </View>
-      ) : null}
+      </View>
 
-      <SessionTypeModal
-        visible={showSessionModal}
-        onClose={() => {
-          setShowSessionModal(false);
-          setSessionModalType(null);
-        }}
-        onSelect={handleSessionTypeSelect}
-        title={
-          sessionModalType === "member_expired"
-            ? "Session Type"
-            : "Walk-in Session Type"
-        }
-        memberName={
-          sessionModalType === "member_expired" && scannedMember
-            ? `${scannedMember.firstname} ${scannedMember.lastname}`
-            : undefined
-        }
-        defaultOptionId={
-          sessionModalType === "member_expired" && scannedMember
-            ? scannedMember.membership_type === "senior"
-              ? "member_senior"
-              : "member"
-            : undefined
-        }
-        options={
-          sessionModalType === "member_expired"
-            ? [
-                {
-                  id: "member",
-                  label: "Member",
-                  subtitle: "Regular Member Rate",
-                  price: priceSettings.session_member,
-                  isSenior: false,
-                },
-                {
-                  id: "member_senior",
-                  label: "Senior Member",
-                  subtitle: "Senior Member Rate",
-                  price: priceSettings.session_member_senior,
-                  isSenior: true,
-                },
-              ]
-            : [
-                {
-                  id: "nonmember",
-                  label: "Regular Walk-in",
-                  subtitle: "Non-Member Rate",
-                  price: priceSettings.session_nonmember,
-                  isSenior: false,
-                },
-                {
-                  id: "nonmember_senior",
-                  label: "Senior Walk-in",
-                  subtitle: "Senior Non-Member Rate",
-                  price: priceSettings.session_nonmember_senior,
-                  isSenior: true,
-                },
-              ]
-        }
-      />
+      {overlays}
     </View>
   );
 }
@@ -609,9 +1160,13 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     fontSize: 16,
   },
-  walkInFloating: {
+  floatingActions: {
     position: "absolute",
     bottom: 100,
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  walkInFloating: {
     flexDirection: "row",
     alignItems: "center",
     paddingVertical: Spacing.md,
@@ -634,6 +1189,16 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.full,
     gap: Spacing.sm,
   },
+  findMemberButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.lg,
+    paddingHorizontal: Spacing["2xl"],
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    gap: Spacing.sm,
+  },
   resultOverlay: {
     ...StyleSheet.absoluteFillObject,
     alignItems: "center",
@@ -678,6 +1243,10 @@ const styles = StyleSheet.create({
   expiryText: {
     marginBottom: Spacing.xl,
   },
+  denialText: {
+    flex: 1,
+    fontWeight: "600",
+  },
   actionButtons: {
     gap: Spacing.md,
   },
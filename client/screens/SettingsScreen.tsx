@@ -13,6 +13,8 @@ import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollV
 import { Card } from "@/components/Card";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { PERMISSION_DENIED_MESSAGES, STAFF_ROLE_LABELS } from "@/lib/staff";
+import { isValidClosingTime } from "@/lib/occupancy";
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -20,30 +22,135 @@ export default function SettingsScreen() {
   const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<SettingsScreenNavigationProp>();
-  const { priceSettings, updatePriceSettings, toggleTheme } = useApp();
+  const {
+    priceSettings,
+    updatePriceSettings,
+    toggleTheme,
+    renewalGraceDays,
+    setRenewalGraceDays,
+    occupancySettings,
+    updateOccupancySettings,
+    accessRules,
+    updateAccessRules,
+    acceptLegacyCards,
+    setAcceptLegacyCards,
+    scannerInputEnabled,
+    setScannerInputEnabled,
+    startKioskMode,
+    syncHubUrl,
+    syncStatus,
+    updateSyncSettings,
+    syncNow,
+    currentStaff,
+    hasPermission,
+    setAuthenticated,
+  } = useApp();
+  const canEditPrices = hasPermission("edit_prices");
+  const canSetUpSync = hasPermission("restore_backups");
 
-  const [membership, setMembership] = useState(priceSettings.membership.toString());
-  const [studentMonthly, setStudentMonthly] = useState(priceSettings.student_monthly.toString());
-  const [regularMonthly, setRegularMonthly] = useState(priceSettings.regular_monthly.toString());
-  const [seniorMonthly, setSeniorMonthly] = useState(priceSettings.senior_monthly.toString());
-  const [sessionMember, setSessionMember] = useState(priceSettings.session_member.toString());
-  const [sessionNonmember, setSessionNonmember] = useState(priceSettings.session_nonmember.toString());
-  const [sessionMemberSenior, setSessionMemberSenior] = useState(priceSettings.session_member_senior.toString());
-  const [sessionNonmemberSenior, setSessionNonmemberSenior] = useState(priceSettings.session_nonmember_senior.toString());
+  const [membership, setMembership] = useState(
+    priceSettings.membership.toString(),
+  );
+  const [sessionMember, setSessionMember] = useState(
+    priceSettings.session_member.toString(),
+  );
+  const [sessionNonmember, setSessionNonmember] = useState(
+    priceSettings.session_nonmember.toString(),
+  );
+  const [sessionMemberSenior, setSessionMemberSenior] = useState(
+    priceSettings.session_member_senior.toString(),
+  );
+  const [sessionNonmemberSenior, setSessionNonmemberSenior] = useState(
+    priceSettings.session_nonmember_senior.toString(),
+  );
+  const [graceDays, setGraceDays] = useState(renewalGraceDays.toString());
+  const [checkoutOnSecondScan, setCheckoutOnSecondScan] = useState(
+    occupancySettings.checkoutOnSecondScan,
+  );
+  const [minVisitMinutes, setMinVisitMinutes] = useState(
+    occupancySettings.minVisitMinutes.toString(),
+  );
+  const [closingTime, setClosingTime] = useState(occupancySettings.closingTime);
+  const [capacity, setCapacity] = useState(
+    occupancySettings.capacity.toString(),
+  );
+  const [onePerDay, setOnePerDay] = useState(accessRules.onePerDay);
+  const [minimumAge, setMinimumAge] = useState(
+    accessRules.minimumAge.toString(),
+  );
+  const [legacyCards, setLegacyCards] = useState(acceptLegacyCards);
+  const [hubUrl, setHubUrl] = useState(syncHubUrl ?? "");
+  const [syncKey, setSyncKey] = useState("");
 
   const handleSave = () => {
+    if (!canEditPrices) {
+      Alert.alert("Not Allowed", PERMISSION_DENIED_MESSAGES.edit_prices);
+      return;
+    }
+    if (!isValidClosingTime(closingTime)) {
+      Alert.alert(
+        "Invalid Closing Time",
+        "Enter the closing time as HH:MM, for example 22:00.",
+      );
+      return;
+    }
     updatePriceSettings({
       membership: parseFloat(membership) || 0,
-      student_monthly: parseFloat(studentMonthly) || 0,
-      regular_monthly: parseFloat(regularMonthly) || 0,
-      senior_monthly: parseFloat(seniorMonthly) || 0,
       session_member: parseFloat(sessionMember) || 0,
       session_nonmember: parseFloat(sessionNonmember) || 0,
       session_member_senior: parseFloat(sessionMemberSenior) || 0,
       session_nonmember_senior: parseFloat(sessionNonmemberSenior) || 0,
     });
+    setRenewalGraceDays(parseInt(graceDays, 10) || 0);
+    updateOccupancySettings({
+      checkoutOnSecondScan,
+      minVisitMinutes: parseInt(minVisitMinutes, 10) || 0,
+      closingTime: closingTime.padStart(5, "0"),
+      capacity: parseInt(capacity, 10) || 0,
+    });
+    updateAccessRules({
+      onePerDay,
+      minimumAge: parseInt(minimumAge, 10) || 0,
+    });
+    setAcceptLegacyCards(legacyCards);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    Alert.alert("Success", "Price settings saved successfully!");
+    Alert.alert("Success", "Settings saved successfully!");
+  };
+
+  const handleStartKiosk = () => {
+    Alert.alert(
+      "Start Kiosk Mode",
+      "You will be signed out and members can check themselves in. A staff PIN is needed to leave kiosk mode.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Start Kiosk", onPress: () => startKioskMode() },
+      ],
+    );
+  };
+
+  const handleSyncSave = async () => {
+    try {
+      await updateSyncSettings(hubUrl, syncKey);
+      setSyncKey("");
+      if (!hubUrl.trim()) {
+        Alert.alert("Desk Sync Off", "This desk no longer syncs with a hub.");
+        return;
+      }
+      const summary = await syncNow();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        "Synced",
+        `Sent ${summary.pushed} and received ${summary.pulled} records.` +
+          (summary.conflicts > 0
+            ? ` ${summary.conflicts} local edits were older than the hub copy and were replaced.`
+            : ""),
+      );
+    } catch (error) {
+      Alert.alert(
+        "Sync Failed",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
   };
 
   const handleThemeToggle = () => {
@@ -64,11 +171,23 @@ export default function SettingsScreen() {
           {description}
         </ThemedText>
       ) : null}
-      <View style={[styles.inputContainer, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
+      <View
+        style={[
+          styles.inputContainer,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+        ]}
+      >
         <ThemedText style={styles.currencySymbol}>P</ThemedText>
         <TextInput
-          style={[styles.input, { color: theme.text }]}
+          style={[
+            styles.input,
+            { color: canEditPrices ? theme.text : theme.textSecondary },
+          ]}
           value={value}
+          editable={canEditPrices}
           onChangeText={(text) => onChange(text.replace(/[^0-9.]/g, ""))}
           keyboardType="decimal-pad"
           placeholder="0.00"
@@ -90,6 +209,97 @@ export default function SettingsScreen() {
         Settings
       </ThemedText>
 
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="user" size={20} color={theme.primary} />
+          <ThemedText type="h4">Account</ThemedText>
+        </View>
+        <View style={styles.toggleRow}>
+          <View style={styles.toggleInfo}>
+            <ThemedText style={styles.toggleLabel}>
+              {currentStaff?.name}
+            </ThemedText>
+            <ThemedText
+              style={[styles.toggleDescription, { color: theme.textSecondary }]}
+            >
+              Signed in as{" "}
+              {currentStaff ? STAFF_ROLE_LABELS[currentStaff.role] : "—"}
+            </ThemedText>
+          </View>
+          <Pressable
+            onPress={() => setAuthenticated(false)}
+            style={[
+              styles.signOutButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <Feather name="log-out" size={16} color={theme.error} />
+            <ThemedText style={{ color: theme.error }}>Sign Out</ThemedText>
+          </Pressable>
+        </View>
+      </Card>
+
+      {hasPermission("manage_staff") ? (
+        <Pressable
+          onPress={() => navigation.navigate("Staff")}
+          style={({ pressed }) => [
+            styles.dataBackupButton,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              opacity: pressed ? 0.7 : 1,
+            },
+          ]}
+        >
+          <View style={styles.dataBackupContent}>
+            <View style={styles.dataBackupIcon}>
+              <Feather name="users" size={24} color={theme.primary} />
+            </View>
+            <View style={styles.dataBackupText}>
+              <ThemedText type="h4">Staff Accounts</ThemedText>
+              <ThemedText
+                style={[
+                  styles.dataBackupSubtext,
+                  { color: theme.textSecondary },
+                ]}
+              >
+                PINs and roles for everyone at the desk
+              </ThemedText>
+            </View>
+            <Feather
+              name="chevron-right"
+              size={20}
+              color={theme.textSecondary}
+            />
+          </View>
+        </Pressable>
+      ) : null}
+
+      <Pressable
+        onPress={handleStartKiosk}
+        style={({ pressed }) => [
+          styles.dataBackupButton,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            opacity: pressed ? 0.7 : 1,
+          },
+        ]}
+      >
+        <View style={styles.dataBackupContent}>
+          <View style={styles.dataBackupIcon}>
+            <Feather name="tablet" size={24} color={theme.primary} />
+          </View>
+          <View style={styles.dataBackupText}>
+            <ThemedText type="h4">Kiosk Mode</ThemedText>
+            <ThemedText
+              style={[styles.dataBackupSubtext, { color: theme.textSecondary }]}
+            >
+              Turn this device into a self check-in station for members
+            </ThemedText>
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </View>
+      </Pressable>
+
       <Card style={styles.section}>
         <View style={styles.sectionHeader}>
           <Feather name={isDark ? "moon" : "sun"} size={20} color={theme.primary} />
@@ -111,6 +321,152 @@ export default function SettingsScreen() {
         </View>
       </Card>
 
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="maximize" size={20} color={theme.primary} />
+          <ThemedText type="h4">Barcode Scanner</ThemedText>
+        </View>
+        <View style={styles.toggleRow}>
+          <View style={styles.toggleInfo}>
+            <ThemedText style={styles.toggleLabel}>
+              USB / Bluetooth Scanner
+            </ThemedText>
+            <ThemedText
+              style={[styles.toggleDescription, { color: theme.textSecondary }]}
+            >
+              Check members in with a handheld scanner that types the code and
+              presses Enter. Works on any screen.
+            </ThemedText>
+          </View>
+          <Switch
+            value={scannerInputEnabled}
+            onValueChange={(value) => {
+              setScannerInputEnabled(value);
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            }}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: theme.primary + "80",
+            }}
+            thumbColor={
+              scannerInputEnabled ? theme.primary : theme.backgroundSecondary
+            }
+          />
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="share-2" size={20} color={theme.primary} />
+          <ThemedText type="h4">Desk Sync</ThemedText>
+        </View>
+        <ThemedText
+          style={[
+            styles.fieldDescription,
+            styles.fieldContainer,
+            { color: theme.textSecondary },
+          ]}
+        >
+          Keep members, visits and sales in step across front desk devices on
+          the same network. Run the bundled server on one computer with a
+          SYNC_KEY and enter its address here.
+        </ThemedText>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Hub Address</ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canSetUpSync ? theme.text : theme.textSecondary },
+              ]}
+              value={hubUrl}
+              editable={canSetUpSync}
+              onChangeText={setHubUrl}
+              placeholder="http://192.168.1.20:5000"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Sync Key</ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canSetUpSync ? theme.text : theme.textSecondary },
+              ]}
+              value={syncKey}
+              editable={canSetUpSync}
+              onChangeText={setSyncKey}
+              placeholder={
+                syncHubUrl
+                  ? "Saved - leave blank to keep"
+                  : "Key the hub was started with"
+              }
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+          </View>
+        </View>
+        {syncHubUrl ? (
+          <ThemedText
+            style={[
+              styles.toggleDescription,
+              { color: syncStatus.error ? theme.error : theme.textSecondary },
+            ]}
+          >
+            {syncStatus.isSyncing
+              ? "Syncing..."
+              : syncStatus.error
+                ? `Last sync failed: ${syncStatus.error}`
+                : syncStatus.lastSyncedAt
+                  ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}`
+                  : "Not synced yet"}
+          </ThemedText>
+        ) : null}
+        {canSetUpSync ? (
+          <Pressable
+            onPress={handleSyncSave}
+            disabled={syncStatus.isSyncing}
+            style={[
+              styles.saveButton,
+              {
+                backgroundColor: theme.primary,
+                opacity: syncStatus.isSyncing ? 0.6 : 1,
+              },
+            ]}
+          >
+            <Feather name="refresh-cw" size={20} color="#FFFFFF" />
+            <ThemedText style={styles.saveButtonText}>
+              {hubUrl.trim() || !syncHubUrl
+                ? "Save & Sync Now"
+                : "Turn Off Sync"}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </Card>
+
       <Pressable
         onPress={() => navigation.navigate("DataBackup")}
         style={({ pressed }) => [
@@ -148,14 +504,296 @@ export default function SettingsScreen() {
         )}
       </Card>
 
+      <Pressable
+        onPress={() => navigation.navigate("Plans")}
+        style={({ pressed }) => [
+          styles.dataBackupButton,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            opacity: pressed ? 0.7 : 1,
+          },
+        ]}
+      >
+        <View style={styles.dataBackupContent}>
+          <View style={styles.dataBackupIcon}>
+            <Feather name="calendar" size={24} color={theme.primary} />
+          </View>
+          <View style={styles.dataBackupText}>
+            <ThemedText type="h4">Membership Plans</ThemedText>
+            <ThemedText
+              style={[styles.dataBackupSubtext, { color: theme.textSecondary }]}
+            >
+              Monthly, quarterly, annual and other subscription plans
+            </ThemedText>
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        </View>
+      </Pressable>
+
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="refresh-cw" size={20} color={theme.primary} />
+          <ThemedText type="h4">Renewals</ThemedText>
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Grace Period</ThemedText>
+          <ThemedText
+            style={[styles.fieldDescription, { color: theme.textSecondary }]}
+          >
+            Members renewing within this many days of expiry continue from their
+            old end date by default
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canEditPrices ? theme.text : theme.textSecondary },
+              ]}
+              value={graceDays}
+              editable={canEditPrices}
+              onChangeText={(text) => setGraceDays(text.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+              placeholder="0"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <ThemedText style={{ color: theme.textSecondary }}>days</ThemedText>
+          </View>
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="log-in" size={20} color={theme.primary} />
+          <ThemedText type="h4">Check-in & Occupancy</ThemedText>
+        </View>
+        <View style={[styles.toggleRow, styles.fieldContainer]}>
+          <View style={styles.toggleInfo}>
+            <ThemedText style={styles.toggleLabel}>
+              Check Out on Second Scan
+            </ThemedText>
+            <ThemedText
+              style={[styles.toggleDescription, { color: theme.textSecondary }]}
+            >
+              Scanning a member who is already inside checks them out
+            </ThemedText>
+          </View>
+          <Switch
+            value={checkoutOnSecondScan}
+            disabled={!canEditPrices}
+            onValueChange={setCheckoutOnSecondScan}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: theme.primary + "80",
+            }}
+            thumbColor={
+              checkoutOnSecondScan ? theme.primary : theme.backgroundSecondary
+            }
+          />
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Minimum Visit</ThemedText>
+          <ThemedText
+            style={[styles.fieldDescription, { color: theme.textSecondary }]}
+          >
+            A second scan sooner than this after check-in asks before checking
+            out
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canEditPrices ? theme.text : theme.textSecondary },
+              ]}
+              value={minVisitMinutes}
+              editable={canEditPrices}
+              onChangeText={(text) =>
+                setMinVisitMinutes(text.replace(/[^0-9]/g, ""))
+              }
+              keyboardType="number-pad"
+              placeholder="0"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <ThemedText style={{ color: theme.textSecondary }}>
+              minutes
+            </ThemedText>
+          </View>
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Closing Time</ThemedText>
+          <ThemedText
+            style={[styles.fieldDescription, { color: theme.textSecondary }]}
+          >
+            Anyone still checked in at closing is checked out automatically
+            (24-hour, HH:MM)
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canEditPrices ? theme.text : theme.textSecondary },
+              ]}
+              value={closingTime}
+              editable={canEditPrices}
+              onChangeText={(text) =>
+                setClosingTime(text.replace(/[^0-9:]/g, ""))
+              }
+              keyboardType="numbers-and-punctuation"
+              placeholder="22:00"
+              placeholderTextColor={theme.textSecondary}
+              maxLength={5}
+            />
+          </View>
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Capacity</ThemedText>
+          <ThemedText
+            style={[styles.fieldDescription, { color: theme.textSecondary }]}
+          >
+            Warn when this many people are inside. Leave at 0 for no limit.
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canEditPrices ? theme.text : theme.textSecondary },
+              ]}
+              value={capacity}
+              editable={canEditPrices}
+              onChangeText={(text) => setCapacity(text.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+              placeholder="0"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <ThemedText style={{ color: theme.textSecondary }}>
+              people
+            </ThemedText>
+          </View>
+        </View>
+      </Card>
+
       <Card style={styles.section}>
         <View style={styles.sectionHeader}>
-          <Feather name="calendar" size={20} color={theme.primary} />
-          <ThemedText type="h4">Monthly Subscription Rates</ThemedText>
+          <Feather name="shield" size={20} color={theme.primary} />
+          <ThemedText type="h4">Access Rules</ThemedText>
+        </View>
+        <ThemedText
+          style={[styles.fieldDescription, { color: theme.textSecondary }]}
+        >
+          Checked at the scanner before a visit is recorded. Entry hours are set
+          on each membership plan and bans from the member profile.
+        </ThemedText>
+        <View style={[styles.toggleRow, styles.fieldContainer]}>
+          <View style={styles.toggleInfo}>
+            <ThemedText style={styles.toggleLabel}>
+              One Check-in Per Day
+            </ThemedText>
+            <ThemedText
+              style={[styles.toggleDescription, { color: theme.textSecondary }]}
+            >
+              Refuse a member who has already visited today
+            </ThemedText>
+          </View>
+          <Switch
+            value={onePerDay}
+            disabled={!canEditPrices}
+            onValueChange={setOnePerDay}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: theme.primary + "80",
+            }}
+            thumbColor={onePerDay ? theme.primary : theme.backgroundSecondary}
+          />
+        </View>
+        <View style={styles.fieldContainer}>
+          <ThemedText style={styles.fieldLabel}>Minimum Age</ThemedText>
+          <ThemedText
+            style={[styles.fieldDescription, { color: theme.textSecondary }]}
+          >
+            Refuse members younger than this. Leave at 0 for no limit.
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: canEditPrices ? theme.text : theme.textSecondary },
+              ]}
+              value={minimumAge}
+              editable={canEditPrices}
+              onChangeText={(text) =>
+                setMinimumAge(text.replace(/[^0-9]/g, ""))
+              }
+              keyboardType="number-pad"
+              placeholder="0"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <ThemedText style={{ color: theme.textSecondary }}>
+              years
+            </ThemedText>
+          </View>
+        </View>
+        <View style={[styles.toggleRow, styles.fieldContainer]}>
+          <View style={styles.toggleInfo}>
+            <ThemedText style={styles.toggleLabel}>
+              Accept Old-Style Cards
+            </ThemedText>
+            <ThemedText
+              style={[styles.toggleDescription, { color: theme.textSecondary }]}
+            >
+              Unsigned GYM- cards printed before cards were signed. Turn off
+              once every member has a new card.
+            </ThemedText>
+          </View>
+          <Switch
+            value={legacyCards}
+            disabled={!canEditPrices}
+            onValueChange={setLegacyCards}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: theme.primary + "80",
+            }}
+            thumbColor={legacyCards ? theme.primary : theme.backgroundSecondary}
+          />
         </View>
-        {renderPriceField("Student Monthly", studentMonthly, setStudentMonthly)}
-        {renderPriceField("Regular Monthly", regularMonthly, setRegularMonthly)}
-        {renderPriceField("Senior Monthly", seniorMonthly, setSeniorMonthly)}
       </Card>
 
       <Card style={styles.section}>
@@ -213,13 +851,21 @@ export default function SettingsScreen() {
         </View>
       </Pressable>
 
-      <Pressable
-        onPress={handleSave}
-        style={[styles.saveButton, { backgroundColor: theme.primary }]}
-      >
-        <Feather name="save" size={20} color="#FFFFFF" />
-        <ThemedText style={styles.saveButtonText}>Save Settings</ThemedText>
-      </Pressable>
+      {canEditPrices ? (
+        <Pressable
+          onPress={handleSave}
+          style={[styles.saveButton, { backgroundColor: theme.primary }]}
+        >
+          <Feather name="save" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.saveButtonText}>Save Settings</ThemedText>
+        </Pressable>
+      ) : (
+        <ThemedText
+          style={[styles.readOnlyNote, { color: theme.textSecondary }]}
+        >
+          {PERMISSION_DENIED_MESSAGES.edit_prices}
+        </ThemedText>
+      )}
 
       <View style={styles.footer}>
         <ThemedText style={[styles.footerText, { color: theme.textSecondary }]}>
@@ -309,6 +955,19 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 16,
   },
+  signOutButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+  },
+  readOnlyNote: {
+    textAlign: "center",
+    fontSize: 13,
+    marginTop: Spacing.lg,
+  },
   footer: {
     alignItems: "center",
     marginTop: Spacing["3xl"],
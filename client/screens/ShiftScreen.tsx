@@ -0,0 +1,466 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useApp, Shift } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { Card } from "@/components/Card";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { exportHTMLAsPDF } from "@/lib/reports";
+import {
+  formatVariance,
+  generateZReportHTML,
+  getCashVariance,
+  summarizeShift,
+} from "@/lib/shifts";
+
+const RECENT_SHIFT_COUNT = 10;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function ShiftScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { shifts, sales, getCurrentShift, openShift, closeShift } = useApp();
+
+  const [staffName, setStaffName] = useState("");
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNote, setClosingNote] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const currentShift = getCurrentShift();
+  const summary = useMemo(
+    () => (currentShift ? summarizeShift(currentShift, sales) : null),
+    [currentShift, sales],
+  );
+  const recentShifts = useMemo(
+    () => shifts.filter((s) => s.closed_at).slice(0, RECENT_SHIFT_COUNT),
+    [shifts],
+  );
+
+  const handleExportZReport = async (shift: Shift) => {
+    setIsExporting(true);
+    try {
+      const html = generateZReportHTML(shift, summarizeShift(shift, sales));
+      await exportHTMLAsPDF(html, `z_report_shift_${shift.id}`);
+    } catch (error) {
+      console.log("Z-report export error:", error);
+      Alert.alert("Error", "Failed to generate Z-report. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenShift = async () => {
+    if (!staffName.trim()) {
+      Alert.alert("Missing Information", "Please enter the staff name.");
+      return;
+    }
+    try {
+      await openShift(staffName.trim(), parseFloat(openingFloat) || 0);
+      setStaffName("");
+      setOpeningFloat("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to open shift.",
+      );
+    }
+  };
+
+  const handleCloseShift = () => {
+    if (!countedCash.trim()) {
+      Alert.alert(
+        "Missing Information",
+        "Please count the cash in the drawer and enter the total.",
+      );
+      return;
+    }
+    const counted = parseFloat(countedCash) || 0;
+
+    Alert.alert(
+      "Close Shift",
+      `Close the shift with ₱${counted.toLocaleString()} counted? Sales taken after this will not belong to any shift until a new one is opened.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Close Shift",
+          onPress: async () => {
+            try {
+              const closed = await closeShift(counted, closingNote);
+              setCountedCash("");
+              setClosingNote("");
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              const variance = getCashVariance(closed) ?? 0;
+              Alert.alert("Shift Closed", formatVariance(variance), [
+                { text: "Done", style: "cancel" },
+                {
+                  text: "Export Z-Report",
+                  onPress: () => handleExportZReport(closed),
+                },
+              ]);
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                error instanceof Error
+                  ? error.message
+                  : "Failed to close shift.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderAmountInput = (
+    value: string,
+    onChange: (text: string) => void,
+  ) => (
+    <View
+      style={[
+        styles.inputContainer,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          borderColor: theme.border,
+        },
+      ]}
+    >
+      <ThemedText style={styles.currencySymbol}>P</ThemedText>
+      <TextInput
+        style={[styles.input, { color: theme.text }]}
+        value={value}
+        onChangeText={(text) => onChange(text.replace(/[^0-9.]/g, ""))}
+        keyboardType="decimal-pad"
+        placeholder="0.00"
+        placeholderTextColor={theme.textSecondary}
+      />
+    </View>
+  );
+
+  const renderSummaryRow = (label: string, value: string, bold?: boolean) => (
+    <View key={label} style={styles.summaryRow}>
+      <ThemedText style={{ color: theme.textSecondary }}>{label}</ThemedText>
+      <ThemedText style={bold ? styles.summaryTotal : undefined}>
+        {value}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <KeyboardAwareScrollViewCompat
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        {
+          paddingTop: insets.top + Spacing.xl,
+          paddingBottom: insets.bottom + Spacing.xl,
+        },
+      ]}
+    >
+      <ThemedText type="h3" style={styles.title}>
+        Cash Drawer
+      </ThemedText>
+
+      {currentShift && summary ? (
+        <>
+          <Card style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Feather name="clock" size={20} color={theme.success} />
+              <View style={{ flex: 1 }}>
+                <ThemedText type="h4">Shift Open</ThemedText>
+                <ThemedText
+                  style={[styles.subtext, { color: theme.textSecondary }]}
+                >
+                  {currentShift.staff_name} · since{" "}
+                  {formatTime(currentShift.opened_at)}
+                </ThemedText>
+              </View>
+            </View>
+            {renderSummaryRow(
+              "Opening Float",
+              `₱${currentShift.opening_float.toLocaleString()}`,
+            )}
+            {Object.entries(summary.salesByMethod).map(([method, amount]) =>
+              renderSummaryRow(
+                `${PAYMENT_METHOD_LABELS[method] || method} Sales`,
+                `₱${amount.toLocaleString()}`,
+              ),
+            )}
+            {renderSummaryRow("Transactions", summary.sales.length.toString())}
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            {renderSummaryRow(
+              "Expected Cash in Drawer",
+              `₱${summary.expectedCash.toLocaleString()}`,
+              true,
+            )}
+          </Card>
+
+          <Card style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Feather name="lock" size={20} color={theme.primary} />
+              <ThemedText type="h4">Close Shift</ThemedText>
+            </View>
+            <View style={styles.fieldContainer}>
+              <ThemedText style={styles.fieldLabel}>Counted Cash</ThemedText>
+              <ThemedText
+                style={[
+                  styles.fieldDescription,
+                  { color: theme.textSecondary },
+                ]}
+              >
+                Everything in the drawer, including the opening float
+              </ThemedText>
+              {renderAmountInput(countedCash, setCountedCash)}
+            </View>
+            <View style={styles.fieldContainer}>
+              <ThemedText style={styles.fieldLabel}>Note (optional)</ThemedText>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    borderColor: theme.border,
+                    color: theme.text,
+                  },
+                ]}
+                value={closingNote}
+                onChangeText={setClosingNote}
+                placeholder="e.g. ₱20 paid out for supplies"
+                placeholderTextColor={theme.textSecondary}
+              />
+            </View>
+            <Pressable
+              onPress={handleCloseShift}
+              style={[styles.actionButton, { backgroundColor: theme.primary }]}
+            >
+              <Feather name="file-text" size={20} color="#FFFFFF" />
+              <ThemedText style={styles.actionButtonText}>
+                Close Shift & Z-Report
+              </ThemedText>
+            </Pressable>
+          </Card>
+        </>
+      ) : (
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="unlock" size={20} color={theme.primary} />
+            <View style={{ flex: 1 }}>
+              <ThemedText type="h4">Open Shift</ThemedText>
+              <ThemedText
+                style={[styles.subtext, { color: theme.textSecondary }]}
+              >
+                Sales are tied to the open shift
+              </ThemedText>
+            </View>
+          </View>
+          <View style={styles.fieldContainer}>
+            <ThemedText style={styles.fieldLabel}>Staff Name</ThemedText>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  borderColor: theme.border,
+                  color: theme.text,
+                },
+              ]}
+              value={staffName}
+              onChangeText={setStaffName}
+              placeholder="Who is on the front desk"
+              placeholderTextColor={theme.textSecondary}
+            />
+          </View>
+          <View style={styles.fieldContainer}>
+            <ThemedText style={styles.fieldLabel}>Opening Float</ThemedText>
+            {renderAmountInput(openingFloat, setOpeningFloat)}
+          </View>
+          <Pressable
+            onPress={handleOpenShift}
+            style={[styles.actionButton, { backgroundColor: theme.success }]}
+          >
+            <Feather name="play" size={20} color="#FFFFFF" />
+            <ThemedText style={styles.actionButtonText}>Open Shift</ThemedText>
+          </Pressable>
+        </Card>
+      )}
+
+      <Card style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Feather name="archive" size={20} color={theme.primary} />
+          <ThemedText type="h4">Recent Shifts</ThemedText>
+        </View>
+        {recentShifts.length === 0 ? (
+          <ThemedText style={{ color: theme.textSecondary }}>
+            No closed shifts yet
+          </ThemedText>
+        ) : (
+          recentShifts.map((shift) => {
+            const variance = getCashVariance(shift) ?? 0;
+            return (
+              <View
+                key={shift.id}
+                style={[styles.shiftRow, { borderBottomColor: theme.border }]}
+              >
+                <View style={{ flex: 1 }}>
+                  <ThemedText style={styles.fieldLabel}>
+                    {shift.staff_name}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.subtext, { color: theme.textSecondary }]}
+                  >
+                    {formatTime(shift.opened_at)} –{" "}
+                    {shift.closed_at ? formatTime(shift.closed_at) : ""}
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  style={[
+                    styles.variance,
+                    {
+                      color:
+                        variance < 0
+                          ? theme.error
+                          : variance > 0
+                            ? theme.warning
+                            : theme.success,
+                    },
+                  ]}
+                >
+                  {formatVariance(variance)}
+                </ThemedText>
+                <Pressable
+                  onPress={() => handleExportZReport(shift)}
+                  disabled={isExporting}
+                  style={[
+                    styles.exportButton,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <Feather name="printer" size={18} color={theme.primary} />
+                </Pressable>
+              </View>
+            );
+          })
+        )}
+      </Card>
+    </KeyboardAwareScrollViewCompat>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  title: {
+    marginBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+    padding: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  subtext: {
+    fontSize: 12,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+  },
+  summaryTotal: {
+    fontWeight: "700",
+  },
+  divider: {
+    height: 1,
+    marginVertical: Spacing.sm,
+  },
+  fieldContainer: {
+    marginBottom: Spacing.lg,
+  },
+  fieldLabel: {
+    fontWeight: "500",
+    marginBottom: Spacing.xs,
+  },
+  fieldDescription: {
+    fontSize: 12,
+    marginBottom: Spacing.sm,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+  },
+  currencySymbol: {
+    marginRight: Spacing.sm,
+    fontWeight: "600",
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+  },
+  textInput: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.full,
+    gap: Spacing.sm,
+  },
+  actionButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  shiftRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  variance: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  exportButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
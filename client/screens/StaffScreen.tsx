@@ -0,0 +1,411 @@
+import React, { useLayoutEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Modal,
+  TextInput,
+  Switch,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useApp, Staff } from "@/context/AppContext";
+import { ThemedText } from "@/components/ThemedText";
+import { Card } from "@/components/Card";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { STAFF_ROLES, STAFF_ROLE_LABELS, StaffRole } from "@/lib/staff";
+
+export default function StaffScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation();
+  const { staff, currentStaff, addStaff, updateStaff, regenerateRecoveryCode } =
+    useApp();
+
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingStaffId, setEditingStaffId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<StaffRole>("front_desk");
+  const [pin, setPin] = useState("");
+
+  // Configure header with back button
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="chevron-left" size={24} color={theme.text} />
+        </Pressable>
+      ),
+    });
+  }, [navigation, theme.text]);
+
+  const openEditor = (member?: Staff) => {
+    setEditingStaffId(member?.id ?? null);
+    setName(member?.name ?? "");
+    setRole(member?.role ?? "front_desk");
+    setPin("");
+    setShowEditor(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Missing Information", "Please enter a name.");
+      return;
+    }
+    if (editingStaffId === null && !pin) {
+      Alert.alert("Missing Information", "Please enter a 4-digit PIN.");
+      return;
+    }
+
+    try {
+      if (editingStaffId !== null) {
+        await updateStaff(editingStaffId, {
+          name: name.trim(),
+          role,
+          ...(pin ? { pin } : {}),
+        });
+      } else {
+        await addStaff({ name: name.trim(), role, pin });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setShowEditor(false);
+    } catch (error) {
+      Alert.alert(
+        "Cannot Save",
+        error instanceof Error ? error.message : "Failed to save staff member.",
+      );
+    }
+  };
+
+  const handleToggleActive = async (member: Staff) => {
+    try {
+      await updateStaff(member.id, {
+        is_active: member.is_active === 1 ? 0 : 1,
+      });
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      Alert.alert(
+        "Cannot Update",
+        error instanceof Error
+          ? error.message
+          : "Failed to update staff member.",
+      );
+    }
+  };
+
+  const handleNewRecoveryCode = () => {
+    Alert.alert(
+      "New Recovery Code",
+      "The current recovery code will stop working. Continue?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Continue",
+          onPress: async () => {
+            try {
+              const code = await regenerateRecoveryCode();
+              Alert.alert(
+                "Recovery Code",
+                `${code}\n\nWrite this down and keep it somewhere safe. It resets the owner PIN if it is ever forgotten.`,
+              );
+            } catch (error) {
+              Alert.alert(
+                "Error",
+                error instanceof Error
+                  ? error.message
+                  : "Failed to create a recovery code.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText style={selected ? { color: "#FFFFFF" } : undefined}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <>
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <ThemedText style={[styles.intro, { color: theme.textSecondary }]}>
+          Each person signs in with their own PIN so sales, visits and member
+          changes show who recorded them. Front desk staff cannot change prices,
+          delete members or restore backups.
+        </ThemedText>
+
+        {staff.map((member) => (
+          <Card key={member.id} style={styles.staffCard}>
+            <View style={styles.staffRow}>
+              <Pressable
+                onPress={() => openEditor(member)}
+                style={styles.staffInfo}
+              >
+                <ThemedText
+                  type="h4"
+                  style={member.is_active ? undefined : { opacity: 0.5 }}
+                >
+                  {member.name}
+                  {member.id === currentStaff?.id ? " (you)" : ""}
+                </ThemedText>
+                <ThemedText style={{ color: theme.textSecondary }}>
+                  {STAFF_ROLE_LABELS[member.role]}
+                  {member.is_active ? "" : " · Inactive"}
+                </ThemedText>
+              </Pressable>
+              <Switch
+                value={member.is_active === 1}
+                onValueChange={() => handleToggleActive(member)}
+                trackColor={{
+                  false: theme.backgroundTertiary,
+                  true: theme.primary + "80",
+                }}
+                thumbColor={
+                  member.is_active ? theme.primary : theme.backgroundSecondary
+                }
+              />
+            </View>
+          </Card>
+        ))}
+
+        <Pressable
+          onPress={() => openEditor()}
+          style={[styles.addButton, { backgroundColor: theme.primary }]}
+        >
+          <Feather name="user-plus" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.addButtonText}>Add Staff</ThemedText>
+        </Pressable>
+
+        <Pressable
+          onPress={handleNewRecoveryCode}
+          style={[
+            styles.addButton,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
+          <Feather name="key" size={20} color={theme.text} />
+          <ThemedText style={[styles.addButtonText, { color: theme.text }]}>
+            New Recovery Code
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+
+      <Modal
+        visible={showEditor}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowEditor(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={styles.modalTitle}>
+              {editingStaffId !== null ? "Edit Staff" : "New Staff"}
+            </ThemedText>
+
+            <ThemedText style={styles.label}>Name</ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Maria"
+              placeholderTextColor={theme.textSecondary}
+            />
+
+            <ThemedText style={styles.label}>Role</ThemedText>
+            <View style={[styles.row, styles.chipWrap]}>
+              {STAFF_ROLES.map((r) =>
+                renderChip(STAFF_ROLE_LABELS[r], role === r, () => setRole(r)),
+              )}
+            </View>
+
+            <ThemedText style={styles.label}>
+              {editingStaffId !== null ? "New PIN (optional)" : "PIN"}
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={pin}
+              onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+              maxLength={4}
+              secureTextEntry
+              placeholder={
+                editingStaffId !== null ? "Leave blank to keep" : "4 digits"
+              }
+              placeholderTextColor={theme.textSecondary}
+            />
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setShowEditor(false)}
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={[styles.modalButton, { backgroundColor: theme.primary }]}
+              >
+                <ThemedText style={{ color: "#FFFFFF" }}>Save</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  intro: {
+    fontSize: 13,
+    marginBottom: Spacing.xl,
+  },
+  staffCard: {
+    marginBottom: Spacing.md,
+    padding: Spacing.lg,
+  },
+  staffRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  staffInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.full,
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+  modalContent: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  modalTitle: {
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "500",
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  chipWrap: {
+    flexWrap: "wrap",
+    marginBottom: Spacing.lg,
+  },
+  chip: {
+    height: Spacing.inputHeight,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  modalButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -50,6 +50,8 @@ function setupCors(app: express.Application) {
 function setupBodyParsing(app: express.Application) {
   app.use(
     express.json({
+      // Sync pushes carry member photos and record batches
+      limit: "10mb",
       verify: (req, _res, buf) => {
         req.rawBody = buf;
       },
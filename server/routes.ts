@@ -1,9 +1,158 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  SYNC_KEY_HEADER,
+  SYNC_RECORD_SCHEMAS,
+  SYNC_TABLES,
+  syncPhotoSchema,
+  syncPricesSchema,
+  type SyncTable,
+} from "@shared/sync";
+import { syncStorage } from "./storage";
+
+// Most changes a single pull returns; devices keep pulling while hasMore
+const MAX_PULL_LIMIT = 1000;
+
+const revisionSchema = z.coerce.number().int().min(0).default(0);
+const uuidSchema = z.string().uuid();
+
+function keysMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The hub holds member data, so every sync route needs the shared key the
+ * desks were set up with. Without SYNC_KEY the hub stays switched off.
+ */
+function requireSyncKey(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.SYNC_KEY;
+  if (!expected) {
+    return res
+      .status(503)
+      .json({ message: "Sync hub is disabled. Start it with SYNC_KEY set." });
+  }
+  const given = req.header(SYNC_KEY_HEADER);
+  if (!given || !keysMatch(given, expected)) {
+    return res.status(401).json({ message: "Wrong sync key" });
+  }
+  next();
+}
+
+function badRequest(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: fromZodError(error).message });
+}
+
+function registerTableRoutes(app: Express, table: SyncTable) {
+  const pushSchema = z.object({ records: z.array(SYNC_RECORD_SCHEMAS[table]) });
+
+  app.get(`/api/${table}`, async (req, res, next) => {
+    try {
+      const since = revisionSchema.safeParse(req.query.since);
+      if (!since.success) return badRequest(res, since.error);
+      res.json({ records: await syncStorage.listRecords(table, since.data) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post(`/api/${table}`, async (req, res, next) => {
+    try {
+      const body = pushSchema.safeParse(req.body);
+      if (!body.success) return badRequest(res, body.error);
+      res.json(await syncStorage.upsertRecords(table, body.data.records));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  // Optional LAN hub for front desk devices; see shared/sync.ts
+  app.use("/api", requireSyncKey);
+
+  app.get("/api/sync/status", async (_req, res, next) => {
+    try {
+      res.json(await syncStorage.getStatus());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/sync/changes", async (req, res, next) => {
+    try {
+      const query = z
+        .object({
+          since: revisionSchema,
+          limit: z.coerce
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_PULL_LIMIT)
+            .default(MAX_PULL_LIMIT),
+        })
+        .safeParse(req.query);
+      if (!query.success) return badRequest(res, query.error);
+      res.json(
+        await syncStorage.getChanges(query.data.since, query.data.limit),
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  for (const table of SYNC_TABLES) {
+    registerTableRoutes(app, table);
+  }
+
+  app.get("/api/prices", async (_req, res, next) => {
+    try {
+      const prices = await syncStorage.getPrices();
+      if (!prices) return res.status(404).json({ message: "No prices yet" });
+      res.json(prices);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/prices", async (req, res, next) => {
+    try {
+      const prices = syncPricesSchema.safeParse(req.body);
+      if (!prices.success) return badRequest(res, prices.error);
+      res.json(await syncStorage.setPrices(prices.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/photos/:uuid", async (req, res, next) => {
+    try {
+      const uuid = uuidSchema.safeParse(req.params.uuid);
+      if (!uuid.success) return badRequest(res, uuid.error);
+      const data = await syncStorage.getPhoto(uuid.data);
+      if (!data) return res.status(404).json({ message: "No photo" });
+      res.json({ data });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/photos/:uuid", async (req, res, next) => {
+    try {
+      const uuid = uuidSchema.safeParse(req.params.uuid);
+      if (!uuid.success) return badRequest(res, uuid.error);
+      const photo = syncPhotoSchema.safeParse(req.body);
+      if (!photo.success) return badRequest(res, photo.error);
+      await syncStorage.savePhoto(uuid.data, photo.data.data);
+      res.json({ ok: true });
+    } catch (error) {
+      next(error);
+    }
+  });
 
   const httpServer = createServer(app);
 
@@ -1,5 +1,16 @@
 import { type User, type InsertUser } from "@shared/schema";
+import {
+  SYNC_TABLES,
+  isNewerVersion,
+  type SyncChangesResponse,
+  type SyncPrices,
+  type SyncPushResponse,
+  type SyncStatusResponse,
+  type SyncTable,
+} from "@shared/sync";
 import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -36,3 +47,199 @@ export class MemStorage implements IStorage {
 }
 
 export const storage = new MemStorage();
+
+type StoredRecord = { uuid: string; updated_at: string; device_id: string };
+
+interface SyncEntry {
+  revision: number;
+  record: StoredRecord;
+}
+
+interface SyncData {
+  revision: number;
+  tables: Record<SyncTable, Record<string, SyncEntry>>;
+  prices: { revision: number; record: SyncPrices } | null;
+}
+
+export interface ISyncStorage {
+  getStatus(): Promise<SyncStatusResponse>;
+  listRecords(table: SyncTable, since: number): Promise<StoredRecord[]>;
+  upsertRecords(
+    table: SyncTable,
+    records: StoredRecord[],
+  ): Promise<SyncPushResponse>;
+  getChanges(since: number, limit: number): Promise<SyncChangesResponse>;
+  getPrices(): Promise<SyncPrices | null>;
+  setPrices(prices: SyncPrices): Promise<SyncPushResponse>;
+  getPhoto(uuid: string): Promise<string | null>;
+  savePhoto(uuid: string, data: string): Promise<void>;
+}
+
+/**
+ * The LAN hub's copy of every desk's records, kept as one JSON file plus a
+ * folder of member photos so the hub survives a restart of the laptop it
+ * runs on. Every stored change takes the next revision number, which is
+ * what devices pull from.
+ */
+export class FileSyncStorage implements ISyncStorage {
+  private data: SyncData | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private readonly dataFile: string;
+  private readonly photoDir: string;
+
+  constructor(private readonly dir: string) {
+    this.dataFile = path.join(dir, "sync-data.json");
+    this.photoDir = path.join(dir, "photos");
+  }
+
+  private async load(): Promise<SyncData> {
+    if (this.data) return this.data;
+    try {
+      this.data = JSON.parse(await fs.readFile(this.dataFile, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      this.data = { revision: 0, tables: {}, prices: null } as SyncData;
+    }
+    // Files from before a table was synced have no entry for it yet
+    for (const table of SYNC_TABLES) {
+      this.data!.tables[table] ??= {};
+    }
+    return this.data!;
+  }
+
+  // Writes go one at a time through a temporary file, so overlapping
+  // requests or a crash never leave half a file behind
+  private save(data: SyncData): Promise<void> {
+    const write = async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      const temp = `${this.dataFile}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(data));
+      await fs.rename(temp, this.dataFile);
+    };
+    this.writes = this.writes.then(write, write);
+    return this.writes;
+  }
+
+  async getStatus(): Promise<SyncStatusResponse> {
+    const data = await this.load();
+    return {
+      revision: data.revision,
+      counts: Object.fromEntries(
+        SYNC_TABLES.map((table) => [
+          table,
+          Object.keys(data.tables[table]).length,
+        ]),
+      ) as Record<SyncTable, number>,
+    };
+  }
+
+  async listRecords(table: SyncTable, since: number): Promise<StoredRecord[]> {
+    const data = await this.load();
+    return Object.values(data.tables[table])
+      .filter((entry) => entry.revision > since)
+      .sort((a, b) => a.revision - b.revision)
+      .map((entry) => entry.record);
+  }
+
+  async upsertRecords(
+    table: SyncTable,
+    records: StoredRecord[],
+  ): Promise<SyncPushResponse> {
+    const data = await this.load();
+    const stored = data.tables[table];
+    let accepted = 0;
+    let stale = 0;
+    for (const record of records) {
+      const current = stored[record.uuid];
+      if (current && !isNewerVersion(record, current.record)) {
+        // The same version sent twice is not a conflict
+        if (current.record.updated_at === record.updated_at) accepted++;
+        else stale++;
+        continue;
+      }
+      data.revision++;
+      stored[record.uuid] = { revision: data.revision, record };
+      accepted++;
+    }
+    await this.save(data);
+    return { revision: data.revision, accepted, stale };
+  }
+
+  async getChanges(since: number, limit: number): Promise<SyncChangesResponse> {
+    const data = await this.load();
+    const entries = SYNC_TABLES.flatMap((table) =>
+      Object.values(data.tables[table])
+        .filter((entry) => entry.revision > since)
+        .map((entry) => ({ table, ...entry })),
+    ).sort((a, b) => a.revision - b.revision);
+
+    const page = entries.slice(0, limit);
+    const hasMore = entries.length > limit;
+    const revision = hasMore ? page[page.length - 1].revision : data.revision;
+    // Prices ride along with the page whose revisions cover theirs
+    const prices =
+      data.prices &&
+      data.prices.revision > since &&
+      data.prices.revision <= revision
+        ? data.prices.record
+        : null;
+
+    const response: SyncChangesResponse = {
+      revision,
+      hasMore,
+      members: [],
+      attendance: [],
+      sales: [],
+      subscriptions: [],
+      freezes: [],
+      card_reissues: [],
+      prices,
+    };
+    for (const entry of page) {
+      (response[entry.table] as StoredRecord[]).push(entry.record);
+    }
+    return response;
+  }
+
+  async getPrices(): Promise<SyncPrices | null> {
+    const data = await this.load();
+    return data.prices?.record ?? null;
+  }
+
+  async setPrices(prices: SyncPrices): Promise<SyncPushResponse> {
+    const data = await this.load();
+    if (data.prices && !isNewerVersion(prices, data.prices.record)) {
+      const same = data.prices.record.updated_at === prices.updated_at;
+      return {
+        revision: data.revision,
+        accepted: same ? 1 : 0,
+        stale: same ? 0 : 1,
+      };
+    }
+    data.revision++;
+    data.prices = { revision: data.revision, record: prices };
+    await this.save(data);
+    return { revision: data.revision, accepted: 1, stale: 0 };
+  }
+
+  async getPhoto(uuid: string): Promise<string | null> {
+    try {
+      const bytes = await fs.readFile(path.join(this.photoDir, `${uuid}.jpg`));
+      return bytes.toString("base64");
+    } catch {
+      return null;
+    }
+  }
+
+  async savePhoto(uuid: string, data: string): Promise<void> {
+    await fs.mkdir(this.photoDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.photoDir, `${uuid}.jpg`),
+      Buffer.from(data, "base64"),
+    );
+  }
+}
+
+export const syncStorage = new FileSyncStorage(
+  process.env.SYNC_DATA_DIR || path.resolve(process.cwd(), "sync-data"),
+);
@@ -0,0 +1,270 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import express from "express";
+import { SYNC_KEY_HEADER, type SyncMember } from "@shared/sync";
+
+const DEVICE_A = "00000000-0000-4000-8000-00000000000a";
+const DEVICE_B = "00000000-0000-4000-8000-00000000000b";
+const SYNC_KEY = "front-desk-key";
+
+function member(overrides: Partial<SyncMember> = {}): SyncMember {
+  return {
+    uuid: randomUUID(),
+    created_at: "2026-01-01T08:00:00.000Z",
+    updated_at: "2026-01-01T08:00:00.000Z",
+    deleted_at: null,
+    device_id: DEVICE_A,
+    firstname: "Ana",
+    lastname: "Reyes",
+    age: 30,
+    gender: "female",
+    email: null,
+    phone: null,
+    qr_code: "GYM-0001",
+    card_issuer: null,
+    card_version: 1,
+    membership_type: "regular",
+    is_member: 1,
+    subscription_start: null,
+    subscription_end: null,
+    is_banned: 0,
+    ban_reason: null,
+    ...overrides,
+  };
+}
+
+async function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), "sync-hub-"));
+}
+
+let FileSyncStorage: typeof import("./storage").FileSyncStorage;
+let registerRoutes: typeof import("./routes").registerRoutes;
+let hubDir: string;
+
+// The routes keep their data in SYNC_DATA_DIR, which is read on import,
+// so both modules load only once it points at a temporary folder
+before(async () => {
+  hubDir = await tempDir();
+  process.env.SYNC_DATA_DIR = hubDir;
+  ({ FileSyncStorage } = await import("./storage"));
+  ({ registerRoutes } = await import("./routes"));
+});
+
+after(async () => {
+  await fs.rm(hubDir, { recursive: true, force: true });
+});
+
+describe("FileSyncStorage", () => {
+  let dir: string;
+  let storage: InstanceType<typeof FileSyncStorage>;
+
+  beforeEach(async () => {
+    dir = await tempDir();
+    storage = new FileSyncStorage(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns pushed records to a pull and only newer ones after that", async () => {
+    const first = member();
+    const pushed = await storage.upsertRecords("members", [first]);
+    assert.deepEqual(pushed, { revision: 1, accepted: 1, stale: 0 });
+
+    const changes = await storage.getChanges(0, 100);
+    assert.deepEqual(changes.members, [first]);
+    assert.equal(changes.revision, 1);
+    assert.equal(changes.hasMore, false);
+
+    const second = member({ qr_code: "GYM-0002" });
+    await storage.upsertRecords("members", [second]);
+    const next = await storage.getChanges(changes.revision, 100);
+    assert.deepEqual(next.members, [second]);
+    assert.equal(next.revision, 2);
+  });
+
+  it("pages through changes in revision order", async () => {
+    const records = [member(), member(), member()];
+    await storage.upsertRecords("members", records);
+
+    const page = await storage.getChanges(0, 2);
+    assert.deepEqual(page.members, records.slice(0, 2));
+    assert.equal(page.hasMore, true);
+    const rest = await storage.getChanges(page.revision, 2);
+    assert.deepEqual(rest.members, records.slice(2));
+    assert.equal(rest.hasMore, false);
+  });
+
+  it("keeps its data across a restart", async () => {
+    const record = member();
+    await storage.upsertRecords("members", [record]);
+
+    const reopened = new FileSyncStorage(dir);
+    assert.equal((await reopened.getStatus()).counts.members, 1);
+    assert.deepEqual((await reopened.getChanges(0, 100)).members, [record]);
+  });
+
+  it("keeps the copy with the later updated_at", async () => {
+    const original = member();
+    await storage.upsertRecords("members", [original]);
+
+    const newer = {
+      ...original,
+      device_id: DEVICE_B,
+      firstname: "Anna",
+      updated_at: "2026-01-02T08:00:00.000Z",
+    };
+    assert.deepEqual(await storage.upsertRecords("members", [newer]), {
+      revision: 2,
+      accepted: 1,
+      stale: 0,
+    });
+
+    const older = { ...original, firstname: "Annie" };
+    assert.deepEqual(await storage.upsertRecords("members", [older]), {
+      revision: 2,
+      accepted: 0,
+      stale: 1,
+    });
+    assert.deepEqual((await storage.getChanges(0, 100)).members, [newer]);
+  });
+
+  it("breaks an updated_at tie by device id", async () => {
+    const fromA = member({ device_id: DEVICE_A, firstname: "From A" });
+    const fromB = { ...fromA, device_id: DEVICE_B, firstname: "From B" };
+
+    await storage.upsertRecords("members", [fromB]);
+    const result = await storage.upsertRecords("members", [fromA]);
+    assert.equal(result.accepted, 1);
+    assert.equal(result.revision, 1);
+    assert.deepEqual((await storage.getChanges(0, 100)).members, [fromB]);
+
+    // The same winner whichever copy arrives first
+    const other = new FileSyncStorage(path.join(dir, "other"));
+    await other.upsertRecords("members", [fromA]);
+    await other.upsertRecords("members", [fromB]);
+    assert.deepEqual((await other.getChanges(0, 100)).members, [fromB]);
+  });
+
+  it("does not count the same version sent twice as a conflict", async () => {
+    const record = member();
+    await storage.upsertRecords("members", [record]);
+    assert.deepEqual(await storage.upsertRecords("members", [record]), {
+      revision: 1,
+      accepted: 1,
+      stale: 0,
+    });
+  });
+});
+
+describe("sync routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json({ limit: "10mb" }));
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    delete process.env.SYNC_KEY;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env.SYNC_KEY = SYNC_KEY;
+  });
+
+  const request = (
+    method: string,
+    route: string,
+    { key = SYNC_KEY, body }: { key?: string | null; body?: unknown } = {},
+  ) =>
+    fetch(`${baseUrl}${route}`, {
+      method,
+      headers: {
+        "content-type": "application/json",
+        ...(key !== null ? { [SYNC_KEY_HEADER]: key } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it("rejects requests without the sync key", async () => {
+    const res = await request("GET", "/api/sync/status", { key: null });
+    assert.equal(res.status, 401);
+  });
+
+  it("rejects requests with the wrong sync key", async () => {
+    const res = await request("POST", "/api/members", {
+      key: "not-the-key",
+      body: { records: [member()] },
+    });
+    assert.equal(res.status, 401);
+
+    const status = await request("GET", "/api/sync/status");
+    assert.equal((await status.json()).counts.members, 0);
+  });
+
+  it("stays off while no sync key is set", async () => {
+    delete process.env.SYNC_KEY;
+    const res = await request("GET", "/api/sync/status");
+    assert.equal(res.status, 503);
+  });
+
+  it("pushes records and pulls them back", async () => {
+    const record = member();
+    const push = await request("POST", "/api/members", {
+      body: { records: [record] },
+    });
+    assert.equal(push.status, 200);
+    assert.deepEqual(await push.json(), {
+      revision: 1,
+      accepted: 1,
+      stale: 0,
+    });
+
+    const pull = await request("GET", "/api/sync/changes?since=0");
+    assert.equal(pull.status, 200);
+    const changes = await pull.json();
+    assert.deepEqual(changes.members, [record]);
+    assert.equal(changes.revision, 1);
+
+    const none = await request("GET", `/api/sync/changes?since=1`);
+    assert.deepEqual((await none.json()).members, []);
+  });
+
+  it("reports a stale push as a conflict", async () => {
+    const record = member({ updated_at: "2026-03-01T08:00:00.000Z" });
+    await request("POST", "/api/members", { body: { records: [record] } });
+
+    const push = await request("POST", "/api/members", {
+      body: {
+        records: [
+          {
+            ...record,
+            device_id: DEVICE_B,
+            updated_at: "2026-02-01T08:00:00.000Z",
+          },
+        ],
+      },
+    });
+    assert.equal((await push.json()).stale, 1);
+  });
+
+  it("rejects records that do not match the wire format", async () => {
+    const res = await request("POST", "/api/members", {
+      body: { records: [{ ...member(), uuid: "not-a-uuid" }] },
+    });
+    assert.equal(res.status, 400);
+  });
+});
@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+/**
+ * Wire format between front desk devices and the LAN sync hub. Records are
+ * identified by a UUID rather than the device's own row id, and links
+ * between records (a visit's member, a correction's original sale) travel
+ * as UUIDs too. Staff and shift ids are local to each desk and are not
+ * sent. Plans are set up on each desk, so a subscription's plan only
+ * carries over where that plan exists too. Card reissues carry the code
+ * of the card they replaced, since a card signed on one desk cannot be
+ * checked on another.
+ *
+ * Conflicts are settled per record: the version with the later
+ * `updated_at` wins, and the device id breaks an exact tie so every
+ * device and the hub pick the same winner.
+ */
+export const SYNC_TABLES = [
+  "members",
+  "attendance",
+  "sales",
+  "subscriptions",
+  "freezes",
+  "card_reissues",
+] as const;
+export type SyncTable = (typeof SYNC_TABLES)[number];
+
+/** Header carrying the hub's shared key. */
+export const SYNC_KEY_HEADER = "x-sync-key";
+
+/** Records per push request, so photos and large backlogs stay in bounds. */
+export const SYNC_BATCH_SIZE = 200;
+
+const uuid = z.string().uuid();
+const timestamp = z.string().datetime();
+
+const stamp = {
+  uuid,
+  created_at: timestamp,
+  updated_at: timestamp,
+  /** Set once the record is deleted; deletes sync like any other change. */
+  deleted_at: timestamp.nullable(),
+  device_id: uuid,
+};
+
+export const syncMemberSchema = z.object({
+  ...stamp,
+  firstname: z.string(),
+  lastname: z.string(),
+  age: z.number().int(),
+  gender: z.string(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  qr_code: z.string(),
+  /** Device that signed the current card; null for cards from before sync. */
+  card_issuer: z.string().nullable(),
+  card_version: z.number().int(),
+  membership_type: z.string(),
+  is_member: z.number().int(),
+  subscription_start: z.string().nullable(),
+  subscription_end: z.string().nullable(),
+  is_banned: z.number().int(),
+  ban_reason: z.string().nullable(),
+});
+
+export const syncAttendanceSchema = z.object({
+  ...stamp,
+  member_uuid: uuid,
+  date: z.string(),
+  time: z.string(),
+  check_out_time: z.string().nullable(),
+  auto_checked_out: z.number().int(),
+  entry_method: z.string(),
+});
+
+export const syncSaleSchema = z.object({
+  ...stamp,
+  type: z.string(),
+  amount: z.number(),
+  date: z.string(),
+  note: z.string().nullable(),
+  payment_method: z.string(),
+  reference_number: z.string().nullable(),
+  payment_group_uuid: uuid.nullable(),
+  reverses_sale_uuid: uuid.nullable(),
+  correction_type: z.string().nullable(),
+  correction_reason: z.string().nullable(),
+});
+
+export const syncSubscriptionSchema = z.object({
+  ...stamp,
+  member_uuid: uuid,
+  plan_uuid: uuid.nullable(),
+  start_date: z.string(),
+  end_date: z.string(),
+  amount_paid: z.number(),
+  sale_uuid: uuid.nullable(),
+});
+
+export const syncFreezeSchema = z.object({
+  ...stamp,
+  member_uuid: uuid,
+  start_date: z.string(),
+  end_date: z.string().nullable(),
+  reason: z.string(),
+  fee: z.number(),
+  sale_uuid: uuid.nullable(),
+  unfrozen_at: z.string().nullable(),
+  frozen_days: z.number().int(),
+});
+
+export const syncCardReissueSchema = z.object({
+  ...stamp,
+  member_uuid: uuid,
+  card_version: z.number().int(),
+  reason: z.string(),
+  fee: z.number(),
+  sale_uuid: uuid.nullable(),
+  replaced_qr_code: z.string().nullable(),
+});
+
+export const syncPricesSchema = z.object({
+  updated_at: timestamp,
+  device_id: uuid,
+  membership: z.number(),
+  session_member: z.number(),
+  session_nonmember: z.number(),
+  session_member_senior: z.number(),
+  session_nonmember_senior: z.number(),
+});
+
+export const syncPhotoSchema = z.object({
+  /** Base64 JPEG. */
+  data: z.string().min(1),
+});
+
+export const SYNC_RECORD_SCHEMAS = {
+  members: syncMemberSchema,
+  attendance: syncAttendanceSchema,
+  sales: syncSaleSchema,
+  subscriptions: syncSubscriptionSchema,
+  freezes: syncFreezeSchema,
+  card_reissues: syncCardReissueSchema,
+} as const;
+
+export type SyncMember = z.infer<typeof syncMemberSchema>;
+export type SyncAttendance = z.infer<typeof syncAttendanceSchema>;
+export type SyncSale = z.infer<typeof syncSaleSchema>;
+export type SyncSubscription = z.infer<typeof syncSubscriptionSchema>;
+export type SyncFreeze = z.infer<typeof syncFreezeSchema>;
+export type SyncCardReissue = z.infer<typeof syncCardReissueSchema>;
+export type SyncPrices = z.infer<typeof syncPricesSchema>;
+
+export interface SyncRecords {
+  members: SyncMember[];
+  attendance: SyncAttendance[];
+  sales: SyncSale[];
+  subscriptions: SyncSubscription[];
+  freezes: SyncFreeze[];
+  card_reissues: SyncCardReissue[];
+}
+
+export interface SyncPushResponse {
+  revision: number;
+  /** Records stored, including ones identical to what the hub had. */
+  accepted: number;
+  /** Records older than the hub's copy, which wins. */
+  stale: number;
+}
+
+export interface SyncChangesResponse extends SyncRecords {
+  /** Pass back as `since` to continue from here. */
+  revision: number;
+  hasMore: boolean;
+  prices: SyncPrices | null;
+}
+
+export interface SyncStatusResponse {
+  revision: number;
+  counts: Record<SyncTable, number>;
+}
+
+type Versioned = { updated_at: string; device_id: string };
+
+/** Whether `incoming` should replace `current` under last-writer-wins. */
+export function isNewerVersion(
+  incoming: Versioned,
+  current: Versioned,
+): boolean {
+  if (incoming.updated_at !== current.updated_at) {
+    return incoming.updated_at > current.updated_at;
+  }
+  return incoming.device_id > current.device_id;
+}